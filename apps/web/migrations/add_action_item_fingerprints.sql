@@ -0,0 +1,27 @@
+-- Action item fingerprints: one task or reminder per item per memo
+-- Run this in your Supabase SQL Editor
+
+-- A fingerprint is the item's title reduced to its sorted content words
+-- ("deck send sarah"). It's set by the pipeline; rows saved before this
+-- migration get one the next time their memo is processed. NULLs never
+-- conflict, so manual items and nudges are unaffected.
+
+-- =============================================
+-- TASKS
+-- =============================================
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS fingerprint TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_memo_fingerprint
+  ON tasks(memo_id, fingerprint);
+
+-- =============================================
+-- REMINDERS
+-- =============================================
+
+ALTER TABLE reminders
+ADD COLUMN IF NOT EXISTS fingerprint TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reminders_memo_fingerprint
+  ON reminders(memo_id, fingerprint);
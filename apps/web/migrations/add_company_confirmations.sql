@@ -0,0 +1,37 @@
+-- Detected companies that could be one of several existing companies
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- COMPANY CONFIRMATIONS
+-- =============================================
+
+-- Instead of guessing (and creating a duplicate when the guess is "new"),
+-- the pipeline leaves the memo unlinked and asks the user which company
+-- was meant
+CREATE TABLE IF NOT EXISTS company_confirmations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  memo_id UUID NOT NULL REFERENCES memos(id) ON DELETE CASCADE,
+  detected_name TEXT NOT NULL,
+  -- Role the company plays in the meeting, as in memo_companies
+  role TEXT NOT NULL DEFAULT 'primary' CHECK (role IN ('primary', 'discussed', 'competitor', 'co_investor')),
+  snippet TEXT,
+  website TEXT,
+  -- [{ "id": "...", "name": "Acme", "confidence": 0.86 }], best first
+  candidates JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'dismissed')),
+  company_id UUID REFERENCES companies(id) ON DELETE SET NULL, -- The company picked
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_confirmations_pending ON company_confirmations(user_id, created_at DESC) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_company_confirmations_memo_id ON company_confirmations(memo_id);
+
+ALTER TABLE company_confirmations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own company confirmations" ON company_confirmations
+  FOR SELECT USING (auth.uid() = user_id);
+
+GRANT SELECT ON company_confirmations TO authenticated;
+GRANT ALL ON company_confirmations TO service_role;
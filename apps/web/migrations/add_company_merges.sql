@@ -0,0 +1,236 @@
+-- History of merged duplicate companies, kept so a merge can be undone
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- COMPANY MERGES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS company_merges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The surviving company; history outlives it so later undos still work
+  company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+  -- Survivor's merged fields as they were before the merge
+  company_before JSONB NOT NULL DEFAULT '{}',
+  -- Full rows of the companies merged away (deleted), restored on undo
+  merged_companies JSONB NOT NULL DEFAULT '[]',
+  -- [{ "table": "tasks", "id": "...", "company_id": "<original company>" }]
+  moved_rows JSONB NOT NULL DEFAULT '[]',
+  -- memo_companies rows of every memo the merge touched, as they were
+  memo_companies_before JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  undone_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_merges_user_id ON company_merges(user_id, created_at DESC);
+
+ALTER TABLE company_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own company merges" ON company_merges
+  FOR SELECT USING (auth.uid() = user_id);
+
+GRANT SELECT ON company_merges TO authenticated;
+GRANT ALL ON company_merges TO service_role;
+
+-- =============================================
+-- MERGE AND UNDO
+-- =============================================
+
+-- Tables whose rows belong to a company through company_id
+CREATE OR REPLACE FUNCTION company_merge_tables()
+RETURNS TEXT[] AS $$
+  SELECT ARRAY['memos', 'tasks', 'reminders', 'contacts', 'company_confirmations', 'company_metrics']
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Merge p_duplicate_ids into p_company_id in one transaction: re-point
+-- every row, fold memo_companies links, offer the survivor in open
+-- confirmations, delete the duplicates and apply p_updates (the merged
+-- field values) to the survivor. Returns the company_merges ID.
+CREATE OR REPLACE FUNCTION merge_companies(
+  p_user_id UUID,
+  p_company_id UUID,
+  p_duplicate_ids UUID[],
+  p_updates JSONB,
+  p_company_before JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_survivor companies%ROWTYPE;
+  v_merged JSONB;
+  v_moved JSONB := '[]';
+  v_rows JSONB;
+  v_links_before JSONB;
+  v_table TEXT;
+  v_link memo_companies%ROWTYPE;
+  v_existing memo_companies%ROWTYPE;
+  v_merge_id UUID;
+BEGIN
+  SELECT * INTO v_survivor FROM companies
+  WHERE id = p_company_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Company not found';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(c)), '[]') INTO v_merged
+  FROM (
+    SELECT * FROM companies
+    WHERE id = ANY(p_duplicate_ids) AND id <> p_company_id AND user_id = p_user_id
+    FOR UPDATE
+  ) c;
+
+  IF jsonb_array_length(v_merged) = 0 OR jsonb_array_length(v_merged) <> cardinality(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'Company not found';
+  END IF;
+
+  -- memo_companies rows of every memo linked to a duplicate, as they were
+  SELECT COALESCE(jsonb_agg(to_jsonb(mc)), '[]') INTO v_links_before
+  FROM memo_companies mc
+  WHERE (mc.company_id = p_company_id OR mc.company_id = ANY(p_duplicate_ids))
+    AND mc.memo_id IN (SELECT memo_id FROM memo_companies WHERE company_id = ANY(p_duplicate_ids));
+
+  FOREACH v_table IN ARRAY company_merge_tables() LOOP
+    EXECUTE format(
+      'SELECT COALESCE(jsonb_agg(jsonb_build_object(''table'', %L, ''id'', id, ''company_id'', company_id)), ''[]'')
+       FROM %I WHERE user_id = $1 AND company_id = ANY($2)',
+      v_table, v_table
+    ) INTO v_rows USING p_user_id, p_duplicate_ids;
+    v_moved := v_moved || v_rows;
+
+    EXECUTE format('UPDATE %I SET company_id = $1 WHERE user_id = $2 AND company_id = ANY($3)', v_table)
+    USING p_company_id, p_user_id, p_duplicate_ids;
+  END LOOP;
+
+  -- A memo linked to both keeps one link, as its subject if either was
+  FOR v_link IN
+    SELECT * FROM memo_companies WHERE company_id = ANY(p_duplicate_ids) ORDER BY created_at
+  LOOP
+    SELECT * INTO v_existing FROM memo_companies
+    WHERE memo_id = v_link.memo_id AND company_id = p_company_id;
+
+    IF NOT FOUND THEN
+      UPDATE memo_companies SET company_id = p_company_id WHERE id = v_link.id;
+    ELSE
+      IF v_link.role = 'primary' AND v_existing.role <> 'primary' THEN
+        UPDATE memo_companies
+        SET role = 'primary', snippet = COALESCE(NULLIF(v_link.snippet, ''), v_existing.snippet)
+        WHERE id = v_existing.id;
+      END IF;
+      DELETE FROM memo_companies WHERE id = v_link.id;
+    END IF;
+  END LOOP;
+
+  -- Open "confirm company" questions offer the survivor instead
+  UPDATE company_confirmations cc
+  SET candidates = (
+    SELECT COALESCE(jsonb_agg(deduped.candidate ORDER BY deduped.position), '[]')
+    FROM (
+      SELECT DISTINCT ON (mapped.candidate->>'id') mapped.candidate, mapped.position
+      FROM (
+        SELECT
+          CASE WHEN c.value->>'id' = ANY(p_duplicate_ids::TEXT[])
+            THEN c.value || jsonb_build_object('id', p_company_id, 'name', COALESCE(p_updates->>'name', v_survivor.name))
+            ELSE c.value
+          END AS candidate,
+          c.ordinality AS position
+        FROM jsonb_array_elements(cc.candidates) WITH ORDINALITY c
+      ) mapped
+      ORDER BY mapped.candidate->>'id', mapped.position
+    ) deduped
+  )
+  WHERE cc.user_id = p_user_id
+    AND cc.status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(cc.candidates) c
+      WHERE c.value->>'id' = ANY(p_duplicate_ids::TEXT[])
+    );
+
+  -- Duplicates go before the survivor takes their values: a website is
+  -- unique per user
+  DELETE FROM companies WHERE user_id = p_user_id AND id = ANY(p_duplicate_ids);
+
+  IF p_updates <> '{}' THEN
+    UPDATE companies c
+    SET name = r.name, website = r.website, industry = r.industry, stage = r.stage,
+        status = r.status, notes = r.notes, founders = r.founders
+    FROM jsonb_populate_record(NULL::companies, to_jsonb(v_survivor) || p_updates) r
+    WHERE c.id = p_company_id;
+  END IF;
+
+  INSERT INTO company_merges (user_id, company_id, company_before, merged_companies, moved_rows, memo_companies_before)
+  VALUES (p_user_id, p_company_id, p_company_before, v_merged, v_moved, v_links_before)
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- Undo a merge in one transaction: restore the survivor's fields (if it
+-- still exists) and the merged companies, point every moved row back and
+-- put the memo_companies links back as they were
+CREATE OR REPLACE FUNCTION undo_company_merge(p_user_id UUID, p_merge_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_merge company_merges%ROWTYPE;
+  v_survivor companies%ROWTYPE;
+  v_merged_ids UUID[];
+  v_table TEXT;
+BEGIN
+  SELECT * INTO v_merge FROM company_merges
+  WHERE id = p_merge_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+  IF v_merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge was already undone';
+  END IF;
+
+  SELECT COALESCE(array_agg((c->>'id')::UUID), '{}') INTO v_merged_ids
+  FROM jsonb_array_elements(v_merge.merged_companies) c;
+
+  -- The survivor gives its merged values back first, for the same
+  -- unique-website reason as in the merge
+  SELECT * INTO v_survivor FROM companies WHERE id = v_merge.company_id FOR UPDATE;
+  IF FOUND AND v_merge.company_before <> '{}' THEN
+    UPDATE companies c
+    SET name = r.name, website = r.website, industry = r.industry, stage = r.stage,
+        status = r.status, notes = r.notes, founders = r.founders
+    FROM jsonb_populate_record(NULL::companies, to_jsonb(v_survivor) || v_merge.company_before) r
+    WHERE c.id = v_merge.company_id;
+  END IF;
+
+  INSERT INTO companies
+  SELECT * FROM jsonb_populate_recordset(NULL::companies, v_merge.merged_companies);
+
+  FOREACH v_table IN ARRAY company_merge_tables() LOOP
+    EXECUTE format(
+      'UPDATE %I t SET company_id = m.company_id
+       FROM jsonb_to_recordset($1) AS m("table" TEXT, id UUID, company_id UUID)
+       WHERE m."table" = %L AND t.id = m.id AND t.user_id = $2',
+      v_table, v_table
+    ) USING v_merge.moved_rows, p_user_id;
+  END LOOP;
+
+  IF jsonb_array_length(v_merge.memo_companies_before) > 0 THEN
+    DELETE FROM memo_companies
+    WHERE memo_id IN (SELECT (l->>'memo_id')::UUID FROM jsonb_array_elements(v_merge.memo_companies_before) l)
+      AND (company_id = v_merge.company_id OR company_id = ANY(v_merged_ids));
+
+    -- Links to a survivor deleted since can't come back
+    INSERT INTO memo_companies
+    SELECT l.* FROM jsonb_populate_recordset(NULL::memo_companies, v_merge.memo_companies_before) l
+    WHERE EXISTS (SELECT 1 FROM companies WHERE id = l.company_id);
+  END IF;
+
+  UPDATE company_merges SET undone_at = NOW() WHERE id = p_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- Called by the server with the service role only; they take the user ID
+REVOKE ALL ON FUNCTION merge_companies(UUID, UUID, UUID[], JSONB, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION undo_company_merge(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_companies(UUID, UUID, UUID[], JSONB, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION undo_company_merge(UUID, UUID) TO service_role;
@@ -0,0 +1,51 @@
+-- Deal metrics said in meetings, as a time series per company
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- COMPANY METRICS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS company_metrics (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  memo_id UUID NOT NULL REFERENCES memos(id) ON DELETE CASCADE,
+  metric TEXT NOT NULL CHECK (metric IN (
+    'arr', 'mrr', 'revenue_growth', 'burn', 'runway', 'headcount', 'raise_amount', 'valuation'
+  )),
+  value NUMERIC NOT NULL,
+  -- 'usd' (and other ISO currency codes, lowercase), 'percent', 'months', 'people'
+  unit TEXT NOT NULL,
+  -- For growth rates: 'mom', 'qoq' or 'yoy'
+  period TEXT,
+  -- The date the figure describes; the meeting date unless another was said
+  as_of DATE NOT NULL,
+  -- Citation: the words the figure was taken from
+  quote TEXT,
+  speaker TEXT,
+  utterance_index INT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One figure per metric, growth period and date in a memo ("40% MoM" and
+-- "300% YoY" are both kept). A figure without a period counts as one period
+-- (NULLS NOT DISTINCT, Postgres 15+). Replaces the constraint without period.
+ALTER TABLE company_metrics DROP CONSTRAINT IF EXISTS company_metrics_memo_id_company_id_metric_as_of_key;
+ALTER TABLE company_metrics DROP CONSTRAINT IF EXISTS company_metrics_figure_key;
+ALTER TABLE company_metrics
+ADD CONSTRAINT company_metrics_figure_key
+UNIQUE NULLS NOT DISTINCT (memo_id, company_id, metric, period, as_of);
+
+CREATE INDEX IF NOT EXISTS idx_company_metrics_company ON company_metrics(company_id, metric, as_of);
+CREATE INDEX IF NOT EXISTS idx_company_metrics_user_id ON company_metrics(user_id);
+
+ALTER TABLE company_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own company metrics" ON company_metrics
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own company metrics" ON company_metrics
+  FOR DELETE USING (auth.uid() = user_id);
+
+GRANT SELECT, DELETE ON company_metrics TO authenticated;
+GRANT ALL ON company_metrics TO service_role;
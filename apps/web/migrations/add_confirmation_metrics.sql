@@ -0,0 +1,13 @@
+-- Metric figures held for a company the user still has to confirm
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- COMPANY CONFIRMATIONS
+-- =============================================
+
+-- Figures said about a company that is waiting on a confirmation have no
+-- company to be saved against yet. They are kept here, as company_metrics
+-- rows without company_id, and saved once the user picks the company:
+-- [{ "metric": "arr", "value": 1200000, "unit": "usd", "as_of": "2025-03-12", ... }]
+ALTER TABLE company_confirmations
+ADD COLUMN IF NOT EXISTS metrics JSONB NOT NULL DEFAULT '[]';
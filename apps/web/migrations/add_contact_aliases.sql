@@ -0,0 +1,80 @@
+-- Contact identity: the names, emails and handles a person goes by, and
+-- the people the pipeline couldn't place with confidence
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- CONTACT ALIASES
+-- =============================================
+
+-- Every variant a contact has been seen under ("Shane", "Shane Miller",
+-- "shane@acme.com", a LinkedIn handle). Different contacts may share a
+-- name alias; the resolver scores them apart.
+CREATE TABLE IF NOT EXISTS contact_aliases (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('name', 'email', 'handle')),
+  value TEXT NOT NULL,
+  -- Lowercased, whitespace collapsed; what lookups compare
+  normalized TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'pipeline' CHECK (source IN ('pipeline', 'manual', 'review', 'merge')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(contact_id, kind, normalized)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_aliases_lookup ON contact_aliases(user_id, kind, normalized);
+
+ALTER TABLE contact_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own contact aliases" ON contact_aliases
+  FOR SELECT USING (auth.uid() = user_id);
+
+GRANT SELECT ON contact_aliases TO authenticated;
+GRANT ALL ON contact_aliases TO service_role;
+
+-- Seed aliases from the contacts that already exist
+INSERT INTO contact_aliases (user_id, contact_id, kind, value, normalized, source)
+SELECT user_id, id, 'name', name, lower(regexp_replace(trim(name), '\s+', ' ', 'g')), 'pipeline'
+FROM contacts
+WHERE trim(name) <> ''
+ON CONFLICT DO NOTHING;
+
+INSERT INTO contact_aliases (user_id, contact_id, kind, value, normalized, source)
+SELECT user_id, id, 'email', email, lower(trim(email)), 'pipeline'
+FROM contacts
+WHERE email IS NOT NULL AND trim(email) <> ''
+ON CONFLICT DO NOTHING;
+
+-- =============================================
+-- CONTACT CONFIRMATIONS
+-- =============================================
+
+-- A person from a meeting who could be one of several contacts (two
+-- "Shane"s, or a first name only). Rather than guess, the pipeline holds
+-- what it extracted and asks the user who was meant.
+CREATE TABLE IF NOT EXISTS contact_confirmations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  memo_id UUID NOT NULL REFERENCES memos(id) ON DELETE CASCADE,
+  detected_name TEXT NOT NULL,
+  -- The person as extracted (email, title, notes, meeting context), applied
+  -- to whichever contact is picked
+  extracted JSONB NOT NULL DEFAULT '{}',
+  -- [{ "id": "...", "name": "Shane Miller", "score": 0.65, "reasons": ["same company"] }], best first
+  candidates JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'dismissed')),
+  contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL, -- The contact picked or created
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  UNIQUE(memo_id, detected_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_confirmations_pending ON contact_confirmations(user_id, created_at DESC) WHERE status = 'pending';
+
+ALTER TABLE contact_confirmations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own contact confirmations" ON contact_confirmations
+  FOR SELECT USING (auth.uid() = user_id);
+
+GRANT SELECT ON contact_confirmations TO authenticated;
+GRANT ALL ON contact_confirmations TO service_role;
@@ -0,0 +1,299 @@
+-- History of merged duplicate contacts, kept so a merge can be undone
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- CONTACT MERGES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS contact_merges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The surviving contact; history outlives it so later undos still work
+  contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+  -- Survivor's merged fields (including notes) as they were before the merge
+  contact_before JSONB NOT NULL DEFAULT '{}',
+  -- Full rows of the contacts merged away (deleted), restored on undo
+  merged_contacts JSONB NOT NULL DEFAULT '[]',
+  -- [{ "table": "reminders", "id": "...", "contact_id": "<original contact>" }]
+  moved_rows JSONB NOT NULL DEFAULT '[]',
+  -- contact_memos rows of every memo the merge touched, as they were
+  contact_memos_before JSONB NOT NULL DEFAULT '[]',
+  -- The merged contacts' contact_aliases rows, and the aliases the survivor gained
+  aliases_before JSONB NOT NULL DEFAULT '[]',
+  added_alias_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  undone_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_merges_user_id ON contact_merges(user_id, created_at DESC);
+
+ALTER TABLE contact_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own contact merges" ON contact_merges
+  FOR SELECT USING (auth.uid() = user_id);
+
+GRANT SELECT ON contact_merges TO authenticated;
+GRANT ALL ON contact_merges TO service_role;
+
+-- =============================================
+-- MERGE AND UNDO
+-- =============================================
+
+-- Union of two contact_memos contexts: lists combined, p_keep's single
+-- values kept unless blank
+CREATE OR REPLACE FUNCTION merge_meeting_context(p_keep JSONB, p_other JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(p_other, '{}') || COALESCE(p_keep, '{}') || COALESCE((
+    SELECT jsonb_object_agg(
+      o.key,
+      CASE WHEN jsonb_typeof(o.value) = 'array' AND jsonb_typeof(p_keep->o.key) = 'array' THEN (
+        SELECT COALESCE(jsonb_agg(u.value ORDER BY u.source, u.position), '[]')
+        FROM (
+          SELECT DISTINCT ON (e.value) e.value, e.source, e.position
+          FROM (
+            SELECT k.value, 0 AS source, k.ordinality AS position
+            FROM jsonb_array_elements(p_keep->o.key) WITH ORDINALITY k
+            UNION ALL
+            SELECT v.value, 1, v.ordinality
+            FROM jsonb_array_elements(o.value) WITH ORDINALITY v
+          ) e
+          ORDER BY e.value, e.source, e.position
+        ) u
+      )
+      ELSE o.value END
+    )
+    FROM jsonb_each(COALESCE(p_other, '{}')) o
+    WHERE (jsonb_typeof(o.value) = 'array' AND jsonb_typeof(p_keep->o.key) = 'array')
+      OR p_keep->o.key IS NULL
+      OR p_keep->o.key IN ('null'::JSONB, '""'::JSONB)
+  ), '{}')
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Merge p_duplicate_ids into p_contact_id in one transaction: re-point
+-- reminders and confirmations, fold contact_memos links, give the survivor
+-- the duplicates' aliases, offer it in open confirmations, delete the
+-- duplicates and apply p_updates (the merged field values) to the
+-- survivor. Returns the contact_merges ID.
+CREATE OR REPLACE FUNCTION merge_contacts(
+  p_user_id UUID,
+  p_contact_id UUID,
+  p_duplicate_ids UUID[],
+  p_updates JSONB,
+  p_contact_before JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_survivor contacts%ROWTYPE;
+  v_merged JSONB;
+  v_moved JSONB := '[]';
+  v_rows JSONB;
+  v_links_before JSONB;
+  v_aliases_before JSONB;
+  v_added_alias_ids UUID[];
+  v_table TEXT;
+  v_link contact_memos%ROWTYPE;
+  v_existing contact_memos%ROWTYPE;
+  v_merge_id UUID;
+BEGIN
+  SELECT * INTO v_survivor FROM contacts
+  WHERE id = p_contact_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(c)), '[]') INTO v_merged
+  FROM (
+    SELECT * FROM contacts
+    WHERE id = ANY(p_duplicate_ids) AND id <> p_contact_id AND user_id = p_user_id
+    FOR UPDATE
+  ) c;
+
+  IF jsonb_array_length(v_merged) = 0 OR jsonb_array_length(v_merged) <> cardinality(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  -- contact_memos rows of every memo linked to a duplicate, as they were
+  SELECT COALESCE(jsonb_agg(to_jsonb(cm)), '[]') INTO v_links_before
+  FROM contact_memos cm
+  WHERE (cm.contact_id = p_contact_id OR cm.contact_id = ANY(p_duplicate_ids))
+    AND cm.memo_id IN (SELECT memo_id FROM contact_memos WHERE contact_id = ANY(p_duplicate_ids));
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(a)), '[]') INTO v_aliases_before
+  FROM contact_aliases a
+  WHERE a.contact_id = ANY(p_duplicate_ids);
+
+  FOREACH v_table IN ARRAY ARRAY['reminders', 'contact_confirmations'] LOOP
+    EXECUTE format(
+      'SELECT COALESCE(jsonb_agg(jsonb_build_object(''table'', %L, ''id'', id, ''contact_id'', contact_id)), ''[]'')
+       FROM %I WHERE user_id = $1 AND contact_id = ANY($2)',
+      v_table, v_table
+    ) INTO v_rows USING p_user_id, p_duplicate_ids;
+    v_moved := v_moved || v_rows;
+
+    EXECUTE format('UPDATE %I SET contact_id = $1 WHERE user_id = $2 AND contact_id = ANY($3)', v_table)
+    USING p_contact_id, p_user_id, p_duplicate_ids;
+  END LOOP;
+
+  -- A memo linked to both keeps one link (contact_memos is unique per
+  -- contact and memo), with the meeting context of both
+  FOR v_link IN
+    SELECT * FROM contact_memos WHERE contact_id = ANY(p_duplicate_ids) ORDER BY created_at
+  LOOP
+    SELECT * INTO v_existing FROM contact_memos
+    WHERE memo_id = v_link.memo_id AND contact_id = p_contact_id;
+
+    IF NOT FOUND THEN
+      UPDATE contact_memos SET contact_id = p_contact_id WHERE id = v_link.id;
+    ELSE
+      UPDATE contact_memos
+      SET context = merge_meeting_context(v_existing.context, v_link.context)
+      WHERE id = v_existing.id;
+      DELETE FROM contact_memos WHERE id = v_link.id;
+    END IF;
+  END LOOP;
+
+  -- The survivor answers to every name, email and handle the duplicates did
+  WITH added AS (
+    INSERT INTO contact_aliases (user_id, contact_id, kind, value, normalized, source)
+    SELECT p_user_id, p_contact_id, a.kind, a.value, a.normalized, 'merge'
+    FROM (
+      SELECT kind, value, normalized FROM contact_aliases WHERE contact_id = ANY(p_duplicate_ids)
+      UNION ALL
+      SELECT 'name', name, lower(regexp_replace(btrim(name), '\s+', ' ', 'g'))
+      FROM contacts WHERE id = ANY(p_duplicate_ids)
+      UNION ALL
+      SELECT 'email', email, lower(regexp_replace(btrim(email), '\s+', ' ', 'g'))
+      FROM contacts WHERE id = ANY(p_duplicate_ids) AND COALESCE(email, '') <> ''
+    ) a
+    ON CONFLICT (contact_id, kind, normalized) DO NOTHING
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_added_alias_ids FROM added;
+
+  -- Open "who was this?" questions offer the survivor instead
+  UPDATE contact_confirmations cc
+  SET candidates = (
+    SELECT COALESCE(jsonb_agg(deduped.candidate ORDER BY deduped.position), '[]')
+    FROM (
+      SELECT DISTINCT ON (mapped.candidate->>'id') mapped.candidate, mapped.position
+      FROM (
+        SELECT
+          CASE WHEN c.value->>'id' = ANY(p_duplicate_ids::TEXT[])
+            THEN c.value || jsonb_build_object('id', p_contact_id, 'name', COALESCE(p_updates->>'name', v_survivor.name))
+            ELSE c.value
+          END AS candidate,
+          c.ordinality AS position
+        FROM jsonb_array_elements(cc.candidates) WITH ORDINALITY c
+      ) mapped
+      ORDER BY mapped.candidate->>'id', mapped.position
+    ) deduped
+  )
+  WHERE cc.user_id = p_user_id
+    AND cc.status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(cc.candidates) c
+      WHERE c.value->>'id' = ANY(p_duplicate_ids::TEXT[])
+    );
+
+  DELETE FROM contacts WHERE user_id = p_user_id AND id = ANY(p_duplicate_ids);
+
+  -- Moving links doesn't fire the meeting-count trigger
+  UPDATE contacts c
+  SET name = r.name, email = r.email, title = r.title, phone = r.phone,
+      linkedin_url = r.linkedin_url, company_id = r.company_id,
+      relationship_type = r.relationship_type, notes = r.notes,
+      first_met_date = r.first_met_date, last_met_date = r.last_met_date,
+      meeting_count = (SELECT COUNT(*) FROM contact_memos WHERE contact_id = p_contact_id)
+  FROM jsonb_populate_record(NULL::contacts, to_jsonb(v_survivor) || p_updates) r
+  WHERE c.id = p_contact_id;
+
+  INSERT INTO contact_merges (
+    user_id, contact_id, contact_before, merged_contacts, moved_rows,
+    contact_memos_before, aliases_before, added_alias_ids
+  )
+  VALUES (
+    p_user_id, p_contact_id, p_contact_before, v_merged, v_moved,
+    v_links_before, v_aliases_before, v_added_alias_ids
+  )
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- Undo a merge in one transaction: restore the survivor's fields (if it
+-- still exists) and the merged contacts, point every moved row back and
+-- put the links and aliases back as they were
+CREATE OR REPLACE FUNCTION undo_contact_merge(p_user_id UUID, p_merge_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_merge contact_merges%ROWTYPE;
+  v_survivor contacts%ROWTYPE;
+  v_merged_ids UUID[];
+  v_table TEXT;
+BEGIN
+  SELECT * INTO v_merge FROM contact_merges
+  WHERE id = p_merge_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+  IF v_merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge was already undone';
+  END IF;
+
+  SELECT COALESCE(array_agg((c->>'id')::UUID), '{}') INTO v_merged_ids
+  FROM jsonb_array_elements(v_merge.merged_contacts) c;
+
+  SELECT * INTO v_survivor FROM contacts WHERE id = v_merge.contact_id FOR UPDATE;
+  IF FOUND AND v_merge.contact_before <> '{}' THEN
+    UPDATE contacts c
+    SET name = r.name, email = r.email, title = r.title, phone = r.phone,
+        linkedin_url = r.linkedin_url, company_id = r.company_id,
+        relationship_type = r.relationship_type, notes = r.notes,
+        first_met_date = r.first_met_date, last_met_date = r.last_met_date
+    FROM jsonb_populate_record(NULL::contacts, to_jsonb(v_survivor) || v_merge.contact_before) r
+    WHERE c.id = v_merge.contact_id;
+  END IF;
+
+  INSERT INTO contacts
+  SELECT * FROM jsonb_populate_recordset(NULL::contacts, v_merge.merged_contacts);
+
+  FOREACH v_table IN ARRAY ARRAY['reminders', 'contact_confirmations'] LOOP
+    EXECUTE format(
+      'UPDATE %I t SET contact_id = m.contact_id
+       FROM jsonb_to_recordset($1) AS m("table" TEXT, id UUID, contact_id UUID)
+       WHERE m."table" = %L AND t.id = m.id AND t.user_id = $2',
+      v_table, v_table
+    ) USING v_merge.moved_rows, p_user_id;
+  END LOOP;
+
+  -- Deleting and re-inserting the links also brings meeting counts back
+  IF jsonb_array_length(v_merge.contact_memos_before) > 0 THEN
+    DELETE FROM contact_memos
+    WHERE memo_id IN (SELECT (l->>'memo_id')::UUID FROM jsonb_array_elements(v_merge.contact_memos_before) l)
+      AND (contact_id = v_merge.contact_id OR contact_id = ANY(v_merged_ids));
+
+    -- Links to a survivor deleted since can't come back
+    INSERT INTO contact_memos
+    SELECT l.* FROM jsonb_populate_recordset(NULL::contact_memos, v_merge.contact_memos_before) l
+    WHERE EXISTS (SELECT 1 FROM contacts WHERE id = l.contact_id);
+  END IF;
+
+  DELETE FROM contact_aliases WHERE id = ANY(v_merge.added_alias_ids);
+  INSERT INTO contact_aliases
+  SELECT * FROM jsonb_populate_recordset(NULL::contact_aliases, v_merge.aliases_before)
+  ON CONFLICT DO NOTHING;
+
+  UPDATE contact_merges SET undone_at = NOW() WHERE id = p_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- Called by the server with the service role only; they take the user ID
+REVOKE ALL ON FUNCTION merge_contacts(UUID, UUID, UUID[], JSONB, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION undo_contact_merge(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_contacts(UUID, UUID, UUID[], JSONB, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION undo_contact_merge(UUID, UUID) TO service_role;
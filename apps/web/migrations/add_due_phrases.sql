@@ -0,0 +1,24 @@
+-- Due dates resolved from what was said, relative to the meeting
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- PROFILES
+-- =============================================
+
+-- IANA time zone ("America/New_York") meeting days are read in; null means UTC
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+-- =============================================
+-- REMINDERS
+-- =============================================
+
+-- The words the due date came from ("next Friday", "after the board meeting")
+ALTER TABLE reminders
+ADD COLUMN IF NOT EXISTS due_phrase TEXT;
+
+-- How due_date was set: 'phrase' (resolved from due_phrase against the
+-- meeting date), 'stated' (a date the model read off the transcript) or
+-- 'default' (the type's default, counted from the meeting date)
+ALTER TABLE reminders
+ADD COLUMN IF NOT EXISTS due_basis TEXT CHECK (due_basis IN ('stated', 'phrase', 'default'));
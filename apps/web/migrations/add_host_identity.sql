@@ -0,0 +1,26 @@
+-- Host identity: who "me" is in a meeting transcript
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- PROFILES
+-- =============================================
+
+-- Names the user appears under in transcripts ("Alex Kim", "Alex", "AK")
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS host_names TEXT[] NOT NULL DEFAULT '{}';
+
+-- The user's own email addresses; their firm domains count as internal
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS host_emails TEXT[] NOT NULL DEFAULT '{}';
+
+-- Names and emails of colleagues (partners, associates) who join meetings
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS colleague_aliases TEXT[] NOT NULL DEFAULT '{}';
+
+-- =============================================
+-- REMINDERS
+-- =============================================
+
+-- Who owes the item: 'me' (the user or a colleague) or 'them' (the other side)
+ALTER TABLE reminders
+ADD COLUMN IF NOT EXISTS owner TEXT CHECK (owner IN ('me', 'them'));
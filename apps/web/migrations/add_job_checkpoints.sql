@@ -0,0 +1,18 @@
+-- Per-stage checkpoints for resumable processing jobs
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- PROCESSING JOBS
+-- =============================================
+
+-- Output of every completed pipeline stage, keyed by stage name:
+-- { "classify": { "completed_at": "...", "output": { "meetingType": "..." } }, ... }
+-- A retry skips stages that already have a checkpoint
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS checkpoints JSONB DEFAULT '{}';
+
+-- Stage that raised the last error (cleared once a stage succeeds)
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS failed_stage TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_memos_job_id ON memos((metadata->>'job_id'));
@@ -0,0 +1,12 @@
+-- Warnings recorded while processing a job
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- PROCESSING JOBS
+-- =============================================
+
+-- Extraction problems the pipeline survived (e.g. a model response that
+-- still failed validation after the repair attempt):
+-- [{ "stage": "extract-commitments", "message": "...", "at": "..." }]
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS warnings JSONB DEFAULT '[]';
@@ -0,0 +1,81 @@
+-- LLM usage ledger and per-user monthly budgets
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- LLM USAGE
+-- =============================================
+
+-- One row per model call
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES processing_jobs(id) ON DELETE SET NULL,
+  stage TEXT, -- pipeline stage ('generate', 'extract-contacts', ...) or caller ('chat', 'contact-backfill')
+  task TEXT NOT NULL, -- LLM task ('memo', 'contacts', 'repair', ...)
+  model TEXT NOT NULL,
+  input_tokens INT NOT NULL DEFAULT 0,
+  output_tokens INT NOT NULL DEFAULT 0,
+  latency_ms INT NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0, -- estimated from the model's list price
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON llm_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_job_id ON llm_usage(job_id);
+
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the server with the service role
+CREATE POLICY "Users can view own llm usage" ON llm_usage
+  FOR SELECT USING (auth.uid() = user_id);
+
+GRANT SELECT ON llm_usage TO authenticated;
+GRANT ALL ON llm_usage TO service_role;
+
+-- Usage since a given time, grouped by stage (runs as the caller, so RLS
+-- limits users to their own rows; the budget check calls it as service role)
+CREATE OR REPLACE FUNCTION get_llm_usage_summary(p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  stage TEXT,
+  calls BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  cost_usd NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COALESCE(u.stage, 'other') AS stage,
+    COUNT(*) AS calls,
+    COALESCE(SUM(u.input_tokens), 0)::BIGINT AS input_tokens,
+    COALESCE(SUM(u.output_tokens), 0)::BIGINT AS output_tokens,
+    COALESCE(SUM(u.cost_usd), 0) AS cost_usd
+  FROM llm_usage u
+  WHERE u.user_id = p_user_id
+    AND u.created_at >= p_since
+  GROUP BY COALESCE(u.stage, 'other')
+  ORDER BY 5 DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_llm_usage_summary(UUID, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_llm_usage_summary(UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_llm_usage_summary(UUID, TIMESTAMPTZ) TO service_role;
+
+-- =============================================
+-- PROFILES
+-- =============================================
+
+-- Monthly LLM spend limit in USD; NULL means no limit
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS llm_monthly_budget_usd NUMERIC(10, 2);
+
+-- =============================================
+-- PROCESSING JOBS
+-- =============================================
+
+-- Jobs of a user over budget wait as 'paused' until the budget allows them
+ALTER TABLE processing_jobs DROP CONSTRAINT IF EXISTS processing_jobs_status_check;
+ALTER TABLE processing_jobs
+ADD CONSTRAINT processing_jobs_status_check
+CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'paused'));
@@ -0,0 +1,12 @@
+-- Source citations for memo statements
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- MEMO CITATIONS
+-- =============================================
+
+-- [{ "id": 1, "claim": "ARR is $2.4M, up 3x", "quote": "we just crossed 2.4 million ARR",
+--    "speaker": "Jane Doe", "start": 312.5, "utteranceIndex": 48, "kind": "metric" }]
+-- "claim" is the memo line the quote backs; "utteranceIndex" points into
+-- transcripts.utterances of the same memo
+ALTER TABLE memos ADD COLUMN IF NOT EXISTS citations JSONB DEFAULT '[]';
@@ -0,0 +1,44 @@
+-- Companies discussed in each meeting, beyond the memo's primary company
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- MEMO COMPANIES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS memo_companies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  memo_id UUID NOT NULL REFERENCES memos(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  -- 'primary' is the subject of the meeting (memos.company_id); the rest
+  -- came up along the way
+  role TEXT NOT NULL DEFAULT 'discussed' CHECK (role IN ('primary', 'discussed', 'competitor', 'co_investor')),
+  snippet TEXT, -- What was said about the company in this meeting
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(memo_id, company_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memo_companies_company_id ON memo_companies(company_id);
+CREATE INDEX IF NOT EXISTS idx_memo_companies_user_id ON memo_companies(user_id);
+
+ALTER TABLE memo_companies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own memo companies" ON memo_companies
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own memo companies" ON memo_companies
+  FOR DELETE USING (auth.uid() = user_id);
+
+GRANT SELECT, DELETE ON memo_companies TO authenticated;
+GRANT ALL ON memo_companies TO service_role;
+
+-- =============================================
+-- BACKFILL
+-- =============================================
+
+-- Existing memos link their primary company
+INSERT INTO memo_companies (user_id, memo_id, company_id, role, snippet)
+SELECT m.user_id, m.id, m.company_id, 'primary', m.summary
+FROM memos m
+WHERE m.company_id IS NOT NULL
+ON CONFLICT (memo_id, company_id) DO NOTHING;
@@ -0,0 +1,58 @@
+-- User-defined memo templates
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- MEMO TEMPLATES
+-- =============================================
+
+-- A user's own version of a meeting type's memo layout. The built-in
+-- templates live in code (src/lib/templates); rows here are edited copies.
+CREATE TABLE IF NOT EXISTS memo_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  meeting_type TEXT NOT NULL, -- Built-in meeting type the template is written for
+  is_active BOOLEAN NOT NULL DEFAULT false, -- Used instead of the built-in for every memo of meeting_type
+  system_prompt TEXT NOT NULL DEFAULT '',
+  memo_prompt TEXT NOT NULL DEFAULT '',
+  -- [{ "id": "why-now", "title": "Why Now", "prompt": "...", "required": true }]
+  sections JSONB NOT NULL DEFAULT '[]',
+  detection_keywords TEXT[] DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memo_templates_user_id ON memo_templates(user_id);
+-- At most one active template per meeting type
+CREATE UNIQUE INDEX IF NOT EXISTS idx_memo_templates_active
+  ON memo_templates(user_id, meeting_type) WHERE is_active;
+
+CREATE TRIGGER update_memo_templates_updated_at
+  BEFORE UPDATE ON memo_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE memo_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own memo templates" ON memo_templates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own memo templates" ON memo_templates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own memo templates" ON memo_templates
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own memo templates" ON memo_templates
+  FOR DELETE USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON memo_templates TO authenticated;
+GRANT ALL ON memo_templates TO service_role;
+
+-- =============================================
+-- FOLDER TEMPLATES
+-- =============================================
+
+-- folders.template points a folder at a template: { "template_id": "<id>" },
+-- where <id> is a memo_templates.id or a built-in meeting type
+COMMENT ON COLUMN folders.template IS 'Memo template for the folder: {"template_id": "<memo_templates.id or built-in meeting type>"}';
@@ -0,0 +1,33 @@
+-- Columns written by the shared processing pipeline (lib/pipeline)
+-- Some deployments were created before these existed on memos
+
+-- =============================================
+-- MEMOS
+-- =============================================
+
+ALTER TABLE memos
+ADD COLUMN IF NOT EXISTS source_id TEXT;
+
+ALTER TABLE memos
+ADD COLUMN IF NOT EXISTS participants TEXT[];
+
+ALTER TABLE memos
+ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}';
+
+-- Link to the filed Google Doc (older code wrote drive_url)
+ALTER TABLE memos
+ADD COLUMN IF NOT EXISTS drive_web_view_link TEXT;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'memos' AND column_name = 'drive_url'
+  ) THEN
+    UPDATE memos
+    SET drive_web_view_link = drive_url
+    WHERE drive_web_view_link IS NULL AND drive_url IS NOT NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_memos_source_id ON memos(user_id, source, source_id);
@@ -0,0 +1,33 @@
+-- Reminders a later meeting shows were fulfilled
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- REMINDER FULFILLMENTS
+-- =============================================
+
+-- When a later transcript says "thanks for sending the deck", the open
+-- reminder is closed with this row as the evidence ('auto'), or, when the
+-- match is borderline, held for the user to confirm ('pending')
+CREATE TABLE IF NOT EXISTS reminder_fulfillments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reminder_id UUID NOT NULL REFERENCES reminders(id) ON DELETE CASCADE,
+  memo_id UUID NOT NULL REFERENCES memos(id) ON DELETE CASCADE, -- The evidence memo
+  evidence TEXT, -- Words from the transcript showing it was done
+  confidence REAL NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'auto', 'confirmed', 'dismissed')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  UNIQUE(reminder_id, memo_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_fulfillments_pending ON reminder_fulfillments(user_id, created_at DESC) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_reminder_fulfillments_memo_id ON reminder_fulfillments(memo_id);
+
+ALTER TABLE reminder_fulfillments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reminder fulfillments" ON reminder_fulfillments
+  FOR SELECT USING (auth.uid() = user_id);
+
+GRANT SELECT ON reminder_fulfillments TO authenticated;
+GRANT ALL ON reminder_fulfillments TO service_role;
@@ -0,0 +1,96 @@
+-- Stored transcripts, one per memo
+-- Run this in your Supabase SQL Editor
+
+-- =============================================
+-- TRANSCRIPTS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS transcripts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  memo_id UUID NOT NULL REFERENCES memos(id) ON DELETE CASCADE,
+  source TEXT NOT NULL, -- 'fireflies', 'granola', 'manual', ...
+  source_id TEXT, -- External transcript ID (Fireflies meeting ID)
+  title TEXT,
+  meeting_date DATE,
+  participants TEXT[] DEFAULT '{}',
+  -- [{ "speaker": "Jane Doe", "text": "...", "start": 12.5, "end": 18.2 }]
+  -- start/end are seconds from the start of the meeting, null when unknown
+  utterances JSONB DEFAULT '[]',
+  text TEXT NOT NULL DEFAULT '', -- "Speaker: text" lines, as the pipeline read it
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(memo_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcripts_user_id ON transcripts(user_id);
+CREATE INDEX IF NOT EXISTS idx_transcripts_source ON transcripts(user_id, source, source_id);
+CREATE INDEX IF NOT EXISTS idx_transcripts_text_search ON transcripts USING GIN (to_tsvector('english', text));
+
+CREATE TRIGGER update_transcripts_updated_at
+  BEFORE UPDATE ON transcripts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE transcripts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transcripts" ON transcripts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own transcripts" ON transcripts
+  FOR DELETE USING (auth.uid() = user_id);
+
+GRANT SELECT, DELETE ON transcripts TO authenticated;
+GRANT ALL ON transcripts TO service_role;
+
+-- Full-text search over what was said, newest meetings first
+CREATE OR REPLACE FUNCTION search_transcripts(search_query TEXT, p_user_id UUID, result_limit INT DEFAULT 10)
+RETURNS TABLE (
+  memo_id UUID,
+  title TEXT,
+  meeting_date DATE,
+  snippet TEXT,
+  rank REAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    t.memo_id,
+    t.title,
+    t.meeting_date,
+    ts_headline('english', t.text, websearch_to_tsquery('english', search_query), 'MaxFragments=2, MaxWords=30, MinWords=10') AS snippet,
+    ts_rank(to_tsvector('english', t.text), websearch_to_tsquery('english', search_query)) AS rank
+  FROM transcripts t
+  WHERE t.user_id = p_user_id
+    AND to_tsvector('english', t.text) @@ websearch_to_tsquery('english', search_query)
+  ORDER BY 5 DESC, t.meeting_date DESC NULLS LAST
+  LIMIT result_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION search_transcripts(TEXT, UUID, INT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION search_transcripts(TEXT, UUID, INT) TO authenticated;
+
+-- =============================================
+-- BACKFILL
+-- =============================================
+
+-- Pasted/uploaded transcripts of completed jobs are still in the job
+-- metadata; utterances are parsed from the text when the memo is opened.
+-- Fireflies transcripts were never stored and are not recoverable here.
+INSERT INTO transcripts (user_id, memo_id, source, source_id, title, meeting_date, participants, text)
+SELECT DISTINCT ON ((j.result->>'memo_id'))
+  j.user_id,
+  (j.result->>'memo_id')::UUID,
+  j.source,
+  j.source_id,
+  m.title,
+  m.meeting_date,
+  COALESCE(m.participants, '{}'),
+  j.metadata->>'transcript_content'
+FROM processing_jobs j
+JOIN memos m ON m.id = (j.result->>'memo_id')::UUID
+WHERE j.status = 'completed'
+  AND j.result->>'memo_id' IS NOT NULL
+  AND COALESCE(j.metadata->>'transcript_content', '') <> ''
+ORDER BY (j.result->>'memo_id'), j.updated_at DESC
+ON CONFLICT (memo_id) DO NOTHING;
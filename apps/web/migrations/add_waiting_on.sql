@@ -0,0 +1,21 @@
+-- "Waiting on": commitments the other party owes, with nudges when they slip
+-- Run this in your Supabase SQL Editor
+-- Requires add_host_identity.sql (reminders.owner)
+
+-- =============================================
+-- NUDGE REMINDERS
+-- =============================================
+
+-- A nudge is the user's reminder to chase an overdue item someone owes them
+ALTER TABLE reminders DROP CONSTRAINT IF EXISTS reminders_type_check;
+ALTER TABLE reminders ADD CONSTRAINT reminders_type_check
+  CHECK (type IN ('commitment', 'stale_relationship', 'follow_up', 'deadline', 'intro_request', 'nudge'));
+
+-- The owed-to-me reminder a nudge chases; one nudge per item
+ALTER TABLE reminders
+ADD COLUMN IF NOT EXISTS nudge_for UUID REFERENCES reminders(id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reminders_nudge_for ON reminders(nudge_for) WHERE nudge_for IS NOT NULL;
+
+-- "Waiting on" lists per contact and company, and the overdue scan
+CREATE INDEX IF NOT EXISTS idx_reminders_user_owner ON reminders(user_id, owner) WHERE status = 'pending';
@@ -0,0 +1,113 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { HelpCircle, Plus, X } from 'lucide-react'
+
+export interface PendingConfirmation {
+  id: string
+  detected_name: string
+  role: string
+  snippet: string | null
+  candidates: Array<{ id: string; name: string; confidence: number }>
+  memo: { id: string; title: string } | null
+}
+
+interface CompanyConfirmationsProps {
+  confirmations: PendingConfirmation[]
+}
+
+export function CompanyConfirmations({ confirmations }: CompanyConfirmationsProps) {
+  const router = useRouter()
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const answer = async (
+    confirmation: PendingConfirmation,
+    body: { company_id: string } | { create: true } | { dismiss: true }
+  ) => {
+    setBusyId(confirmation.id)
+    try {
+      const response = await fetch(`/api/companies/confirmations/${confirmation.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to confirm company')
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to confirm company')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="bg-slate-900 border border-amber-500/30 rounded-xl p-5 mb-6">
+      <div className="flex items-center gap-2 mb-1">
+        <HelpCircle className="w-4 h-4 text-amber-400" />
+        <h2 className="text-white font-semibold">Confirm companies</h2>
+      </div>
+      <p className="text-sm text-slate-400 mb-4">
+        These could be companies you already track. Pick the right one so meetings aren&apos;t split across duplicates.
+      </p>
+
+      <ul className="space-y-3">
+        {confirmations.map((confirmation) => (
+          <li key={confirmation.id} className="p-3 rounded-lg bg-slate-800/60">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-slate-200">
+                  <span className="font-medium">{confirmation.detected_name}</span>
+                  {confirmation.memo && (
+                    <>
+                      <span className="text-slate-500"> in </span>
+                      <Link href={`/memos/${confirmation.memo.id}`} className="text-indigo-400 hover:text-indigo-300">
+                        {confirmation.memo.title}
+                      </Link>
+                    </>
+                  )}
+                </p>
+                {confirmation.snippet && (
+                  <p className="text-sm text-slate-400 mt-1 line-clamp-2">{confirmation.snippet}</p>
+                )}
+              </div>
+              <button
+                onClick={() => answer(confirmation, { dismiss: true })}
+                disabled={busyId === confirmation.id}
+                title="Not a company to track"
+                className="p-1 text-slate-500 hover:text-white disabled:opacity-50"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mt-3">
+              {confirmation.candidates.map((candidate) => (
+                <button
+                  key={candidate.id}
+                  onClick={() => answer(confirmation, { company_id: candidate.id })}
+                  disabled={busyId === confirmation.id}
+                  className="px-3 py-1.5 bg-slate-700 text-white rounded-lg text-sm hover:bg-slate-600 disabled:opacity-50"
+                >
+                  {candidate.name}
+                  <span className="ml-1.5 text-xs text-slate-400">{Math.round(candidate.confidence * 100)}%</span>
+                </button>
+              ))}
+              <button
+                onClick={() => answer(confirmation, { create: true })}
+                disabled={busyId === confirmation.id}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-500 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                New company
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+import Link from 'next/link'
+import { TrendingUp } from 'lucide-react'
+import { METRIC_KINDS, METRIC_LABELS, formatMetricValue } from '@/lib/metrics'
+import type { CompanyMetric } from '@/lib/supabase/types'
+
+export type MetricPoint = Pick<
+  CompanyMetric,
+  'id' | 'metric' | 'value' | 'unit' | 'period' | 'as_of' | 'quote' | 'speaker' | 'memo_id'
+>
+
+interface MetricsChartsProps {
+  // Oldest first
+  metrics: MetricPoint[]
+}
+
+const WIDTH = 320
+const HEIGHT = 96
+const PADDING = 8
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+}
+
+/**
+ * One metric over time; each point links to the meeting it was said in
+ */
+function MetricChart({ points }: { points: MetricPoint[] }) {
+  const times = points.map(p => new Date(p.as_of).getTime())
+  const minTime = Math.min(...times)
+  const timeSpan = Math.max(...times) - minTime
+  // Zero baseline, so growth reads as growth
+  const minValue = Math.min(0, ...points.map(p => p.value))
+  const valueSpan = Math.max(...points.map(p => p.value)) - minValue || 1
+
+  const coords = points.map((point, i) => ({
+    point,
+    x: timeSpan === 0 ? WIDTH / 2 : PADDING + ((times[i] - minTime) / timeSpan) * (WIDTH - PADDING * 2),
+    y: HEIGHT - PADDING - ((point.value - minValue) / valueSpan) * (HEIGHT - PADDING * 2),
+  }))
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-24">
+      <line
+        x1={PADDING}
+        x2={WIDTH - PADDING}
+        y1={HEIGHT - PADDING}
+        y2={HEIGHT - PADDING}
+        className="stroke-slate-800"
+      />
+      {coords.length > 1 && (
+        <polyline
+          points={coords.map(c => `${c.x},${c.y}`).join(' ')}
+          fill="none"
+          strokeWidth={2}
+          className="stroke-indigo-400"
+        />
+      )}
+      {coords.map(({ point, x, y }) => (
+        <a key={point.id} href={`/memos/${point.memo_id}`}>
+          <circle cx={x} cy={y} r={4} className="fill-indigo-400 hover:fill-white" />
+          <title>
+            {`${formatDate(point.as_of)}: ${formatMetricValue(point.value, point.unit, point.period)}`}
+            {point.quote ? `\n"${point.quote}"${point.speaker ? ` - ${point.speaker}` : ''}` : ''}
+          </title>
+        </a>
+      ))}
+    </svg>
+  )
+}
+
+export function MetricsCharts({ metrics }: MetricsChartsProps) {
+  const series = METRIC_KINDS.flatMap(kind => {
+    const all = metrics.filter(m => m.metric === kind)
+    if (all.length === 0) return []
+    // Figures in another currency (or growth over another period) aren't comparable
+    const latest = all[all.length - 1]
+    const points = all.filter(m => m.unit === latest.unit && m.period === latest.period)
+    return [{ kind, latest, previous: points[points.length - 2], points }]
+  })
+
+  if (series.length === 0) return null
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <TrendingUp className="w-4 h-4 text-indigo-400" />
+        <h2 className="text-white font-semibold">Metrics</h2>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {series.map(({ kind, latest, previous, points }) => (
+          <div key={kind} className="p-4 rounded-lg bg-slate-800/60">
+            <div className="flex items-baseline justify-between gap-3">
+              <p className="text-sm text-slate-400">{METRIC_LABELS[kind]}</p>
+              <Link href={`/memos/${latest.memo_id}`} className="text-xs text-slate-500 hover:text-slate-300">
+                as of {formatDate(latest.as_of)}
+              </Link>
+            </div>
+            <p className="text-xl font-semibold text-white mt-1">
+              {formatMetricValue(latest.value, latest.unit, latest.period)}
+              {previous && (
+                <span className="ml-2 text-xs font-normal text-slate-500">
+                  from {formatMetricValue(previous.value, previous.unit, previous.period)}
+                </span>
+              )}
+            </p>
+            <div className="mt-3">
+              <MetricChart points={points} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
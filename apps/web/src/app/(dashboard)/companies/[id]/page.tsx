@@ -1,12 +1,25 @@
 import { createClient } from '@/lib/supabase/server'
 import { notFound } from 'next/navigation'
 import Link from 'next/link'
+import type { MemoCompany } from '@/lib/supabase/types'
+import { WaitingOnList, type WaitingOnItem } from '@/components/WaitingOnList'
+import { MetricsCharts, type MetricPoint } from './MetricsCharts'
 import { ArrowLeft, Building2, Calendar, Globe, Pencil, FileText, CheckSquare } from 'lucide-react'
 
 interface PageProps {
   params: Promise<{ id: string }>
 }
 
+type MemoCompanyRole = MemoCompany['role']
+
+interface CompanyMemo {
+  id: string
+  title: string
+  meeting_date: string | null
+  role: MemoCompanyRole
+  snippet: string | null
+}
+
 const stageLabels: Record<string, string> = {
   idea: 'Idea',
   'pre-seed': 'Pre-Seed',
@@ -18,6 +31,13 @@ const stageLabels: Record<string, string> = {
   public: 'Public',
 }
 
+const roleLabels: Record<MemoCompanyRole, string> = {
+  primary: 'Subject',
+  discussed: 'Discussed',
+  competitor: 'Competitor',
+  co_investor: 'Co-investor',
+}
+
 const statusLabels: Record<string, string> = {
   tracking: 'Tracking',
   'actively-reviewing': 'Actively Reviewing',
@@ -57,16 +77,40 @@ export default async function CompanyPage({ params }: PageProps) {
     notFound()
   }
 
-  const { data: memos } = await supabase
+  // Every meeting the company came up in, not only the ones it was the
+  // subject of (memo_companies also covers memos filed before it existed)
+  const { data: primaryMemos } = await supabase
     .from('memos')
-    .select('id, title, meeting_date')
+    .select('id, title, meeting_date, summary')
     .eq('company_id', id)
-    .eq('user_id', user!.id)
-    .order('meeting_date', { ascending: false, nullsFirst: false })
-    .limit(10) as {
-    data: Array<{ id: string; title: string; meeting_date: string | null }> | null
+    .eq('user_id', user!.id) as {
+    data: Array<{ id: string; title: string; meeting_date: string | null; summary: string | null }> | null
   }
 
+  const { data: links } = await (supabase
+    .from('memo_companies') as ReturnType<typeof supabase.from>)
+    .select('role, snippet, memos(id, title, meeting_date)')
+    .eq('company_id', id)
+    .eq('user_id', user!.id) as {
+    data: Array<{
+      role: MemoCompanyRole
+      snippet: string | null
+      memos: { id: string; title: string; meeting_date: string | null } | null
+    }> | null
+  }
+
+  const memos = new Map<string, CompanyMemo>()
+  for (const memo of primaryMemos || []) {
+    memos.set(memo.id, { ...memo, role: 'primary', snippet: memo.summary })
+  }
+  for (const link of links || []) {
+    if (!link.memos || memos.has(link.memos.id)) continue
+    memos.set(link.memos.id, { ...link.memos, role: link.role, snippet: link.snippet })
+  }
+  const meetings = Array.from(memos.values()).sort((a, b) =>
+    (b.meeting_date || '').localeCompare(a.meeting_date || '')
+  )
+
   const { data: tasks } = await supabase
     .from('tasks')
     .select('id, title, status, due_date, priority')
@@ -83,6 +127,23 @@ export default async function CompanyPage({ params }: PageProps) {
     }> | null
   }
 
+  const { data: metrics } = await (supabase
+    .from('company_metrics') as ReturnType<typeof supabase.from>)
+    .select('id, metric, value, unit, period, as_of, quote, speaker, memo_id')
+    .eq('company_id', id)
+    .eq('user_id', user!.id)
+    .order('as_of', { ascending: true }) as { data: MetricPoint[] | null }
+
+  // What people at the company promised and haven't delivered yet
+  const { data: waitingOn } = await (supabase
+    .from('reminders') as ReturnType<typeof supabase.from>)
+    .select('id, title, due_date, contacts (id, name), memos (id, title)')
+    .eq('company_id', id)
+    .eq('user_id', user!.id)
+    .eq('owner', 'them')
+    .eq('status', 'pending')
+    .order('due_date', { ascending: true, nullsFirst: false }) as { data: WaitingOnItem[] | null }
+
   return (
     <div className="p-8 max-w-5xl mx-auto">
       <Link
@@ -155,26 +216,42 @@ export default async function CompanyPage({ params }: PageProps) {
         )}
       </div>
 
+      <MetricsCharts metrics={metrics || []} />
+
+      <WaitingOnList items={waitingOn || []} />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-slate-900 border border-slate-800 rounded-xl p-5">
           <div className="flex items-center gap-2 mb-4">
             <FileText className="w-4 h-4 text-blue-400" />
-            <h2 className="text-white font-semibold">Related Memos</h2>
+            <h2 className="text-white font-semibold">Meetings</h2>
           </div>
-          {memos && memos.length > 0 ? (
+          {meetings.length > 0 ? (
             <ul className="space-y-2">
-              {memos.map((memo) => (
+              {meetings.map((memo) => (
                 <li key={memo.id}>
                   <Link
                     href={`/memos/${memo.id}`}
                     className="block p-3 rounded-lg bg-slate-800/60 hover:bg-slate-800 text-slate-200"
                   >
-                    <p className="font-medium truncate">{memo.title}</p>
+                    <div className="flex items-center justify-between gap-3">
+                      <p className="font-medium truncate">{memo.title}</p>
+                      <span className={`shrink-0 px-2 py-0.5 rounded text-xs ${
+                        memo.role === 'primary'
+                          ? 'bg-emerald-500/20 text-emerald-300'
+                          : 'bg-slate-700 text-slate-300'
+                      }`}>
+                        {roleLabels[memo.role]}
+                      </span>
+                    </div>
                     {memo.meeting_date && (
                       <p className="text-xs text-slate-500 mt-0.5">
                         {new Date(memo.meeting_date).toLocaleDateString()}
                       </p>
                     )}
+                    {memo.snippet && (
+                      <p className="text-sm text-slate-400 mt-1 line-clamp-2">{memo.snippet}</p>
+                    )}
                   </Link>
                 </li>
               ))}
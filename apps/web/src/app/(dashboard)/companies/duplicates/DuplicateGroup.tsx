@@ -0,0 +1,193 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { GitMerge } from 'lucide-react'
+import type { Company } from '@/lib/supabase/types'
+import { MERGE_FIELDS, type MergeField } from '@/lib/company-merge'
+
+interface DuplicateGroupProps {
+  companies: Company[]
+  confidence: number
+  memoCounts: Record<string, number>
+}
+
+const fieldLabels: Record<MergeField, string> = {
+  name: 'Name',
+  website: 'Website',
+  industry: 'Industry',
+  stage: 'Stage',
+  status: 'Status',
+  notes: 'Notes',
+  founders: 'Founders',
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+function displayValue(company: Company, field: MergeField): string {
+  const value = company[field]
+  if (field === 'founders') {
+    return ((value as Array<{ name: string }> | null) || []).map(f => f.name).join(', ')
+  }
+  return typeof value === 'string' ? value : ''
+}
+
+// Each field starts on the kept company's value, or the first one filled in
+function defaultFields(companies: Company[], keepId: string): Record<MergeField, string> {
+  const keep = companies.find(c => c.id === keepId)!
+  return Object.fromEntries(MERGE_FIELDS.map(field => [
+    field,
+    isBlank(keep[field]) ? (companies.find(c => !isBlank(c[field]))?.id || keepId) : keepId,
+  ])) as Record<MergeField, string>
+}
+
+export function DuplicateGroup({ companies, confidence, memoCounts }: DuplicateGroupProps) {
+  const router = useRouter()
+  const [keepId, setKeepId] = useState(companies[0].id)
+  const [mergeIds, setMergeIds] = useState(companies.slice(1).map(c => c.id))
+  const [fields, setFields] = useState(() => defaultFields(companies, companies[0].id))
+  const [isMerging, setIsMerging] = useState(false)
+
+  // Companies taking part: the one kept and those ticked for merging
+  const included = companies.filter(c => c.id === keepId || mergeIds.includes(c.id))
+
+  const chooseKeep = (id: string) => {
+    setKeepId(id)
+    setMergeIds(companies.filter(c => c.id !== id).map(c => c.id))
+    setFields(defaultFields(companies, id))
+  }
+
+  const toggleMerge = (id: string) => {
+    const next = mergeIds.includes(id) ? mergeIds.filter(m => m !== id) : [...mergeIds, id]
+    setMergeIds(next)
+    // A field can't come from a company left out of the merge
+    setFields(current => Object.fromEntries(
+      MERGE_FIELDS.map(field => [field, next.includes(current[field]) || current[field] === keepId ? current[field] : keepId])
+    ) as Record<MergeField, string>)
+  }
+
+  const undo = async (mergeId: string) => {
+    const response = await fetch(`/api/companies/merges/${mergeId}/undo`, { method: 'POST' })
+    const data = await response.json()
+    if (!response.ok) {
+      toast.error(data.error || 'Failed to undo merge')
+      return
+    }
+    toast.success('Merge undone')
+    router.refresh()
+  }
+
+  const handleMerge = async () => {
+    setIsMerging(true)
+    try {
+      const response = await fetch('/api/companies/merges', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ company_id: keepId, duplicate_ids: mergeIds, fields }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to merge companies')
+
+      toast.success(`Merged ${mergeIds.length + 1} companies`, {
+        action: { label: 'Undo', onClick: () => undo(data.merge_id) },
+      })
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to merge companies')
+    } finally {
+      setIsMerging(false)
+    }
+  }
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-5">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <p className="text-sm text-slate-400">
+          {Math.round(confidence * 100)}% likely the same company
+        </p>
+        <button
+          onClick={handleMerge}
+          disabled={isMerging || mergeIds.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-500 disabled:opacity-50"
+        >
+          <GitMerge className="w-4 h-4" />
+          {isMerging ? 'Merging...' : `Merge ${mergeIds.length + 1}`}
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left">
+              <th className="w-28" />
+              {companies.map((company) => (
+                <th key={company.id} className="p-2 align-top font-normal">
+                  <Link href={`/companies/${company.id}`} className="font-medium text-white hover:text-indigo-300">
+                    {company.name}
+                  </Link>
+                  <p className="text-xs text-slate-500">
+                    {memoCounts[company.id] || 0} memos · added {new Date(company.created_at).toLocaleDateString()}
+                  </p>
+                  <div className="flex gap-3 mt-2 text-xs text-slate-300">
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="radio"
+                        checked={keepId === company.id}
+                        onChange={() => chooseKeep(company.id)}
+                        className="accent-indigo-500"
+                      />
+                      Keep
+                    </label>
+                    {keepId !== company.id && (
+                      <label className="flex items-center gap-1.5">
+                        <input
+                          type="checkbox"
+                          checked={mergeIds.includes(company.id)}
+                          onChange={() => toggleMerge(company.id)}
+                          className="accent-indigo-500"
+                        />
+                        Merge in
+                      </label>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {MERGE_FIELDS.map((field) => (
+              <tr key={field} className="border-t border-slate-800">
+                <td className="p-2 text-slate-500">{fieldLabels[field]}</td>
+                {companies.map((company) => {
+                  const value = displayValue(company, field)
+                  const isIncluded = included.includes(company)
+                  return (
+                    <td key={company.id} className="p-2 align-top">
+                      <label className={`flex items-start gap-2 ${isIncluded ? 'text-slate-200' : 'text-slate-600'}`}>
+                        <input
+                          type="radio"
+                          name={`${companies[0].id}-${field}`}
+                          checked={fields[field] === company.id}
+                          disabled={!isIncluded}
+                          onChange={() => setFields({ ...fields, [field]: company.id })}
+                          className="mt-1 accent-indigo-500"
+                        />
+                        <span className="line-clamp-3 break-words">
+                          {value || <span className="text-slate-600">-</span>}
+                        </span>
+                      </label>
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import { createClient } from '@/lib/supabase/server'
+import Link from 'next/link'
+import { ArrowLeft, CopyCheck } from 'lucide-react'
+import { suggestCompanyMerge } from '@/lib/company-detection'
+import type { Company } from '@/lib/supabase/types'
+import { DuplicateGroup } from './DuplicateGroup'
+import { MergeHistory, type MergeHistoryEntry } from './MergeHistory'
+
+export default async function CompanyDuplicatesPage() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data: companies } = await supabase
+    .from('companies')
+    .select('*')
+    .eq('user_id', user!.id)
+    .order('created_at', { ascending: true }) as { data: Company[] | null }
+
+  const byId = new Map((companies || []).map(c => [c.id, c]))
+  const groups = suggestCompanyMerge(companies || []).map(group => ({
+    confidence: group.confidence,
+    companies: [group.primary, ...group.duplicates].map(id => byId.get(id)!),
+  }))
+
+  // Meetings per company, to help pick the one to keep
+  const groupedIds = groups.flatMap(g => g.companies.map(c => c.id))
+  const { data: memoRows } = groupedIds.length > 0
+    ? await supabase
+      .from('memos')
+      .select('company_id')
+      .eq('user_id', user!.id)
+      .in('company_id', groupedIds) as { data: Array<{ company_id: string }> | null }
+    : { data: [] }
+
+  const memoCounts: Record<string, number> = {}
+  for (const row of memoRows || []) {
+    memoCounts[row.company_id] = (memoCounts[row.company_id] || 0) + 1
+  }
+
+  const { data: merges } = await (supabase
+    .from('company_merges') as ReturnType<typeof supabase.from>)
+    .select('id, merged_companies, created_at, companies(id, name)')
+    .eq('user_id', user!.id)
+    .is('undone_at', null)
+    .order('created_at', { ascending: false })
+    .limit(10) as { data: MergeHistoryEntry[] | null }
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      <Link
+        href="/companies"
+        className="inline-flex items-center gap-2 text-slate-400 hover:text-white mb-5"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Companies
+      </Link>
+
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-white">Duplicate Companies</h1>
+        <p className="text-slate-400 mt-1">
+          Companies that look like the same one. Merging moves their memos, tasks, reminders and contacts to the company you keep.
+        </p>
+      </div>
+
+      {groups.length > 0 ? (
+        <div className="space-y-6">
+          {groups.map((group) => (
+            <DuplicateGroup
+              key={group.companies.map(c => c.id).join('-')}
+              companies={group.companies}
+              confidence={group.confidence}
+              memoCounts={memoCounts}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-12 text-center">
+          <CopyCheck className="w-12 h-12 text-slate-600 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-white mb-2">No duplicates found</h3>
+          <p className="text-slate-400">Every company has a distinct name and website.</p>
+        </div>
+      )}
+
+      {merges && merges.length > 0 && <MergeHistory merges={merges} />}
+    </div>
+  )
+}
@@ -1,8 +1,10 @@
 import { createClient } from '@/lib/supabase/server'
-import { Building2 } from 'lucide-react'
+import Link from 'next/link'
+import { Building2, CopyCheck } from 'lucide-react'
 import { CompanyFilters } from './CompanyFilters'
 import { CompanyCard } from './CompanyCard'
 import { NewCompanyButton } from './NewCompanyButton'
+import { CompanyConfirmations, type PendingConfirmation } from './CompanyConfirmations'
 
 const stageLabels: Record<string, string> = {
   idea: 'Idea',
@@ -99,6 +101,17 @@ export default async function CompaniesPage({
     {} as Record<string, number>
   ) || {}
 
+  // Detected companies that could be one of several existing ones
+  const { data: confirmationRows } = await (supabase
+    .from('company_confirmations') as ReturnType<typeof supabase.from>)
+    .select('id, detected_name, role, snippet, candidates, memos(id, title)')
+    .eq('user_id', user!.id)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false }) as {
+    data: Array<Omit<PendingConfirmation, 'memo'> & { memos: PendingConfirmation['memo'] }> | null
+  }
+  const confirmations = (confirmationRows || []).map(({ memos, ...row }) => ({ ...row, memo: memos }))
+
   return (
     <div className="p-8">
       <div className="flex items-center justify-between mb-8">
@@ -108,9 +121,20 @@ export default async function CompaniesPage({
             Track and manage your deal pipeline
           </p>
         </div>
-        <NewCompanyButton />
+        <div className="flex items-center gap-3">
+          <Link
+            href="/companies/duplicates"
+            className="flex items-center gap-2 px-4 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-700"
+          >
+            <CopyCheck className="w-4 h-4" />
+            Duplicates
+          </Link>
+          <NewCompanyButton />
+        </div>
       </div>
 
+      {confirmations.length > 0 && <CompanyConfirmations confirmations={confirmations} />}
+
       {/* Filters */}
       <CompanyFilters
         currentStatus={params.status}
@@ -3,16 +3,25 @@
 import { useState } from 'react'
 import { RefreshCw, Trash2 } from 'lucide-react'
 import { useRouter } from 'next/navigation'
+import { STAGE_LABELS, type StageName } from '@/lib/pipeline/types'
 
 interface RetryButtonProps {
-  pendingCount: number
+  pendingCount?: number
   failedCount?: number
+  // Single failed job: retry it from the stage that failed, or run one of
+  // the stages it completed again
+  failedJob?: {
+    id: string
+    stage: string | null
+    completedStages: StageName[]
+  }
 }
 
-export function RetryButton({ pendingCount, failedCount = 0 }: RetryButtonProps) {
+export function RetryButton({ pendingCount = 0, failedCount = 0, failedJob }: RetryButtonProps) {
   const [isProcessing, setIsProcessing] = useState(false)
   const [isClearing, setIsClearing] = useState(false)
   const [message, setMessage] = useState<string | null>(null)
+  const [fromStage, setFromStage] = useState(failedJob?.stage || '')
   const router = useRouter()
 
   const handleRetry = async () => {
@@ -43,6 +52,36 @@ export function RetryButton({ pendingCount, failedCount = 0 }: RetryButtonProps)
     }
   }
 
+  const handleRetryStage = async () => {
+    if (!failedJob) return
+
+    setIsProcessing(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/process/retry', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId: failedJob.id, fromStage: fromStage || undefined }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage(data.processed ? 'Retry succeeded' : data.message)
+        setTimeout(() => {
+          router.refresh()
+        }, 1500)
+      } else {
+        setMessage(data.error || 'Retry failed')
+      }
+    } catch {
+      setMessage('Failed to retry job')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
   const handleClear = async () => {
     if (!confirm('Clear all failed and stale jobs?')) return
 
@@ -72,6 +111,46 @@ export function RetryButton({ pendingCount, failedCount = 0 }: RetryButtonProps)
     }
   }
 
+  if (failedJob) {
+    const stageLabel = (stage: string) => STAGE_LABELS[stage as StageName] || stage
+    const selectedLabel = fromStage ? stageLabel(fromStage) : null
+
+    return (
+      <div className="flex items-center gap-2">
+        {message && (
+          <span className="text-xs text-slate-300">{message}</span>
+        )}
+        {failedJob.completedStages.length > 0 && (
+          <select
+            value={fromStage}
+            onChange={(e) => setFromStage(e.target.value)}
+            disabled={isProcessing}
+            title="Stage to run from; later stages run again too"
+            className="px-2 py-1 bg-slate-800 border border-slate-700 text-slate-300 text-xs rounded-lg"
+          >
+            <option value={failedJob.stage || ''}>
+              {failedJob.stage ? `Failed: ${stageLabel(failedJob.stage)}` : 'First incomplete stage'}
+            </option>
+            {failedJob.completedStages.map((stage) => (
+              <option key={stage} value={stage}>
+                Re-run: {stageLabel(stage)}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={handleRetryStage}
+          disabled={isProcessing}
+          title={failedJob.stage ? `Failed at: ${stageLabel(failedJob.stage)}` : undefined}
+          className="flex items-center gap-1.5 px-2.5 py-1 bg-red-500/20 hover:bg-red-500/30 disabled:opacity-50 text-red-300 text-xs rounded-lg transition-colors"
+        >
+          <RefreshCw className={`w-3 h-3 ${isProcessing ? 'animate-spin' : ''}`} />
+          {isProcessing ? 'Retrying...' : selectedLabel ? `Retry ${selectedLabel}` : 'Retry'}
+        </button>
+      </div>
+    )
+  }
+
   return (
     <div className="flex items-center gap-2">
       {message && (
@@ -1,10 +1,11 @@
 import { createClient } from '@/lib/supabase/server'
-import { FileText, Building2, CheckSquare, AlertCircle, TrendingUp, Clock, Zap, Loader2, CheckCircle2, XCircle } from 'lucide-react'
+import { FileText, Building2, CheckSquare, AlertCircle, TrendingUp, Clock, Zap, Loader2, CheckCircle2, XCircle, PauseCircle } from 'lucide-react'
 import Link from 'next/link'
 import { RetryButton } from './RetryButton'
 import { ClearAllButton } from './ClearAllButton'
 import { SetupChecklist } from './SetupChecklist'
 import { OnboardingModal } from '@/components/OnboardingModal'
+import { STAGE_LABELS, type StageName } from '@/lib/pipeline/types'
 
 interface Stats {
   total_memos: number
@@ -28,11 +29,13 @@ interface AttentionTask {
 interface ProcessingJob {
   id: string
   source: string
-  status: 'pending' | 'processing' | 'completed' | 'failed'
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused'
   current_step: string | null
   progress: number
   result: { memo_id?: string; company_name?: string } | null
   error: string | null
+  failed_stage: string | null
+  warnings: Array<{ stage: string; message: string }> | null
   metadata: { title?: string } | null
   created_at: string
   updated_at: string
@@ -71,8 +74,8 @@ export default async function DashboardPage() {
   // Fetch processing jobs (incoming memos from webhooks only)
   const { data: processingJobs } = await supabase
     .from('processing_jobs')
-    .select('id, source, status, current_step, progress, result, error, metadata, created_at, updated_at')
-    .in('status', ['pending', 'processing', 'completed', 'failed'])
+    .select('id, source, status, current_step, progress, result, error, failed_stage, warnings, metadata, created_at, updated_at')
+    .in('status', ['pending', 'processing', 'completed', 'failed', 'paused'])
     .order('created_at', { ascending: false })
     .limit(10) as { data: ProcessingJob[] | null }
 
@@ -86,13 +89,29 @@ export default async function DashboardPage() {
   const hasGoogleDrive = integrations?.some(i => i.provider === 'google' && i.status === 'active') || false
   const hasMemos = (stats?.total_memos || 0) > 0
 
-  // Filter to show recent jobs (last 24 hours for completed/failed, all pending/processing)
+  // Filter to show recent jobs (last 24 hours for completed/failed, all pending/processing/paused)
   const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
   const incomingJobs = (processingJobs || []).filter(job => {
-    if (job.status === 'pending' || job.status === 'processing') return true
+    if (job.status === 'pending' || job.status === 'processing' || job.status === 'paused') return true
     return job.updated_at > dayAgo
   })
 
+  // Stages each failed job completed, any of which can be run again
+  const failedJobIds = incomingJobs.filter(job => job.status === 'failed').map(job => job.id)
+  const { data: failedCheckpoints } = failedJobIds.length > 0
+    ? await supabase
+      .from('processing_jobs')
+      .select('id, checkpoints')
+      .in('id', failedJobIds) as { data: Array<{ id: string; checkpoints: Partial<Record<StageName, unknown>> | null }> | null }
+    : { data: [] }
+  const completedStages = new Map(
+    (failedCheckpoints || []).map(job => [
+      job.id,
+      // STAGE_LABELS is in pipeline order
+      (Object.keys(STAGE_LABELS) as StageName[]).filter(stage => job.checkpoints?.[stage]),
+    ])
+  )
+
   const hasActiveJobs = incomingJobs.some(job => job.status === 'pending' || job.status === 'processing')
 
   const statCards = [
@@ -322,6 +341,8 @@ export default async function DashboardPage() {
                     ? 'bg-red-500/10 border border-red-500/20'
                     : job.status === 'completed'
                     ? 'bg-emerald-500/10 border border-emerald-500/20'
+                    : job.status === 'paused'
+                    ? 'bg-amber-500/10 border border-amber-500/20'
                     : 'bg-slate-800/50'
                 }`}
               >
@@ -346,6 +367,11 @@ export default async function DashboardPage() {
                       <XCircle className="w-4 h-4 text-red-400" />
                     </div>
                   )}
+                  {job.status === 'paused' && (
+                    <div className="w-8 h-8 rounded-full bg-amber-500/20 flex items-center justify-center">
+                      <PauseCircle className="w-4 h-4 text-amber-400" />
+                    </div>
+                  )}
                   <div>
                     <p className="text-slate-200 font-medium">
                       {job.metadata?.title || `Meeting from ${job.source}`}
@@ -364,6 +390,33 @@ export default async function DashboardPage() {
                           <span className="text-xs text-emerald-400">{job.result.company_name}</span>
                         </>
                       )}
+                      {job.status === 'completed' && job.warnings && job.warnings.length > 0 && (
+                        <>
+                          <span className="text-xs text-slate-600">-</span>
+                          <span
+                            className="text-xs text-amber-400"
+                            title={job.warnings.map(w => w.message).join('\n')}
+                          >
+                            {job.warnings.length} warning{job.warnings.length === 1 ? '' : 's'}
+                          </span>
+                        </>
+                      )}
+                      {job.status === 'failed' && job.failed_stage && (
+                        <>
+                          <span className="text-xs text-slate-600">-</span>
+                          <span className="text-xs text-red-300">
+                            Failed at {STAGE_LABELS[job.failed_stage as StageName] || job.failed_stage}
+                          </span>
+                        </>
+                      )}
+                      {job.status === 'paused' && (
+                        <>
+                          <span className="text-xs text-slate-600">-</span>
+                          <Link href="/settings" className="text-xs text-amber-400 hover:text-amber-300" title={job.error || undefined}>
+                            Paused: monthly AI budget reached
+                          </Link>
+                        </>
+                      )}
                       {job.status === 'failed' && job.error && (
                         <>
                           <span className="text-xs text-slate-600">-</span>
@@ -383,6 +436,11 @@ export default async function DashboardPage() {
                       />
                     </div>
                   )}
+                  {job.status === 'failed' && (
+                    <RetryButton
+                      failedJob={{ id: job.id, stage: job.failed_stage, completedStages: completedStages.get(job.id) || [] }}
+                    />
+                  )}
                   {job.status === 'completed' && job.result?.memo_id && (
                     <Link
                       href={`/memos/${job.result.memo_id}`}
@@ -3,7 +3,7 @@
 import { useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
-import { FolderOpen, MoreVertical, Pencil, Trash2, FileText, Star } from 'lucide-react'
+import { FolderOpen, MoreVertical, Pencil, Trash2, FileText, Star, LayoutTemplate } from 'lucide-react'
 interface FolderWithCount {
   id: string
   user_id: string
@@ -20,14 +20,21 @@ interface FolderWithCount {
 
 interface FolderListProps {
   folders: FolderWithCount[]
+  // Built-in and custom memo templates a folder can use
+  templates: Array<{ id: string; name: string }>
 }
 
-export function FolderList({ folders }: FolderListProps) {
+function templateIdOf(folder: FolderWithCount): string {
+  return typeof folder.template?.template_id === 'string' ? folder.template.template_id : ''
+}
+
+export function FolderList({ folders, templates }: FolderListProps) {
   const router = useRouter()
   const [menuOpenId, setMenuOpenId] = useState<string | null>(null)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editName, setEditName] = useState('')
   const [editColor, setEditColor] = useState('')
+  const [editTemplate, setEditTemplate] = useState('')
 
   const colors = [
     '#6366f1', // indigo
@@ -45,6 +52,7 @@ export function FolderList({ folders }: FolderListProps) {
     setEditingId(folder.id)
     setEditName(folder.name)
     setEditColor(folder.color || '#6366f1')
+    setEditTemplate(templateIdOf(folder))
     setMenuOpenId(null)
   }
 
@@ -53,7 +61,11 @@ export function FolderList({ folders }: FolderListProps) {
 
     const supabase = createClient()
     // @ts-expect-error - Supabase types
-    await supabase.from('folders').update({ name: editName, color: editColor }).eq('id', editingId)
+    await supabase.from('folders').update({
+      name: editName,
+      color: editColor,
+      template: editTemplate ? { template_id: editTemplate } : {},
+    }).eq('id', editingId)
 
     setEditingId(null)
     router.refresh()
@@ -112,6 +124,19 @@ export function FolderList({ folders }: FolderListProps) {
                   />
                 ))}
               </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Memo template</label>
+                <select
+                  value={editTemplate}
+                  onChange={(e) => setEditTemplate(e.target.value)}
+                  className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">Automatic (by meeting type)</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+              </div>
               <div className="flex gap-2">
                 <button
                   onClick={() => setEditingId(null)}
@@ -147,6 +172,12 @@ export function FolderList({ folders }: FolderListProps) {
                     <p className="text-sm text-slate-500">
                       {folder.memoCount} memo{folder.memoCount !== 1 ? 's' : ''}
                     </p>
+                    {templateIdOf(folder) && (
+                      <p className="flex items-center gap-1 text-xs text-slate-500 mt-0.5">
+                        <LayoutTemplate className="w-3 h-3" />
+                        {templates.find(t => t.id === templateIdOf(folder))?.name || 'Deleted template'}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -2,6 +2,8 @@ import { createClient } from '@/lib/supabase/server'
 import { FolderOpen } from 'lucide-react'
 import { FolderList } from './FolderList'
 import { NewFolderButton } from './NewFolderButton'
+import { MEMO_TEMPLATES } from '@/lib/templates'
+import { getCustomTemplates } from '@/lib/templates/custom'
 
 export default async function FoldersPage() {
   const supabase = await createClient()
@@ -29,6 +31,13 @@ export default async function FoldersPage() {
       memos: Array<{ count: number }>
     }> | null, error: Error | null }
 
+  // Templates a folder can point at
+  const customTemplates = await getCustomTemplates(supabase, user!.id)
+  const templates = [
+    ...MEMO_TEMPLATES.map(t => ({ id: t.id, name: t.name })),
+    ...customTemplates.map(t => ({ id: t.id, name: `${t.name} (custom)` })),
+  ]
+
   // Transform to include memo count
   const foldersWithCounts = folders?.map((folder) => ({
     id: folder.id,
@@ -73,7 +82,7 @@ export default async function FoldersPage() {
           <p className="text-red-400">Error: {error.message}</p>
         </div>
       ) : foldersWithCounts && foldersWithCounts.length > 0 ? (
-        <FolderList folders={foldersWithCounts} />
+        <FolderList folders={foldersWithCounts} templates={templates} />
       ) : (
         <div className="bg-slate-900 border border-slate-800 rounded-xl p-12 text-center">
           <FolderOpen className="w-12 h-12 text-slate-600 mx-auto mb-4" />
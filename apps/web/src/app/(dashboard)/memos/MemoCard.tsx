@@ -3,7 +3,7 @@
 import { useState } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { Calendar, Building2, FolderOpen, Trash2, Loader2 } from 'lucide-react'
+import { Calendar, Building2, FolderOpen, Trash2, Loader2, AlertTriangle } from 'lucide-react'
 
 interface MemoCardProps {
   memo: {
@@ -14,6 +14,7 @@ interface MemoCardProps {
     tags?: string[] | null
     folder?: { id: string; name: string; color: string } | null
     company?: { id: string; name: string } | null
+    unverifiedClaims?: number
   }
 }
 
@@ -84,6 +85,12 @@ export function MemoCard({ memo }: MemoCardProps) {
               <span className="text-slate-400">{memo.company.name}</span>
             </div>
           )}
+          {!!memo.unverifiedClaims && (
+            <div className="flex items-center gap-1.5 text-sm text-amber-400" title="Claims not found in the transcript">
+              <AlertTriangle className="w-4 h-4" />
+              {memo.unverifiedClaims} unverified
+            </div>
+          )}
           {memo.tags && memo.tags.length > 0 && (
             <div className="flex flex-wrap gap-1.5">
               {memo.tags.slice(0, 3).map((tag) => (
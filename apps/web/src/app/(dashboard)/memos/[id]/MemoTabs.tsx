@@ -0,0 +1,260 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { FileText, MessageSquareQuote, CornerDownRight, AlertTriangle, RefreshCw, ListPlus } from 'lucide-react'
+import { findSourceUtterance, formatTimestamp, type Utterance } from '@/lib/transcripts'
+import { citationsByLine, type MemoCitation } from '@/lib/citations'
+import { splitVerificationFlag } from '@/lib/verification'
+import { normalizeKey } from '@/lib/chunking'
+import { TranscriptViewer } from './TranscriptViewer'
+
+interface MemoTabsProps {
+  memoId: string
+  content: string
+  // Null when no transcript is stored for this memo
+  utterances: Utterance[] | null
+  citations: MemoCitation[]
+  // Sections of the memo's template, which can be regenerated
+  sectionTitles: string[]
+  // Required template sections the memo doesn't have
+  missingSections: string[]
+}
+
+type Tab = 'memo' | 'transcript'
+
+const BULLET = /^\s*([-*•]|\d+[.)])\s+/
+const SECTION_HEADER = /^##\s+(.+?)\s*$/
+
+function Footnote({ citation, onJump }: { citation: MemoCitation; onJump: (() => void) | null }) {
+  return (
+    <span className="relative group/cite">
+      <sup>
+        <button
+          onClick={onJump || undefined}
+          disabled={!onJump}
+          className="px-0.5 text-xs font-medium text-indigo-400 hover:text-indigo-300 disabled:cursor-default"
+        >
+          [{citation.id}]
+        </button>
+      </sup>
+      <span className="absolute left-0 top-full z-10 mt-1 hidden w-80 rounded-lg border border-slate-700 bg-slate-800 p-3 text-sm shadow-xl group-hover/cite:block">
+        <span className="block text-slate-200 italic">&ldquo;{citation.quote}&rdquo;</span>
+        <span className="mt-2 block text-xs text-slate-500">
+          {citation.speaker}
+          {citation.start !== null && ` · ${formatTimestamp(citation.start)}`}
+          {onJump && ' · click to open in transcript'}
+        </span>
+      </span>
+    </span>
+  )
+}
+
+export function MemoTabs({ memoId, content, utterances, citations, sectionTitles, missingSections }: MemoTabsProps) {
+  const router = useRouter()
+  const [tab, setTab] = useState<Tab>('memo')
+  const [focus, setFocus] = useState<{ index: number; requestedAt: number } | null>(null)
+  // Section whose regenerate form is open, by header line index
+  const [regenerating, setRegenerating] = useState<{ index: number; instruction: string } | null>(null)
+  const [isRegenerating, setIsRegenerating] = useState(false)
+
+  const cited = useMemo(() => citationsByLine(content, citations), [content, citations])
+
+  const showUtterance = (index: number) => {
+    setFocus({ index, requestedAt: Date.now() })
+    setTab('transcript')
+  }
+
+  // Cited lines jump to their quote; other lines to the best keyword match
+  const jumpToSource = (line: string, lineCitations: MemoCitation[] | undefined) => {
+    if (!utterances) return
+    const index = lineCitations?.[0]?.utteranceIndex ?? findSourceUtterance(line.replace(BULLET, ''), utterances)
+    if (index === null || index >= utterances.length) {
+      toast.error('Could not find this point in the transcript')
+      return
+    }
+    showUtterance(index)
+  }
+
+  const footnotes = (lineCitations: MemoCitation[] | undefined) =>
+    lineCitations?.map(citation => (
+      <Footnote
+        key={citation.id}
+        citation={citation}
+        onJump={utterances && citation.utteranceIndex < utterances.length
+          ? () => showUtterance(citation.utteranceIndex)
+          : null}
+      />
+    ))
+
+  // Line text with its footnotes, and the verification flag as a badge
+  const lineBody = (line: string, index: number) => {
+    const { text, unverified } = splitVerificationFlag(line)
+    return (
+      <>
+        {text || ' '}
+        {footnotes(cited.get(index))}
+        {unverified && (
+          <span
+            title="Not found in the transcript - check before relying on it"
+            className="ml-2 inline-flex items-center gap-1 rounded bg-amber-500/10 px-1.5 py-0.5 align-middle text-xs text-amber-400"
+          >
+            <AlertTriangle className="w-3 h-3" />
+            Unverified: {unverified.join(', ')}
+          </span>
+        )}
+      </>
+    )
+  }
+
+  // Template section a "## Title" line starts, if it can be regenerated
+  const sectionAt = (line: string) => {
+    const header = line.match(SECTION_HEADER)
+    if (!header || !utterances) return null
+    return sectionTitles.find(title => normalizeKey(title) === normalizeKey(header[1])) || null
+  }
+
+  const regenerate = async (body: { section: string; instruction?: string } | { fill_missing: true }) => {
+    setIsRegenerating(true)
+    try {
+      const response = await fetch(`/api/memos/${memoId}/sections`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to regenerate section')
+
+      if (data.sections.length === 0) {
+        toast.error('Nothing could be generated from the transcript')
+      } else {
+        toast.success(`Regenerated ${data.sections.join(', ')}`)
+      }
+      setRegenerating(null)
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to regenerate section')
+    } finally {
+      setIsRegenerating(false)
+    }
+  }
+
+  const sectionHeader = (line: string, index: number, section: string) => (
+    <div key={index}>
+      <div className="group flex items-center gap-2 whitespace-pre-wrap">
+        <span className="flex-1">{lineBody(line, index)}</span>
+        <button
+          onClick={() => setRegenerating(regenerating?.index === index ? null : { index, instruction: '' })}
+          title="Regenerate section"
+          className="p-0.5 text-slate-600 opacity-0 group-hover:opacity-100 hover:text-indigo-400 transition-opacity"
+        >
+          <RefreshCw className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {regenerating?.index === index && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            regenerate({ section, instruction: regenerating.instruction })
+          }}
+          className="flex items-center gap-2 my-2"
+        >
+          <input
+            value={regenerating.instruction}
+            onChange={(e) => setRegenerating({ index, instruction: e.target.value })}
+            placeholder="Optional: e.g. focus on unit economics"
+            className="flex-1 px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={isRegenerating}
+            className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-500 disabled:opacity-50"
+          >
+            {isRegenerating ? 'Regenerating...' : 'Regenerate'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setRegenerating(null)}
+            className="px-3 py-1.5 bg-slate-800 text-white rounded-lg text-sm hover:bg-slate-700"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  )
+
+  const lines = content.split('\n')
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl mb-8">
+      {utterances && (
+        <div className="flex gap-1 px-4 pt-3 border-b border-slate-800">
+          {([
+            { id: 'memo', label: 'Memo', icon: FileText },
+            { id: 'transcript', label: 'Transcript', icon: MessageSquareQuote },
+          ] as const).map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`flex items-center gap-2 px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                tab === id
+                  ? 'border-indigo-500 text-white'
+                  : 'border-transparent text-slate-400 hover:text-white'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="p-6">
+        {tab === 'memo' ? (
+          <div className="prose prose-invert max-w-none">
+            {utterances && missingSections.length > 0 && (
+              <div className="not-prose flex items-center justify-between gap-4 bg-slate-800/50 border border-slate-700 rounded-lg p-3 mb-4">
+                <p className="text-sm text-slate-400">
+                  Missing required {missingSections.length === 1 ? 'section' : 'sections'}: {missingSections.join(', ')}
+                </p>
+                <button
+                  onClick={() => regenerate({ fill_missing: true })}
+                  disabled={isRegenerating}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-500 disabled:opacity-50 shrink-0"
+                >
+                  <ListPlus className="w-4 h-4" />
+                  {isRegenerating ? 'Writing...' : 'Fill in'}
+                </button>
+              </div>
+            )}
+            <div className="text-slate-300 leading-relaxed">
+              {lines.map((line, i) => {
+                const section = sectionAt(line)
+                if (section) return sectionHeader(line, i, section)
+                return utterances && BULLET.test(line) ? (
+                  <div key={i} className="group flex items-start gap-2 whitespace-pre-wrap">
+                    <span className="flex-1">{lineBody(line, i)}</span>
+                    <button
+                      onClick={() => jumpToSource(line, cited.get(i))}
+                      title="Show in transcript"
+                      className="mt-1 p-0.5 text-slate-600 opacity-0 group-hover:opacity-100 hover:text-indigo-400 transition-opacity"
+                    >
+                      <CornerDownRight className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ) : (
+                  <div key={i} className="whitespace-pre-wrap">{lineBody(line, i)}</div>
+                )
+              })}
+            </div>
+          </div>
+        ) : (
+          <TranscriptViewer utterances={utterances || []} focus={focus} />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { RotateCcw, X } from 'lucide-react'
+
+interface ReprocessMemoButtonProps {
+  memoId: string
+  currentMeetingType: string | null
+  meetingTypes: Array<{ id: string; name: string }>
+  // Custom templates; built-in ones are picked through the meeting type
+  templates: Array<{ id: string; name: string }>
+  models: Array<{ id: string; label: string }>
+}
+
+const selectClass =
+  'w-full px-4 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500'
+
+export function ReprocessMemoButton({
+  memoId,
+  currentMeetingType,
+  meetingTypes,
+  templates,
+  models,
+}: ReprocessMemoButtonProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [meetingType, setMeetingType] = useState(currentMeetingType || '')
+  const [templateId, setTemplateId] = useState('')
+  const [model, setModel] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(`/api/memos/${memoId}/reprocess`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          meeting_type: templateId ? undefined : meetingType || undefined,
+          template_id: templateId || undefined,
+          model: model || undefined,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Reprocessing failed')
+        return
+      }
+
+      toast.success('Memo reprocessed. The previous version is in its revisions.')
+      setIsOpen(false)
+      router.refresh()
+    } catch {
+      setError('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        title="Reprocess as..."
+        className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg"
+      >
+        <RotateCcw className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            onClick={() => !isLoading && setIsOpen(false)}
+          />
+          <div className="relative w-full max-w-md bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl">
+            <div className="flex items-center justify-between p-6 border-b border-slate-800">
+              <h2 className="text-xl font-semibold text-white">Reprocess as...</h2>
+              <button
+                onClick={() => setIsOpen(false)}
+                disabled={isLoading}
+                className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <p className="text-sm text-slate-400">
+                Writes the memo again from its transcript. Your title and company are kept, and
+                tasks, reminders and contacts already created from this meeting aren&apos;t added twice.
+              </p>
+
+              {error && (
+                <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+                  <p className="text-sm text-red-400">{error}</p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-1.5">Meeting type</label>
+                <select
+                  value={meetingType}
+                  onChange={(e) => setMeetingType(e.target.value)}
+                  disabled={!!templateId}
+                  className={`${selectClass} disabled:opacity-50`}
+                >
+                  <option value="">Detect again</option>
+                  {meetingTypes.map((type) => (
+                    <option key={type.id} value={type.id}>{type.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {templates.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-1.5">Custom template</label>
+                  <select value={templateId} onChange={(e) => setTemplateId(e.target.value)} className={selectClass}>
+                    <option value="">None (use the meeting type&apos;s template)</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-1.5">Model</label>
+                <select value={model} onChange={(e) => setModel(e.target.value)} className={selectClass}>
+                  <option value="">Default</option>
+                  {models.map((choice) => (
+                    <option key={choice.id} value={choice.id}>{choice.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setIsOpen(false)}
+                  disabled={isLoading}
+                  className="flex-1 px-4 py-2.5 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-700 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="flex-1 px-4 py-2.5 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoading ? 'Reprocessing...' : 'Reprocess'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,192 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Search, X } from 'lucide-react'
+import { formatTimestamp, getSpeakers, type Utterance } from '@/lib/transcripts'
+
+interface TranscriptViewerProps {
+  utterances: Utterance[]
+  // Utterance to scroll to and highlight; `requestedAt` makes repeat jumps to
+  // the same utterance scroll again
+  focus: { index: number; requestedAt: number } | null
+}
+
+interface SpeakerTurn {
+  speaker: string
+  start: number | null
+  // Indexes into `utterances`
+  items: number[]
+}
+
+const SPEAKER_COLORS = [
+  'text-indigo-400',
+  'text-emerald-400',
+  'text-amber-400',
+  'text-sky-400',
+  'text-pink-400',
+  'text-violet-400',
+  'text-teal-400',
+  'text-orange-400',
+]
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  if (!query) return <>{text}</>
+
+  const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, 'gi'))
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.toLowerCase() === query.toLowerCase() ? (
+          <mark key={i} className="bg-amber-500/30 text-amber-100 rounded px-0.5">{part}</mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </>
+  )
+}
+
+export function TranscriptViewer({ utterances, focus }: TranscriptViewerProps) {
+  const speakers = useMemo(() => getSpeakers(utterances), [utterances])
+  const [hiddenSpeakers, setHiddenSpeakers] = useState<Set<string>>(new Set())
+  const [query, setQuery] = useState('')
+
+  const speakerColor = (speaker: string) => SPEAKER_COLORS[speakers.indexOf(speaker) % SPEAKER_COLORS.length]
+
+  // Consecutive utterances by the same speaker read as one turn
+  const turns = useMemo(() => {
+    const result: SpeakerTurn[] = []
+    utterances.forEach((utterance, index) => {
+      const last = result[result.length - 1]
+      if (last && last.speaker === utterance.speaker) {
+        last.items.push(index)
+      } else {
+        result.push({ speaker: utterance.speaker, start: utterance.start, items: [index] })
+      }
+    })
+    return result
+  }, [utterances])
+
+  const trimmedQuery = query.trim()
+  const visibleTurns = turns.filter(turn => {
+    if (hiddenSpeakers.has(turn.speaker)) return false
+    if (!trimmedQuery) return true
+    const needle = trimmedQuery.toLowerCase()
+    return turn.items.some(i => utterances[i].text.toLowerCase().includes(needle))
+  })
+
+  const matchCount = trimmedQuery
+    ? visibleTurns.reduce((count, turn) => count + turn.items.reduce((sum, i) => {
+        const matches = utterances[i].text.match(new RegExp(escapeRegExp(trimmedQuery), 'gi'))
+        return sum + (matches ? matches.length : 0)
+      }, 0), 0)
+    : 0
+
+  // A jump from the memo clears filters so the target is visible, then scrolls to it
+  useEffect(() => {
+    if (!focus) return
+    setHiddenSpeakers(new Set())
+    setQuery('')
+    const timer = setTimeout(() => {
+      document.getElementById(`utterance-${focus.index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }, 50)
+    return () => clearTimeout(timer)
+  }, [focus])
+
+  const toggleSpeaker = (speaker: string) => {
+    setHiddenSpeakers(prev => {
+      const next = new Set(prev)
+      if (next.has(speaker)) {
+        next.delete(speaker)
+      } else {
+        next.add(speaker)
+      }
+      return next
+    })
+  }
+
+  if (utterances.length === 0) {
+    return <p className="text-slate-500 text-sm">The transcript for this memo is empty.</p>
+  }
+
+  return (
+    <div>
+      {/* Controls */}
+      <div className="flex flex-col gap-3 mb-6">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search the transcript..."
+            className="w-full pl-9 pr-24 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          {trimmedQuery && (
+            <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-2">
+              <span className="text-xs text-slate-500">{matchCount} match{matchCount === 1 ? '' : 'es'}</span>
+              <button onClick={() => setQuery('')} className="p-1 text-slate-500 hover:text-white">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {speakers.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {speakers.map(speaker => {
+              const hidden = hiddenSpeakers.has(speaker)
+              return (
+                <button
+                  key={speaker}
+                  onClick={() => toggleSpeaker(speaker)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                    hidden
+                      ? 'border-slate-800 text-slate-600 line-through'
+                      : `border-slate-700 bg-slate-800 ${speakerColor(speaker)}`
+                  }`}
+                >
+                  {speaker}
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Turns */}
+      {visibleTurns.length === 0 ? (
+        <p className="text-slate-500 text-sm">Nothing matches the current filters.</p>
+      ) : (
+        <div className="space-y-4">
+          {visibleTurns.map(turn => (
+            <div key={turn.items[0]} className="flex gap-4">
+              <div className="w-14 shrink-0 pt-0.5 text-xs text-slate-500 tabular-nums">
+                {turn.start !== null ? formatTimestamp(turn.start) : ''}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-medium mb-1 ${speakerColor(turn.speaker)}`}>{turn.speaker}</p>
+                <p className="text-slate-300 leading-relaxed">
+                  {turn.items.map(i => (
+                    <span
+                      key={i}
+                      id={`utterance-${i}`}
+                      title={utterances[i].start !== null ? formatTimestamp(utterances[i].start!) : undefined}
+                      className={i === focus?.index ? 'bg-indigo-500/20 rounded' : undefined}
+                    >
+                      <Highlighted text={utterances[i].text} query={trimmedQuery} />{' '}
+                    </span>
+                  ))}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,8 @@
 import { useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
+import { countUnverifiedClaims } from '@/lib/verification'
+import type { Json } from '@/lib/supabase/types'
 
 interface EditMemoFormProps {
   memo: {
@@ -11,6 +13,7 @@ interface EditMemoFormProps {
     content: string
     summary: string | null
     meeting_date: string | null
+    metadata: Json
   }
 }
 
@@ -33,12 +36,20 @@ export function EditMemoForm({ memo }: EditMemoFormProps) {
 
     try {
       const supabase = createClient()
+
+      // Flags the reviewer removed no longer count as unverified
+      const metadata = (memo.metadata || {}) as Record<string, Json>
+      const updatedMetadata = 'unverified_claims' in metadata
+        ? { ...metadata, unverified_claims: countUnverifiedClaims(content) }
+        : metadata
+
       const { error: updateError } = await (supabase.from('memos') as ReturnType<typeof supabase.from>)
         .update({
           title,
           content,
           summary: summary || null,
           meeting_date: meetingDate || null,
+          metadata: updatedMetadata,
         } as never)
         .eq('id', memo.id)
 
@@ -17,7 +17,7 @@ export default async function EditMemoPage({ params }: PageProps) {
 
   const { data: memo, error } = await supabase
     .from('memos')
-    .select('id, title, content, summary, meeting_date')
+    .select('id, title, content, summary, meeting_date, metadata')
     .eq('id', id)
     .eq('user_id', user!.id)
     .single()
@@ -9,8 +9,18 @@ import {
   Clock,
   Edit,
   ExternalLink,
+  AlertTriangle,
 } from 'lucide-react'
 import { DeleteMemoButton } from './DeleteMemoButton'
+import { ReprocessMemoButton } from './ReprocessMemoButton'
+import { MemoTabs } from './MemoTabs'
+import { getTranscriptForMemo } from '@/lib/transcripts'
+import type { MemoCitation } from '@/lib/citations'
+import { getCustomTemplates, templateForMemo } from '@/lib/templates/custom'
+import { MEMO_TEMPLATES } from '@/lib/templates'
+import { MODEL_CHOICES } from '@/lib/llm'
+import { validateMemoContent } from '@/lib/templates/detection'
+import type { Json } from '@/lib/supabase/types'
 
 interface PageProps {
   params: Promise<{ id: string }>
@@ -35,10 +45,13 @@ export default async function MemoPage({ params }: PageProps) {
       title: string
       content: string
       summary: string | null
+      citations: MemoCitation[] | null
       meeting_date: string | null
       duration_minutes: number | null
       tags: string[] | null
       source: string
+      metadata: { unverified_claims?: number; meeting_type?: string } | null
+      folder_id: string | null
       created_at: string
       updated_at: string
       folders: { id: string; name: string; color: string } | null
@@ -51,6 +64,7 @@ export default async function MemoPage({ params }: PageProps) {
 
   const folder = memo.folders
   const company = memo.companies
+  const unverifiedClaims = memo.metadata?.unverified_claims || 0
 
   // Fetch related tasks
   const { data: tasks } = await supabase
@@ -65,6 +79,17 @@ export default async function MemoPage({ params }: PageProps) {
       due_date: string | null
     }> | null }
 
+  // Stored source transcript, if any
+  const transcript = await getTranscriptForMemo(supabase, id)
+
+  // Sections that can be regenerated, and required ones the memo lacks
+  const template = await templateForMemo(supabase, user!.id, {
+    metadata: memo.metadata as Json,
+    folder_id: memo.folder_id,
+  })
+  const { missingSections } = validateMemoContent(memo.content, template)
+  const customTemplates = transcript ? await getCustomTemplates(supabase, user!.id) : []
+
   return (
     <div className="p-8 max-w-4xl mx-auto">
       {/* Header */}
@@ -108,6 +133,15 @@ export default async function MemoPage({ params }: PageProps) {
             >
               <Edit className="w-5 h-5" />
             </Link>
+            {transcript && (
+              <ReprocessMemoButton
+                memoId={id}
+                currentMeetingType={memo.metadata?.meeting_type || null}
+                meetingTypes={MEMO_TEMPLATES.map(t => ({ id: t.id, name: t.name }))}
+                templates={customTemplates.map(t => ({ id: t.id, name: t.name }))}
+                models={MODEL_CHOICES.map(choice => ({ id: choice.id, label: choice.label }))}
+              />
+            )}
             <DeleteMemoButton memoId={id} />
           </div>
         </div>
@@ -161,14 +195,26 @@ export default async function MemoPage({ params }: PageProps) {
         </div>
       )}
 
-      {/* Content */}
-      <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 mb-8">
-        <div className="prose prose-invert max-w-none">
-          <div className="whitespace-pre-wrap text-slate-300 leading-relaxed">
-            {memo.content}
-          </div>
+      {/* Claims the transcript doesn't support */}
+      {unverifiedClaims > 0 && (
+        <div className="flex items-start gap-3 bg-amber-500/10 border border-amber-500/20 rounded-xl p-4 mb-8">
+          <AlertTriangle className="w-5 h-5 text-amber-400 shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-200">
+            {unverifiedClaims} {unverifiedClaims === 1 ? 'claim' : 'claims'} in this memo could not be found in the
+            transcript. They are marked &ldquo;Unverified&rdquo; below &mdash; give the memo a read before relying on it.
+          </p>
         </div>
-      </div>
+      )}
+
+      {/* Content and transcript */}
+      <MemoTabs
+        memoId={id}
+        content={memo.content}
+        utterances={transcript?.utterances || null}
+        citations={memo.citations || []}
+        sectionTitles={template.sections.map(s => s.title)}
+        missingSections={missingSections}
+      />
 
       {/* Tags */}
       {memo.tags && memo.tags.length > 0 && (
@@ -101,6 +101,7 @@ export default async function MemosPage({
         summary,
         meeting_date,
         tags,
+        metadata,
         created_at,
         folder_id,
         company_id,
@@ -124,6 +125,7 @@ export default async function MemosPage({
       summary: string | null
       meeting_date: string | null
       tags: string[] | null
+      metadata: { unverified_claims?: number } | null
       created_at: string
       folder_id: string | null
       company_id: string | null
@@ -269,6 +271,7 @@ export default async function MemosPage({
             const folder = 'folders' in memo ? memo.folders as { id: string; name: string; color: string } | null : null
             const company = 'companies' in memo ? memo.companies as { id: string; name: string } | null : null
             const tags = 'tags' in memo ? (memo.tags as string[] | null) : null
+            const unverifiedClaims = 'metadata' in memo ? memo.metadata?.unverified_claims : undefined
 
             return (
               <MemoCard
@@ -281,6 +284,7 @@ export default async function MemosPage({
                   tags,
                   folder,
                   company,
+                  unverifiedClaims,
                 }}
               />
             )
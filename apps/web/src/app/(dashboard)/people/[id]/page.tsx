@@ -18,6 +18,7 @@ import {
   Users,
   TrendingUp,
 } from 'lucide-react'
+import { WaitingOnList, type WaitingOnItem } from '@/components/WaitingOnList'
 import { DeleteContactButton } from './DeleteContactButton'
 import { EditContactButton } from './EditContactButton'
 
@@ -128,6 +129,16 @@ export default async function ContactPage({ params }: PageProps) {
     }))
   }
 
+  // What they promised and haven't delivered yet
+  const { data: waitingOn } = await (supabase
+    .from('reminders') as ReturnType<typeof supabase.from>)
+    .select('id, title, due_date, contacts (id, name), memos (id, title)')
+    .eq('contact_id', id)
+    .eq('user_id', user!.id)
+    .eq('owner', 'them')
+    .eq('status', 'pending')
+    .order('due_date', { ascending: true, nullsFirst: false }) as { data: WaitingOnItem[] | null }
+
   // Get all companies for edit modal
   const { data: companies } = await supabase
     .from('companies')
@@ -305,6 +316,8 @@ export default async function ContactPage({ params }: PageProps) {
         )}
       </div>
 
+      <WaitingOnList items={waitingOn || []} showContact={false} />
+
       {/* Relationship Intelligence - Aggregated insights */}
       {(allInterests.size > 0 || allConcerns.size > 0 || allAsks.size > 0 || allQuotes.length > 0) && (
         <div className="bg-gradient-to-r from-indigo-600/10 to-purple-600/10 border border-indigo-500/20 rounded-xl p-6 mb-8">
@@ -0,0 +1,214 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { GitMerge } from 'lucide-react'
+import type { MergeableContact, MergeField } from '@/lib/contact-merge'
+
+export type DuplicateContact = MergeableContact & {
+  companies: { id: string; name: string } | null
+}
+
+interface DuplicateGroupProps {
+  contacts: DuplicateContact[]
+  confidence: number
+  reasons: string[]
+  meetingCounts: Record<string, number>
+}
+
+// In display order; the server accepts the same fields (MERGE_FIELDS)
+const fieldLabels: Record<MergeField, string> = {
+  name: 'Name',
+  email: 'Email',
+  title: 'Title',
+  phone: 'Phone',
+  linkedin_url: 'LinkedIn',
+  company_id: 'Company',
+  relationship_type: 'Relationship',
+}
+
+const fields = Object.keys(fieldLabels) as MergeField[]
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === ''
+}
+
+function displayValue(contact: DuplicateContact, field: MergeField): string {
+  if (field === 'company_id') return contact.companies?.name || ''
+  return contact[field] || ''
+}
+
+// Each field starts on the kept contact's value, or the first one filled in
+function defaultFields(contacts: DuplicateContact[], keepId: string): Record<MergeField, string> {
+  const keep = contacts.find(c => c.id === keepId)!
+  return Object.fromEntries(fields.map(field => [
+    field,
+    isBlank(keep[field]) ? (contacts.find(c => !isBlank(c[field]))?.id || keepId) : keepId,
+  ])) as Record<MergeField, string>
+}
+
+export function DuplicateGroup({ contacts, confidence, reasons, meetingCounts }: DuplicateGroupProps) {
+  const router = useRouter()
+  const [keepId, setKeepId] = useState(contacts[0].id)
+  const [mergeIds, setMergeIds] = useState(contacts.slice(1).map(c => c.id))
+  const [picked, setPicked] = useState(() => defaultFields(contacts, contacts[0].id))
+  const [isMerging, setIsMerging] = useState(false)
+
+  // Contacts taking part: the one kept and those ticked for merging
+  const included = contacts.filter(c => c.id === keepId || mergeIds.includes(c.id))
+
+  const chooseKeep = (id: string) => {
+    setKeepId(id)
+    setMergeIds(contacts.filter(c => c.id !== id).map(c => c.id))
+    setPicked(defaultFields(contacts, id))
+  }
+
+  const toggleMerge = (id: string) => {
+    const next = mergeIds.includes(id) ? mergeIds.filter(m => m !== id) : [...mergeIds, id]
+    setMergeIds(next)
+    // A field can't come from a contact left out of the merge
+    setPicked(current => Object.fromEntries(
+      fields.map(field => [field, next.includes(current[field]) || current[field] === keepId ? current[field] : keepId])
+    ) as Record<MergeField, string>)
+  }
+
+  const undo = async (mergeId: string) => {
+    const response = await fetch(`/api/contacts/merges/${mergeId}/undo`, { method: 'POST' })
+    const data = await response.json()
+    if (!response.ok) {
+      toast.error(data.error || 'Failed to undo merge')
+      return
+    }
+    toast.success('Merge undone')
+    router.refresh()
+  }
+
+  const handleMerge = async () => {
+    setIsMerging(true)
+    try {
+      const response = await fetch('/api/contacts/merges', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contact_id: keepId, duplicate_ids: mergeIds, fields: picked }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to merge contacts')
+
+      toast.success(`Merged ${mergeIds.length + 1} contacts`, {
+        action: { label: 'Undo', onClick: () => undo(data.merge_id) },
+      })
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to merge contacts')
+    } finally {
+      setIsMerging(false)
+    }
+  }
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-5">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <p className="text-sm text-slate-400">
+          {Math.round(confidence * 100)}% likely the same person
+          <span className="text-slate-500"> · {reasons.join(', ')}</span>
+        </p>
+        <button
+          onClick={handleMerge}
+          disabled={isMerging || mergeIds.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-500 disabled:opacity-50"
+        >
+          <GitMerge className="w-4 h-4" />
+          {isMerging ? 'Merging...' : `Merge ${mergeIds.length + 1}`}
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left">
+              <th className="w-28" />
+              {contacts.map((contact) => (
+                <th key={contact.id} className="p-2 align-top font-normal">
+                  <Link href={`/people/${contact.id}`} className="font-medium text-white hover:text-indigo-300">
+                    {contact.name}
+                  </Link>
+                  <p className="text-xs text-slate-500">
+                    {meetingCounts[contact.id] || 0} meetings · added {new Date(contact.created_at).toLocaleDateString()}
+                  </p>
+                  <div className="flex gap-3 mt-2 text-xs text-slate-300">
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="radio"
+                        checked={keepId === contact.id}
+                        onChange={() => chooseKeep(contact.id)}
+                        className="accent-indigo-500"
+                      />
+                      Keep
+                    </label>
+                    {keepId !== contact.id && (
+                      <label className="flex items-center gap-1.5">
+                        <input
+                          type="checkbox"
+                          checked={mergeIds.includes(contact.id)}
+                          onChange={() => toggleMerge(contact.id)}
+                          className="accent-indigo-500"
+                        />
+                        Merge in
+                      </label>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field) => (
+              <tr key={field} className="border-t border-slate-800">
+                <td className="p-2 text-slate-500">{fieldLabels[field]}</td>
+                {contacts.map((contact) => {
+                  const value = displayValue(contact, field)
+                  const isIncluded = included.includes(contact)
+                  return (
+                    <td key={contact.id} className="p-2 align-top">
+                      <label className={`flex items-start gap-2 ${isIncluded ? 'text-slate-200' : 'text-slate-600'}`}>
+                        <input
+                          type="radio"
+                          name={`${contacts[0].id}-${field}`}
+                          checked={picked[field] === contact.id}
+                          disabled={!isIncluded}
+                          onChange={() => setPicked({ ...picked, [field]: contact.id })}
+                          className="mt-1 accent-indigo-500"
+                        />
+                        <span className="line-clamp-3 break-words">
+                          {value || <span className="text-slate-600">-</span>}
+                        </span>
+                      </label>
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+            <tr className="border-t border-slate-800">
+              <td className="p-2 text-slate-500 align-top">
+                Notes
+                <p className="text-xs text-slate-600 mt-0.5">Combined by date</p>
+              </td>
+              {contacts.map((contact) => (
+                <td
+                  key={contact.id}
+                  className={`p-2 align-top whitespace-pre-line ${included.includes(contact) ? 'text-slate-300' : 'text-slate-600'}`}
+                >
+                  <span className="line-clamp-6 break-words">
+                    {contact.notes || <span className="text-slate-600">-</span>}
+                  </span>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Undo2 } from 'lucide-react'
+
+export interface MergeHistoryEntry {
+  id: string
+  merged_contacts: Array<{ id: string; name: string }>
+  created_at: string
+  // The surviving contact
+  contacts: { id: string; name: string } | null
+}
+
+interface MergeHistoryProps {
+  merges: MergeHistoryEntry[]
+}
+
+export function MergeHistory({ merges }: MergeHistoryProps) {
+  const router = useRouter()
+  const [undoingId, setUndoingId] = useState<string | null>(null)
+
+  const handleUndo = async (mergeId: string) => {
+    setUndoingId(mergeId)
+    try {
+      const response = await fetch(`/api/contacts/merges/${mergeId}/undo`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to undo merge')
+
+      toast.success('Merge undone')
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to undo merge')
+    } finally {
+      setUndoingId(null)
+    }
+  }
+
+  return (
+    <div className="mt-10">
+      <h2 className="text-white font-semibold mb-3">Recent merges</h2>
+      <ul className="space-y-2">
+        {merges.map((merge) => (
+          <li
+            key={merge.id}
+            className="flex items-center justify-between gap-4 p-3 rounded-lg bg-slate-900 border border-slate-800"
+          >
+            <div className="min-w-0">
+              <p className="text-slate-200 truncate">
+                {merge.merged_contacts.map(c => c.name).join(', ')} → {merge.contacts?.name || 'deleted contact'}
+              </p>
+              <p className="text-xs text-slate-500 mt-0.5">{new Date(merge.created_at).toLocaleString()}</p>
+            </div>
+            <button
+              onClick={() => handleUndo(merge.id)}
+              disabled={undoingId === merge.id}
+              className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 text-white rounded-lg text-sm hover:bg-slate-700 disabled:opacity-50 shrink-0"
+            >
+              <Undo2 className="w-4 h-4" />
+              {undoingId === merge.id ? 'Undoing...' : 'Undo'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
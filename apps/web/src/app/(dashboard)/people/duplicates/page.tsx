@@ -0,0 +1,93 @@
+import { createClient } from '@/lib/supabase/server'
+import Link from 'next/link'
+import { ArrowLeft, CopyCheck } from 'lucide-react'
+import { suggestContactMerges } from '@/lib/contact-merge'
+import type { ContactAlias } from '@/lib/supabase/types'
+import { DuplicateGroup, type DuplicateContact } from './DuplicateGroup'
+import { MergeHistory, type MergeHistoryEntry } from './MergeHistory'
+
+export default async function ContactDuplicatesPage() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data: contacts } = await supabase
+    .from('contacts')
+    .select('*, companies(id, name)')
+    .eq('user_id', user!.id)
+    .order('created_at', { ascending: true }) as { data: DuplicateContact[] | null }
+
+  const { data: aliases } = await (supabase
+    .from('contact_aliases') as ReturnType<typeof supabase.from>)
+    .select('contact_id, kind, normalized')
+    .eq('user_id', user!.id) as { data: Array<Pick<ContactAlias, 'contact_id' | 'kind' | 'normalized'>> | null }
+
+  const byId = new Map((contacts || []).map(c => [c.id, c]))
+  const groups = suggestContactMerges(contacts || [], aliases || []).map(group => ({
+    confidence: group.confidence,
+    reasons: group.reasons,
+    contacts: group.contactIds.map(id => byId.get(id)!),
+  }))
+
+  // Meetings per contact, to help pick the one to keep
+  const groupedIds = groups.flatMap(g => g.contacts.map(c => c.id))
+  const { data: linkRows } = groupedIds.length > 0
+    ? await supabase
+      .from('contact_memos')
+      .select('contact_id')
+      .in('contact_id', groupedIds) as { data: Array<{ contact_id: string }> | null }
+    : { data: [] }
+
+  const meetingCounts: Record<string, number> = {}
+  for (const row of linkRows || []) {
+    meetingCounts[row.contact_id] = (meetingCounts[row.contact_id] || 0) + 1
+  }
+
+  const { data: merges } = await (supabase
+    .from('contact_merges') as ReturnType<typeof supabase.from>)
+    .select('id, merged_contacts, created_at, contacts(id, name)')
+    .eq('user_id', user!.id)
+    .is('undone_at', null)
+    .order('created_at', { ascending: false })
+    .limit(10) as { data: MergeHistoryEntry[] | null }
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      <Link
+        href="/people"
+        className="inline-flex items-center gap-2 text-slate-400 hover:text-white mb-5"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to People
+      </Link>
+
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-white">Duplicate Contacts</h1>
+        <p className="text-slate-400 mt-1">
+          Contacts that look like the same person. Merging moves their meetings, reminders and names to the contact you keep and combines their notes.
+        </p>
+      </div>
+
+      {groups.length > 0 ? (
+        <div className="space-y-6">
+          {groups.map((group) => (
+            <DuplicateGroup
+              key={group.contacts.map(c => c.id).join('-')}
+              contacts={group.contacts}
+              confidence={group.confidence}
+              reasons={group.reasons}
+              meetingCounts={meetingCounts}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-12 text-center">
+          <CopyCheck className="w-12 h-12 text-slate-600 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-white mb-2">No duplicates found</h3>
+          <p className="text-slate-400">No two contacts share an email, LinkedIn, phone or name.</p>
+        </div>
+      )}
+
+      {merges && merges.length > 0 && <MergeHistory merges={merges} />}
+    </div>
+  )
+}
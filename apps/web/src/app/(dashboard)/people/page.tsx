@@ -1,9 +1,11 @@
 import { createClient } from '@/lib/supabase/server'
-import { Users, Sparkles } from 'lucide-react'
+import Link from 'next/link'
+import { Users, Sparkles, CopyCheck } from 'lucide-react'
 import { PersonCard } from './PersonCard'
 import { NewContactButton } from './NewContactButton'
 import { PeopleFilters } from './PeopleFilters'
 import { SyncContactsButton } from './SyncContactsButton'
+import { ContactConfirmations, type PendingContactConfirmation } from './ContactConfirmations'
 
 interface SearchParams {
   company?: string
@@ -79,6 +81,17 @@ export default async function PeoplePage({
     }, {} as Record<string, number>)
   }
 
+  // People from meetings who could be more than one contact
+  const { data: confirmationRows } = await (supabase
+    .from('contact_confirmations') as ReturnType<typeof supabase.from>)
+    .select('id, detected_name, extracted, candidates, memos(id, title)')
+    .eq('user_id', user!.id)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false }) as {
+    data: Array<Omit<PendingContactConfirmation, 'memo'> & { memos: PendingContactConfirmation['memo'] }> | null
+  }
+  const confirmations = (confirmationRows || []).map(({ memos, ...row }) => ({ ...row, memo: memos }))
+
   return (
     <div className="p-8">
       <div className="flex items-center justify-between mb-8">
@@ -89,11 +102,20 @@ export default async function PeoplePage({
           </p>
         </div>
         <div className="flex items-center gap-3">
+          <Link
+            href="/people/duplicates"
+            className="flex items-center gap-2 px-4 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-700"
+          >
+            <CopyCheck className="w-4 h-4" />
+            Duplicates
+          </Link>
           <SyncContactsButton />
           <NewContactButton companies={companies || []} />
         </div>
       </div>
 
+      {confirmations.length > 0 && <ContactConfirmations confirmations={confirmations} />}
+
       {/* Filters */}
       <PeopleFilters
         currentCompany={params.company}
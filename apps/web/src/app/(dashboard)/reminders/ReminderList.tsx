@@ -20,6 +20,10 @@ import {
   UserPlus,
   MessageSquare,
   AlarmClock,
+  BellRing,
+  Hourglass,
+  Check,
+  X,
 } from 'lucide-react'
 
 interface Reminder {
@@ -28,9 +32,13 @@ interface Reminder {
   title: string
   context: string | null
   due_date: string | null
+  // What was said about timing, and whether due_date came from it
+  due_phrase?: string | null
+  due_basis?: 'stated' | 'phrase' | 'default' | null
   snoozed_until: string | null
   status: string
   priority: string
+  owner: 'me' | 'them' | null
   source_text: string | null
   created_at: string
   completed_at: string | null
@@ -40,6 +48,14 @@ interface Reminder {
   contacts: { id: string; name: string; email: string | null } | null
   companies: { id: string; name: string } | null
   memos: { id: string; title: string } | null
+  // Meetings that showed it was done (or may have)
+  reminder_fulfillments?: Array<{
+    id: string
+    status: 'pending' | 'auto' | 'confirmed' | 'dismissed'
+    evidence: string | null
+    confidence: number
+    memos: { id: string; title: string } | null
+  }>
 }
 
 interface ReminderListProps {
@@ -52,6 +68,7 @@ const typeIcons: Record<string, typeof Handshake> = {
   follow_up: CalendarClock,
   deadline: Clock,
   intro_request: UserPlus,
+  nudge: BellRing,
 }
 
 const typeColors: Record<string, { bg: string; text: string }> = {
@@ -60,6 +77,7 @@ const typeColors: Record<string, { bg: string; text: string }> = {
   follow_up: { bg: 'bg-purple-500/20', text: 'text-purple-400' },
   deadline: { bg: 'bg-red-500/20', text: 'text-red-400' },
   intro_request: { bg: 'bg-emerald-500/20', text: 'text-emerald-400' },
+  nudge: { bg: 'bg-cyan-500/20', text: 'text-cyan-400' },
 }
 
 const priorityColors: Record<string, { bg: string; text: string }> = {
@@ -97,6 +115,27 @@ export function ReminderList({ reminders }: ReminderListProps) {
     router.refresh()
   }
 
+  const answerFulfillment = async (reminderId: string, fulfillmentId: string, confirm: boolean) => {
+    setLoadingId(reminderId)
+
+    try {
+      const response = await fetch(`/api/reminders/fulfillments/${fulfillmentId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(confirm ? { confirm: true } : { dismiss: true }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to answer suggestion')
+      }
+    } catch (error) {
+      console.error('Fulfillment error:', error)
+    }
+
+    setLoadingId(null)
+    router.refresh()
+  }
+
   const deleteReminder = async (reminderId: string) => {
     if (!confirm('Are you sure you want to delete this reminder?')) return
 
@@ -135,6 +174,12 @@ export function ReminderList({ reminders }: ReminderListProps) {
         const TypeIcon = typeIcons[reminder.type] || Handshake
         const typeColor = typeColors[reminder.type] || typeColors.commitment
         const priorityColor = priorityColors[reminder.priority] || priorityColors.medium
+        const suggestion = reminder.status !== 'completed'
+          ? reminder.reminder_fulfillments?.find((f) => f.status === 'pending')
+          : undefined
+        const evidence = reminder.status === 'completed'
+          ? reminder.reminder_fulfillments?.find((f) => f.status === 'auto' || f.status === 'confirmed')
+          : undefined
 
         return (
           <div
@@ -149,7 +194,7 @@ export function ReminderList({ reminders }: ReminderListProps) {
                 onClick={() => updateReminder(reminder.id, 'complete')}
                 disabled={loadingId === reminder.id}
                 className="mt-0.5 flex-shrink-0"
-                title="Mark as complete"
+                title={reminder.owner === 'them' ? 'Mark as received' : 'Mark as complete'}
               >
                 {loadingId === reminder.id ? (
                   <div className="w-5 h-5 border-2 border-slate-600 border-t-indigo-500 rounded-full animate-spin" />
@@ -184,6 +229,51 @@ export function ReminderList({ reminders }: ReminderListProps) {
                         <span className="italic line-clamp-2">&ldquo;{reminder.source_text}&rdquo;</span>
                       </div>
                     )}
+                    {evidence && (
+                      <p className="mt-2 text-xs text-emerald-400/80">
+                        Done per{' '}
+                        {evidence.memos ? (
+                          <Link href={`/memos/${evidence.memos.id}`} className="underline hover:text-emerald-300">
+                            {evidence.memos.title}
+                          </Link>
+                        ) : 'a later meeting'}
+                        {evidence.evidence && <span className="italic text-slate-500"> &ldquo;{evidence.evidence}&rdquo;</span>}
+                      </p>
+                    )}
+                    {suggestion && (
+                      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs bg-emerald-500/10 border border-emerald-500/20 rounded-lg p-2">
+                        <span className="text-emerald-300">
+                          Looks done in{' '}
+                          {suggestion.memos ? (
+                            <Link href={`/memos/${suggestion.memos.id}`} className="underline hover:text-emerald-200">
+                              {suggestion.memos.title}
+                            </Link>
+                          ) : 'a later meeting'}
+                        </span>
+                        {suggestion.evidence && (
+                          <span className="italic text-slate-400 line-clamp-1">&ldquo;{suggestion.evidence}&rdquo;</span>
+                        )}
+                        <div className="flex items-center gap-1 ml-auto">
+                          <button
+                            onClick={() => answerFulfillment(reminder.id, suggestion.id, true)}
+                            disabled={loadingId === reminder.id}
+                            className="inline-flex items-center gap-1 px-2 py-1 rounded bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-50"
+                          >
+                            <Check className="w-3 h-3" />
+                            Mark done
+                          </button>
+                          <button
+                            onClick={() => answerFulfillment(reminder.id, suggestion.id, false)}
+                            disabled={loadingId === reminder.id}
+                            className="inline-flex items-center gap-1 px-2 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-50"
+                            title="Not done yet"
+                          >
+                            <X className="w-3 h-3" />
+                            Not yet
+                          </button>
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   {/* Menu */}
@@ -269,6 +359,14 @@ export function ReminderList({ reminders }: ReminderListProps) {
                     {reminder.type.replace('_', ' ')}
                   </span>
 
+                  {/* Owed to the user */}
+                  {reminder.owner === 'them' && (
+                    <span className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs font-medium bg-cyan-500/20 text-cyan-400">
+                      <Hourglass className="w-3 h-3" />
+                      {reminder.contacts ? `${reminder.contacts.name} owes you` : 'Owed to you'}
+                    </span>
+                  )}
+
                   {/* Priority */}
                   {reminder.priority !== 'medium' && (
                     <span
@@ -288,6 +386,14 @@ export function ReminderList({ reminders }: ReminderListProps) {
                       <Calendar className="w-3.5 h-3.5" />
                       {overdue ? 'Overdue: ' : ''}
                       {formatDate(reminder.due_date)}
+                      {reminder.due_phrase && (
+                        <span
+                          className="text-slate-600"
+                          title={reminder.due_basis === 'phrase' ? 'Worked out from the meeting date' : 'Said in the meeting'}
+                        >
+                          &middot; &ldquo;{reminder.due_phrase}&rdquo;
+                        </span>
+                      )}
                     </div>
                   )}
 
@@ -9,13 +9,17 @@ import {
   Users,
   CalendarClock,
   UserPlus,
+  Hourglass,
+  BellRing,
 } from 'lucide-react'
+import { OWNED_BY_ME_FILTER, type ReminderOwner } from '@/lib/waiting-on'
 import { ReminderList } from './ReminderList'
 import { GenerateStaleButton } from './GenerateStaleButton'
 
 interface SearchParams {
   status?: string
   type?: string
+  owner?: string
 }
 
 const typeLabels: Record<string, string> = {
@@ -24,6 +28,7 @@ const typeLabels: Record<string, string> = {
   follow_up: 'Follow-ups',
   deadline: 'Deadlines',
   intro_request: 'Intros',
+  nudge: 'Nudges',
 }
 
 export default async function RemindersPage({
@@ -37,6 +42,15 @@ export default async function RemindersPage({
 
   const statusFilter = params.status || 'pending'
   const typeFilter = params.type || 'all'
+  // 'me': the user's own follow-ups; 'them': what others owe the user
+  const ownerFilter: ReminderOwner = params.owner === 'them' ? 'them' : 'me'
+
+  const href = (filters: { status?: string; type?: string; owner?: ReminderOwner }) => {
+    const status = filters.status ?? statusFilter
+    const type = filters.type ?? typeFilter
+    const owner = filters.owner ?? ownerFilter
+    return `/reminders?status=${status}${type !== 'all' ? `&type=${type}` : ''}${owner === 'them' ? '&owner=them' : ''}`
+  }
 
   // Fetch reminders
   let query = supabase
@@ -45,10 +59,13 @@ export default async function RemindersPage({
       *,
       contacts (id, name, email),
       companies (id, name),
-      memos (id, title)
+      memos (id, title),
+      reminder_fulfillments (id, status, evidence, confidence, memos (id, title))
     `)
     .eq('user_id', user!.id)
 
+  query = ownerFilter === 'them' ? query.eq('owner', 'them') : query.or(OWNED_BY_ME_FILTER)
+
   if (statusFilter !== 'all') {
     query = query.eq('status', statusFilter)
   }
@@ -66,27 +83,39 @@ export default async function RemindersPage({
 
   const { data: reminders, error } = await query
 
-  // Get counts by status
+  // Get counts by status and owner
   const { data: statusData } = await supabase
     .from('reminders')
-    .select('status')
+    .select('status, owner')
     .eq('user_id', user!.id)
 
-  const statusCounts = (statusData as Array<{ status: string }> | null)?.reduce(
-    (acc, { status }) => {
-      acc[status] = (acc[status] || 0) + 1
-      return acc
-    },
-    {} as Record<string, number>
-  ) || {}
+  const allStatuses = (statusData as Array<{ status: string; owner: ReminderOwner | null }> | null) || []
+
+  const statusCounts = allStatuses
+    .filter((r) => (r.owner === 'them') === (ownerFilter === 'them'))
+    .reduce(
+      (acc, { status }) => {
+        acc[status] = (acc[status] || 0) + 1
+        return acc
+      },
+      {} as Record<string, number>
+    )
+
+  const pending = allStatuses.filter((r) => r.status === 'pending')
+  const waitingOnCount = pending.filter((r) => r.owner === 'them').length
+  const myPendingCount = pending.length - waitingOnCount
 
   // Get counts by type (for pending only)
-  const { data: typeData } = await supabase
+  let typeQuery = supabase
     .from('reminders')
     .select('type')
     .eq('user_id', user!.id)
     .eq('status', 'pending')
 
+  typeQuery = ownerFilter === 'them' ? typeQuery.eq('owner', 'them') : typeQuery.or(OWNED_BY_ME_FILTER)
+
+  const { data: typeData } = await typeQuery
+
   const typeCounts = (typeData as Array<{ type: string }> | null)?.reduce(
     (acc, { type }) => {
       acc[type] = (acc[type] || 0) + 1
@@ -116,6 +145,14 @@ export default async function RemindersPage({
     { value: 'follow_up', label: 'Follow-ups', icon: CalendarClock, count: typeCounts.follow_up || 0 },
     { value: 'intro_request', label: 'Intros', icon: UserPlus, count: typeCounts.intro_request || 0 },
     { value: 'deadline', label: 'Deadlines', icon: Clock, count: typeCounts.deadline || 0 },
+    ...(ownerFilter === 'me'
+      ? [{ value: 'nudge', label: 'Nudges', icon: BellRing, count: typeCounts.nudge || 0 }]
+      : []),
+  ]
+
+  const ownerTabs = [
+    { value: 'me' as const, label: 'My Follow-ups', icon: Handshake, count: myPendingCount },
+    { value: 'them' as const, label: 'Waiting On', icon: Hourglass, count: waitingOnCount },
   ]
 
   return (
@@ -130,14 +167,44 @@ export default async function RemindersPage({
         <GenerateStaleButton />
       </div>
 
+      {/* Owner tabs */}
+      <div className="flex gap-6 mb-6 border-b border-slate-800">
+        {ownerTabs.map((tab) => {
+          const isActive = tab.value === ownerFilter
+          return (
+            <a
+              key={tab.value}
+              href={href({ owner: tab.value, type: 'all' })}
+              className={`inline-flex items-center gap-2 pb-3 -mb-px border-b-2 text-sm font-medium transition-colors ${
+                isActive
+                  ? 'border-indigo-500 text-white'
+                  : 'border-transparent text-slate-400 hover:text-white'
+              }`}
+            >
+              <tab.icon className="w-4 h-4" />
+              {tab.label}
+              <span className="text-slate-500">{tab.count}</span>
+            </a>
+          )
+        })}
+      </div>
+
       {/* Overdue alert */}
       {overdueCount > 0 && statusFilter === 'pending' && (
         <div className="mb-6 bg-red-500/10 border border-red-500/20 rounded-xl p-4 flex items-center gap-3">
           <AlertCircle className="w-5 h-5 text-red-400" />
-          <p className="text-red-300">
-            You have <span className="font-semibold">{overdueCount}</span> overdue reminder
-            {overdueCount !== 1 ? 's' : ''} that need attention
-          </p>
+          {ownerFilter === 'them' ? (
+            <p className="text-red-300">
+              <span className="font-semibold">{overdueCount}</span> item
+              {overdueCount !== 1 ? 's' : ''} you&apos;re waiting on {overdueCount !== 1 ? 'are' : 'is'} overdue
+              and will show up as nudges in your follow-ups
+            </p>
+          ) : (
+            <p className="text-red-300">
+              You have <span className="font-semibold">{overdueCount}</span> overdue reminder
+              {overdueCount !== 1 ? 's' : ''} that need attention
+            </p>
+          )}
         </div>
       )}
 
@@ -148,7 +215,7 @@ export default async function RemindersPage({
           return (
             <a
               key={tab.value}
-              href={`/reminders?status=${tab.value}${typeFilter !== 'all' ? `&type=${typeFilter}` : ''}`}
+              href={href({ status: tab.value })}
               className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
                 isActive
                   ? 'bg-indigo-600 text-white'
@@ -174,7 +241,7 @@ export default async function RemindersPage({
             return (
               <a
                 key={tab.value}
-                href={`/reminders?status=${statusFilter}&type=${tab.value}`}
+                href={href({ type: tab.value })}
                 className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
                   isActive
                     ? 'bg-slate-700 text-white'
@@ -205,7 +272,9 @@ export default async function RemindersPage({
         <div className="bg-slate-900 border border-slate-800 rounded-xl p-12 text-center">
           <Bell className="w-12 h-12 text-slate-600 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-white mb-2">
-            {statusFilter === 'all'
+            {ownerFilter === 'them'
+              ? 'Nobody owes you anything right now'
+              : statusFilter === 'all'
               ? 'No reminders yet'
               : typeFilter !== 'all'
               ? `No ${typeLabels[typeFilter] || typeFilter} reminders`
@@ -0,0 +1,135 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useRouter } from 'next/navigation'
+import { parseAliasList } from '@/lib/host-identity'
+import type { Profile } from '@/lib/supabase/types'
+
+interface HostIdentityFormProps {
+  profile: Profile | null
+}
+
+const FIELDS = [
+  {
+    key: 'host_names',
+    label: 'Your Names',
+    hint: 'How you appear in transcripts, e.g. your full name, first name or initials',
+    placeholder: 'Alex Kim, Alex',
+  },
+  {
+    key: 'host_emails',
+    label: 'Your Email Addresses',
+    hint: 'Anyone else on your firm\'s domain is treated as a colleague',
+    placeholder: 'alex@examplevc.com',
+  },
+  {
+    key: 'colleague_aliases',
+    label: 'Colleagues',
+    hint: 'Partners and teammates who join your meetings, by name or email',
+    placeholder: 'Jordan Lee, sam@examplevc.com',
+  },
+] as const
+
+type FieldKey = typeof FIELDS[number]['key']
+
+export function HostIdentityForm({ profile }: HostIdentityFormProps) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const [formData, setFormData] = useState<Record<FieldKey, string>>({
+    host_names: (profile?.host_names || []).join(', '),
+    host_emails: (profile?.host_emails || []).join(', '),
+    colleague_aliases: (profile?.colleague_aliases || []).join(', '),
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setMessage(null)
+
+    const hostEmails = parseAliasList(formData.host_emails)
+    if (hostEmails.some(email => !email.includes('@'))) {
+      setMessage({ type: 'error', text: 'Enter full email addresses, separated by commas' })
+      setIsLoading(false)
+      return
+    }
+
+    try {
+      const supabase = createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        setMessage({ type: 'error', text: 'Not authenticated' })
+        return
+      }
+
+      const { error } = await (supabase.from('profiles') as ReturnType<typeof supabase.from>)
+        .update({
+          host_names: parseAliasList(formData.host_names),
+          host_emails: hostEmails.map(email => email.toLowerCase()),
+          colleague_aliases: parseAliasList(formData.colleague_aliases),
+        } as never)
+        .eq('id', user.id)
+
+      if (error) {
+        setMessage({ type: 'error', text: error.message })
+        return
+      }
+
+      setMessage({ type: 'success', text: 'Saved. New meetings will leave you and your colleagues out of contacts.' })
+      router.refresh()
+    } catch {
+      setMessage({ type: 'error', text: 'An unexpected error occurred' })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {message && (
+        <div
+          className={`p-3 rounded-lg ${
+            message.type === 'success'
+              ? 'bg-emerald-500/10 border border-emerald-500/20'
+              : 'bg-red-500/10 border border-red-500/20'
+          }`}
+        >
+          <p className={`text-sm ${message.type === 'success' ? 'text-emerald-400' : 'text-red-400'}`}>
+            {message.text}
+          </p>
+        </div>
+      )}
+
+      {FIELDS.map((field) => (
+        <div key={field.key}>
+          <label className="block text-sm font-medium text-slate-300 mb-1.5">
+            {field.label}
+          </label>
+          <textarea
+            rows={2}
+            value={formData[field.key]}
+            onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+            className="w-full px-4 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-y"
+            placeholder={field.placeholder}
+          />
+          <p className="text-xs text-slate-500 mt-1">
+            {field.hint}. Separate entries with commas or new lines.
+          </p>
+        </div>
+      ))}
+
+      <div className="pt-2">
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-4 py-2.5 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  )
+}
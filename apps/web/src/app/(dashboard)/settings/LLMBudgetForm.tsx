@@ -0,0 +1,81 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useRouter } from 'next/navigation'
+
+interface LLMBudgetFormProps {
+  currentBudget: number | null
+  userId: string
+}
+
+export function LLMBudgetForm({ currentBudget, userId }: LLMBudgetFormProps) {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+  const [value, setValue] = useState(currentBudget !== null ? String(currentBudget) : '')
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage(null)
+
+    // Empty means no limit
+    const budget = value.trim() === '' ? null : Number(value)
+    if (budget !== null && (isNaN(budget) || budget < 0)) {
+      setMessage({ type: 'error', text: 'Enter a positive amount, or leave empty for no limit' })
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      const supabase = createClient()
+      // @ts-expect-error - Supabase types
+      const { error } = await supabase.from('profiles').update({ llm_monthly_budget_usd: budget }).eq('id', userId)
+
+      if (error) {
+        setMessage({ type: 'error', text: error.message })
+        return
+      }
+
+      setMessage({ type: 'success', text: budget === null ? 'Budget removed' : 'Budget saved' })
+      router.refresh()
+    } catch {
+      setMessage({ type: 'error', text: 'An unexpected error occurred' })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="relative w-40">
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500">$</span>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="No limit"
+            className="w-full pl-7 pr-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-4 py-2.5 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-emerald-400' : 'text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </form>
+  )
+}
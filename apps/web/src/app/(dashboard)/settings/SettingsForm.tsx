@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
 import type { Profile } from '@/lib/supabase/types'
@@ -18,8 +18,21 @@ export function SettingsForm({ profile, userEmail }: SettingsFormProps) {
   const [formData, setFormData] = useState({
     display_name: profile?.display_name || '',
     notification_email: profile?.notification_email || userEmail,
+    timezone: profile?.timezone || '',
   })
 
+  // Zones come from the browser, after hydration, so server and client
+  // render the same markup
+  const [timeZones, setTimeZones] = useState<string[]>([])
+
+  useEffect(() => {
+    setTimeZones(Intl.supportedValuesOf('timeZone'))
+    if (!profile?.timezone) {
+      const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+      setFormData(current => ({ ...current, timezone: current.timezone || browserZone }))
+    }
+  }, [profile?.timezone])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
@@ -38,6 +51,7 @@ export function SettingsForm({ profile, userEmail }: SettingsFormProps) {
         .update({
           display_name: formData.display_name || null,
           notification_email: formData.notification_email || null,
+          timezone: formData.timezone || null,
         } as never)
         .eq('id', user.id)
 
@@ -115,6 +129,28 @@ export function SettingsForm({ profile, userEmail }: SettingsFormProps) {
         </p>
       </div>
 
+      <div>
+        <label className="block text-sm font-medium text-slate-300 mb-1.5">
+          Time Zone
+        </label>
+        <select
+          value={formData.timezone}
+          onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+          className="w-full px-4 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">UTC</option>
+          {formData.timezone && !timeZones.includes(formData.timezone) && (
+            <option value={formData.timezone}>{formData.timezone}</option>
+          )}
+          {timeZones.map((zone) => (
+            <option key={zone} value={zone}>{zone}</option>
+          ))}
+        </select>
+        <p className="text-xs text-slate-500 mt-1">
+          Used to work out which day a meeting was on, so &quot;next Friday&quot; lands on the right date
+        </p>
+      </div>
+
       <div className="pt-2">
         <button
           type="submit"
@@ -1,6 +1,27 @@
+import Link from 'next/link'
+import { ChevronRight, LayoutTemplate } from 'lucide-react'
 import { createClient } from '@/lib/supabase/server'
 import { SettingsForm } from './SettingsForm'
+import { HostIdentityForm } from './HostIdentityForm'
 import { IntegrationsSection } from './IntegrationsSection'
+import { LLMBudgetForm } from './LLMBudgetForm'
+import { getMonthlyLLMUsage } from '@/lib/llm'
+import { STAGE_LABELS, type StageName } from '@/lib/pipeline/types'
+
+// Ledger stages that aren't pipeline stages
+const USAGE_STAGE_LABELS: Record<string, string> = {
+  'chat': 'Chat',
+  'contact-backfill': 'Contact backfill',
+  'diagnostics': 'Diagnostics',
+  'section-regeneration': 'Section regeneration',
+  'other': 'Other',
+}
+
+function formatTokens(count: number) {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`
+  return String(count)
+}
 
 export default async function SettingsPage() {
   const supabase = await createClient()
@@ -19,6 +40,21 @@ export default async function SettingsPage() {
     .select('*')
     .eq('user_id', user!.id)
 
+  // LLM usage this month
+  const usage = await getMonthlyLLMUsage(supabase, user!.id)
+  const totals = usage.reduce(
+    (sum, row) => ({
+      calls: sum.calls + row.calls,
+      inputTokens: sum.inputTokens + row.inputTokens,
+      outputTokens: sum.outputTokens + row.outputTokens,
+      costUsd: sum.costUsd + row.costUsd,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+  )
+  const rawBudget = (profile as { llm_monthly_budget_usd?: number | string | null } | null)?.llm_monthly_budget_usd
+  const budgetUsd = rawBudget != null ? Number(rawBudget) : null
+  const budgetUsed = budgetUsd ? Math.min(totals.costUsd / budgetUsd, 1) : 0
+
   return (
     <div className="p-8 max-w-4xl">
       <div className="mb-8">
@@ -35,6 +71,16 @@ export default async function SettingsPage() {
           <SettingsForm profile={profile} userEmail={user!.email || ''} />
         </section>
 
+        {/* Host Identity */}
+        <section className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-2">You in Meetings</h2>
+          <p className="text-slate-400 text-sm mb-6">
+            Tell us who you and your colleagues are, so you aren&apos;t added as contacts
+            and your own follow-ups are kept apart from what others owe you
+          </p>
+          <HostIdentityForm profile={profile} />
+        </section>
+
         {/* Integrations Section */}
         <section className="bg-slate-900 border border-slate-800 rounded-xl p-6">
           <h2 className="text-lg font-semibold text-white mb-2">Integrations</h2>
@@ -44,6 +90,102 @@ export default async function SettingsPage() {
           <IntegrationsSection integrations={integrations || []} />
         </section>
 
+        {/* Memo Templates */}
+        <Link
+          href="/settings/templates"
+          className="flex items-center justify-between bg-slate-900 border border-slate-800 rounded-xl p-6 hover:border-slate-700 transition-colors"
+        >
+          <div className="flex items-center gap-4">
+            <LayoutTemplate className="w-5 h-5 text-indigo-400" />
+            <div>
+              <h2 className="text-lg font-semibold text-white">Memo Templates</h2>
+              <p className="text-slate-400 text-sm">
+                Choose the sections and prompts your memos are written with
+              </p>
+            </div>
+          </div>
+          <ChevronRight className="w-5 h-5 text-slate-500" />
+        </Link>
+
+        {/* AI Usage */}
+        <section className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-2">AI Usage</h2>
+          <p className="text-slate-400 text-sm mb-6">
+            Model calls this month and their estimated cost
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="bg-slate-800/50 rounded-lg p-4">
+              <p className="text-xs text-slate-500">Estimated cost</p>
+              <p className="text-xl font-semibold text-white mt-1">${totals.costUsd.toFixed(2)}</p>
+            </div>
+            <div className="bg-slate-800/50 rounded-lg p-4">
+              <p className="text-xs text-slate-500">Calls</p>
+              <p className="text-xl font-semibold text-white mt-1">{totals.calls}</p>
+            </div>
+            <div className="bg-slate-800/50 rounded-lg p-4">
+              <p className="text-xs text-slate-500">Input tokens</p>
+              <p className="text-xl font-semibold text-white mt-1">{formatTokens(totals.inputTokens)}</p>
+            </div>
+            <div className="bg-slate-800/50 rounded-lg p-4">
+              <p className="text-xs text-slate-500">Output tokens</p>
+              <p className="text-xl font-semibold text-white mt-1">{formatTokens(totals.outputTokens)}</p>
+            </div>
+          </div>
+
+          {usage.length > 0 && (
+            <table className="w-full text-sm mb-6">
+              <thead>
+                <tr className="text-left text-xs text-slate-500">
+                  <th className="font-medium pb-2">Stage</th>
+                  <th className="font-medium pb-2 text-right">Calls</th>
+                  <th className="font-medium pb-2 text-right">Tokens in / out</th>
+                  <th className="font-medium pb-2 text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {usage.map((row) => (
+                  <tr key={row.stage} className="text-slate-300">
+                    <td className="py-2">
+                      {STAGE_LABELS[row.stage as StageName] || USAGE_STAGE_LABELS[row.stage] || row.stage}
+                    </td>
+                    <td className="py-2 text-right">{row.calls}</td>
+                    <td className="py-2 text-right">
+                      {formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}
+                    </td>
+                    <td className="py-2 text-right">${row.costUsd.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1.5">
+              Monthly Budget
+            </label>
+            <p className="text-xs text-slate-500 mb-2">
+              When the month&apos;s estimated cost reaches the budget, new meetings wait in the queue
+              instead of being processed. They resume automatically after you raise the budget or the month ends.
+            </p>
+            {budgetUsd !== null && (
+              <div className="max-w-xs mb-3">
+                <div className="flex justify-between text-xs text-slate-400 mb-1">
+                  <span>${totals.costUsd.toFixed(2)} of ${budgetUsd.toFixed(2)}</span>
+                  <span>{Math.round(budgetUsed * 100)}%</span>
+                </div>
+                <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${budgetUsed >= 1 ? 'bg-red-500' : budgetUsed >= 0.8 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                    style={{ width: `${budgetUsed * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            <LLMBudgetForm currentBudget={budgetUsd} userId={user!.id} />
+          </div>
+        </section>
+
         {/* Notification Preferences */}
         <section className="bg-slate-900 border border-slate-800 rounded-xl p-6">
           <h2 className="text-lg font-semibold text-white mb-6">Notifications</h2>
@@ -0,0 +1,256 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowUp, ArrowDown, Plus, Trash2 } from 'lucide-react'
+import type { TemplateSection } from '@/lib/templates'
+
+interface TemplateEditorProps {
+  template: {
+    id: string
+    name: string
+    description: string
+    meeting_type: string
+    is_active: boolean
+    system_prompt: string
+    memo_prompt: string
+    sections: TemplateSection[]
+    detection_keywords: string[]
+  }
+  meetingTypes: Array<{ id: string; name: string }>
+}
+
+const inputClass =
+  'w-full px-3 py-2.5 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500'
+
+/**
+ * "Key Metrics & Traction" → "key-metrics-traction", unique within the template
+ */
+function sectionId(title: string, taken: string[]): string {
+  const base = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'section'
+  let id = base
+  for (let n = 2; taken.includes(id); n++) id = `${base}-${n}`
+  return id
+}
+
+export function TemplateEditor({ template, meetingTypes }: TemplateEditorProps) {
+  const router = useRouter()
+  const [name, setName] = useState(template.name)
+  const [description, setDescription] = useState(template.description)
+  const [meetingType, setMeetingType] = useState(template.meeting_type)
+  const [isActive, setIsActive] = useState(template.is_active)
+  const [systemPrompt, setSystemPrompt] = useState(template.system_prompt)
+  const [memoPrompt, setMemoPrompt] = useState(template.memo_prompt)
+  const [keywords, setKeywords] = useState(template.detection_keywords.join(', '))
+  const [sections, setSections] = useState(template.sections.map(section => ({ ...section })))
+  const [isLoading, setIsLoading] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const updateSection = (index: number, changes: Partial<TemplateSection>) => {
+    setSections(current => current.map((section, i) => (i === index ? { ...section, ...changes } : section)))
+  }
+
+  const moveSection = (index: number, offset: number) => {
+    setSections(current => {
+      const target = index + offset
+      if (target < 0 || target >= current.length) return current
+      const next = [...current]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const addSection = () => {
+    setSections(current => [
+      ...current,
+      { id: sectionId('New Section', current.map(s => s.id)), title: 'New Section', prompt: '', required: false },
+    ])
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage(null)
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          description,
+          meeting_type: meetingType,
+          is_active: isActive,
+          system_prompt: systemPrompt,
+          memo_prompt: memoPrompt,
+          sections,
+          detection_keywords: keywords.split(',').map(k => k.trim()).filter(Boolean),
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to save template' })
+        return
+      }
+
+      setMessage({ type: 'success', text: 'Template saved' })
+      router.refresh()
+    } catch {
+      setMessage({ type: 'error', text: 'An unexpected error occurred' })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-8">
+      <section className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1.5">Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1.5">Meeting type</label>
+            <select value={meetingType} onChange={(e) => setMeetingType(e.target.value)} className={inputClass}>
+              {meetingTypes.map((type) => (
+                <option key={type.id} value={type.id}>{type.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1.5">Description</label>
+          <input value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={isActive}
+            onChange={(e) => setIsActive(e.target.checked)}
+            className="rounded border-slate-600 bg-slate-800 text-indigo-600 focus:ring-indigo-500"
+          />
+          Use for every {meetingTypes.find(t => t.id === meetingType)?.name || meetingType} memo
+        </label>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1.5">Detection keywords</label>
+          <p className="text-xs text-slate-500 mb-2">
+            Comma-separated. When active, these help classify transcripts as this meeting type.
+          </p>
+          <input value={keywords} onChange={(e) => setKeywords(e.target.value)} className={inputClass} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1.5">System prompt</label>
+          <textarea
+            value={systemPrompt}
+            onChange={(e) => setSystemPrompt(e.target.value)}
+            rows={3}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1.5">Memo instructions</label>
+          <textarea
+            value={memoPrompt}
+            onChange={(e) => setMemoPrompt(e.target.value)}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+      </section>
+
+      <section className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-semibold text-white">Sections</h2>
+          <button
+            type="button"
+            onClick={addSection}
+            className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 text-sm text-white rounded-lg hover:bg-slate-700"
+          >
+            <Plus className="w-4 h-4" />
+            Add section
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {sections.map((section, index) => (
+            <div key={section.id} className="bg-slate-800/50 border border-slate-800 rounded-lg p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  value={section.title}
+                  onChange={(e) => updateSection(index, { title: e.target.value })}
+                  placeholder="Section title"
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={() => moveSection(index, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                  className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveSection(index, 1)}
+                  disabled={index === sections.length - 1}
+                  title="Move down"
+                  className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSections(current => current.filter((_, i) => i !== index))}
+                  title="Remove section"
+                  className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-slate-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <textarea
+                value={section.prompt}
+                onChange={(e) => updateSection(index, { prompt: e.target.value })}
+                placeholder="What this section should cover"
+                rows={2}
+                className={inputClass}
+              />
+              <label className="flex items-center gap-2 text-sm text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={section.required}
+                  onChange={(e) => updateSection(index, { required: e.target.checked })}
+                  className="rounded border-slate-600 bg-slate-800 text-indigo-600 focus:ring-indigo-500"
+                />
+                Required
+              </label>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <div className="flex items-center gap-4">
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-4 py-2.5 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Saving...' : 'Save Template'}
+        </button>
+
+        {message && (
+          <p className={`text-sm ${message.type === 'success' ? 'text-emerald-400' : 'text-red-400'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </form>
+  )
+}
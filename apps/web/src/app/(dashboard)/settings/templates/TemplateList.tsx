@@ -0,0 +1,168 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Copy, Pencil, Trash2, CheckCircle2, Circle } from 'lucide-react'
+
+interface TemplateListProps {
+  builtIn: Array<{ id: string; name: string; description: string; sectionCount: number }>
+  custom: Array<{
+    id: string
+    name: string
+    description: string | null
+    meetingType: string
+    isActive: boolean
+    sectionCount: number
+  }>
+}
+
+export function TemplateList({ builtIn, custom }: TemplateListProps) {
+  const router = useRouter()
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const typeName = (meetingType: string) => builtIn.find(t => t.id === meetingType)?.name || meetingType
+
+  // Copies open straight in the editor
+  const cloneTemplate = async (id: string) => {
+    setBusyId(id)
+    try {
+      const response = await fetch('/api/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clone_from: id }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to copy template')
+      router.push(`/settings/templates/${data.template.id}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to copy template')
+      setBusyId(null)
+    }
+  }
+
+  const deleteTemplate = async (id: string) => {
+    if (!confirm('Delete this template? Folders using it go back to the built-in templates.')) return
+    setBusyId(id)
+    try {
+      const response = await fetch(`/api/templates/${id}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error((await response.json()).error || 'Failed to delete template')
+      toast.success('Template deleted')
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete template')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const toggleActive = async (id: string, isActive: boolean) => {
+    setBusyId(id)
+    try {
+      const response = await fetch(`/api/templates/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: !isActive }),
+      })
+      if (!response.ok) throw new Error((await response.json()).error || 'Failed to update template')
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update template')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+        <h2 className="text-lg font-semibold text-white mb-2">Your Templates</h2>
+        <p className="text-slate-400 text-sm mb-6">
+          Copy a built-in template below to start your own
+        </p>
+
+        {custom.length === 0 ? (
+          <p className="text-sm text-slate-500">No custom templates yet</p>
+        ) : (
+          <div className="divide-y divide-slate-800">
+            {custom.map((template) => (
+              <div key={template.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-white truncate">{template.name}</p>
+                    {template.isActive && (
+                      <span className="px-2 py-0.5 rounded bg-emerald-500/10 text-xs text-emerald-400">Active</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {typeName(template.meetingType)} · {template.sectionCount} section{template.sectionCount !== 1 ? 's' : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => toggleActive(template.id, template.isActive)}
+                    disabled={busyId === template.id}
+                    title={template.isActive
+                      ? 'Stop using for this meeting type'
+                      : `Use for every ${typeName(template.meetingType)} memo`}
+                    className="p-2 rounded-lg text-slate-400 hover:text-emerald-400 hover:bg-slate-800 disabled:opacity-50"
+                  >
+                    {template.isActive ? <CheckCircle2 className="w-4 h-4 text-emerald-400" /> : <Circle className="w-4 h-4" />}
+                  </button>
+                  <Link
+                    href={`/settings/templates/${template.id}`}
+                    title="Edit"
+                    className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Link>
+                  <button
+                    onClick={() => cloneTemplate(template.id)}
+                    disabled={busyId === template.id}
+                    title="Copy"
+                    className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-50"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => deleteTemplate(template.id)}
+                    disabled={busyId === template.id}
+                    title="Delete"
+                    className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-slate-800 disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+        <h2 className="text-lg font-semibold text-white mb-6">Built-in Templates</h2>
+        <div className="divide-y divide-slate-800">
+          {builtIn.map((template) => (
+            <div key={template.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <p className="font-medium text-white">{template.name}</p>
+                <p className="text-xs text-slate-500 mt-0.5">
+                  {template.description} · {template.sectionCount} sections
+                </p>
+              </div>
+              <button
+                onClick={() => cloneTemplate(template.id)}
+                disabled={busyId === template.id}
+                className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 text-sm text-white rounded-lg hover:bg-slate-700 disabled:opacity-50 shrink-0"
+              >
+                <Copy className="w-4 h-4" />
+                {busyId === template.id ? 'Copying...' : 'Copy'}
+              </button>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  )
+}
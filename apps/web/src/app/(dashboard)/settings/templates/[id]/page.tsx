@@ -0,0 +1,57 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { ArrowLeft } from 'lucide-react'
+import { createClient } from '@/lib/supabase/server'
+import { MEMO_TEMPLATES, type TemplateSection } from '@/lib/templates'
+import type { MemoTemplateRow } from '@/lib/supabase/types'
+import { TemplateEditor } from '../TemplateEditor'
+
+export default async function EditTemplatePage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data: template } = await supabase
+    .from('memo_templates')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', user!.id)
+    .maybeSingle() as { data: MemoTemplateRow | null }
+
+  if (!template) {
+    notFound()
+  }
+
+  return (
+    <div className="p-8 max-w-4xl">
+      <Link
+        href="/settings/templates"
+        className="inline-flex items-center gap-2 text-sm text-slate-400 hover:text-white mb-6"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to templates
+      </Link>
+
+      <h1 className="text-2xl font-bold text-white mb-8">Edit Template</h1>
+
+      <TemplateEditor
+        template={{
+          id: template.id,
+          name: template.name,
+          description: template.description || '',
+          meeting_type: template.meeting_type,
+          is_active: template.is_active,
+          system_prompt: template.system_prompt || '',
+          memo_prompt: template.memo_prompt || '',
+          sections: Array.isArray(template.sections) ? (template.sections as unknown as TemplateSection[]) : [],
+          detection_keywords: template.detection_keywords || [],
+        }}
+        meetingTypes={MEMO_TEMPLATES.map(t => ({ id: t.id, name: t.name }))}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { createClient } from '@/lib/supabase/server'
+import { MEMO_TEMPLATES } from '@/lib/templates'
+import { getCustomTemplates } from '@/lib/templates/custom'
+import { TemplateList } from './TemplateList'
+
+export default async function TemplatesPage() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const custom = await getCustomTemplates(supabase, user!.id)
+
+  return (
+    <div className="p-8 max-w-4xl">
+      <Link
+        href="/settings"
+        className="inline-flex items-center gap-2 text-sm text-slate-400 hover:text-white mb-6"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to settings
+      </Link>
+
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-white">Memo Templates</h1>
+        <p className="text-slate-400 mt-1">
+          Templates decide which sections a memo has and how each one is written. An active
+          custom template replaces the built-in one for its meeting type; folders can also pick a template.
+        </p>
+      </div>
+
+      <TemplateList
+        builtIn={MEMO_TEMPLATES.map(t => ({ id: t.id, name: t.name, description: t.description, sectionCount: t.sections.length }))}
+        custom={custom.map(t => ({
+          id: t.id,
+          name: t.name,
+          description: t.description,
+          meetingType: t.meeting_type,
+          isActive: t.is_active,
+          sectionCount: Array.isArray(t.sections) ? t.sections.length : 0,
+        }))}
+      />
+    </div>
+  )
+}
@@ -1,11 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
-import { generateText } from 'ai'
-import { createAnthropic } from '@ai-sdk/anthropic'
-
-const anthropic = createAnthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-})
+import { completeText, withLLMUsageContext } from '@/lib/llm'
 
 interface MemoResult {
   id: string
@@ -14,6 +9,13 @@ interface MemoResult {
   meeting_date: string | null
 }
 
+interface TranscriptMatch {
+  memo_id: string
+  title: string | null
+  meeting_date: string | null
+  snippet: string
+}
+
 interface StatsResult {
   total_memos: number
   total_companies: number
@@ -77,6 +79,14 @@ export async function POST(request: Request) {
       result_limit: 5,
     }) as { data: MemoResult[] | null }
 
+    // What was actually said, from stored transcripts
+    // @ts-expect-error - Supabase RPC types
+    const { data: transcriptMatches } = await supabase.rpc('search_transcripts', {
+      search_query: message,
+      p_user_id: user.id,
+      result_limit: 3,
+    }) as { data: TranscriptMatch[] | null }
+
     const { data: contactsData } = await supabase
       .from('contacts')
       .select('id, name, email, title, company_id, companies(name), last_met_date, notes')
@@ -123,6 +133,18 @@ Content: ${memo.content.slice(0, 1500)}${memo.content.length > 1500 ? '...' : ''
         .join('\n\n')
     }
 
+    // Build transcript excerpts context
+    const transcriptContext = (transcriptMatches || [])
+      .map(match => {
+        if (!sources.some(source => source.id === match.memo_id)) {
+          sources.push({ id: match.memo_id, title: match.title || 'Meeting' })
+        }
+        const date = match.meeting_date ? new Date(match.meeting_date).toLocaleDateString() : 'Unknown'
+        return `Meeting: ${match.title || 'Untitled'} (${date})
+Excerpt: ${match.snippet.replace(/<\/?b>/g, '')}`
+      })
+      .join('\n\n')
+
     // Build contacts context
     const contactsContext = contacts.length > 0
       ? contacts.map(c => {
@@ -169,6 +191,8 @@ ${remindersContext}
 
 ${memoContext ? `## RELEVANT MEETING NOTES\n${memoContext}` : ''}
 
+${transcriptContext ? `## RELEVANT TRANSCRIPT EXCERPTS (verbatim)\n${transcriptContext}` : ''}
+
 ## INSTRUCTIONS
 - You have complete visibility into ALL contacts, companies, and reminders listed above
 - When asked about contacts or companies, reference the specific data provided
@@ -178,11 +202,10 @@ ${memoContext ? `## RELEVANT MEETING NOTES\n${memoContext}` : ''}
 - Be concise and professional`
 
     // Generate response using Claude
-    const { text } = await generateText({
-      model: anthropic('claude-3-haiku-20240307'),
-      system: systemContext,
-      prompt: message,
-    })
+    const text = await withLLMUsageContext(
+      { userId: user.id, stage: 'chat' },
+      () => completeText('chat', message, systemContext)
+    )
 
     // Create or update conversation
     let currentConversationId = conversationId
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakeSupabase, type FakeSupabase } from '@/test/supabase'
+import { POST } from './route'
+
+const server = vi.hoisted(() => ({ client: null as unknown }))
+vi.mock('@/lib/supabase/server', () => ({
+  createAdminClient: () => server.client,
+  createClient: async () => server.client,
+}))
+
+const USER_ID = 'user-1'
+const MEMO_ID = 'memo-1'
+
+let db: FakeSupabase
+
+beforeEach(() => {
+  db = createFakeSupabase({
+    company_confirmations: [{
+      id: 'confirmation-1',
+      user_id: USER_ID,
+      memo_id: MEMO_ID,
+      detected_name: 'Lumen Labs',
+      website: null,
+      role: 'primary',
+      snippet: null,
+      status: 'pending',
+      metrics: [{ user_id: USER_ID, memo_id: MEMO_ID, metric: 'arr', value: 1_200_000, unit: 'usd', period: null, as_of: '2025-03-12', quote: 'arr quote', speaker: 'Priya', utterance_index: 4 }],
+    }],
+    memos: [{ id: MEMO_ID, user_id: USER_ID, company_id: null }],
+    contact_memos: [{ contact_id: 'priya', memo_id: MEMO_ID }, { contact_id: 'dana', memo_id: MEMO_ID }],
+    contacts: [
+      { id: 'priya', user_id: USER_ID, name: 'Priya Shah', company_id: null },
+      { id: 'dana', user_id: USER_ID, name: 'Dana', company_id: 'northwind' },
+      { id: 'sam', user_id: USER_ID, name: 'Sam', company_id: null },
+    ],
+  })
+  const client = db.client as unknown as Record<string, unknown>
+  client.auth = { getUser: async () => ({ data: { user: { id: USER_ID } } }) }
+  server.client = client
+})
+
+function confirm(body: Record<string, unknown>) {
+  return POST(
+    new Request('http://localhost/api/companies/confirmations/confirmation-1', { method: 'POST', body: JSON.stringify(body) }),
+    { params: Promise.resolve({ id: 'confirmation-1' }) }
+  )
+}
+
+describe('POST /api/companies/confirmations/[id]', () => {
+  it('gives the confirmed company to the memo, its people without one and the held figures', async () => {
+    const response = await confirm({ create: true })
+    const { company_id: companyId } = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(db.tables.memos[0].company_id).toBe(companyId)
+    expect(Object.fromEntries(db.tables.contacts.map(c => [c.id, c.company_id]))).toEqual({
+      priya: companyId,
+      dana: 'northwind',
+      sam: null,
+    })
+    expect(db.tables.company_metrics).toEqual([expect.objectContaining({ company_id: companyId, metric: 'arr', value: 1_200_000 })])
+  })
+
+  it('drops the held figures when dismissed', async () => {
+    await confirm({ dismiss: true })
+
+    expect(db.tables.company_metrics).toBeUndefined()
+    expect(db.tables.contacts.find(c => c.id === 'priya')?.company_id).toBeNull()
+  })
+})
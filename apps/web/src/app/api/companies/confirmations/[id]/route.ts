@@ -0,0 +1,144 @@
+import { NextResponse } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { saveHeldMetrics } from '@/lib/pipeline/persistence'
+import type { CompanyConfirmation } from '@/lib/supabase/types'
+
+/**
+ * POST /api/companies/confirmations/[id]
+ * Answer a "confirm company" question: { company_id } links the memo to an
+ * existing company, { create: true } creates the company as detected and
+ * { dismiss: true } leaves the memo unlinked
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({})) as {
+      company_id?: string
+      create?: boolean
+      dismiss?: boolean
+    }
+
+    const adminClient = createAdminClient()
+
+    const { data: confirmation } = await (adminClient
+      .from('company_confirmations') as ReturnType<typeof adminClient.from>)
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .maybeSingle() as { data: CompanyConfirmation | null }
+
+    if (!confirmation) {
+      return NextResponse.json({ error: 'Confirmation not found' }, { status: 404 })
+    }
+
+    const resolve = async (status: 'confirmed' | 'dismissed', companyId: string | null) => {
+      await (adminClient
+        .from('company_confirmations') as ReturnType<typeof adminClient.from>)
+        .update({ status, company_id: companyId, resolved_at: new Date().toISOString() } as never)
+        .eq('id', id)
+    }
+
+    if (body.dismiss) {
+      await resolve('dismissed', null)
+      return NextResponse.json({ success: true, company_id: null })
+    }
+
+    let companyId: string
+    if (body.create) {
+      const { data: created, error: createError } = await (adminClient
+        .from('companies') as ReturnType<typeof adminClient.from>)
+        .insert({
+          user_id: user.id,
+          name: confirmation.detected_name,
+          website: confirmation.website,
+        } as never)
+        .select('id')
+        .single() as { data: { id: string } | null; error: { message?: string } | null }
+
+      if (createError || !created) {
+        throw new Error(createError?.message || 'Failed to create company')
+      }
+      companyId = created.id
+    } else if (body.company_id) {
+      const { data: company } = await (adminClient
+        .from('companies') as ReturnType<typeof adminClient.from>)
+        .select('id')
+        .eq('id', body.company_id)
+        .eq('user_id', user.id)
+        .maybeSingle() as { data: { id: string } | null }
+
+      if (!company) {
+        return NextResponse.json({ error: 'Company not found' }, { status: 404 })
+      }
+      companyId = company.id
+    } else {
+      return NextResponse.json({ error: 'Pick a company, create one or dismiss' }, { status: 400 })
+    }
+
+    // The memo's subject also becomes the company of its tasks, reminders
+    // and the people in it who have none yet
+    if (confirmation.role === 'primary') {
+      for (const table of ['memos', 'tasks', 'reminders']) {
+        await (adminClient
+          .from(table) as ReturnType<typeof adminClient.from>)
+          .update({ company_id: companyId } as never)
+          .eq(table === 'memos' ? 'id' : 'memo_id', confirmation.memo_id)
+          .eq('user_id', user.id)
+          .is('company_id', null)
+      }
+
+      const { data: contactLinks } = await (adminClient
+        .from('contact_memos') as ReturnType<typeof adminClient.from>)
+        .select('contact_id')
+        .eq('memo_id', confirmation.memo_id) as { data: Array<{ contact_id: string }> | null }
+
+      const contactIds = (contactLinks || []).map(link => link.contact_id)
+      if (contactIds.length > 0) {
+        await (adminClient
+          .from('contacts') as ReturnType<typeof adminClient.from>)
+          .update({ company_id: companyId } as never)
+          .in('id', contactIds)
+          .eq('user_id', user.id)
+          .is('company_id', null)
+      }
+    }
+
+    // Figures said about the company were held until now
+    await saveHeldMetrics(adminClient, confirmation.metrics, companyId)
+
+    // A company already linked to the memo keeps its role
+    const { error: linkError } = await (adminClient
+      .from('memo_companies') as ReturnType<typeof adminClient.from>)
+      .upsert({
+        user_id: user.id,
+        memo_id: confirmation.memo_id,
+        company_id: companyId,
+        role: confirmation.role,
+        snippet: confirmation.snippet,
+      } as never, { onConflict: 'memo_id,company_id', ignoreDuplicates: true }) as { error: { message?: string } | null }
+
+    if (linkError) {
+      throw new Error(linkError.message || 'Failed to link company')
+    }
+
+    await resolve('confirmed', companyId)
+    return NextResponse.json({ success: true, company_id: companyId })
+  } catch (error) {
+    console.error('[Company Confirmation] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to confirm company' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { CompanyMergeError, undoCompanyMerge } from '@/lib/company-merge'
+
+/**
+ * POST /api/companies/merges/[id]/undo
+ * Undo a company merge, restoring the merged companies and their links
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await undoCompanyMerge(createAdminClient(), user.id, id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof CompanyMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Company Merge Undo] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to undo merge' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { CompanyMergeError, MERGE_FIELDS, mergeCompanies, type MergeField } from '@/lib/company-merge'
+
+/**
+ * POST /api/companies/merges
+ * Merge duplicate companies into one
+ * ({ company_id, duplicate_ids, fields?: { [field]: company ID to keep it from } })
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({})) as {
+      company_id?: string
+      duplicate_ids?: string[]
+      fields?: Record<string, string>
+    }
+
+    if (!body.company_id || !Array.isArray(body.duplicate_ids)) {
+      return NextResponse.json({ error: 'company_id and duplicate_ids are required' }, { status: 400 })
+    }
+
+    const fields = Object.fromEntries(
+      Object.entries(body.fields || {}).filter(([field]) => MERGE_FIELDS.includes(field as MergeField))
+    ) as Partial<Record<MergeField, string>>
+
+    const mergeId = await mergeCompanies(createAdminClient(), user.id, {
+      companyId: body.company_id,
+      duplicateIds: body.duplicate_ids,
+      fields,
+    })
+
+    return NextResponse.json({ success: true, merge_id: mergeId })
+  } catch (error) {
+    if (error instanceof CompanyMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Company Merge] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to merge companies' },
+      { status: 500 }
+    )
+  }
+}
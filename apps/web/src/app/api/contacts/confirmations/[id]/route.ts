@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { saveContact } from '@/lib/pipeline/persistence'
+import { recordAliases } from '@/lib/contact-identity'
+import type { ExtractedContact } from '@/lib/pipeline/extractors'
+import type { ContactConfirmation } from '@/lib/supabase/types'
+
+/**
+ * POST /api/contacts/confirmations/[id]
+ * Answer a "who is this?" question: { contact_id } makes the person an
+ * existing contact, { create: true } adds them as a new contact and
+ * { dismiss: true } leaves them out
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({})) as {
+      contact_id?: string
+      create?: boolean
+      dismiss?: boolean
+    }
+
+    const adminClient = createAdminClient()
+
+    const { data: confirmation } = await (adminClient
+      .from('contact_confirmations') as ReturnType<typeof adminClient.from>)
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .maybeSingle() as { data: ContactConfirmation | null }
+
+    if (!confirmation) {
+      return NextResponse.json({ error: 'Confirmation not found' }, { status: 404 })
+    }
+
+    const resolve = async (status: 'confirmed' | 'dismissed', contactId: string | null) => {
+      await (adminClient
+        .from('contact_confirmations') as ReturnType<typeof adminClient.from>)
+        .update({ status, contact_id: contactId, resolved_at: new Date().toISOString() } as never)
+        .eq('id', id)
+    }
+
+    if (body.dismiss) {
+      await resolve('dismissed', null)
+      return NextResponse.json({ success: true, contact_id: null })
+    }
+
+    let existingId: string | null = null
+    if (body.contact_id) {
+      const { data: contact } = await (adminClient
+        .from('contacts') as ReturnType<typeof adminClient.from>)
+        .select('id')
+        .eq('id', body.contact_id)
+        .eq('user_id', user.id)
+        .maybeSingle() as { data: { id: string } | null }
+
+      if (!contact) {
+        return NextResponse.json({ error: 'Contact not found' }, { status: 404 })
+      }
+      existingId = contact.id
+    } else if (!body.create) {
+      return NextResponse.json({ error: 'Pick a contact, create one or dismiss' }, { status: 400 })
+    }
+
+    const { data: memo } = await (adminClient
+      .from('memos') as ReturnType<typeof adminClient.from>)
+      .select('company_id, meeting_date')
+      .eq('id', confirmation.memo_id)
+      .maybeSingle() as { data: { company_id: string | null; meeting_date: string | null } | null }
+
+    const extracted = { ...(confirmation.extracted as unknown as ExtractedContact), name: confirmation.detected_name }
+    const contactId = await saveContact(
+      adminClient,
+      user.id,
+      existingId,
+      extracted,
+      confirmation.memo_id,
+      memo?.company_id || null,
+      memo?.meeting_date || null
+    )
+
+    if (!contactId) {
+      throw new Error('Failed to save contact')
+    }
+
+    // The name now counts towards this contact when it comes up again
+    await recordAliases(
+      adminClient,
+      user.id,
+      contactId,
+      { names: [confirmation.detected_name], email: extracted.email, linkedin_url: extracted.linkedin_url },
+      'review'
+    )
+
+    await resolve('confirmed', contactId)
+    return NextResponse.json({ success: true, contact_id: contactId })
+  } catch (error) {
+    console.error('[Contact Confirmation] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to confirm contact' },
+      { status: 500 }
+    )
+  }
+}
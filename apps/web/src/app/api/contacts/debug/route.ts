@@ -1,39 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { completeText, withLLMUsageContext } from '@/lib/llm'
 
-// Use Claude Haiku for testing
 async function callAI(prompt: string): Promise<{ success: boolean; content?: string; error?: string }> {
-  const apiKey = (process.env.ANTHROPIC_API_KEY || '').trim()
-
-  if (!apiKey) {
-    return { success: false, error: 'ANTHROPIC_API_KEY not configured' }
-  }
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: 'claude-3-haiku-20240307',
-      max_tokens: 4096,
-      messages: [{ role: 'user', content: prompt }],
-    }),
-  })
-
-  const data = await response.json()
-
-  if (!response.ok) {
-    return { success: false, error: `Claude API error: ${response.status} - ${JSON.stringify(data)}` }
-  }
-
-  if (!data.content || !data.content[0]) {
-    return { success: false, error: `Unexpected response: ${JSON.stringify(data)}` }
+  try {
+    const content = await completeText('diagnostics', prompt)
+    return { success: true, content }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
   }
-
-  return { success: true, content: data.content[0].text }
 }
 
 export async function POST(request: NextRequest) {
@@ -99,7 +74,7 @@ EXAMPLE: For "The meeting was between Trent Herren and Zach... Mike, an LP, refe
 MEMO CONTENT:
 ${memo.content.slice(0, 12000)}`
 
-    const aiResult = await callAI(prompt)
+    const aiResult = await withLLMUsageContext({ userId: user.id, stage: 'diagnostics' }, () => callAI(prompt))
 
     if (!aiResult.success) {
       return NextResponse.json({
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { ContactMergeError, undoContactMerge } from '@/lib/contact-merge'
+
+/**
+ * POST /api/contacts/merges/[id]/undo
+ * Undo a contact merge, restoring the merged contacts and their links
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await undoContactMerge(createAdminClient(), user.id, id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof ContactMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Contact Merge Undo] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to undo merge' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { ContactMergeError, MERGE_FIELDS, mergeContacts, type MergeField } from '@/lib/contact-merge'
+
+/**
+ * POST /api/contacts/merges
+ * Merge duplicate contacts into one
+ * ({ contact_id, duplicate_ids, fields?: { [field]: contact ID to keep it from } })
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({})) as {
+      contact_id?: string
+      duplicate_ids?: string[]
+      fields?: Record<string, string>
+    }
+
+    if (!body.contact_id || !Array.isArray(body.duplicate_ids)) {
+      return NextResponse.json({ error: 'contact_id and duplicate_ids are required' }, { status: 400 })
+    }
+
+    const fields = Object.fromEntries(
+      Object.entries(body.fields || {}).filter(([field]) => MERGE_FIELDS.includes(field as MergeField))
+    ) as Partial<Record<MergeField, string>>
+
+    const mergeId = await mergeContacts(createAdminClient(), user.id, {
+      contactId: body.contact_id,
+      duplicateIds: body.duplicate_ids,
+      fields,
+    })
+
+    return NextResponse.json({ success: true, merge_id: mergeId })
+  } catch (error) {
+    if (error instanceof ContactMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[Contact Merge] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to merge contacts' },
+      { status: 500 }
+    )
+  }
+}
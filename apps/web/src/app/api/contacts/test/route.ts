@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { complete, LLMError, withLLMUsageContext } from '@/lib/llm'
 
 export const maxDuration = 60
 
@@ -67,37 +68,27 @@ Text: "${memo.content?.slice(0, 2000) || 'No content'}"
 Return ONLY a JSON array of people like: [{"name": "John Smith"}, {"name": "Jane Doe"}]
 If a company like "Red Point" or "G2" is mentioned, do NOT include it - only include actual people.`
 
-    const claudeResponse = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 1024,
-        messages: [{ role: 'user', content: testPrompt }],
-      }),
-    })
-
-    const claudeData = await claudeResponse.json()
-
-    if (!claudeResponse.ok) {
+    let aiText: string
+    try {
+      const aiResponse = await withLLMUsageContext(
+        { userId: user.id, stage: 'diagnostics' },
+        () => complete({ task: 'diagnostics', prompt: testPrompt, maxTokens: 1024 })
+      )
+      aiText = aiResponse.text
+      addStep('Claude API Call', 'pass', {
+        model: aiResponse.model,
+        latencyMs: aiResponse.latencyMs,
+        responseLength: aiText.length,
+        rawResponse: aiText.slice(0, 500)
+      })
+    } catch (aiError) {
       addStep('Claude API Call', 'fail', {
-        status: claudeResponse.status,
-        error: claudeData
+        status: aiError instanceof LLMError ? aiError.status : undefined,
+        error: aiError instanceof Error ? aiError.message : String(aiError)
       })
       return NextResponse.json(diagnostics)
     }
 
-    const aiText = claudeData.content?.[0]?.text || ''
-    addStep('Claude API Call', 'pass', {
-      status: claudeResponse.status,
-      responseLength: aiText.length,
-      rawResponse: aiText.slice(0, 500)
-    })
-
     // Step 6: Parse JSON from response
     const jsonMatch = aiText.match(/\[[\s\S]*\]/)
     if (!jsonMatch) {
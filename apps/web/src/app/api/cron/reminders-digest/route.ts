@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { createAdminClient } from '@/lib/supabase/server'
 import { sendEmail, remindersDigestEmail } from '@/lib/email'
+import { OWNED_BY_ME_FILTER, createOverdueNudges } from '@/lib/waiting-on'
 
 const CRON_SECRET = process.env.CRON_SECRET
 
@@ -22,6 +23,14 @@ export async function POST(request: Request) {
   console.log('[Reminders Digest] Starting daily digest job...')
 
   try {
+    // Items others owe that slipped become nudges first, so today's digest has them
+    try {
+      const nudges = await createOverdueNudges(adminClient)
+      console.log(`[Reminders Digest] Created ${nudges} nudges for overdue items`)
+    } catch (nudgeError) {
+      console.error('[Reminders Digest] Nudge generation failed:', nudgeError)
+    }
+
     // Get all users who have daily digest enabled
     const { data: profiles, error: profilesError } = await adminClient
       .from('profiles')
@@ -77,6 +86,7 @@ export async function POST(request: Request) {
         .eq('user_id', profile.id)
         .eq('status', 'pending')
         .or('snoozed_until.is.null,snoozed_until.lte.now()')
+        .or(OWNED_BY_ME_FILTER)
         .order('due_date', { ascending: true, nullsFirst: false })
         .limit(10) as {
           data: Array<{
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { MODEL_CHOICES, checkLLMBudget } from '@/lib/llm'
+import { processTranscriptToMemo } from '@/lib/processing'
+import { isMeetingType } from '@/lib/templates'
+import { findTemplate } from '@/lib/templates/custom'
+import type { TranscriptSource } from '@/lib/pipeline'
+
+export const maxDuration = 300
+
+/**
+ * POST /api/memos/[id]/reprocess
+ * Regenerate a memo from its stored transcript with a chosen meeting type,
+ * template or model ({ meeting_type?, template_id?, model? }; omitted ones
+ * are picked as for a new memo). The previous version is kept as a revision.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const adminClient = createAdminClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({})) as {
+      meeting_type?: string
+      template_id?: string
+      model?: string
+    }
+
+    if (body.meeting_type && !isMeetingType(body.meeting_type)) {
+      return NextResponse.json({ error: 'Unknown meeting type' }, { status: 400 })
+    }
+    if (body.template_id && !(await findTemplate(supabase, user.id, body.template_id))) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+    if (body.model && !MODEL_CHOICES.some(choice => choice.id === body.model)) {
+      return NextResponse.json({ error: 'Unknown model' }, { status: 400 })
+    }
+
+    const { data: memo } = await (supabase
+      .from('memos') as ReturnType<typeof supabase.from>)
+      .select('id, source, source_id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single() as { data: { id: string; source: string; source_id: string | null } | null }
+
+    if (!memo) {
+      return NextResponse.json({ error: 'Memo not found' }, { status: 404 })
+    }
+
+    if ((await checkLLMBudget(adminClient, user.id)).exceeded) {
+      return NextResponse.json({ error: 'Monthly AI budget reached' }, { status: 429 })
+    }
+
+    console.log(`[Reprocess] Memo ${id}: type ${body.meeting_type || 'auto'}, template ${body.template_id || 'auto'}, model ${body.model || 'default'}`)
+
+    const result = await processTranscriptToMemo({
+      source: (memo.source || 'manual') as TranscriptSource,
+      transcriptId: memo.source_id || undefined,
+      userId: user.id,
+      reprocess: {
+        memoId: id,
+        meetingType: body.meeting_type || undefined,
+        templateId: body.template_id || undefined,
+        model: body.model || undefined,
+      },
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error || 'Reprocessing failed' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      memoId: id,
+      meetingType: result.meetingType,
+      warnings: result.warnings?.length || 0,
+    })
+  } catch (error) {
+    console.error('[Reprocess] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Reprocessing failed' },
+      { status: 500 }
+    )
+  }
+}
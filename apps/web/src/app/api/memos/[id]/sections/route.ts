@@ -0,0 +1,165 @@
+import { NextResponse } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { checkLLMBudget, withLLMUsageContext } from '@/lib/llm'
+import { getTranscriptForMemo, utterancesToText } from '@/lib/transcripts'
+import { countUnverifiedClaims, stripVerificationFlags, verifyMemoContent } from '@/lib/verification'
+import { templateForMemo } from '@/lib/templates/custom'
+import {
+  fillMissingSections,
+  findMemoSection,
+  regenerateSection,
+  setMemoSection,
+} from '@/lib/templates/detection'
+import { normalizeKey } from '@/lib/chunking'
+import type { Json } from '@/lib/supabase/types'
+
+interface MemoRow {
+  id: string
+  title: string
+  content: string
+  summary: string | null
+  meeting_date: string | null
+  participants: string[] | null
+  metadata: Json | null
+  folder_id: string | null
+}
+
+/**
+ * POST /api/memos/[id]/sections
+ * Regenerate one section of a memo from its stored transcript
+ * ({ section: "<title>", instruction?: "focus on unit economics" }), or write
+ * the template's required sections the memo is missing ({ fill_missing: true }).
+ * Every change is kept as a memo revision.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const adminClient = createAdminClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const sectionTitle = typeof body.section === 'string' ? body.section.trim() : ''
+    const instruction = typeof body.instruction === 'string' ? body.instruction.trim().slice(0, 500) : ''
+    const fillMissing = body.fill_missing === true
+
+    if (!sectionTitle && !fillMissing) {
+      return NextResponse.json({ error: 'section or fill_missing is required' }, { status: 400 })
+    }
+
+    const { data: memo } = await (supabase
+      .from('memos') as ReturnType<typeof supabase.from>)
+      .select('id, title, content, summary, meeting_date, participants, metadata, folder_id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single() as { data: MemoRow | null }
+
+    if (!memo) {
+      return NextResponse.json({ error: 'Memo not found' }, { status: 404 })
+    }
+
+    const transcript = await getTranscriptForMemo(adminClient, id)
+    if (!transcript) {
+      return NextResponse.json({ error: 'No transcript is stored for this memo' }, { status: 400 })
+    }
+
+    if ((await checkLLMBudget(adminClient, user.id)).exceeded) {
+      return NextResponse.json({ error: 'Monthly AI budget reached' }, { status: 429 })
+    }
+
+    const transcriptText = transcript.text || utterancesToText(transcript.utterances)
+    const template = await templateForMemo(adminClient, user.id, memo)
+
+    // Flag what the new text claims that the transcript doesn't support
+    const verify = (text: string) =>
+      verifyMemoContent(text, transcriptText, [memo.title, ...(memo.participants || [])]).content
+
+    let content: string
+    let sections: string[]
+
+    if (fillMissing) {
+      const result = await withLLMUsageContext(
+        { userId: user.id, stage: 'section-regeneration' },
+        () => fillMissingSections(transcriptText, template, memo.content, {
+          warn: (message) => console.warn(`[Sections] ${message}`),
+          prepareBody: verify,
+        })
+      )
+      content = result.content
+      sections = result.filled
+    } else {
+      const section = template.sections.find(s => normalizeKey(s.title) === normalizeKey(sectionTitle))
+      if (!section) {
+        return NextResponse.json({ error: `"${sectionTitle}" is not a section of the ${template.name} template` }, { status: 400 })
+      }
+
+      const range = findMemoSection(memo.content, section.title)
+      const currentContent = range
+        ? stripVerificationFlags(memo.content.split('\n').slice(range.start + 1, range.end).join('\n'))
+        : undefined
+
+      const regenerated = await withLLMUsageContext(
+        { userId: user.id, stage: 'section-regeneration' },
+        () => regenerateSection(transcriptText, template, section.id, {
+          instruction,
+          currentContent,
+          warn: (message) => console.warn(`[Sections] ${message}`),
+        })
+      )
+      content = setMemoSection(memo.content, template, section.title, verify(regenerated))
+      sections = [section.title]
+    }
+
+    if (sections.length === 0) {
+      return NextResponse.json({ content: memo.content, sections })
+    }
+
+    const metadata = memo.metadata && typeof memo.metadata === 'object' && !Array.isArray(memo.metadata)
+      ? memo.metadata
+      : {}
+
+    const { error: updateError } = await (adminClient
+      .from('memos') as ReturnType<typeof adminClient.from>)
+      .update({
+        content,
+        metadata: { ...metadata, unverified_claims: countUnverifiedClaims(content) },
+        updated_at: new Date().toISOString(),
+      } as never)
+      .eq('id', id) as { error: Error | null }
+
+    if (updateError) {
+      console.error('[Sections] Update error:', updateError)
+      return NextResponse.json({ error: 'Failed to save memo' }, { status: 500 })
+    }
+
+    await (adminClient.from('memo_revisions') as ReturnType<typeof adminClient.from>).insert({
+      memo_id: id,
+      user_id: user.id,
+      title: memo.title,
+      content,
+      summary: memo.summary,
+      meeting_date: memo.meeting_date,
+      metadata: {
+        action: fillMissing ? 'fill-missing-sections' : 'regenerate-section',
+        sections,
+        template_id: template.id,
+        ...(instruction ? { instruction } : {}),
+      },
+    } as never)
+
+    return NextResponse.json({ content, sections })
+  } catch (error) {
+    console.error('[Sections] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to regenerate section' },
+      { status: 500 }
+    )
+  }
+}
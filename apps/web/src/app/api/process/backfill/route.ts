@@ -41,7 +41,8 @@ export async function POST(request: Request) {
     let totalProcessed = 0
     let totalSkipped = 0
     let totalErrors = 0
-    const results: Array<{ userId: string; processed: number; skipped: number; errors: number }> = []
+    let totalPaused = 0
+    const results: Array<{ userId: string; processed: number; skipped: number; errors: number; paused: number }> = []
 
     for (const integration of usersToProcess) {
       if (!integration.credentials?.api_key) {
@@ -63,15 +64,17 @@ export async function POST(request: Request) {
       totalProcessed += userResult.processed
       totalSkipped += userResult.skipped
       totalErrors += userResult.errors
+      totalPaused += userResult.paused
     }
 
-    console.log(`[Backfill] Complete in ${Date.now() - startTime}ms. Processed: ${totalProcessed}, Skipped: ${totalSkipped}, Errors: ${totalErrors}`)
+    console.log(`[Backfill] Complete in ${Date.now() - startTime}ms. Processed: ${totalProcessed}, Skipped: ${totalSkipped}, Errors: ${totalErrors}, Paused: ${totalPaused}`)
 
     return NextResponse.json({
       success: true,
       processed: totalProcessed,
       skipped: totalSkipped,
       errors: totalErrors,
+      paused: totalPaused,
       processingTime: Date.now() - startTime,
       details: results,
     })
@@ -88,7 +91,7 @@ async function backfillUser(
   adminClient: ReturnType<typeof createAdminClient>,
   userId: string,
   apiKey: string
-): Promise<{ processed: number; skipped: number; errors: number }> {
+): Promise<{ processed: number; skipped: number; errors: number; paused: number }> {
   const cleanApiKey = apiKey.trim()
 
   console.log(`[Backfill] Processing user ${userId}`)
@@ -117,13 +120,13 @@ async function backfillUser(
 
     if (!response.ok) {
       console.error(`[Backfill] Fireflies API error for user ${userId}:`, response.status)
-      return { processed: 0, skipped: 0, errors: 1 }
+      return { processed: 0, skipped: 0, errors: 1, paused: 0 }
     }
 
     const data = await response.json()
     if (data.errors) {
       console.error(`[Backfill] Fireflies GraphQL errors for user ${userId}:`, data.errors)
-      return { processed: 0, skipped: 0, errors: 1 }
+      return { processed: 0, skipped: 0, errors: 1, paused: 0 }
     }
 
     const transcripts = data.data?.transcripts || []
@@ -141,6 +144,7 @@ async function backfillUser(
     let processed = 0
     let skipped = 0
     let errors = 0
+    let paused = 0
 
     for (const transcript of transcripts) {
       // Skip if already imported
@@ -163,7 +167,12 @@ async function backfillUser(
           },
         })
 
-        if (result.success) {
+        if (result.paused) {
+          // Over budget: queued as a paused job, no point waiting between the rest
+          paused++
+          console.log(`[Backfill] Queued transcript ${transcript.id} as paused job ${result.jobId}`)
+          continue
+        } else if (result.success) {
           processed++
           console.log(`[Backfill] Created memo ${result.memoId} for transcript ${transcript.id}`)
         } else {
@@ -179,10 +188,10 @@ async function backfillUser(
       await new Promise(resolve => setTimeout(resolve, 1000))
     }
 
-    return { processed, skipped, errors }
+    return { processed, skipped, errors, paused }
   } catch (error) {
     console.error(`[Backfill] Error for user ${userId}:`, error)
-    return { processed: 0, skipped: 0, errors: 1 }
+    return { processed: 0, skipped: 0, errors: 1, paused: 0 }
   }
 }
 
@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakeSupabase, type FakeSupabase } from '@/test/supabase'
+import { DELETE } from './route'
+
+const server = vi.hoisted(() => ({ client: null as unknown }))
+vi.mock('@/lib/supabase/server', () => ({
+  createAdminClient: () => server.client,
+  createClient: async () => server.client,
+}))
+
+const USER_ID = 'user-1'
+const HOUR_AGO = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+
+function job(id: string, status: string, checkpoints: object = {}) {
+  return { id, user_id: USER_ID, status, checkpoints, created_at: HOUR_AGO, updated_at: HOUR_AGO }
+}
+
+let db: FakeSupabase
+
+beforeEach(() => {
+  db = createFakeSupabase({
+    processing_jobs: [
+      job('stuck-empty', 'processing'),
+      job('stuck-started', 'processing', { fetch: { completed_at: HOUR_AGO, output: {} } }),
+      job('pending-empty', 'pending'),
+      job('pending-resumed', 'pending', { fetch: { completed_at: HOUR_AGO, output: {} } }),
+    ],
+  })
+  const client = db.client as unknown as Record<string, unknown>
+  client.auth = { getUser: async () => ({ data: { user: { id: USER_ID } } }) }
+  server.client = client
+})
+
+describe('DELETE /api/process/clear', () => {
+  it('keeps stuck jobs that can resume from their checkpoints', async () => {
+    const response = await DELETE()
+
+    expect((await response.json()).cleared).toMatchObject({ stale: 1, stuck: 1 })
+    expect(db.tables.processing_jobs.map(j => j.id).sort()).toEqual(['pending-resumed', 'stuck-started'])
+  })
+})
@@ -1,10 +1,33 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/server'
+import { STALE_JOB_MS } from '@/lib/processing'
+import type { JobCheckpoints } from '@/lib/pipeline'
+
+/**
+ * Delete the given jobs, except those with checkpoints: a job stopped part
+ * way is resumed from them (see processPendingJobs)
+ */
+async function deleteUnstartedJobs(
+  adminClient: ReturnType<typeof createAdminClient>,
+  jobs: Array<{ id: string; checkpoints: JobCheckpoints | null }> | null
+): Promise<number> {
+  const ids = (jobs || [])
+    .filter(job => Object.keys(job.checkpoints || {}).length === 0)
+    .map(job => job.id)
+  if (ids.length === 0) return 0
+
+  await (adminClient
+    .from('processing_jobs') as ReturnType<typeof adminClient.from>)
+    .delete()
+    .in('id', ids)
+  return ids.length
+}
 
 /**
  * DELETE /api/process/clear
- * Clears failed and empty pending jobs for the current user
+ * Clears failed and empty pending jobs for the current user. Stuck jobs
+ * that completed some stages are kept so they can resume.
  */
 export async function DELETE() {
   try {
@@ -25,21 +48,23 @@ export async function DELETE() {
       .eq('status', 'failed') as unknown as { count: number | null }
 
     // Delete pending jobs that are older than 10 minutes (stuck)
-    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000).toISOString()
-    const { count: staleCount } = await (adminClient
+    const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString()
+    const { data: stalePending } = await (adminClient
       .from('processing_jobs') as ReturnType<typeof adminClient.from>)
-      .delete({ count: 'exact' })
+      .select('id, checkpoints')
       .eq('user_id', user.id)
       .eq('status', 'pending')
-      .lt('created_at', tenMinutesAgo) as unknown as { count: number | null }
+      .lt('created_at', staleBefore) as { data: Array<{ id: string; checkpoints: JobCheckpoints | null }> | null }
+    const staleCount = await deleteUnstartedJobs(adminClient, stalePending)
 
     // Delete "processing" jobs stuck for more than 10 minutes (should never take that long)
-    const { count: stuckCount } = await (adminClient
+    const { data: stuckProcessing } = await (adminClient
       .from('processing_jobs') as ReturnType<typeof adminClient.from>)
-      .delete({ count: 'exact' })
+      .select('id, checkpoints')
       .eq('user_id', user.id)
       .eq('status', 'processing')
-      .lt('updated_at', tenMinutesAgo) as unknown as { count: number | null }
+      .lt('updated_at', staleBefore) as { data: Array<{ id: string; checkpoints: JobCheckpoints | null }> | null }
+    const stuckCount = await deleteUnstartedJobs(adminClient, stuckProcessing)
 
     // Delete completed jobs older than 2 hours (they've been viewed)
     const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString()
@@ -54,8 +79,8 @@ export async function DELETE() {
       message: 'Cleared jobs',
       cleared: {
         failed: failedCount || 0,
-        stale: staleCount || 0,
-        stuck: stuckCount || 0,
+        stale: staleCount,
+        stuck: stuckCount,
         old: oldCount || 0,
       },
     })
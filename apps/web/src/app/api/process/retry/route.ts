@@ -1,12 +1,16 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/server'
+import { retryJob } from '@/lib/processing'
+import { PIPELINE_STAGES, type StageName } from '@/lib/pipeline'
 
 /**
  * POST /api/process/retry
- * Triggers processing for all pending jobs for the current user
+ * Triggers processing for all pending jobs for the current user.
+ * With { jobId, fromStage? } retries one failed job, resuming from its
+ * first incomplete stage (or from `fromStage`).
  */
-export async function POST() {
+export async function POST(request: Request) {
   try {
     const supabase = await createClient()
     const { data: { user } } = await supabase.auth.getUser()
@@ -15,6 +19,33 @@ export async function POST() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    const body = await request.json().catch(() => ({})) as { jobId?: string; fromStage?: string }
+
+    if (body.jobId) {
+      if (body.fromStage && !PIPELINE_STAGES.some(s => s.name === body.fromStage)) {
+        return NextResponse.json({ error: 'Unknown stage' }, { status: 400 })
+      }
+
+      const result = await retryJob(body.jobId, user.id, body.fromStage as StageName | undefined)
+
+      if (result.notFound) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+      }
+      if (result.alreadyProcessed) {
+        return NextResponse.json({ message: 'Job is not in a retryable state', processed: 0, total: 1 })
+      }
+      if (!result.success) {
+        return NextResponse.json({ error: result.error || 'Retry failed' }, { status: 500 })
+      }
+
+      return NextResponse.json({
+        message: 'Job completed',
+        processed: 1,
+        total: 1,
+        memoId: result.memoId,
+      })
+    }
+
     const adminClient = createAdminClient()
 
     // Get all pending jobs for this user
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
 
 /**
  * GET /api/reminders/[id]
@@ -29,6 +29,8 @@ export async function GET(
         snoozed_until,
         status,
         priority,
+        owner,
+        nudge_for,
         source_text,
         created_at,
         completed_at,
@@ -115,6 +117,7 @@ export async function PATCH(
     if (updates.due_date !== undefined) updateData.due_date = updates.due_date
     if (updates.priority) updateData.priority = updates.priority
     if (updates.status) updateData.status = updates.status
+    if (updates.owner === 'me' || updates.owner === 'them') updateData.owner = updates.owner
 
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json({ error: 'No valid updates provided' }, { status: 400 })
@@ -134,6 +137,27 @@ export async function PATCH(
       return NextResponse.json({ error: 'Failed to update reminder' }, { status: 500 })
     }
 
+    // Once an owed item is delivered (or dropped) there's nothing left to chase
+    if (updateData.status === 'completed' || updateData.status === 'dismissed') {
+      await supabase
+        .from('reminders')
+        .update({ status: updateData.status, updated_at: updateData.updated_at } as never)
+        .eq('nudge_for', id)
+        .eq('user_id', user.id)
+        .eq('status', 'pending')
+    }
+
+    // Reopening overrules the meeting that closed it
+    if (action === 'reopen') {
+      const adminClient = createAdminClient()
+      await (adminClient
+        .from('reminder_fulfillments') as ReturnType<typeof adminClient.from>)
+        .update({ status: 'dismissed', resolved_at: new Date().toISOString() } as never)
+        .eq('reminder_id', id)
+        .eq('user_id', user.id)
+        .in('status', ['auto', 'confirmed'])
+    }
+
     return NextResponse.json({ reminder, success: true })
   } catch (error) {
     console.error('[Reminders] Error:', error)
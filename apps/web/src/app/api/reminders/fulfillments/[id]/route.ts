@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import { completeReminder } from '@/lib/fulfillment'
+import type { ReminderFulfillment } from '@/lib/supabase/types'
+
+/**
+ * POST /api/reminders/fulfillments/[id]
+ * Answer a "looks done" suggestion: { confirm: true } closes the reminder
+ * with the suggesting memo as evidence, { dismiss: true } keeps it open
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({})) as {
+      confirm?: boolean
+      dismiss?: boolean
+    }
+
+    if (!body.confirm && !body.dismiss) {
+      return NextResponse.json({ error: 'Pass confirm or dismiss' }, { status: 400 })
+    }
+
+    const adminClient = createAdminClient()
+
+    const { data: fulfillment } = await (adminClient
+      .from('reminder_fulfillments') as ReturnType<typeof adminClient.from>)
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .maybeSingle() as { data: ReminderFulfillment | null }
+
+    if (!fulfillment) {
+      return NextResponse.json({ error: 'Suggestion not found' }, { status: 404 })
+    }
+
+    const status = body.confirm ? 'confirmed' : 'dismissed'
+    await (adminClient
+      .from('reminder_fulfillments') as ReturnType<typeof adminClient.from>)
+      .update({ status, resolved_at: new Date().toISOString() } as never)
+      .eq('id', id)
+
+    if (body.confirm) {
+      await completeReminder(adminClient, user.id, fulfillment.reminder_id)
+    }
+
+    return NextResponse.json({ success: true, status })
+  } catch (error) {
+    console.error('[Reminder Fulfillment] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to answer suggestion' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { OWNED_BY_ME_FILTER, type ReminderOwner } from '@/lib/waiting-on'
 
 /**
  * GET /api/reminders
@@ -17,6 +18,8 @@ export async function GET(request: Request) {
     const { searchParams } = new URL(request.url)
     const status = searchParams.get('status') || 'pending'
     const type = searchParams.get('type')
+    // 'me' for the user's own follow-ups, 'them' for what others owe them
+    const owner = searchParams.get('owner')
     const limit = parseInt(searchParams.get('limit') || '50')
 
     let query = supabase
@@ -30,6 +33,7 @@ export async function GET(request: Request) {
         snoozed_until,
         status,
         priority,
+        owner,
         source_text,
         created_at,
         completed_at,
@@ -54,6 +58,13 @@ export async function GET(request: Request) {
       query = query.eq('type', type)
     }
 
+    // Filter by who owes it
+    if (owner === 'them') {
+      query = query.eq('owner', 'them')
+    } else if (owner === 'me') {
+      query = query.or(OWNED_BY_ME_FILTER)
+    }
+
     // Exclude snoozed reminders that aren't due yet
     if (status === 'pending') {
       query = query.or('snoozed_until.is.null,snoozed_until.lte.now()')
@@ -69,6 +80,7 @@ export async function GET(request: Request) {
         snoozed_until: string | null
         status: string
         priority: string
+        owner: ReminderOwner | null
         source_text: string | null
         created_at: string
         completed_at: string | null
@@ -120,7 +132,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json()
-    const { type, title, context, due_date, priority, contact_id, company_id, memo_id } = body
+    const { type, title, context, due_date, priority, owner, contact_id, company_id, memo_id } = body
 
     if (!type || !title) {
       return NextResponse.json({ error: 'type and title are required' }, { status: 400 })
@@ -131,6 +143,10 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: `Invalid type. Must be one of: ${validTypes.join(', ')}` }, { status: 400 })
     }
 
+    if (owner && owner !== 'me' && owner !== 'them') {
+      return NextResponse.json({ error: 'Invalid owner. Must be one of: me, them' }, { status: 400 })
+    }
+
     const { data: reminder, error } = await supabase
       .from('reminders')
       .insert({
@@ -140,6 +156,7 @@ export async function POST(request: Request) {
         context: context || null,
         due_date: due_date || null,
         priority: priority || 'medium',
+        owner: owner || 'me',
         contact_id: contact_id || null,
         company_id: company_id || null,
         memo_id: memo_id || null,
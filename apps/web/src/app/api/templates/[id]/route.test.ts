@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakeSupabase, type FakeSupabase } from '@/test/supabase'
+import { PUT } from './route'
+
+const server = vi.hoisted(() => ({ client: null as unknown }))
+vi.mock('@/lib/supabase/server', () => ({
+  createAdminClient: () => server.client,
+  createClient: async () => server.client,
+}))
+
+const USER_ID = 'user-1'
+
+function template(id: string, user_id: string, is_active: boolean) {
+  return { id, user_id, name: id, meeting_type: 'founder-pitch', is_active }
+}
+
+function put(id: string) {
+  const body = {
+    name: 'Seed pitch',
+    meeting_type: 'founder-pitch',
+    is_active: true,
+    sections: [{ id: 'summary', title: 'Summary', prompt: 'Summarize the pitch.', required: true }],
+  }
+  return PUT(
+    new Request(`http://localhost/api/templates/${id}`, { method: 'PUT', body: JSON.stringify(body) }),
+    { params: Promise.resolve({ id }) }
+  )
+}
+
+let db: FakeSupabase
+
+beforeEach(() => {
+  db = createFakeSupabase({
+    memo_templates: [
+      template('active', USER_ID, true),
+      template('mine', USER_ID, false),
+      template('theirs', 'user-2', false),
+    ],
+  })
+  const client = db.client as unknown as Record<string, unknown>
+  client.auth = { getUser: async () => ({ data: { user: { id: USER_ID } } }) }
+  server.client = client
+})
+
+describe('PUT /api/templates/[id]', () => {
+  it('makes the saved template the active one', async () => {
+    const response = await put('mine')
+
+    expect(response.status).toBe(200)
+    expect(db.tables.memo_templates.filter(t => t.is_active).map(t => t.id)).toEqual(['mine'])
+  })
+
+  it('leaves the active template alone when the template is not the user\'s', async () => {
+    const response = await put('theirs')
+
+    expect(response.status).toBe(404)
+    expect(db.tables.memo_templates.filter(t => t.is_active).map(t => t.id)).toEqual(['active'])
+  })
+
+  it('leaves the active template alone when the template does not exist', async () => {
+    const response = await put('missing')
+
+    expect(response.status).toBe(404)
+    expect(db.tables.memo_templates.find(t => t.id === 'active')?.is_active).toBe(true)
+  })
+})
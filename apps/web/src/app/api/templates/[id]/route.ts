@@ -0,0 +1,170 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { MemoTemplateInputSchema, deactivateOtherTemplates } from '@/lib/templates/custom'
+import type { MemoTemplateRow } from '@/lib/supabase/types'
+
+/**
+ * PUT /api/templates/[id]
+ * Save the editor's changes to a custom template
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = MemoTemplateInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message || 'Invalid template' }, { status: 400 })
+    }
+
+    // Other templates are only touched once this one is known to be the user's
+    const { data: existing } = await (supabase
+      .from('memo_templates') as ReturnType<typeof supabase.from>)
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle() as { data: { id: string } | null }
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    if (parsed.data.is_active) {
+      await deactivateOtherTemplates(supabase, user.id, parsed.data.meeting_type, id)
+    }
+
+    const { data: template, error } = await (supabase
+      .from('memo_templates') as ReturnType<typeof supabase.from>)
+      .update(parsed.data as never)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('*')
+      .maybeSingle() as { data: MemoTemplateRow | null; error: Error | null }
+
+    if (error) {
+      console.error('[Templates] Update error:', error)
+      return NextResponse.json({ error: 'Failed to update template' }, { status: 500 })
+    }
+
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ template, success: true })
+  } catch (error) {
+    console.error('[Templates] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update template' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/templates/[id]
+ * Make a template the active one for its meeting type, or stop using it
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { is_active } = await request.json()
+    if (typeof is_active !== 'boolean') {
+      return NextResponse.json({ error: 'is_active must be true or false' }, { status: 400 })
+    }
+
+    const { data: existing } = await (supabase
+      .from('memo_templates') as ReturnType<typeof supabase.from>)
+      .select('meeting_type')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle() as { data: { meeting_type: string } | null }
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    if (is_active) {
+      await deactivateOtherTemplates(supabase, user.id, existing.meeting_type, id)
+    }
+
+    const { error } = await (supabase
+      .from('memo_templates') as ReturnType<typeof supabase.from>)
+      .update({ is_active } as never)
+      .eq('id', id)
+
+    if (error) {
+      console.error('[Templates] Update error:', error)
+      return NextResponse.json({ error: 'Failed to update template' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Templates] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update template' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/templates/[id]
+ * Delete a custom template. Folders using it go back to the default.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { error } = await supabase
+      .from('memo_templates')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('[Templates] Delete error:', error)
+      return NextResponse.json({ error: 'Failed to delete template' }, { status: 500 })
+    }
+
+    await (supabase
+      .from('folders') as ReturnType<typeof supabase.from>)
+      .update({ template: null } as never)
+      .eq('user_id', user.id)
+      .eq('template->>template_id', id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Templates] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete template' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { MEMO_TEMPLATES } from '@/lib/templates'
+import {
+  MemoTemplateInputSchema,
+  deactivateOtherTemplates,
+  findTemplate,
+  getCustomTemplates,
+  templateToInput,
+  type MemoTemplateInput,
+} from '@/lib/templates/custom'
+import type { MemoTemplateRow } from '@/lib/supabase/types'
+
+/**
+ * GET /api/templates
+ * List the built-in templates and the user's custom templates
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const custom = await getCustomTemplates(supabase, user.id)
+
+    return NextResponse.json({ builtIn: MEMO_TEMPLATES, custom })
+  } catch (error) {
+    console.error('[Templates] List error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list templates' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/templates
+ * Create a custom template, either from the editor fields or as a copy of
+ * another template ({ clone_from: <built-in meeting type or template ID> })
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    let input: MemoTemplateInput
+
+    if (typeof body.clone_from === 'string') {
+      const source = await findTemplate(supabase, user.id, body.clone_from)
+      if (!source) {
+        return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+      }
+      input = templateToInput(source, typeof body.name === 'string' && body.name.trim() ? body.name.trim() : `${source.name} (copy)`)
+    } else {
+      const parsed = MemoTemplateInputSchema.safeParse(body)
+      if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error.issues[0]?.message || 'Invalid template' }, { status: 400 })
+      }
+      input = parsed.data
+    }
+
+    if (input.is_active) {
+      await deactivateOtherTemplates(supabase, user.id, input.meeting_type)
+    }
+
+    const { data: template, error } = await (supabase
+      .from('memo_templates') as ReturnType<typeof supabase.from>)
+      .insert({ ...input, user_id: user.id } as never)
+      .select('*')
+      .single() as { data: MemoTemplateRow | null; error: Error | null }
+
+    if (error || !template) {
+      console.error('[Templates] Create error:', error)
+      return NextResponse.json({ error: 'Failed to create template' }, { status: 500 })
+    }
+
+    return NextResponse.json({ template, success: true })
+  } catch (error) {
+    console.error('[Templates] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create template' },
+      { status: 500 }
+    )
+  }
+}
@@ -104,6 +104,11 @@ export async function POST(
       },
     })
 
+    if (result.paused) {
+      console.log(`[Fireflies Webhook ${webhookId}] Queued as paused job ${result.jobId}: ${result.error}`)
+      return NextResponse.json({ success: true, paused: true, jobId: result.jobId })
+    }
+
     if (!result.success) {
       console.error(`[Fireflies Webhook ${webhookId}] Processing failed:`, result.error)
       return NextResponse.json(
@@ -131,6 +131,11 @@ export async function POST(request: NextRequest) {
         },
       })
 
+      if (result.paused) {
+        console.log('[Fireflies Webhook] Job paused:', result.error)
+        return NextResponse.json({ success: true, paused: true, jobId })
+      }
+
       if (!result.success) {
         throw new Error(result.error || 'Processing failed')
       }
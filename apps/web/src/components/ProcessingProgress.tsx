@@ -2,12 +2,12 @@
 
 import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
-import { CheckCircle2, Loader2, XCircle, FileText } from 'lucide-react'
+import { CheckCircle2, Loader2, XCircle, FileText, PauseCircle } from 'lucide-react'
 import Link from 'next/link'
 
 interface ProcessingJob {
   id: string
-  status: 'pending' | 'processing' | 'completed' | 'failed'
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused'
   current_step: string | null
   progress: number
   result: { memo_id?: string; company_id?: string }
@@ -18,9 +18,12 @@ const stepLabels: Record<string, string> = {
   queued: 'Queued for processing...',
   fetching: 'Fetching transcript...',
   analyzing: 'Analyzing content...',
-  extracting: 'Extracting company info...',
+  extracting: 'Extracting companies, contacts and action items...',
   generating: 'Generating memo...',
   saving: 'Saving memo...',
+  filing: 'Filing to Google Drive...',
+  notifying: 'Sending notifications...',
+  paused: 'Paused: monthly AI budget reached',
   completed: 'Completed!',
 }
 
@@ -96,6 +99,7 @@ export function ProcessingProgress({ jobId, onComplete, onError }: ProcessingPro
   const isCompleted = job.status === 'completed'
   const isFailed = job.status === 'failed'
   const isPending = job.status === 'pending'
+  const isPaused = job.status === 'paused'
 
   return (
     <div className="bg-slate-800 rounded-xl p-6">
@@ -104,6 +108,8 @@ export function ProcessingProgress({ jobId, onComplete, onError }: ProcessingPro
           <CheckCircle2 className="w-6 h-6 text-emerald-500" />
         ) : isFailed ? (
           <XCircle className="w-6 h-6 text-red-500" />
+        ) : isPaused ? (
+          <PauseCircle className="w-6 h-6 text-amber-500" />
         ) : (
           <Loader2 className="w-6 h-6 text-indigo-500 animate-spin" />
         )}
@@ -114,6 +120,8 @@ export function ProcessingProgress({ jobId, onComplete, onError }: ProcessingPro
             ? 'Processing Failed'
             : isPending
             ? 'Queued'
+            : isPaused
+            ? 'Paused'
             : 'Processing...'}
         </h3>
       </div>
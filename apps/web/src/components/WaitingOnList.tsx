@@ -0,0 +1,74 @@
+import Link from 'next/link'
+import { Hourglass, FileText, User } from 'lucide-react'
+
+export interface WaitingOnItem {
+  id: string
+  title: string
+  due_date: string | null
+  contacts: { id: string; name: string } | null
+  memos: { id: string; title: string } | null
+}
+
+interface WaitingOnListProps {
+  items: WaitingOnItem[]
+  // Hide the contact link on the contact's own page
+  showContact?: boolean
+}
+
+/**
+ * Open promises the other side made, e.g. on a contact or company page
+ */
+export function WaitingOnList({ items, showContact = true }: WaitingOnListProps) {
+  if (items.length === 0) return null
+
+  const now = new Date()
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 mb-6">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Hourglass className="w-4 h-4 text-cyan-400" />
+          <h2 className="text-white font-semibold">Waiting On</h2>
+        </div>
+        <Link href="/reminders?owner=them" className="text-xs text-slate-500 hover:text-slate-300">
+          All waiting on
+        </Link>
+      </div>
+      <ul className="space-y-2">
+        {items.map((item) => {
+          const overdue = item.due_date && new Date(item.due_date) < now
+          return (
+            <li key={item.id} className="p-3 rounded-lg bg-slate-800/60">
+              <p className="text-slate-200">{item.title}</p>
+              <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-slate-500">
+                {item.due_date && (
+                  <span className={overdue ? 'text-red-400' : undefined}>
+                    {overdue ? 'Overdue since' : 'Expected by'} {new Date(item.due_date).toLocaleDateString()}
+                  </span>
+                )}
+                {showContact && item.contacts && (
+                  <Link
+                    href={`/people/${item.contacts.id}`}
+                    className="inline-flex items-center gap-1 hover:text-indigo-400"
+                  >
+                    <User className="w-3 h-3" />
+                    {item.contacts.name}
+                  </Link>
+                )}
+                {item.memos && (
+                  <Link
+                    href={`/memos/${item.memos.id}`}
+                    className="inline-flex items-center gap-1 hover:text-indigo-400"
+                  >
+                    <FileText className="w-3 h-3" />
+                    {item.memos.title}
+                  </Link>
+                )}
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { actionItemFingerprint, findSameActionItem, isSameActionItem } from './action-items'
+
+describe('actionItemFingerprint', () => {
+  it('ignores word order, case, punctuation and filler', () => {
+    expect(actionItemFingerprint('Send Sarah the deck')).toBe(actionItemFingerprint('send the deck to Sarah.'))
+  })
+
+  it('keeps names and numbers', () => {
+    expect(actionItemFingerprint('Send Q3 financials to Mark')).toBe('financials mark q3 send')
+  })
+})
+
+describe('isSameActionItem', () => {
+  it.each([
+    ['Send deck to Sarah', 'Send deck to Sarah'],
+    ['Send deck to Sarah', 'send the deck to sarah!'],
+    ['Send Sarah the deck', 'Send the deck to Sarah'],
+    ['Send deck to Sarah', 'Send the deck to Sarah by Friday'],
+    ['Schedule call with Tom', 'Schedule call with Tom next week'],
+  ])('matches "%s" and "%s"', (a, b) => {
+    expect(isSameActionItem(a, b)).toBe(true)
+    expect(isSameActionItem(b, a)).toBe(true)
+  })
+
+  it.each([
+    ['Schedule follow-up call with John', 'Schedule follow-up call with Jane'],
+    ['Send intro to Sarah Chen', 'Send intro to Sarah Miller'],
+    ['Send Q3 financials to Mark', 'Send Q4 financials to Mark'],
+    ['Send deck to Sarah', 'Send deck and customer list to Sarah'],
+    ['Intro to Dana', 'Intro to Dana at Northwind'],
+    ['Send $2M term sheet', 'Send $3M term sheet'],
+  ])('keeps "%s" and "%s" apart', (a, b) => {
+    expect(isSameActionItem(a, b)).toBe(false)
+    expect(isSameActionItem(b, a)).toBe(false)
+  })
+
+  it('does not match titles that are only timing words', () => {
+    expect(isSameActionItem('By Friday', 'Next week')).toBe(false)
+  })
+})
+
+describe('findSameActionItem', () => {
+  const items = [
+    { id: 1, title: 'Schedule follow-up call with John', fingerprint: actionItemFingerprint('Schedule follow-up call with John') },
+    { id: 2, title: 'Send the deck to Sarah', fingerprint: null },
+  ]
+
+  it('finds an item by fingerprint', () => {
+    expect(findSameActionItem(items, 'Schedule a follow-up call with John')?.id).toBe(1)
+  })
+
+  it('finds an item without a fingerprint by its title', () => {
+    expect(findSameActionItem(items, 'Send deck to Sarah by Friday')?.id).toBe(2)
+  })
+
+  it('finds nothing for a different person', () => {
+    expect(findSameActionItem(items, 'Schedule follow-up call with Jane')).toBeUndefined()
+  })
+})
@@ -0,0 +1,71 @@
+import { normalizeKey } from '@/lib/chunking'
+
+/**
+ * Action Items
+ *
+ * A memo's action items come from two extractors: tasks from the memo and
+ * reminders from the transcript's commitments. Both often find the same
+ * item ("Send intro to Sarah"), and reprocessing the memo finds it again.
+ * Each item gets a fingerprint that is unique per memo, so a rerun updates
+ * what's already there instead of adding a copy. A task the commitments
+ * already cover is left to the reminder, which carries the person, the due
+ * date and the quote.
+ */
+
+// Words that don't change what an item is about
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'to', 'for', 'of', 'with', 'on', 'in', 'at', 'by', 'and',
+  'about', 'from', 'into', 'i', 'we', 'me', 'my', 'our', 'us', 'their', 'his', 'her',
+])
+
+function contentWords(title: string): string[] {
+  return normalizeKey(title.slice(0, 255))
+    .replace(/[.$%]+(\s|$)/g, ' ')
+    .split(' ')
+    .filter(word => word && !FILLER_WORDS.has(word))
+}
+
+/**
+ * Key an action item by its content words, in any order: "Send Sarah the
+ * deck" and "Send the deck to Sarah" share a fingerprint
+ */
+export function actionItemFingerprint(title: string): string {
+  return Array.from(new Set(contentWords(title))).sort().join(' ')
+}
+
+// Words that only say when, which a rerun adds or drops ("Send deck to
+// Sarah" / "Send the deck to Sarah by Friday")
+const TIMING_WORDS = new Set([
+  'today', 'tonight', 'tomorrow', 'eod', 'eow', 'cob', 'asap', 'soon', 'later',
+  'next', 'this', 'end', 'week', 'weekend', 'month', 'morning', 'afternoon', 'evening',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august',
+  'september', 'october', 'november', 'december',
+])
+
+/**
+ * Whether two task or reminder titles describe the same item: the same
+ * words apart from filler and timing. Any other word in one title and not
+ * the other (a name, a number, a quarter) makes them different items, so
+ * "Send Q3 financials to Mark" and "Send Q4 financials to Mark" both stay.
+ */
+export function isSameActionItem(a: string, b: string): boolean {
+  if (normalizeKey(a.slice(0, 255)) === normalizeKey(b.slice(0, 255))) return true
+  if (actionItemFingerprint(a) === actionItemFingerprint(b)) return true
+
+  const wordsA = new Set(contentWords(a).filter(word => !TIMING_WORDS.has(word)))
+  const wordsB = new Set(contentWords(b).filter(word => !TIMING_WORDS.has(word)))
+  if (wordsA.size === 0 || wordsA.size !== wordsB.size) return false
+  return Array.from(wordsA).every(word => wordsB.has(word))
+}
+
+/**
+ * The item already on file that a new one duplicates, if any
+ */
+export function findSameActionItem<T extends { title: string; fingerprint?: string | null }>(
+  items: T[],
+  title: string
+): T | undefined {
+  const fingerprint = actionItemFingerprint(title)
+  return items.find(item => item.fingerprint === fingerprint || isSameActionItem(item.title, title))
+}
@@ -8,6 +8,7 @@ export type AnalyticsEvent =
   | 'fireflies_connected'
   | 'google_drive_connected'
   | 'memo_synced'
+  | 'memo_reprocessed'
   | 'memo_viewed'
   | 'memo_edited'
   | 'company_created'
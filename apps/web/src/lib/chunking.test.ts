@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import { chunkTranscript, mergeByKey, normalizeKey, sampleTranscript, splitIntoTurns } from './chunking'
+
+function transcriptOf(turns: number, words = 8): string {
+  return Array.from({ length: turns }, (_, i) =>
+    `Speaker ${i % 2 ? 'B' : 'A'}: ${Array.from({ length: words }, () => `turn${i}`).join(' ')}.`
+  ).join('\n')
+}
+
+describe('splitIntoTurns', () => {
+  it('keeps continuation lines with their speaker turn', () => {
+    expect(splitIntoTurns('Alice: one\nstill alice\n\nBob: two')).toEqual(['Alice: one\nstill alice', 'Bob: two'])
+  })
+
+  it('treats leading text without a speaker as a turn', () => {
+    expect(splitIntoTurns('preamble\nAlice: hi')).toEqual(['preamble', 'Alice: hi'])
+  })
+})
+
+describe('chunkTranscript', () => {
+  it('returns one chunk when the transcript fits', () => {
+    const transcript = transcriptOf(3)
+    expect(chunkTranscript(transcript, transcript.length)).toEqual([
+      { index: 0, text: transcript, startTurn: 0, endTurn: 2 },
+    ])
+  })
+
+  it('never exceeds the limit and never splits a turn that fits', () => {
+    const transcript = transcriptOf(40)
+    const turns = splitIntoTurns(transcript)
+    const chunks = chunkTranscript(transcript, 300, 0)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(300)
+      expect(chunk.text).toBe(turns.slice(chunk.startTurn, chunk.endTurn + 1).join('\n'))
+    }
+  })
+
+  it('covers every turn exactly once without overlap', () => {
+    const chunks = chunkTranscript(transcriptOf(40), 300, 0)
+    chunks.forEach((chunk, i) => {
+      expect(chunk.index).toBe(i)
+      if (i > 0) expect(chunk.startTurn).toBe(chunks[i - 1].endTurn + 1)
+    })
+    expect(chunks[0].startTurn).toBe(0)
+    expect(chunks[chunks.length - 1].endTurn).toBe(39)
+  })
+
+  it('repeats the trailing turns of a chunk at the start of the next', () => {
+    const chunks = chunkTranscript(transcriptOf(40), 300, 2)
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].startTurn).toBe(chunks[i - 1].endTurn - 1)
+    }
+  })
+
+  it('still makes progress when the overlap is as large as a chunk', () => {
+    const chunks = chunkTranscript(transcriptOf(10), 120, 5)
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].startTurn).toBeGreaterThan(chunks[i - 1].startTurn)
+    }
+    expect(chunks[chunks.length - 1].endTurn).toBe(9)
+  })
+
+  it('splits a single oversized turn on sentence boundaries', () => {
+    const turn = 'Alice: ' + Array.from({ length: 30 }, (_, i) => `Sentence number ${i}.`).join(' ')
+    const chunks = chunkTranscript(turn, 100, 0)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(100)
+      expect(chunk.text).toMatch(/\.$/)
+    }
+  })
+
+  it('hard-cuts a run-on sentence longer than the limit', () => {
+    const chunks = chunkTranscript('Alice: ' + 'x'.repeat(250), 100, 0)
+    expect(chunks.map(c => c.text.length)).toEqual([100, 100, 57])
+  })
+})
+
+describe('sampleTranscript', () => {
+  it('returns a transcript that fits unchanged', () => {
+    expect(sampleTranscript('Alice: hi', 100)).toBe('Alice: hi')
+  })
+
+  it('takes the beginning, middle and end of a long meeting', () => {
+    const transcript = transcriptOf(60)
+    const sample = sampleTranscript(transcript, 600)
+    const parts = sample.split('\n[...]\n')
+
+    expect(parts).toHaveLength(3)
+    expect(parts[0]).toContain('turn0 ')
+    expect(parts[2]).toContain('turn59')
+    expect(sample.length).toBeLessThanOrEqual(600 + 2 * '\n[...]\n'.length)
+  })
+})
+
+describe('normalizeKey', () => {
+  it('ignores case, punctuation and extra whitespace', () => {
+    expect(normalizeKey('  Send   the Deck, to Sarah! ')).toBe('send the deck to sarah')
+  })
+
+  it('keeps the characters that carry numbers', () => {
+    expect(normalizeKey('ARR $1.2M, up 40%')).toBe('arr $1.2m up 40%')
+  })
+})
+
+describe('mergeByKey', () => {
+  const merge = (a: { key: string; n: number }, b: { key: string; n: number }) => ({ key: a.key, n: a.n + b.n })
+
+  it('combines items with the same key in first-seen order', () => {
+    const items = [{ key: 'b', n: 1 }, { key: 'a', n: 1 }, { key: 'b', n: 2 }]
+    expect(mergeByKey(items, i => i.key, merge)).toEqual([{ key: 'b', n: 3 }, { key: 'a', n: 1 }])
+  })
+
+  it('drops items without a key', () => {
+    expect(mergeByKey([{ key: '', n: 1 }, { key: 'a', n: 1 }], i => i.key, merge)).toEqual([{ key: 'a', n: 1 }])
+  })
+})
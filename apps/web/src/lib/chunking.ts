@@ -0,0 +1,233 @@
+/**
+ * Transcript Chunking
+ *
+ * Long meetings (60-90 minute pitch calls run 80k+ chars) don't fit in a single
+ * extraction prompt. These helpers split a transcript on speaker-turn
+ * boundaries, run an extractor over every chunk, and merge the per-chunk
+ * results back into a single answer.
+ */
+
+export interface TranscriptChunk {
+  index: number
+  text: string
+  startTurn: number  // Index of the first speaker turn in this chunk
+  endTurn: number    // Index of the last speaker turn in this chunk (inclusive)
+}
+
+// Default chunk sizes per extractor (in characters)
+export const CHUNK_SIZES = {
+  classify: 3000,
+  company: 6000,
+  memo: 12000,
+  summary: 12000,
+  participants: 10000,
+  commitments: 8000,
+  citations: 10000,
+  metrics: 10000,
+  fulfillment: 10000,
+} as const
+
+// Number of trailing turns repeated at the start of the next chunk so that
+// a commitment or answer spanning the boundary isn't lost
+const DEFAULT_OVERLAP_TURNS = 2
+
+// Max chunks processed concurrently per extractor
+const DEFAULT_CONCURRENCY = 3
+
+const SPEAKER_LINE = /^[^:\n]{1,60}:\s/
+
+/**
+ * Split a transcript into speaker turns.
+ * A turn starts at a "Speaker Name: ..." line; continuation lines are kept with it.
+ */
+export function splitIntoTurns(transcript: string): string[] {
+  const lines = transcript.split(/\r?\n/)
+  const turns: string[] = []
+
+  for (const line of lines) {
+    if (!line.trim()) continue
+
+    if (SPEAKER_LINE.test(line) || turns.length === 0) {
+      turns.push(line)
+    } else {
+      turns[turns.length - 1] += `\n${line}`
+    }
+  }
+
+  return turns
+}
+
+/**
+ * Break a single oversized turn into pieces on sentence boundaries
+ */
+function splitLongTurn(turn: string, maxChars: number): string[] {
+  if (turn.length <= maxChars) return [turn]
+
+  const sentences = turn.match(/[^.!?]+[.!?]+\s*|[^.!?]+$/g) || [turn]
+  const pieces: string[] = []
+  let current = ''
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim())
+      current = ''
+    }
+
+    // A single run-on "sentence" longer than the limit gets a hard cut
+    if (sentence.length > maxChars) {
+      for (let i = 0; i < sentence.length; i += maxChars) {
+        pieces.push(sentence.slice(i, i + maxChars).trim())
+      }
+      continue
+    }
+
+    current += sentence
+  }
+
+  if (current.trim()) pieces.push(current.trim())
+
+  return pieces
+}
+
+/**
+ * Split a transcript into chunks of at most `maxChars`, never breaking a
+ * speaker turn unless that turn alone exceeds the limit.
+ */
+export function chunkTranscript(
+  transcript: string,
+  maxChars: number,
+  overlapTurns: number = DEFAULT_OVERLAP_TURNS
+): TranscriptChunk[] {
+  if (transcript.length <= maxChars) {
+    const turnCount = Math.max(splitIntoTurns(transcript).length, 1)
+    return [{ index: 0, text: transcript, startTurn: 0, endTurn: turnCount - 1 }]
+  }
+
+  const turns = splitIntoTurns(transcript).flatMap(turn => splitLongTurn(turn, maxChars))
+  const chunks: TranscriptChunk[] = []
+
+  let start = 0
+  while (start < turns.length) {
+    let end = start
+    let length = turns[start].length
+
+    while (end + 1 < turns.length && length + turns[end + 1].length + 1 <= maxChars) {
+      end++
+      length += turns[end].length + 1
+    }
+
+    chunks.push({
+      index: chunks.length,
+      text: turns.slice(start, end + 1).join('\n'),
+      startTurn: start,
+      endTurn: end,
+    })
+
+    if (end + 1 >= turns.length) break
+
+    // Step back for overlap, but always make forward progress
+    start = Math.max(end + 1 - overlapTurns, start + 1)
+  }
+
+  return chunks
+}
+
+/**
+ * Build a representative excerpt of at most `maxChars` from evenly spaced
+ * chunks (beginning, middle and end of the meeting), for cheap gist tasks
+ * like classification.
+ */
+export function sampleTranscript(transcript: string, maxChars: number, samples = 3): string {
+  if (transcript.length <= maxChars) return transcript
+
+  const perSample = Math.floor(maxChars / samples)
+  const chunks = chunkTranscript(transcript, perSample, 0)
+
+  if (chunks.length <= samples) {
+    return chunks.map(c => c.text).join('\n[...]\n')
+  }
+
+  const picked: string[] = []
+  for (let i = 0; i < samples; i++) {
+    const chunkIndex = Math.round((i * (chunks.length - 1)) / (samples - 1))
+    picked.push(chunks[chunkIndex].text)
+  }
+
+  return picked.join('\n[...]\n')
+}
+
+/**
+ * Run an extractor over every chunk of a transcript (map step).
+ * Failed chunks are logged and skipped so one bad response doesn't lose the meeting.
+ */
+export async function mapChunks<T>(
+  transcript: string,
+  maxChars: number,
+  extract: (chunk: TranscriptChunk, totalChunks: number) => Promise<T>,
+  concurrency: number = DEFAULT_CONCURRENCY
+): Promise<T[]> {
+  const chunks = chunkTranscript(transcript, maxChars)
+  const results: Array<T | undefined> = new Array(chunks.length)
+
+  for (let i = 0; i < chunks.length; i += concurrency) {
+    const batch = chunks.slice(i, i + concurrency)
+    const settled = await Promise.allSettled(batch.map(chunk => extract(chunk, chunks.length)))
+
+    settled.forEach((outcome, offset) => {
+      if (outcome.status === 'fulfilled') {
+        results[i + offset] = outcome.value
+      } else {
+        console.error(`[Chunking] Chunk ${i + offset + 1}/${chunks.length} failed:`, outcome.reason)
+      }
+    })
+  }
+
+  return results.filter((r): r is T => r !== undefined)
+}
+
+/**
+ * Normalize free text into a dedupe key (case, punctuation and whitespace insensitive)
+ */
+export function normalizeKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\w\s%$.]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Merge per-chunk results (reduce step).
+ * Items with the same key are combined with `merge`; first-seen order is kept.
+ */
+export function mergeByKey<T>(
+  items: T[],
+  keyOf: (item: T) => string,
+  merge: (existing: T, incoming: T) => T
+): T[] {
+  const merged = new Map<string, T>()
+
+  for (const item of items) {
+    const key = keyOf(item)
+    if (!key) continue
+
+    const existing = merged.get(key)
+    merged.set(key, existing ? merge(existing, item) : item)
+  }
+
+  return Array.from(merged.values())
+}
+
+/**
+ * Union of string arrays, deduped by normalized value
+ */
+export function mergeStringLists(...lists: Array<string[] | undefined>): string[] {
+  const seen = new Map<string, string>()
+  for (const list of lists) {
+    for (const value of list || []) {
+      const key = normalizeKey(value)
+      if (key && !seen.has(key)) seen.set(key, value)
+    }
+  }
+  return Array.from(seen.values())
+}
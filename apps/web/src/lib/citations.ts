@@ -0,0 +1,99 @@
+import { normalizeKey } from '@/lib/chunking'
+import type { Utterance } from '@/lib/transcripts'
+import { stripVerificationFlags } from '@/lib/verification'
+
+/**
+ * Memo Citations
+ *
+ * Factual statements and metrics in a generated memo carry a citation: the
+ * transcript quote they were drawn from. Citations are stored with the memo
+ * (memos.citations) and keyed by the text of the memo line they back, so a
+ * line that is later edited simply loses its footnote instead of pointing at
+ * the wrong quote.
+ */
+
+export interface MemoCitation {
+  // Footnote number, in memo order
+  id: number
+  // The memo line the citation backs, without its bullet marker
+  claim: string
+  // Verbatim words from the transcript
+  quote: string
+  speaker: string
+  // Seconds from the start of the meeting, when known
+  start: number | null
+  // Index into the memo's transcript utterances
+  utteranceIndex: number
+  kind: 'fact' | 'metric'
+}
+
+const BULLET = /^\s*([-*•]|\d+[.)])\s+/
+const HEADER = /^\s*#{1,6}\s/
+
+/**
+ * Memo lines that can carry a citation: bullets and paragraph text, not
+ * headers or blank lines
+ */
+export function citableLines(content: string): Array<{ lineIndex: number; text: string }> {
+  return content
+    .split('\n')
+    .map((line, lineIndex) => ({ lineIndex, text: HEADER.test(line) ? '' : claimText(line).trim() }))
+    .filter(({ text }) => text.length > 0)
+}
+
+/**
+ * Memo line text without its bullet marker or verification flag
+ */
+export function claimText(line: string): string {
+  return stripVerificationFlags(line).replace(BULLET, '')
+}
+
+/**
+ * Key a memo line is matched on (case, punctuation, markdown and bullet insensitive)
+ */
+export function claimKey(line: string): string {
+  return normalizeKey(claimText(line).replace(/[*_`]/g, ''))
+}
+
+/**
+ * Citations for each line of the memo, by line index. Lines whose text no
+ * longer matches a stored claim get none.
+ */
+export function citationsByLine(content: string, citations: MemoCitation[]): Map<number, MemoCitation[]> {
+  const byClaim = new Map<string, MemoCitation[]>()
+  for (const citation of citations) {
+    const key = claimKey(citation.claim)
+    byClaim.set(key, [...(byClaim.get(key) || []), citation])
+  }
+
+  const result = new Map<number, MemoCitation[]>()
+  content.split('\n').forEach((line, index) => {
+    const matches = line.trim() ? byClaim.get(claimKey(line)) : undefined
+    if (matches) result.set(index, matches)
+  })
+  return result
+}
+
+/**
+ * Find the utterance a quote was taken from, trying the suggested one (and
+ * its neighbours) first. Null when the quote isn't in the transcript, which
+ * is how invented quotes are dropped.
+ */
+export function findQuote(quote: string, utterances: Utterance[], hint?: number): number | null {
+  const needle = normalizeKey(quote)
+  if (!needle) return null
+
+  const contains = (index: number) => !!utterances[index] && normalizeKey(utterances[index].text).includes(needle)
+
+  if (hint !== undefined) {
+    for (const index of [hint, hint - 1, hint + 1]) {
+      if (contains(index)) return index
+    }
+  }
+
+  for (let i = 0; i < utterances.length; i++) {
+    if (contains(i)) return i
+  }
+
+  return null
+}
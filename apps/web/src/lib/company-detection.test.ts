@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { resolveCompany, suggestCompanyMerge, type ExistingCompany } from './company-detection'
+
+function company(id: string, name: string, domain: string | null = null): ExistingCompany {
+  return { id, name, domain, normalized_domain: domain }
+}
+
+describe('resolveCompany', () => {
+  it('matches a company on the same domain whatever its name', () => {
+    const resolution = resolveCompany({ name: 'Lumen', domain: 'lumenlabs.io' }, [
+      company('c1', 'Lumen Labs', 'lumenlabs.io'),
+      company('c2', 'Lumen', null),
+    ])
+
+    expect(resolution).toMatchObject({ status: 'matched', confidence: 1 })
+    expect(resolution.company?.id).toBe('c1')
+  })
+
+  it('matches the same name with a legal suffix', () => {
+    const resolution = resolveCompany({ name: 'Acme Inc.' }, [company('c1', 'Acme'), company('c2', 'Globex')])
+
+    expect(resolution).toMatchObject({ status: 'matched', confidence: 0.95 })
+    expect(resolution.company?.id).toBe('c1')
+  })
+
+  it('treats an unlike name as a new company', () => {
+    expect(resolveCompany({ name: 'Northwind Capital' }, [company('c1', 'Acme')])).toEqual({
+      status: 'new',
+      company: null,
+      confidence: 0,
+      candidates: [],
+    })
+  })
+
+  it('asks about a name that only contains an existing one', () => {
+    const resolution = resolveCompany({ name: 'Acme' }, [company('c1', 'Acme Robotics', 'acmerobotics.com')])
+
+    expect(resolution.status).toBe('ambiguous')
+    expect(resolution.company).toBeNull()
+    expect(resolution.candidates).toEqual([{ id: 'c1', name: 'Acme Robotics', confidence: 0.8 }])
+  })
+
+  it('matches that name when a participant writes from the company domain', () => {
+    const resolution = resolveCompany(
+      { name: 'Acme' },
+      [company('c1', 'Acme Robotics', 'acmerobotics.com')],
+      ['acmerobotics.com']
+    )
+
+    expect(resolution.status).toBe('matched')
+    expect(resolution.company?.id).toBe('c1')
+  })
+
+  it('asks when two companies score about the same', () => {
+    const resolution = resolveCompany({ name: 'Lumen Labs' }, [
+      company('c1', 'Lumen Lab'),
+      company('c2', 'Lumen Labz'),
+      company('c3', 'Acme'),
+    ])
+
+    expect(resolution.status).toBe('ambiguous')
+    expect(resolution.company).toBeNull()
+    expect(resolution.candidates.map(c => c.id).sort()).toEqual(['c1', 'c2'])
+  })
+
+  it('offers at most three candidates, best first', () => {
+    const resolution = resolveCompany({ name: 'Acme' }, [
+      company('c1', 'Acme Robotics'),
+      company('c2', 'Acme Health'),
+      company('c3', 'Acme Foods'),
+      company('c4', 'Acme Labs'),
+      company('c5', 'Acme Inc'),
+    ])
+
+    expect(resolution.candidates).toHaveLength(3)
+    expect(resolution.candidates[0]).toEqual({ id: 'c5', name: 'Acme Inc', confidence: 0.95 })
+  })
+})
+
+describe('suggestCompanyMerge', () => {
+  it('groups companies on the same domain or with near-identical names', () => {
+    expect(suggestCompanyMerge([
+      company('c1', 'Lumen Labs', 'lumenlabs.io'),
+      company('c2', 'Lumen', 'lumenlabs.io'),
+      company('c3', 'Northwind Capital'),
+      company('c4', 'Northwind Capital, Inc.'),
+      company('c5', 'Acme'),
+    ])).toEqual([
+      { primary: 'c1', duplicates: ['c2'], confidence: 0.95 },
+      { primary: 'c3', duplicates: ['c4'], confidence: 1 },
+    ])
+  })
+
+  it('puts a company in one group only', () => {
+    const merges = suggestCompanyMerge([
+      company('c1', 'Acme Labs'),
+      company('c2', 'Acme Lab'),
+      company('c3', 'Acme Labz'),
+    ])
+
+    expect(merges).toHaveLength(1)
+    expect(merges[0]).toMatchObject({ primary: 'c1', duplicates: ['c2', 'c3'] })
+  })
+
+  it('suggests nothing for distinct companies', () => {
+    expect(suggestCompanyMerge([company('c1', 'Acme'), company('c2', 'Globex')])).toEqual([])
+  })
+})
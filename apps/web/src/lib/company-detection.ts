@@ -1,9 +1,4 @@
-import { generateText } from 'ai'
-import { createAnthropic } from '@ai-sdk/anthropic'
-
-const anthropic = createAnthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-})
+import { completeText } from '@/lib/llm'
 
 export interface CompanyDetection {
   name: string
@@ -20,7 +15,7 @@ export interface CompanyDetection {
   }
 }
 
-interface ExistingCompany {
+export interface ExistingCompany {
   id: string
   name: string
   domain: string | null
@@ -30,7 +25,7 @@ interface ExistingCompany {
 /**
  * Normalize a company name for comparison
  */
-function normalizeCompanyName(name: string): string {
+export function normalizeCompanyName(name: string): string {
   return name
     .toLowerCase()
     .replace(/\s+(inc|llc|ltd|corp|corporation|company|co|incorporated)\.?$/i, '')
@@ -42,7 +37,7 @@ function normalizeCompanyName(name: string): string {
 /**
  * Calculate similarity between two strings using Levenshtein distance
  */
-function calculateSimilarity(str1: string, str2: string): number {
+export function calculateSimilarity(str1: string, str2: string): number {
   const s1 = str1.toLowerCase()
   const s2 = str2.toLowerCase()
 
@@ -79,7 +74,7 @@ function calculateSimilarity(str1: string, str2: string): number {
 /**
  * Extract domain from a URL
  */
-function extractDomain(url: string): string | null {
+export function extractDomain(url: string): string | null {
   try {
     // Add protocol if missing
     if (!url.startsWith('http')) {
@@ -92,58 +87,131 @@ function extractDomain(url: string): string | null {
   }
 }
 
+/**
+ * How likely an existing company is the detected one (0 when unrelated).
+ * A company whose domain a participant's email address is on scores higher.
+ */
+export function scoreCompanyMatch(
+  detection: { name: string; domain?: string },
+  company: ExistingCompany,
+  participantDomains: string[] = []
+): number {
+  // Exact domain match (highest confidence)
+  if (detection.domain && company.normalized_domain && detection.domain === company.normalized_domain) {
+    return 1.0
+  }
+
+  const normalizedName = normalizeCompanyName(detection.name)
+  const normalizedExistingName = normalizeCompanyName(company.name)
+  if (!normalizedName || !normalizedExistingName) return 0
+
+  const similarity = calculateSimilarity(normalizedName, normalizedExistingName)
+  let score = 0
+
+  if (normalizedName === normalizedExistingName) {
+    score = 0.95
+  } else if (similarity > 0.85) {
+    score = similarity
+  } else if (
+    normalizedName.includes(normalizedExistingName) ||
+    normalizedExistingName.includes(normalizedName)
+  ) {
+    score = 0.8
+  }
+
+  if (score > 0 && company.normalized_domain && participantDomains.includes(company.normalized_domain)) {
+    score = Math.min(0.99, score + 0.1)
+  }
+
+  return score
+}
+
 /**
  * Find matching company from existing companies
  */
-function findMatchingCompany(
+export function findMatchingCompany(
   detection: { name: string; domain?: string },
-  existingCompanies: ExistingCompany[]
+  existingCompanies: ExistingCompany[],
+  participantDomains: string[] = []
 ): { company: ExistingCompany | null; confidence: number } {
   let bestMatch: ExistingCompany | null = null
   let bestConfidence = 0
 
-  const normalizedName = normalizeCompanyName(detection.name)
-
   for (const company of existingCompanies) {
-    // Check exact domain match first (highest confidence)
-    if (detection.domain && company.normalized_domain) {
-      if (detection.domain === company.normalized_domain) {
-        return { company, confidence: 1.0 }
-      }
-    }
-
-    // Check name similarity
-    const normalizedExistingName = normalizeCompanyName(company.name)
-    const similarity = calculateSimilarity(normalizedName, normalizedExistingName)
-
-    // Exact name match
-    if (normalizedName === normalizedExistingName) {
-      if (0.95 > bestConfidence) {
-        bestMatch = company
-        bestConfidence = 0.95
-      }
-    }
-    // High similarity
-    else if (similarity > 0.85 && similarity > bestConfidence) {
+    const confidence = scoreCompanyMatch(detection, company, participantDomains)
+    if (confidence === 1) return { company, confidence }
+    if (confidence > bestConfidence) {
       bestMatch = company
-      bestConfidence = similarity
-    }
-    // Check if one name contains the other
-    else if (
-      normalizedName.includes(normalizedExistingName) ||
-      normalizedExistingName.includes(normalizedName)
-    ) {
-      const containmentConfidence = 0.8
-      if (containmentConfidence > bestConfidence) {
-        bestMatch = company
-        bestConfidence = containmentConfidence
-      }
+      bestConfidence = confidence
     }
   }
 
   return { company: bestMatch, confidence: bestConfidence }
 }
 
+export interface CompanyResolution {
+  // 'ambiguous' when the user should pick between close candidates
+  status: 'matched' | 'new' | 'ambiguous'
+  company: ExistingCompany | null
+  confidence: number
+  candidates: Array<{ id: string; name: string; confidence: number }>
+}
+
+// Below this a candidate isn't the same company
+const CANDIDATE_THRESHOLD = 0.8
+// A match this strong, clear of the runner-up by the margin, is used as is
+const MATCH_THRESHOLD = 0.9
+const MATCH_MARGIN = 0.05
+
+/**
+ * Resolve a detected company against existing ones. A clear match is used,
+ * nothing similar means a new company, and anything in between (a loose
+ * match, or two companies scoring about the same) needs the user to confirm.
+ */
+export function resolveCompany(
+  detection: { name: string; domain?: string },
+  existingCompanies: ExistingCompany[],
+  participantDomains: string[] = []
+): CompanyResolution {
+  const candidates = existingCompanies
+    .map(company => ({ company, confidence: scoreCompanyMatch(detection, company, participantDomains) }))
+    .filter(c => c.confidence >= CANDIDATE_THRESHOLD)
+    .sort((a, b) => b.confidence - a.confidence)
+
+  if (candidates.length === 0) {
+    return { status: 'new', company: null, confidence: 0, candidates: [] }
+  }
+
+  const [best, runnerUp] = candidates
+  const isClear = best.confidence >= MATCH_THRESHOLD &&
+    (!runnerUp || best.confidence - runnerUp.confidence >= MATCH_MARGIN)
+
+  return {
+    status: isClear ? 'matched' : 'ambiguous',
+    company: isClear ? best.company : null,
+    confidence: best.confidence,
+    candidates: candidates.slice(0, 3).map(c => ({
+      id: c.company.id,
+      name: c.company.name,
+      confidence: Math.round(c.confidence * 100) / 100,
+    })),
+  }
+}
+
+/**
+ * The participant email domain that belongs to a company, judged by name
+ * ("Acme Inc" → "acme.io"), so a new company gets a domain to match on
+ */
+export function domainForCompany(name: string, participantDomains: string[]): string | null {
+  const normalizedName = normalizeCompanyName(name).replace(/\s/g, '')
+  if (!normalizedName) return null
+
+  return participantDomains.find(domain => {
+    const label = domain.split('.')[0]
+    return label === normalizedName || calculateSimilarity(label, normalizedName) > 0.85
+  }) || null
+}
+
 /**
  * Detect company from transcript content using AI
  */
@@ -153,9 +221,7 @@ export async function detectCompanyFromTranscript(
 ): Promise<CompanyDetection | null> {
   try {
     // Use AI to extract company information
-    const extraction = await generateText({
-      model: anthropic('claude-3-haiku-20240307'),
-      prompt: `Analyze this meeting transcript and extract information about the PRIMARY company being discussed (if this is a pitch meeting, the company pitching; if a customer call, the customer's company; etc.).
+    const extraction = await completeText('company', `Analyze this meeting transcript and extract information about the PRIMARY company being discussed (if this is a pitch meeting, the company pitching; if a customer call, the customer's company; etc.).
 
 If multiple companies are discussed, focus on the main subject of the meeting.
 
@@ -176,8 +242,7 @@ If no company is clearly the subject of the meeting, return {"company_name": nul
 Return ONLY valid JSON, no other text.
 
 Transcript:
-${transcript.slice(0, 4000)}`,
-    })
+${transcript.slice(0, 4000)}`)
 
     // Parse the AI response
     let parsed: {
@@ -193,13 +258,13 @@ ${transcript.slice(0, 4000)}`,
 
     try {
       // Try to extract JSON from the response
-      const jsonMatch = extraction.text.match(/\{[\s\S]*\}/)
+      const jsonMatch = extraction.match(/\{[\s\S]*\}/)
       if (!jsonMatch) {
         return null
       }
       parsed = JSON.parse(jsonMatch[0])
     } catch {
-      console.error('Failed to parse company extraction:', extraction.text)
+      console.error('Failed to parse company extraction:', extraction)
       return null
     }
 
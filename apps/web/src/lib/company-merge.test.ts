@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createFakeSupabase } from '@/test/supabase'
+import type { Company } from '@/lib/supabase/types'
+import { CompanyMergeError, mergeCompanies, mergedCompanyFields, undoCompanyMerge } from './company-merge'
+
+vi.mock('@/lib/supabase/server', () => ({ createAdminClient: vi.fn(), createClient: vi.fn() }))
+
+const USER_ID = 'user-1'
+
+function company(id: string, fields: Partial<Company> = {}): Company {
+  return {
+    id,
+    user_id: USER_ID,
+    name: id,
+    website: null,
+    domain: null,
+    normalized_domain: null,
+    stage: null,
+    status: 'tracking',
+    industry: null,
+    founders: [],
+    notes: null,
+    metadata: {},
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...fields,
+  }
+}
+
+describe('mergedCompanyFields', () => {
+  const survivor = company('lumen', { name: 'Lumen', industry: 'AI' })
+  const duplicate = company('lumen-labs', {
+    name: 'Lumen Labs',
+    website: 'lumenlabs.io',
+    industry: 'Developer tools',
+    founders: [{ name: 'Priya Shah' }],
+  })
+
+  it('fills the survivor\'s blank fields from a duplicate and keeps the rest', () => {
+    expect(mergedCompanyFields(survivor, [duplicate])).toEqual({
+      updates: { website: 'lumenlabs.io', founders: [{ name: 'Priya Shah' }] },
+      before: { website: null, founders: [] },
+    })
+  })
+
+  it('takes a field from the company the user picked', () => {
+    const { updates, before } = mergedCompanyFields(survivor, [duplicate], { name: 'lumen-labs', industry: 'lumen' })
+
+    expect(updates).toMatchObject({ name: 'Lumen Labs' })
+    expect(updates).not.toHaveProperty('industry')
+    expect(before).toMatchObject({ name: 'Lumen' })
+  })
+
+  it('leaves out fields that would not change', () => {
+    const same = company('lumen-2', { name: 'Lumen', industry: 'AI' })
+    expect(mergedCompanyFields(survivor, [same], { name: 'lumen-2' })).toEqual({ updates: {}, before: {} })
+  })
+})
+
+describe('mergeCompanies', () => {
+  it('runs the merge in the database function with the merged fields', async () => {
+    const db = createFakeSupabase({
+      companies: [company('lumen', { name: 'Lumen' }), company('lumen-labs', { name: 'Lumen Labs', website: 'lumenlabs.io' })],
+    })
+    db.rpcResults.merge_companies = 'merge-1'
+
+    const mergeId = await mergeCompanies(db.client, USER_ID, { companyId: 'lumen', duplicateIds: ['lumen-labs', 'lumen'] })
+
+    expect(mergeId).toBe('merge-1')
+    expect(db.rpcCalls).toEqual([{
+      name: 'merge_companies',
+      args: {
+        p_user_id: USER_ID,
+        p_company_id: 'lumen',
+        p_duplicate_ids: ['lumen-labs'],
+        p_updates: { website: 'lumenlabs.io' },
+        p_company_before: { website: null },
+      },
+    }])
+  })
+
+  it('refuses companies of another user', async () => {
+    const db = createFakeSupabase({
+      companies: [company('lumen'), { ...company('other'), user_id: 'user-2' }],
+    })
+
+    await expect(mergeCompanies(db.client, USER_ID, { companyId: 'lumen', duplicateIds: ['other'] }))
+      .rejects.toMatchObject({ status: 404 })
+    expect(db.rpcCalls).toEqual([])
+  })
+
+  it('needs a company to merge', async () => {
+    const db = createFakeSupabase({ companies: [company('lumen')] })
+
+    await expect(mergeCompanies(db.client, USER_ID, { companyId: 'lumen', duplicateIds: ['lumen'] }))
+      .rejects.toBeInstanceOf(CompanyMergeError)
+  })
+})
+
+describe('undoCompanyMerge', () => {
+  it('undoes a merge once', async () => {
+    const db = createFakeSupabase({
+      company_merges: [
+        { id: 'merge-1', user_id: USER_ID, undone_at: null },
+        { id: 'merge-2', user_id: USER_ID, undone_at: '2025-03-01T00:00:00Z' },
+      ],
+    })
+
+    await undoCompanyMerge(db.client, USER_ID, 'merge-1')
+    await expect(undoCompanyMerge(db.client, USER_ID, 'merge-2')).rejects.toThrow('already undone')
+
+    expect(db.rpcCalls).toEqual([{ name: 'undo_company_merge', args: { p_user_id: USER_ID, p_merge_id: 'merge-1' } }])
+  })
+})
@@ -0,0 +1,145 @@
+import type { createAdminClient } from '@/lib/supabase/server'
+import type { Company, CompanyMerge } from '@/lib/supabase/types'
+
+/**
+ * Company Merges
+ *
+ * Duplicate companies (suggestCompanyMerge finds them) are merged into one
+ * surviving company: everything that pointed at a duplicate is re-pointed,
+ * the duplicates are deleted and the survivor takes the field values the
+ * user picked. Each merge stores what it changed in company_merges, so it
+ * can be undone with the duplicates restored under their original IDs.
+ * The writes happen in database functions (migrations/add_company_merges.sql)
+ * so a failure part way leaves nothing half merged.
+ */
+
+export const MERGE_FIELDS = ['name', 'website', 'industry', 'stage', 'status', 'notes', 'founders'] as const
+
+export type MergeField = typeof MERGE_FIELDS[number]
+
+export class CompanyMergeError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message)
+    this.name = 'CompanyMergeError'
+  }
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+/**
+ * The field values a merge gives the survivor, and what they were before.
+ * `fields` names, per field, the company whose value the survivor keeps;
+ * unnamed fields keep the survivor's value, or the first duplicate's when
+ * the survivor has none. Fields that wouldn't change are left out.
+ */
+export function mergedCompanyFields(
+  survivor: Company,
+  duplicates: Company[],
+  fields: Partial<Record<MergeField, string>> = {}
+): { updates: Partial<Company>; before: Partial<Company> } {
+  const byId = new Map([survivor, ...duplicates].map(c => [c.id, c]))
+  const updates: Record<string, unknown> = {}
+  const before: Record<string, unknown> = {}
+
+  for (const field of MERGE_FIELDS) {
+    const source = fields[field] ? byId.get(fields[field]!) : undefined
+    const value = source
+      ? source[field]
+      : isBlank(survivor[field])
+        ? duplicates.find(d => !isBlank(d[field]))?.[field]
+        : undefined
+
+    if (value !== undefined && JSON.stringify(value) !== JSON.stringify(survivor[field])) {
+      updates[field] = value
+      before[field] = survivor[field]
+    }
+  }
+
+  return { updates: updates as Partial<Company>, before: before as Partial<Company> }
+}
+
+/**
+ * Merge `duplicateIds` into `companyId` (see mergedCompanyFields for
+ * `fields`). The writes run in the merge_companies database function, so a
+ * merge either happens whole or not at all. Returns the merge ID.
+ */
+export async function mergeCompanies(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  merge: {
+    companyId: string
+    duplicateIds: string[]
+    fields?: Partial<Record<MergeField, string>>
+  }
+): Promise<string> {
+  const duplicateIds = Array.from(new Set(merge.duplicateIds)).filter(id => id !== merge.companyId)
+  if (duplicateIds.length === 0) {
+    throw new CompanyMergeError('Pick at least one company to merge')
+  }
+
+  const { data: companies } = await (adminClient
+    .from('companies') as ReturnType<typeof adminClient.from>)
+    .select('*')
+    .eq('user_id', userId)
+    .in('id', [merge.companyId, ...duplicateIds]) as { data: Company[] | null }
+
+  const byId = new Map((companies || []).map(c => [c.id, c]))
+  const survivor = byId.get(merge.companyId)
+  const duplicates = duplicateIds.map(id => byId.get(id)).filter((c): c is Company => !!c)
+  if (!survivor || duplicates.length !== duplicateIds.length) {
+    throw new CompanyMergeError('Company not found', 404)
+  }
+
+  const { updates, before } = mergedCompanyFields(survivor, duplicates, merge.fields)
+
+  // @ts-expect-error - Supabase RPC types
+  const { data: mergeId, error } = await adminClient.rpc('merge_companies', {
+    p_user_id: userId,
+    p_company_id: survivor.id,
+    p_duplicate_ids: duplicateIds,
+    p_updates: updates,
+    p_company_before: before,
+  }) as { data: string | null; error: { message?: string } | null }
+
+  if (error || !mergeId) {
+    throw new Error(error?.message || 'Failed to merge companies')
+  }
+  return mergeId
+}
+
+/**
+ * Undo a merge: restore the merged companies and the survivor's fields,
+ * and point everything the merge moved back where it was. Runs in the
+ * undo_company_merge database function, in one transaction.
+ */
+export async function undoCompanyMerge(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  mergeId: string
+): Promise<void> {
+  const { data: merge } = await (adminClient
+    .from('company_merges') as ReturnType<typeof adminClient.from>)
+    .select('id, undone_at')
+    .eq('id', mergeId)
+    .eq('user_id', userId)
+    .maybeSingle() as { data: Pick<CompanyMerge, 'id' | 'undone_at'> | null }
+
+  if (!merge) {
+    throw new CompanyMergeError('Merge not found', 404)
+  }
+  if (merge.undone_at) {
+    throw new CompanyMergeError('This merge was already undone')
+  }
+
+  // @ts-expect-error - Supabase RPC types
+  const { error } = await adminClient.rpc('undo_company_merge', {
+    p_user_id: userId,
+    p_merge_id: mergeId,
+  }) as { error: { message?: string } | null }
+
+  if (error) {
+    throw new Error(error.message || 'Failed to undo merge')
+  }
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addToIndex,
+  decideIdentity,
+  foldFirstNameMentions,
+  scoreCandidates,
+  type ContactCandidate,
+  type ContactIndex,
+  type MentionedPerson,
+} from './contact-identity'
+
+const MEETING = { memoId: 'memo-1', companyId: 'lumen', attendeeNames: ['Shane', 'Priya Shah'] }
+const NO_SIGNALS = { linkedToMemo: new Set<string>(), metWith: new Map<string, Set<string>>() }
+
+function index(...contacts: Array<Parameters<typeof addToIndex>[1]>): ContactIndex {
+  const built: ContactIndex = { userId: 'user-1', contacts: new Map() }
+  contacts.forEach(contact => addToIndex(built, contact))
+  return built
+}
+
+function candidate(id: string, score: number): ContactCandidate {
+  return { id, name: id, score, reasons: [] }
+}
+
+describe('scoreCandidates', () => {
+  it('identifies someone by email or LinkedIn whatever the name', () => {
+    const contacts = index(
+      { id: 'c1', name: 'Shane Miller', email: 'shane@lumenlabs.io' },
+      { id: 'c2', name: 'S. Miller', linkedin_url: 'https://www.linkedin.com/in/ShaneMiller/' }
+    )
+
+    expect(scoreCandidates(contacts, { name: 'Shane M', email: 'Shane@LumenLabs.io' }, MEETING, NO_SIGNALS))
+      .toEqual([{ id: 'c1', name: 'Shane Miller', score: 1, reasons: ['same email'] }])
+    expect(scoreCandidates(contacts, { name: 'Shane', linkedin_url: 'linkedin.com/in/shanemiller' }, MEETING, NO_SIGNALS)[0])
+      .toMatchObject({ id: 'c2', score: 1, reasons: ['same LinkedIn'] })
+  })
+
+  it('scores a full name above a first name, and never a different surname', () => {
+    const contacts = index({ id: 'c1', name: 'Shane Miller' }, { id: 'c2', name: 'Shane' })
+
+    const [first, second, ...rest] = scoreCandidates(contacts, { name: 'Shane Miller' }, MEETING, NO_SIGNALS)
+    expect(first).toMatchObject({ id: 'c1', reasons: ['same name'] })
+    expect(first.score).toBeCloseTo(0.8)
+    expect(second).toMatchObject({ id: 'c2', reasons: ['same first name'] })
+    expect(second.score).toBeCloseTo(0.4)
+    expect(rest).toEqual([])
+
+    expect(scoreCandidates(contacts, { name: 'Shane Smith' }, MEETING, NO_SIGNALS).map(c => c.id)).toEqual(['c2'])
+  })
+
+  it('scores a first name the contact has gone by before', () => {
+    const contacts = index({ id: 'c1', name: 'Shane Miller' })
+    addToIndex(contacts, { id: 'c1', name: 'Shane' })
+
+    const [match] = scoreCandidates(contacts, { name: 'Shane' }, MEETING, NO_SIGNALS)
+    expect(match.reasons).toEqual(['goes by "Shane"'])
+    expect(match.score).toBeCloseTo(0.6)
+  })
+
+  it('adds what else is known about the meeting', () => {
+    const contacts = index({ id: 'c1', name: 'Shane Miller', title: 'CTO', companyId: 'lumen' })
+    const person: MentionedPerson = { name: 'Shane', title: 'cto' }
+
+    const [match] = scoreCandidates(contacts, person, MEETING, {
+      linkedToMemo: new Set(),
+      metWith: new Map([['c1', new Set(['priya shah'])]]),
+    })
+
+    expect(match.reasons).toEqual(['same first name', 'same company', 'met before with priya shah', 'same title'])
+    expect(match.score).toBeCloseTo(0.9)
+  })
+
+  it('matches the company by name when the meeting has none', () => {
+    const contacts = index({ id: 'c1', name: 'Shane Miller', companyName: 'Lumen Labs, Inc.' })
+
+    const [match] = scoreCandidates(contacts, { name: 'Shane', company: 'Lumen Labs' }, { ...MEETING, companyId: null }, NO_SIGNALS)
+    expect(match.reasons).toContain('same company')
+    expect(match.score).toBeCloseTo(0.65)
+  })
+
+  it('counts a different email against the same name, and caps scores at 1', () => {
+    const contacts = index({ id: 'c1', name: 'Shane Miller', email: 'shane@old.com', companyId: 'lumen' })
+
+    const [differentEmail] = scoreCandidates(contacts, { name: 'Shane Miller', email: 'shane@new.com' }, MEETING, NO_SIGNALS)
+    expect(differentEmail.reasons).toContain('different email')
+    expect(differentEmail.score).toBeCloseTo(0.65)
+
+    const [linked] = scoreCandidates(contacts, { name: 'Shane Miller' }, MEETING, { ...NO_SIGNALS, linkedToMemo: new Set(['c1']) })
+    expect(linked.score).toBe(1)
+  })
+
+  it('offers at most five candidates, best first', () => {
+    const contacts = index(
+      ...['Smith', 'Jones', 'Brown', 'Lee', 'Park', 'Chen'].map((surname, i) => ({ id: `c${i}`, name: `Shane ${surname}` })),
+      { id: 'c-lumen', name: 'Shane Kim', companyId: 'lumen' }
+    )
+
+    const candidates = scoreCandidates(contacts, { name: 'Shane' }, MEETING, NO_SIGNALS)
+    expect(candidates).toHaveLength(5)
+    expect(candidates[0].id).toBe('c-lumen')
+  })
+})
+
+describe('decideIdentity', () => {
+  it('creates a new contact when nobody is plausible', () => {
+    expect(decideIdentity([])).toEqual({ kind: 'new' })
+    expect(decideIdentity([candidate('c1', 0.3)])).toEqual({ kind: 'new' })
+  })
+
+  it('matches a strong candidate clear of the runner-up', () => {
+    expect(decideIdentity([candidate('c1', 0.8)])).toMatchObject({ kind: 'match', contactId: 'c1' })
+    expect(decideIdentity([candidate('c1', 0.9), candidate('c2', 0.6)])).toMatchObject({ kind: 'match', contactId: 'c1' })
+  })
+
+  it('asks about close calls, leaving out the unlikely', () => {
+    expect(decideIdentity([candidate('c1', 0.8), candidate('c2', 0.7), candidate('c3', 0.2)])).toEqual({
+      kind: 'ambiguous',
+      candidates: [candidate('c1', 0.8), candidate('c2', 0.7)],
+    })
+    expect(decideIdentity([candidate('c1', 0.65)])).toEqual({ kind: 'ambiguous', candidates: [candidate('c1', 0.65)] })
+  })
+})
+
+describe('foldFirstNameMentions', () => {
+  const merge = (full: MentionedPerson, short: MentionedPerson) => ({ ...short, ...full, title: full.title || short.title })
+
+  it('folds a first name into the one full name it can belong to', () => {
+    const { people, shortNames } = foldFirstNameMentions(
+      [{ name: 'Shane', title: 'CTO' }, { name: 'Shane Miller' }, { name: 'Priya Shah' }],
+      merge
+    )
+
+    expect(people).toEqual([{ name: 'Shane Miller', title: 'CTO' }, { name: 'Priya Shah' }])
+    expect(shortNames).toEqual(new Map([['Shane', 'Shane Miller']]))
+  })
+
+  it('ignores accents and case', () => {
+    const { people } = foldFirstNameMentions([{ name: 'Jose' }, { name: 'José García' }], merge)
+    expect(people.map(p => p.name)).toEqual(['José García'])
+  })
+
+  it('leaves a first name shared by two full names alone', () => {
+    const mentions = [{ name: 'Shane' }, { name: 'Shane Miller' }, { name: 'Shane Smith' }]
+    const { people, shortNames } = foldFirstNameMentions(mentions, merge)
+
+    expect(people).toEqual(mentions)
+    expect(shortNames.size).toBe(0)
+  })
+})
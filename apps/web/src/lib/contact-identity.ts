@@ -0,0 +1,445 @@
+import type { createAdminClient } from '@/lib/supabase/server'
+import { normalizeCompanyName } from '@/lib/company-detection'
+
+/**
+ * Contact Identity
+ *
+ * Decides which contact a person mentioned in a meeting is. Emails and
+ * LinkedIn handles identify someone outright; names only nominate
+ * candidates, which are then scored on what else is known: the meeting's
+ * company, whether they've met alongside today's other attendees, their
+ * title. A clear winner is matched, a close call is queued in
+ * contact_confirmations for the user, and nobody plausible means a new
+ * contact. Every name, email and handle a contact is matched under is kept
+ * in contact_aliases, so "Shane" is recognised once he's been "Shane
+ * Miller".
+ */
+
+// A candidate at or above this, clear of the runner-up, is the person
+export const MATCH_SCORE = 0.75
+
+// Below this a candidate isn't worth asking about
+export const REVIEW_SCORE = 0.35
+
+// How far ahead of the runner-up a match has to be
+const MATCH_MARGIN = 0.2
+
+// Most candidates offered for review
+const MAX_CANDIDATES = 5
+
+// Signal weights
+const FULL_NAME = 0.8
+const KNOWN_SHORT_NAME = 0.6 // A first name the contact has been matched under before
+const FIRST_NAME = 0.4 // "Shane" for "Shane Miller", either way round
+const IN_THIS_MEETING = 0.5 // Linked to this memo by an earlier run or review
+const SAME_COMPANY = 0.25
+const MET_TOGETHER = 0.15 // Met before alongside someone in this meeting
+const SAME_TITLE = 0.1
+const OTHER_EMAIL = -0.4 // Both have emails and they differ
+
+/**
+ * A person as mentioned in a meeting (an extracted contact)
+ */
+export interface MentionedPerson {
+  name: string
+  email?: string
+  linkedin_url?: string
+  title?: string
+  company?: string
+}
+
+export interface ContactCandidate {
+  id: string
+  name: string
+  score: number
+  reasons: string[]
+}
+
+export type IdentityResolution =
+  | { kind: 'match'; contactId: string; candidate: ContactCandidate }
+  | { kind: 'new' }
+  | { kind: 'ambiguous'; candidates: ContactCandidate[] }
+
+interface IndexedContact {
+  id: string
+  name: string
+  title: string | null
+  companyId: string | null
+  companyName: string | null
+  names: Set<string>
+  emails: Set<string>
+  handles: Set<string>
+}
+
+/**
+ * The user's contacts with every alias they go by, loaded once per batch
+ * and kept current as the batch matches and creates contacts
+ */
+export interface ContactIndex {
+  userId: string
+  contacts: Map<string, IndexedContact>
+}
+
+/**
+ * The meeting a person is being resolved for
+ */
+export interface MeetingContext {
+  memoId: string
+  companyId: string | null
+  // Everyone else extracted from the meeting
+  attendeeNames: string[]
+}
+
+/**
+ * Compare form of a name, email or handle (as in contact_aliases.normalized)
+ */
+export function normalizeAlias(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * The handle in a LinkedIn profile URL ("linkedin.com/in/shanemiller/")
+ */
+export function linkedinHandle(url: string): string | null {
+  const match = url.match(/linkedin\.com\/in\/([^/?#]+)/i)
+  return match ? normalizeAlias(decodeURIComponent(match[1])) : null
+}
+
+function nameParts(name: string): string[] {
+  return normalizeAlias(name)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\w\s'-]/g, '')
+    .split(' ')
+    .filter(Boolean)
+}
+
+/**
+ * Fold first-name-only mentions into the one full name in the same meeting
+ * they can belong to ("Shane" and "Shane Miller"). Returns the folded
+ * people and, for each folded mention, the full name it became.
+ */
+export function foldFirstNameMentions<T extends MentionedPerson>(
+  people: T[],
+  merge: (full: T, short: T) => T
+): { people: T[]; shortNames: Map<string, string> } {
+  const shortNames = new Map<string, string>()
+  let folded = [...people]
+
+  for (const person of people) {
+    const parts = nameParts(person.name)
+    if (parts.length !== 1) continue
+
+    const fullNames = folded.filter(other => {
+      const otherParts = nameParts(other.name)
+      return otherParts.length > 1 && otherParts[0] === parts[0]
+    })
+    // Two Shanes with surnames: leave it to the resolver
+    if (fullNames.length !== 1) continue
+
+    const full = fullNames[0]
+    folded = folded
+      .filter(other => other !== person)
+      .map(other => other === full ? merge(full, person) : other)
+    shortNames.set(person.name, full.name)
+  }
+
+  return { people: folded, shortNames }
+}
+
+/**
+ * Load the user's contacts and their aliases
+ */
+export async function loadContactIndex(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string
+): Promise<ContactIndex> {
+  const { data: contacts } = await (adminClient
+    .from('contacts') as ReturnType<typeof adminClient.from>)
+    .select('id, name, email, title, linkedin_url, company_id, companies (name)')
+    .eq('user_id', userId) as {
+    data: Array<{
+      id: string
+      name: string
+      email: string | null
+      title: string | null
+      linkedin_url: string | null
+      company_id: string | null
+      companies: { name: string } | null
+    }> | null
+  }
+
+  const { data: aliases } = await (adminClient
+    .from('contact_aliases') as ReturnType<typeof adminClient.from>)
+    .select('contact_id, kind, normalized')
+    .eq('user_id', userId) as { data: Array<{ contact_id: string; kind: string; normalized: string }> | null }
+
+  const index: ContactIndex = { userId, contacts: new Map() }
+  for (const contact of contacts || []) {
+    addToIndex(index, {
+      id: contact.id,
+      name: contact.name,
+      email: contact.email,
+      title: contact.title,
+      linkedin_url: contact.linkedin_url,
+      companyId: contact.company_id,
+      companyName: contact.companies?.name || null,
+    })
+  }
+
+  for (const alias of aliases || []) {
+    const contact = index.contacts.get(alias.contact_id)
+    if (!contact) continue
+    if (alias.kind === 'name') contact.names.add(alias.normalized)
+    if (alias.kind === 'email') contact.emails.add(alias.normalized)
+    if (alias.kind === 'handle') contact.handles.add(alias.normalized)
+  }
+
+  return index
+}
+
+/**
+ * Add (or refresh) a contact in the index
+ */
+export function addToIndex(
+  index: ContactIndex,
+  contact: {
+    id: string
+    name: string
+    email?: string | null
+    title?: string | null
+    linkedin_url?: string | null
+    companyId?: string | null
+    companyName?: string | null
+  }
+): void {
+  const existing = index.contacts.get(contact.id)
+  const entry: IndexedContact = existing || {
+    id: contact.id,
+    name: contact.name,
+    title: null,
+    companyId: null,
+    companyName: null,
+    names: new Set(),
+    emails: new Set(),
+    handles: new Set(),
+  }
+
+  entry.title = contact.title ?? entry.title
+  entry.companyId = contact.companyId ?? entry.companyId
+  entry.companyName = contact.companyName ?? entry.companyName
+  entry.names.add(normalizeAlias(contact.name))
+  if (contact.email) entry.emails.add(normalizeAlias(contact.email))
+  const handle = contact.linkedin_url ? linkedinHandle(contact.linkedin_url) : null
+  if (handle) entry.handles.add(handle)
+
+  index.contacts.set(contact.id, entry)
+}
+
+// How a contact's names compare with a mentioned name, if they could be
+// the same person at all
+function nameSignal(contact: IndexedContact, name: string): { score: number; reason: string } | null {
+  const normalized = normalizeAlias(name)
+  const parts = nameParts(name)
+  if (parts.length === 0) return null
+
+  if (contact.names.has(normalized)) {
+    return parts.length > 1 || normalizeAlias(contact.name) === normalized
+      ? { score: FULL_NAME, reason: 'same name' }
+      : { score: KNOWN_SHORT_NAME, reason: `goes by "${name}"` }
+  }
+
+  for (const alias of Array.from(contact.names)) {
+    const aliasParts = nameParts(alias)
+    if (aliasParts[0] !== parts[0]) continue
+    // Shane Miller and Shane Smith are different people
+    if (aliasParts.length > 1 && parts.length > 1) continue
+    return { score: FIRST_NAME, reason: 'same first name' }
+  }
+
+  return null
+}
+
+/**
+ * Contacts the person could be, best first
+ */
+export function scoreCandidates(
+  index: ContactIndex,
+  person: MentionedPerson,
+  meeting: MeetingContext,
+  signals: { linkedToMemo: Set<string>; metWith: Map<string, Set<string>> }
+): ContactCandidate[] {
+  const email = person.email ? normalizeAlias(person.email) : null
+  const handle = person.linkedin_url ? linkedinHandle(person.linkedin_url) : null
+  const company = person.company ? normalizeCompanyName(person.company) : null
+  const others = meeting.attendeeNames
+    .filter(name => name !== person.name)
+    .map(normalizeAlias)
+
+  const candidates: ContactCandidate[] = []
+
+  for (const contact of Array.from(index.contacts.values())) {
+    if ((email && contact.emails.has(email)) || (handle && contact.handles.has(handle))) {
+      candidates.push({ id: contact.id, name: contact.name, score: 1, reasons: [email && contact.emails.has(email) ? 'same email' : 'same LinkedIn'] })
+      continue
+    }
+
+    const name = nameSignal(contact, person.name)
+    if (!name) continue
+
+    let score = name.score
+    const reasons = [name.reason]
+
+    if (signals.linkedToMemo.has(contact.id)) {
+      score += IN_THIS_MEETING
+      reasons.push('already linked to this meeting')
+    }
+    if (
+      (meeting.companyId && contact.companyId === meeting.companyId) ||
+      (company && contact.companyName && normalizeCompanyName(contact.companyName) === company)
+    ) {
+      score += SAME_COMPANY
+      reasons.push('same company')
+    }
+    const metWith = signals.metWith.get(contact.id)
+    const together = metWith ? others.filter(other => metWith.has(other)) : []
+    if (together.length > 0) {
+      score += MET_TOGETHER
+      reasons.push(`met before with ${together.slice(0, 2).join(', ')}`)
+    }
+    if (person.title && contact.title && normalizeAlias(person.title) === normalizeAlias(contact.title)) {
+      score += SAME_TITLE
+      reasons.push('same title')
+    }
+    if (email && contact.emails.size > 0) {
+      score += OTHER_EMAIL
+      reasons.push('different email')
+    }
+
+    candidates.push({ id: contact.id, name: contact.name, score: Math.max(0, Math.min(1, score)), reasons })
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, MAX_CANDIDATES)
+}
+
+/**
+ * Match, new or ask: a clear winner is a match, a close call is asked
+ */
+export function decideIdentity(candidates: ContactCandidate[]): IdentityResolution {
+  const [best, runnerUp] = candidates
+  if (!best || best.score < REVIEW_SCORE) return { kind: 'new' }
+
+  if (best.score >= MATCH_SCORE && (!runnerUp || best.score - runnerUp.score >= MATCH_MARGIN)) {
+    return { kind: 'match', contactId: best.id, candidate: best }
+  }
+
+  return { kind: 'ambiguous', candidates: candidates.filter(c => c.score >= REVIEW_SCORE) }
+}
+
+/**
+ * Who a mentioned person is. Meeting history is only loaded when names
+ * alone leave it open.
+ */
+export async function resolveContact(
+  adminClient: ReturnType<typeof createAdminClient>,
+  index: ContactIndex,
+  person: MentionedPerson,
+  meeting: MeetingContext
+): Promise<IdentityResolution> {
+  const noSignals = { linkedToMemo: new Set<string>(), metWith: new Map<string, Set<string>>() }
+  const byName = scoreCandidates(index, person, meeting, noSignals)
+  if (byName.length === 0 || byName[0].score === 1) return decideIdentity(byName)
+
+  const signals = await loadMeetingSignals(adminClient, byName.map(c => c.id), meeting.memoId)
+  return decideIdentity(scoreCandidates(index, person, meeting, signals))
+}
+
+// Which candidates are already linked to this memo, and who each has met
+// alongside in other meetings
+async function loadMeetingSignals(
+  adminClient: ReturnType<typeof createAdminClient>,
+  contactIds: string[],
+  memoId: string
+): Promise<{ linkedToMemo: Set<string>; metWith: Map<string, Set<string>> }> {
+  const { data: links } = await (adminClient
+    .from('contact_memos') as ReturnType<typeof adminClient.from>)
+    .select('contact_id, memo_id')
+    .in('contact_id', contactIds)
+    .limit(500) as { data: Array<{ contact_id: string; memo_id: string }> | null }
+
+  const linkedToMemo = new Set<string>()
+  const memosByContact = new Map<string, string[]>()
+  for (const link of links || []) {
+    if (link.memo_id === memoId) {
+      linkedToMemo.add(link.contact_id)
+      continue
+    }
+    memosByContact.set(link.contact_id, [...(memosByContact.get(link.contact_id) || []), link.memo_id])
+  }
+
+  const memoIds = Array.from(new Set(Array.from(memosByContact.values()).flat()))
+  const metWith = new Map<string, Set<string>>()
+  if (memoIds.length === 0) return { linkedToMemo, metWith }
+
+  const { data: attendees } = await (adminClient
+    .from('contact_memos') as ReturnType<typeof adminClient.from>)
+    .select('contact_id, memo_id, contacts (name)')
+    .in('memo_id', memoIds.slice(0, 200)) as {
+    data: Array<{ contact_id: string; memo_id: string; contacts: { name: string } | null }> | null
+  }
+
+  memosByContact.forEach((memos, contactId) => {
+    const names = new Set<string>()
+    for (const attendee of attendees || []) {
+      if (attendee.contact_id !== contactId && attendee.contacts && memos.includes(attendee.memo_id)) {
+        names.add(normalizeAlias(attendee.contacts.name))
+      }
+    }
+    metWith.set(contactId, names)
+  })
+
+  return { linkedToMemo, metWith }
+}
+
+/**
+ * Remember the names, email and LinkedIn handle a contact was matched
+ * under, in the table and in the index if there is one
+ */
+export async function recordAliases(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  contactId: string,
+  aliases: { names: string[]; email?: string | null; linkedin_url?: string | null },
+  source: 'pipeline' | 'manual' | 'review' | 'merge',
+  index?: ContactIndex
+): Promise<void> {
+  const handle = aliases.linkedin_url ? linkedinHandle(aliases.linkedin_url) : null
+  const rows = [
+    ...aliases.names
+      .filter(name => name.trim())
+      .map(name => ({ kind: 'name', value: name.trim(), normalized: normalizeAlias(name) })),
+    ...(aliases.email ? [{ kind: 'email', value: aliases.email.trim(), normalized: normalizeAlias(aliases.email) }] : []),
+    ...(handle ? [{ kind: 'handle', value: aliases.linkedin_url!, normalized: handle }] : []),
+  ]
+  if (rows.length === 0) return
+
+  const { error } = await (adminClient
+    .from('contact_aliases') as ReturnType<typeof adminClient.from>)
+    .upsert(
+      rows.map(row => ({ ...row, user_id: userId, contact_id: contactId, source })) as never,
+      { onConflict: 'contact_id,kind,normalized', ignoreDuplicates: true }
+    ) as { error: { message?: string } | null }
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save contact aliases')
+  }
+
+  const entry = index?.contacts.get(contactId)
+  if (entry) {
+    for (const row of rows) {
+      if (row.kind === 'name') entry.names.add(row.normalized)
+      if (row.kind === 'email') entry.emails.add(row.normalized)
+      if (row.kind === 'handle') entry.handles.add(row.normalized)
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createFakeSupabase } from '@/test/supabase'
+import {
+  ContactMergeError,
+  mergeContacts,
+  mergeDatedNotes,
+  mergedContactFields,
+  suggestContactMerges,
+  undoContactMerge,
+  type MergeableContact,
+} from './contact-merge'
+
+vi.mock('@/lib/supabase/server', () => ({ createAdminClient: vi.fn(), createClient: vi.fn() }))
+
+const USER_ID = 'user-1'
+
+// Also a plain row for the fake database
+function contact(id: string, fields: Partial<MergeableContact> = {}): MergeableContact & Record<string, unknown> {
+  return {
+    id,
+    user_id: USER_ID,
+    name: id,
+    email: null,
+    title: null,
+    phone: null,
+    linkedin_url: null,
+    company_id: null,
+    relationship_type: null,
+    notes: null,
+    first_met_date: null,
+    last_met_date: null,
+    created_at: '2025-01-01T00:00:00Z',
+    ...fields,
+  }
+}
+
+describe('suggestContactMerges', () => {
+  it('groups contacts sharing an email, LinkedIn or phone', () => {
+    expect(suggestContactMerges([
+      contact('a', { name: 'Shane Miller', email: 'shane@lumenlabs.io' }),
+      contact('b', { name: 'S. Miller', email: 'Shane@LumenLabs.io' }),
+      contact('c', { name: 'Priya Shah', linkedin_url: 'https://linkedin.com/in/priyashah/' }),
+      contact('d', { name: 'P. Shah', linkedin_url: 'linkedin.com/in/PriyaShah' }),
+      contact('e', { name: 'Dana', phone: '+1 (415) 555-0100' }),
+      contact('f', { name: 'Dana W', phone: '415.555.0100' }),
+    ])).toEqual([
+      { contactIds: ['a', 'b'], confidence: 0.98, reasons: ['same email'] },
+      { contactIds: ['c', 'd'], confidence: 0.98, reasons: ['same LinkedIn'] },
+      { contactIds: ['e', 'f'], confidence: 0.9, reasons: ['same phone'] },
+    ])
+  })
+
+  it('matches a full name, including one a contact went by', () => {
+    const suggestions = suggestContactMerges(
+      [contact('a', { name: 'Shane Miller' }), contact('b', { name: 'Shane' })],
+      [{ contact_id: 'b', kind: 'name', normalized: 'shane miller' }]
+    )
+
+    expect(suggestions).toEqual([{ contactIds: ['a', 'b'], confidence: 0.85, reasons: ['same name'] }])
+  })
+
+  it('matches a first name only at the same company', () => {
+    const atLumen = suggestContactMerges([
+      contact('a', { name: 'Shane Miller', company_id: 'lumen' }),
+      contact('b', { name: 'Shane', company_id: 'lumen' }),
+    ])
+    expect(atLumen).toEqual([{ contactIds: ['a', 'b'], confidence: 0.7, reasons: ['same first name and company'] }])
+
+    expect(suggestContactMerges([
+      contact('a', { name: 'Shane Miller', company_id: 'lumen' }),
+      contact('b', { name: 'Shane', company_id: 'northwind' }),
+    ])).toEqual([])
+  })
+
+  it('keeps apart people with the same name and different emails', () => {
+    expect(suggestContactMerges([
+      contact('a', { name: 'Alex Kim', email: 'alex@lumenlabs.io' }),
+      contact('b', { name: 'Alex Kim', email: 'alex@northwind.vc' }),
+    ])).toEqual([])
+  })
+
+  it('chains pairs into one group, oldest contact first', () => {
+    const [group] = suggestContactMerges([
+      contact('new', { name: 'Shane Miller', email: 'shane@lumenlabs.io', created_at: '2025-03-01T00:00:00Z' }),
+      contact('old', { name: 'Shane Miller', created_at: '2024-06-01T00:00:00Z' }),
+      contact('mid', { name: 'Shane M.', email: 'shane@lumenlabs.io', created_at: '2025-01-01T00:00:00Z' }),
+    ])
+
+    expect(group.contactIds).toEqual(['old', 'mid', 'new'])
+    expect(group.confidence).toBe(0.98)
+    expect(group.reasons.sort()).toEqual(['same email', 'same name'])
+  })
+})
+
+describe('mergeDatedNotes', () => {
+  it('puts entries in date order with undated text first', () => {
+    expect(mergeDatedNotes([
+      '[2025-03-12] Pitched Lumen\n\n[2025-01-05] Met at demo day',
+      'Prefers email\n\n[2025-02-01] Intro from Dana',
+    ])).toBe('Prefers email\n\n[2025-01-05] Met at demo day\n\n[2025-02-01] Intro from Dana\n\n[2025-03-12] Pitched Lumen')
+  })
+
+  it('keeps a repeated entry once and same-day entries in order', () => {
+    expect(mergeDatedNotes([
+      '[2025-03-12] Pitched Lumen\n\n[2025-03-12] Asked for the deck',
+      '[2025-03-12] Pitched Lumen',
+    ])).toBe('[2025-03-12] Pitched Lumen\n\n[2025-03-12] Asked for the deck')
+  })
+
+  it('keeps a multi-line entry whole', () => {
+    expect(mergeDatedNotes(['[2025-03-12] Pitched Lumen\nStrong team', null]))
+      .toBe('[2025-03-12] Pitched Lumen\nStrong team')
+  })
+
+  it('is null without notes', () => {
+    expect(mergeDatedNotes([null, '', '  '])).toBeNull()
+  })
+})
+
+describe('mergedContactFields', () => {
+  const survivor = contact('a', {
+    name: 'Shane',
+    title: 'CTO',
+    notes: '[2025-03-12] Pitched Lumen',
+    first_met_date: '2025-03-12T00:00:00Z',
+    last_met_date: '2025-03-12T00:00:00Z',
+  })
+  const duplicate = contact('b', {
+    name: 'Shane Miller',
+    email: 'shane@lumenlabs.io',
+    title: 'Co-founder',
+    notes: '[2025-01-05] Met at demo day',
+    first_met_date: '2025-01-05T00:00:00Z',
+    last_met_date: '2025-01-05T00:00:00Z',
+  })
+
+  it('fills blanks from a duplicate, combines notes and widens meeting dates', () => {
+    expect(mergedContactFields(survivor, [duplicate])).toEqual({
+      updates: {
+        email: 'shane@lumenlabs.io',
+        notes: '[2025-01-05] Met at demo day\n\n[2025-03-12] Pitched Lumen',
+        first_met_date: '2025-01-05T00:00:00Z',
+      },
+      before: {
+        email: null,
+        notes: '[2025-03-12] Pitched Lumen',
+        first_met_date: '2025-03-12T00:00:00Z',
+      },
+    })
+  })
+
+  it('takes a field from the contact the user picked', () => {
+    const { updates, before } = mergedContactFields(survivor, [duplicate], { name: 'b', title: 'a' })
+
+    expect(updates.name).toBe('Shane Miller')
+    expect(updates).not.toHaveProperty('title')
+    expect(before.name).toBe('Shane')
+  })
+})
+
+describe('mergeContacts', () => {
+  it('runs the merge in the database function with the merged fields', async () => {
+    const db = createFakeSupabase({
+      contacts: [contact('a', { name: 'Shane' }), contact('b', { name: 'Shane Miller', email: 'shane@lumenlabs.io' })],
+    })
+    db.rpcResults.merge_contacts = 'merge-1'
+
+    const mergeId = await mergeContacts(db.client, USER_ID, { contactId: 'a', duplicateIds: ['b', 'b'], fields: { name: 'b' } })
+
+    expect(mergeId).toBe('merge-1')
+    expect(db.rpcCalls).toEqual([{
+      name: 'merge_contacts',
+      args: {
+        p_user_id: USER_ID,
+        p_contact_id: 'a',
+        p_duplicate_ids: ['b'],
+        p_updates: { name: 'Shane Miller', email: 'shane@lumenlabs.io' },
+        p_contact_before: { name: 'Shane', email: null },
+      },
+    }])
+    // Nothing is written outside the function
+    expect(db.tables.contacts).toHaveLength(2)
+  })
+
+  it('refuses contacts of another user', async () => {
+    const db = createFakeSupabase({ contacts: [contact('a'), { ...contact('b'), user_id: 'user-2' }] })
+
+    await expect(mergeContacts(db.client, USER_ID, { contactId: 'a', duplicateIds: ['b'] }))
+      .rejects.toMatchObject({ status: 404 })
+    await expect(mergeContacts(db.client, USER_ID, { contactId: 'a', duplicateIds: [] }))
+      .rejects.toBeInstanceOf(ContactMergeError)
+    expect(db.rpcCalls).toEqual([])
+  })
+})
+
+describe('undoContactMerge', () => {
+  it('undoes a merge once', async () => {
+    const db = createFakeSupabase({
+      contact_merges: [
+        { id: 'merge-1', user_id: USER_ID, undone_at: null },
+        { id: 'merge-2', user_id: USER_ID, undone_at: '2025-03-01T00:00:00Z' },
+      ],
+    })
+
+    await undoContactMerge(db.client, USER_ID, 'merge-1')
+    await expect(undoContactMerge(db.client, USER_ID, 'merge-2')).rejects.toThrow('already undone')
+    await expect(undoContactMerge(db.client, USER_ID, 'merge-3')).rejects.toMatchObject({ status: 404 })
+
+    expect(db.rpcCalls).toEqual([{ name: 'undo_contact_merge', args: { p_user_id: USER_ID, p_merge_id: 'merge-1' } }])
+  })
+})
@@ -0,0 +1,316 @@
+import type { createAdminClient } from '@/lib/supabase/server'
+import { calculateSimilarity } from '@/lib/company-detection'
+import { linkedinHandle, normalizeAlias } from '@/lib/contact-identity'
+import type { ContactAlias, ContactMerge } from '@/lib/supabase/types'
+
+/**
+ * Contact Merges
+ *
+ * Duplicate contacts (suggestContactMerges finds them by email, LinkedIn,
+ * phone, alias and name) are merged into one surviving contact: reminders,
+ * meeting links and aliases move over, dated notes from every contact are
+ * combined in date order, the duplicates are deleted and the survivor takes
+ * the field values the user picked. Each merge stores what it changed in
+ * contact_merges, so it can be undone with the duplicates restored under
+ * their original IDs. The writes happen in database functions
+ * (migrations/add_contact_merges.sql) so a failure part way leaves nothing
+ * half merged.
+ */
+
+export const MERGE_FIELDS = ['name', 'email', 'title', 'phone', 'linkedin_url', 'company_id', 'relationship_type'] as const
+
+export type MergeField = typeof MERGE_FIELDS[number]
+
+export class ContactMergeError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message)
+    this.name = 'ContactMergeError'
+  }
+}
+
+export interface MergeableContact {
+  id: string
+  user_id: string
+  name: string
+  email: string | null
+  title: string | null
+  phone: string | null
+  linkedin_url: string | null
+  company_id: string | null
+  relationship_type: string | null
+  notes: string | null
+  first_met_date: string | null
+  last_met_date: string | null
+  created_at: string
+}
+
+export interface ContactMergeSuggestion {
+  contactIds: string[]
+  confidence: number
+  reasons: string[]
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === ''
+}
+
+function phoneKey(phone: string | null): string | null {
+  const digits = (phone || '').replace(/\D/g, '')
+  // Last ten digits, so "+1 415..." and "(415) ..." compare equal
+  return digits.length >= 7 ? digits.slice(-10) : null
+}
+
+function nameKey(name: string): string {
+  return normalizeAlias(name).replace(/[^\w\s'-]/g, '')
+}
+
+/**
+ * Groups of contacts that look like the same person, most likely first.
+ * `aliases` are the contacts' rows in contact_aliases.
+ */
+export function suggestContactMerges(
+  contacts: MergeableContact[],
+  aliases: Array<Pick<ContactAlias, 'contact_id' | 'kind' | 'normalized'>> = []
+): ContactMergeSuggestion[] {
+  const aliasesOf = (contact: MergeableContact, kind: ContactAlias['kind']) => {
+    const values = new Set(aliases.filter(a => a.contact_id === contact.id && a.kind === kind).map(a => a.normalized))
+    if (kind === 'name') values.add(normalizeAlias(contact.name))
+    if (kind === 'email' && contact.email) values.add(normalizeAlias(contact.email))
+    const handle = contact.linkedin_url ? linkedinHandle(contact.linkedin_url) : null
+    if (kind === 'handle' && handle) values.add(handle)
+    return values
+  }
+  const shares = (a: Set<string>, b: Set<string>) => Array.from(a).some(value => b.has(value))
+
+  // Why each pair looks like one person, and how sure that makes us
+  const pairs: Array<{ a: string; b: string; confidence: number; reason: string }> = []
+  for (let i = 0; i < contacts.length; i++) {
+    for (let j = i + 1; j < contacts.length; j++) {
+      const a = contacts[i]
+      const b = contacts[j]
+
+      if (shares(aliasesOf(a, 'email'), aliasesOf(b, 'email'))) {
+        pairs.push({ a: a.id, b: b.id, confidence: 0.98, reason: 'same email' })
+        continue
+      }
+      if (shares(aliasesOf(a, 'handle'), aliasesOf(b, 'handle'))) {
+        pairs.push({ a: a.id, b: b.id, confidence: 0.98, reason: 'same LinkedIn' })
+        continue
+      }
+      if (phoneKey(a.phone) && phoneKey(a.phone) === phoneKey(b.phone)) {
+        pairs.push({ a: a.id, b: b.id, confidence: 0.9, reason: 'same phone' })
+        continue
+      }
+
+      // Two different email addresses: a shared name is a coincidence
+      if (a.email && b.email) continue
+
+      const namesA = aliasesOf(a, 'name')
+      const namesB = aliasesOf(b, 'name')
+      if (Array.from(namesA).some(name => name.includes(' ') && namesB.has(name))) {
+        pairs.push({ a: a.id, b: b.id, confidence: 0.85, reason: 'same name' })
+        continue
+      }
+
+      const similarity = calculateSimilarity(nameKey(a.name), nameKey(b.name))
+      if (similarity > 0.85) {
+        pairs.push({ a: a.id, b: b.id, confidence: similarity, reason: 'similar name' })
+        continue
+      }
+
+      // "Shane" and "Shane Miller" at the same company
+      const [firstA, ...restA] = nameKey(a.name).split(' ')
+      const [firstB, ...restB] = nameKey(b.name).split(' ')
+      if (
+        firstA === firstB &&
+        (restA.length === 0 || restB.length === 0) &&
+        a.company_id && a.company_id === b.company_id
+      ) {
+        pairs.push({ a: a.id, b: b.id, confidence: 0.7, reason: 'same first name and company' })
+      }
+    }
+  }
+
+  // Pairs that share a contact form one group
+  const groupOf = new Map<string, string>()
+  const find = (id: string): string => {
+    const parent = groupOf.get(id) || id
+    if (parent === id) return id
+    const root = find(parent)
+    groupOf.set(id, root)
+    return root
+  }
+  for (const pair of pairs) {
+    groupOf.set(find(pair.b), find(pair.a))
+  }
+
+  const groups = new Map<string, ContactMergeSuggestion>()
+  // Oldest first, so the first contact in a group is the one to keep
+  const order = new Map(
+    [...contacts].sort((x, y) => x.created_at.localeCompare(y.created_at)).map((c, i) => [c.id, i])
+  )
+  for (const pair of pairs) {
+    const root = find(pair.a)
+    const group = groups.get(root) || { contactIds: [], confidence: 0, reasons: [] }
+    for (const id of [pair.a, pair.b]) {
+      if (!group.contactIds.includes(id)) group.contactIds.push(id)
+    }
+    group.confidence = Math.max(group.confidence, pair.confidence)
+    if (!group.reasons.includes(pair.reason)) group.reasons.push(pair.reason)
+    groups.set(root, group)
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({ ...group, contactIds: group.contactIds.sort((x, y) => order.get(x)! - order.get(y)!) }))
+    .sort((x, y) => y.confidence - x.confidence)
+}
+
+/**
+ * Combine contacts' notes into one, entry by entry. Pipeline notes are
+ * "[date] text" entries separated by blank lines: they're put in date order
+ * (undated text first) and repeated entries kept once.
+ */
+export function mergeDatedNotes(notes: Array<string | null>): string | null {
+  const entries: Array<{ text: string; time: number }> = []
+  for (const note of notes) {
+    for (const entry of (note || '').split(/\n\s*\n(?=\[)/)) {
+      const text = entry.trim()
+      if (!text || entries.some(e => e.text === text)) continue
+      const date = text.match(/^\[([^\]]+)\]/)
+      const time = date ? new Date(date[1]).getTime() : NaN
+      entries.push({ text, time: isNaN(time) ? -Infinity : time })
+    }
+  }
+
+  if (entries.length === 0) return null
+  // Array.prototype.sort is stable, so same-day entries keep their order
+  return entries.sort((a, b) => (a.time === b.time ? 0 : a.time - b.time)).map(e => e.text).join('\n\n')
+}
+
+/**
+ * The field values a merge gives the survivor, and what they were before.
+ * `fields` names, per field, the contact whose value the survivor keeps;
+ * unnamed fields keep the survivor's value, or the first duplicate's when
+ * the survivor has none. Notes and meeting dates always combine.
+ */
+export function mergedContactFields(
+  survivor: MergeableContact,
+  duplicates: MergeableContact[],
+  fields: Partial<Record<MergeField, string>> = {}
+): { updates: Partial<MergeableContact>; before: Partial<MergeableContact> } {
+  const byId = new Map([survivor, ...duplicates].map(c => [c.id, c]))
+  const updates: Record<string, unknown> = {}
+
+  for (const field of MERGE_FIELDS) {
+    const source = fields[field] ? byId.get(fields[field]!) : undefined
+    const value = source
+      ? source[field]
+      : isBlank(survivor[field])
+        ? duplicates.find(d => !isBlank(d[field]))?.[field]
+        : undefined
+
+    if (value !== undefined && value !== survivor[field]) {
+      updates[field] = value
+    }
+  }
+
+  const all = [survivor, ...duplicates]
+  const notes = mergeDatedNotes(all.map(c => c.notes))
+  if (notes !== survivor.notes) updates.notes = notes
+  const dates = (field: 'first_met_date' | 'last_met_date') =>
+    all.map(c => c[field]).filter((d): d is string => !!d).sort()
+  const firstMet = dates('first_met_date')[0]
+  const lastMet = dates('last_met_date').pop()
+  if (firstMet && firstMet !== survivor.first_met_date) updates.first_met_date = firstMet
+  if (lastMet && lastMet !== survivor.last_met_date) updates.last_met_date = lastMet
+
+  const before = Object.fromEntries(
+    Object.keys(updates).map(field => [field, survivor[field as keyof MergeableContact]])
+  )
+
+  return { updates: updates as Partial<MergeableContact>, before: before as Partial<MergeableContact> }
+}
+
+/**
+ * Merge `duplicateIds` into `contactId` (see mergedContactFields for
+ * `fields`). The writes run in the merge_contacts database function, so a
+ * merge either happens whole or not at all. Returns the merge ID.
+ */
+export async function mergeContacts(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  merge: {
+    contactId: string
+    duplicateIds: string[]
+    fields?: Partial<Record<MergeField, string>>
+  }
+): Promise<string> {
+  const duplicateIds = Array.from(new Set(merge.duplicateIds)).filter(id => id !== merge.contactId)
+  if (duplicateIds.length === 0) {
+    throw new ContactMergeError('Pick at least one contact to merge')
+  }
+
+  const { data: contacts } = await (adminClient
+    .from('contacts') as ReturnType<typeof adminClient.from>)
+    .select('*')
+    .eq('user_id', userId)
+    .in('id', [merge.contactId, ...duplicateIds]) as { data: MergeableContact[] | null }
+
+  const byId = new Map((contacts || []).map(c => [c.id, c]))
+  const survivor = byId.get(merge.contactId)
+  const duplicates = duplicateIds.map(id => byId.get(id)).filter((c): c is MergeableContact => !!c)
+  if (!survivor || duplicates.length !== duplicateIds.length) {
+    throw new ContactMergeError('Contact not found', 404)
+  }
+
+  const { updates, before } = mergedContactFields(survivor, duplicates, merge.fields)
+
+  // @ts-expect-error - Supabase RPC types
+  const { data: mergeId, error } = await adminClient.rpc('merge_contacts', {
+    p_user_id: userId,
+    p_contact_id: survivor.id,
+    p_duplicate_ids: duplicateIds,
+    p_updates: updates,
+    p_contact_before: before,
+  }) as { data: string | null; error: { message?: string } | null }
+
+  if (error || !mergeId) {
+    throw new Error(error?.message || 'Failed to merge contacts')
+  }
+  return mergeId
+}
+
+/**
+ * Undo a merge: restore the merged contacts and the survivor's fields, and
+ * point everything the merge moved back where it was. Runs in the
+ * undo_contact_merge database function, in one transaction.
+ */
+export async function undoContactMerge(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  mergeId: string
+): Promise<void> {
+  const { data: merge } = await (adminClient
+    .from('contact_merges') as ReturnType<typeof adminClient.from>)
+    .select('id, undone_at')
+    .eq('id', mergeId)
+    .eq('user_id', userId)
+    .maybeSingle() as { data: Pick<ContactMerge, 'id' | 'undone_at'> | null }
+
+  if (!merge) {
+    throw new ContactMergeError('Merge not found', 404)
+  }
+  if (merge.undone_at) {
+    throw new ContactMergeError('This merge was already undone')
+  }
+
+  // @ts-expect-error - Supabase RPC types
+  const { error } = await adminClient.rpc('undo_contact_merge', {
+    p_user_id: userId,
+    p_merge_id: mergeId,
+  }) as { error: { message?: string } | null }
+
+  if (error) {
+    throw new Error(error.message || 'Failed to undo merge')
+  }
+}
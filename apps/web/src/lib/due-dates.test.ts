@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { meetingDay, resolveDueDate, resolveDuePhrase } from './due-dates'
+
+describe('resolveDuePhrase', () => {
+  // 2025-03-12 is a Wednesday
+  it.each([
+    // Days
+    ['today', '2025-03-12', 'UTC', '2025-03-12'],
+    ['EOD', '2025-03-12', 'UTC', '2025-03-12'],
+    ['tomorrow', '2025-03-12', 'UTC', '2025-03-13'],
+    ['EOD tomorrow', '2025-03-12', 'UTC', '2025-03-13'],
+    ['end of day tomorrow', '2025-03-12', 'UTC', '2025-03-13'],
+    ['the day after tomorrow', '2025-03-12', 'UTC', '2025-03-14'],
+
+    // Weekdays and weeks, rolling over into the next week
+    ['Friday', '2025-03-12', 'UTC', '2025-03-14'],
+    ['by Friday', '2025-03-14', 'UTC', '2025-03-21'],
+    ['Monday', '2025-03-14', 'UTC', '2025-03-17'],
+    ['next Friday', '2025-03-10', 'UTC', '2025-03-21'],
+    ['next Friday', '2025-03-15', 'UTC', '2025-03-21'],
+    ['next Monday', '2025-12-29', 'UTC', '2026-01-05'],
+    ['end of the week', '2025-03-12', 'UTC', '2025-03-14'],
+    ['end of the week', '2025-03-15', 'UTC', '2025-03-15'],
+    ['next week', '2025-03-12', 'UTC', '2025-03-21'],
+    ['early next week', '2025-03-16', 'UTC', '2025-03-17'],
+    ['in two weeks', '2025-03-12', 'UTC', '2025-03-26'],
+    ['within 3 business days', '2025-03-13', 'UTC', '2025-03-18'],
+
+    // Months and days of the month
+    ['Sept 15', '2025-03-12', 'UTC', '2025-09-15'],
+    ['Sep 15', '2025-03-12', 'UTC', '2025-09-15'],
+    ['September 15th', '2025-03-12', 'UTC', '2025-09-15'],
+    ['15 Sept', '2025-03-12', 'UTC', '2025-09-15'],
+    ['Jan 5', '2025-12-20', 'UTC', '2026-01-05'],
+    ['by the 15th', '2025-03-12', 'UTC', '2025-03-15'],
+    ['by the 10th', '2025-03-12', 'UTC', '2025-04-10'],
+    ['the 31st', '2025-04-05', 'UTC', '2025-05-31'],
+    ['end of the month', '2025-02-10', 'UTC', '2025-02-28'],
+    ['mid-April', '2025-03-12', 'UTC', '2025-04-15'],
+    ['end of the quarter', '2025-03-12', 'UTC', '2025-03-31'],
+    ['3/15', '2025-03-12', 'UTC', '2025-03-15'],
+    ['3/1', '2025-03-12', 'UTC', '2026-03-01'],
+
+    // The meeting day is the day in the user's time zone
+    ['tomorrow', '2025-03-16T02:30:00Z', 'America/Los_Angeles', '2025-03-16'],
+    ['tomorrow', '2025-03-16T02:30:00Z', 'UTC', '2025-03-17'],
+    ['Saturday', '2025-03-15T06:30:00Z', 'America/Los_Angeles', '2025-03-15'],
+    ['Saturday', '2025-03-15T06:30:00Z', 'UTC', '2025-03-22'],
+    ['tomorrow', '2026-01-01T04:30:00Z', 'America/New_York', '2026-01-01'],
+    ['Friday', '2025-03-13T20:00:00Z', 'Asia/Tokyo', '2025-03-21'],
+    ['tomorrow', '2025-03-12', 'Asia/Tokyo', '2025-03-13'],
+  ])('"%s" said on %s (%s) is %s', (phrase, meetingDate, timeZone, expected) => {
+    expect(resolveDuePhrase(phrase, meetingDay(meetingDate, timeZone))).toBe(expected)
+  })
+
+  it.each([
+    'after the board meeting',
+    'when they close the round',
+    'may',
+    '',
+  ])('leaves "%s" unresolved', phrase => {
+    expect(resolveDuePhrase(phrase, '2025-03-12')).toBeNull()
+  })
+})
+
+describe('resolveDueDate', () => {
+  it('prefers the phrase over the date the model read', () => {
+    expect(resolveDueDate({ type: 'commitment', due_phrase: 'Friday', due_date: '2025-04-01' }, '2025-03-12'))
+      .toEqual({ dueDate: '2025-03-14', basis: 'phrase' })
+  })
+
+  it('falls back to the stated date, then a default for the type', () => {
+    expect(resolveDueDate({ type: 'commitment', due_phrase: 'after the board meeting', due_date: '2025-04-01' }, '2025-03-12'))
+      .toEqual({ dueDate: '2025-04-01', basis: 'stated' })
+    expect(resolveDueDate({ type: 'follow_up' }, '2025-03-12'))
+      .toEqual({ dueDate: '2025-03-26', basis: 'default' })
+  })
+})
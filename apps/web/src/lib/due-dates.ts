@@ -0,0 +1,280 @@
+import type { createAdminClient } from '@/lib/supabase/server'
+
+/**
+ * Due Dates
+ *
+ * Commitments come with phrases like "next Friday", "in two weeks" or "end
+ * of the quarter". They are resolved against the day of the meeting in the
+ * user's time zone, never the day the transcript happens to be processed,
+ * so a meeting backfilled from March gets March due dates. Phrases tied to
+ * events ("after the board meeting") can't be resolved here and are left
+ * to the caller's fallback.
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC'
+
+// Days until a commitment is due when nothing was said about when
+const DEFAULT_DUE_DAYS: Record<string, number> = {
+  commitment: 7,
+  follow_up: 14,
+  intro_request: 7,
+  deadline: 3,
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december']
+
+// Full names, "sept" and three-letter abbreviations, longest first so the
+// whole word is taken
+const MONTH_NAMES = [...MONTHS, 'sept', ...MONTHS.map(m => m.slice(0, 3))].join('|')
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  couple: 2, 'a couple': 2, 'a couple of': 2, few: 3, 'a few': 3,
+}
+
+/**
+ * How a reminder's due date was arrived at
+ */
+export type DueBasis = 'stated' | 'phrase' | 'default'
+
+// Calendar days are handled as UTC midnights so that adding days never
+// crosses a daylight-saving change
+function parseDay(day: string): Date {
+  return new Date(`${day.slice(0, 10)}T00:00:00Z`)
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1))
+  // Jan 31 + 1 month is the last day of February, not early March
+  const lastDay = endOfMonth(result).getUTCDate()
+  result.setUTCDate(Math.min(date.getUTCDate(), lastDay))
+  return result
+}
+
+function startOfMonthOf(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+}
+
+function endOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0))
+}
+
+function endOfQuarter(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), Math.floor(date.getUTCMonth() / 3) * 3 + 3, 0))
+}
+
+// Weeks run Monday to Sunday
+function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getUTCDay() + 6) % 7))
+}
+
+/**
+ * The calendar day a meeting happened on in the user's time zone. Dates
+ * without a time of day (or stored as UTC midnight) are taken as they are;
+ * without a meeting date, today is the anchor.
+ */
+export function meetingDay(meetingDate: string | null, timeZone = DEFAULT_TIME_ZONE): string {
+  if (meetingDate && /^\d{4}-\d{2}-\d{2}(T00:00(:00(\.0+)?)?(Z|[+-]00(:?00)?)?)?$/.test(meetingDate)) {
+    return meetingDate.slice(0, 10)
+  }
+
+  const instant = meetingDate ? new Date(meetingDate) : new Date()
+  if (isNaN(instant.getTime())) {
+    return formatDay(new Date())
+  }
+
+  try {
+    // en-CA formats as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant)
+  } catch {
+    return formatDay(instant)
+  }
+}
+
+function parseCount(value: string): number | null {
+  const number = Number(value)
+  if (!isNaN(number)) return number
+  return NUMBER_WORDS[value.trim()] ?? null
+}
+
+// The next given weekday after `from`; "next Friday" said early in the
+// week means the Friday of the following week
+function nextWeekday(from: Date, weekday: number, next: boolean): Date {
+  const ahead = ((weekday - from.getUTCDay() + 7) % 7) || 7
+  const date = addDays(from, ahead)
+  return next && startOfWeek(date).getTime() === startOfWeek(from).getTime() ? addDays(date, 7) : date
+}
+
+// The first month/day on or after `from`
+function nextMonthDay(from: Date, month: number, day: number): Date {
+  const thisYear = new Date(Date.UTC(from.getUTCFullYear(), month, day))
+  return thisYear < from ? new Date(Date.UTC(from.getUTCFullYear() + 1, month, day)) : thisYear
+}
+
+// The first given day of the month on or after `from`, skipping months
+// too short to have it ("the 31st" said in April is May 31)
+function nextDayOfMonth(from: Date, day: number): Date | null {
+  for (let months = 0; months <= 12; months++) {
+    const month = addMonths(startOfMonthOf(from), months)
+    if (day > endOfMonth(month).getUTCDate()) continue
+    const date = addDays(month, day - 1)
+    if (date >= from) return date
+  }
+  return null
+}
+
+/**
+ * Resolve a due-date phrase to YYYY-MM-DD, relative to the meeting day.
+ * Null when the phrase doesn't name a date on its own.
+ */
+export function resolveDuePhrase(phrase: string, anchorDay: string): string | null {
+  const text = phrase
+    .toLowerCase()
+    .replace(/[.,!?]/g, ' ')
+    .replace(/\b(by|before|until|no later than|on|around|sometime|within)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  if (!text) return null
+
+  const anchor = parseDay(anchorDay)
+  const monthIndex = (name: string) => MONTHS.findIndex(m => m.startsWith(name.slice(0, 3)))
+
+  // Explicit dates: "2024-03-15", "3/15"
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+  const slashed = text.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/)
+  if (slashed) {
+    const month = Number(slashed[1]) - 1
+    const day = Number(slashed[2])
+    if (month < 0 || month > 11 || day < 1 || day > 31) return null
+    if (slashed[3]) {
+      const year = Number(slashed[3].length === 2 ? `20${slashed[3]}` : slashed[3])
+      return formatDay(new Date(Date.UTC(year, month, day)))
+    }
+    return formatDay(nextMonthDay(anchor, month, day))
+  }
+
+  // Before "end of day", which can come with either: "EOD tomorrow"
+  if (/\bday after tomorrow\b/.test(text)) return formatDay(addDays(anchor, 2))
+  if (/\btomorrow\b/.test(text)) return formatDay(addDays(anchor, 1))
+  if (/\b(today|tonight|end of (the )?day|eod|cob|close of business)\b/.test(text)) return formatDay(anchor)
+
+  // "in two weeks", "a couple of days", "3 months from now"
+  const relative = text.match(/\b(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|(?:a )?couple(?: of)?|(?:a )?few)\s+(business days?|days?|weeks?|months?|quarters?|years?)\b/)
+  if (relative) {
+    const count = parseCount(relative[1])
+    const unit = relative[2]
+    if (count !== null) {
+      if (unit.startsWith('business')) {
+        let date = anchor
+        for (let added = 0; added < count;) {
+          date = addDays(date, 1)
+          if (date.getUTCDay() !== 0 && date.getUTCDay() !== 6) added++
+        }
+        return formatDay(date)
+      }
+      if (unit.startsWith('day')) return formatDay(addDays(anchor, count))
+      if (unit.startsWith('week')) return formatDay(addDays(anchor, count * 7))
+      if (unit.startsWith('month')) return formatDay(addMonths(anchor, count))
+      if (unit.startsWith('quarter')) return formatDay(addMonths(anchor, count * 3))
+      if (unit.startsWith('year')) return formatDay(addMonths(anchor, count * 12))
+    }
+  }
+
+  // "end of March", "mid-April", "early May", "Sept 15th", "15 March"
+  const monthPart = text.match(new RegExp(`\\b(early|mid|middle of|late|end of|beginning of|start of)?\\s*-?\\s*(${MONTH_NAMES})\\b(?:\\s+(\\d{1,2})(?:st|nd|rd|th)?)?`))
+  const dayFirst = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_NAMES})\\b`))
+  if (dayFirst) {
+    return formatDay(nextMonthDay(anchor, monthIndex(dayFirst[2]), Number(dayFirst[1])))
+  }
+  // A bare "may" is usually the verb
+  if (monthPart && !(monthPart[2] === 'may' && !monthPart[1] && !monthPart[3])) {
+    const month = monthIndex(monthPart[2])
+    if (monthPart[3]) return formatDay(nextMonthDay(anchor, month, Number(monthPart[3])))
+    const qualifier = monthPart[1] || ''
+    const first = nextMonthDay(startOfMonthOf(anchor), month, 1)
+    if (qualifier.startsWith('mid') || qualifier.startsWith('middle')) return formatDay(addDays(first, 14))
+    if (qualifier === 'late' || qualifier === 'end of') return formatDay(endOfMonth(first))
+    return formatDay(first)
+  }
+
+  // A day of the month on its own: "by the 15th"
+  const dayOfMonth = text.match(/\b(\d{1,2})(?:st|nd|rd|th)\b(?!\s+(?:day|week|month|quarter|half|year))/)
+  if (dayOfMonth) {
+    const day = Number(dayOfMonth[1])
+    const date = day >= 1 && day <= 31 ? nextDayOfMonth(anchor, day) : null
+    return date ? formatDay(date) : null
+  }
+
+  // End of a period
+  if (/\b(end of (the )?next month)\b/.test(text)) return formatDay(endOfMonth(addMonths(startOfMonthOf(anchor), 1)))
+  if (/\b(end of (the )?(this )?month|month[- ]end|eom)\b/.test(text)) return formatDay(endOfMonth(anchor))
+  if (/\b(end of (the )?next quarter)\b/.test(text)) return formatDay(endOfQuarter(addMonths(startOfMonthOf(anchor), 3)))
+  if (/\b(end of (the )?(this )?quarter|quarter[- ]end|eoq)\b/.test(text)) return formatDay(endOfQuarter(anchor))
+  if (/\b(end of (the )?(this )?year|year[- ]end|eoy)\b/.test(text)) return formatDay(new Date(Date.UTC(anchor.getUTCFullYear(), 11, 31)))
+  if (/\b(end of (the )?next week)\b/.test(text)) return formatDay(addDays(startOfWeek(anchor), 11))
+  if (/\b(end of (the )?(this )?week|eow|this week)\b/.test(text)) {
+    const friday = addDays(startOfWeek(anchor), 4)
+    return formatDay(friday < anchor ? anchor : friday)
+  }
+
+  // Weekdays: "Friday", "next Tuesday", "early next week"
+  const weekday = text.match(/\b(next|this|coming)?\s*(monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/)
+  if (weekday) {
+    return formatDay(nextWeekday(anchor, WEEKDAYS.indexOf(weekday[2]), weekday[1] === 'next'))
+  }
+  if (/\b(early|beginning of|start of) next week\b/.test(text)) return formatDay(addDays(startOfWeek(anchor), 7))
+  if (/\bnext week\b/.test(text)) return formatDay(addDays(startOfWeek(anchor), 11))
+  if (/\bnext month\b/.test(text)) return formatDay(addMonths(anchor, 1))
+  if (/\bnext quarter\b/.test(text)) return formatDay(addMonths(anchor, 3))
+  if (/\bnext year\b/.test(text)) return formatDay(addMonths(anchor, 12))
+
+  return null
+}
+
+/**
+ * A commitment's due date: the phrase resolved against the meeting day,
+ * else the date the model read off the transcript, else a default for the
+ * commitment type counted from the meeting day
+ */
+export function resolveDueDate(
+  commitment: { type: string; due_phrase?: string; due_date?: string },
+  anchorDay: string
+): { dueDate: string; basis: DueBasis } {
+  const fromPhrase = commitment.due_phrase ? resolveDuePhrase(commitment.due_phrase, anchorDay) : null
+  if (fromPhrase) return { dueDate: fromPhrase, basis: 'phrase' }
+
+  if (commitment.due_date) return { dueDate: commitment.due_date, basis: 'stated' }
+
+  const days = DEFAULT_DUE_DAYS[commitment.type] ?? 7
+  return { dueDate: formatDay(addDays(parseDay(anchorDay), days)), basis: 'default' }
+}
+
+/**
+ * The user's IANA time zone, from their profile
+ */
+export async function getUserTimeZone(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string
+): Promise<string> {
+  const { data: profile } = await (adminClient
+    .from('profiles') as ReturnType<typeof adminClient.from>)
+    .select('timezone')
+    .eq('id', userId)
+    .maybeSingle() as { data: { timezone: string | null } | null }
+
+  return profile?.timezone || DEFAULT_TIME_ZONE
+}
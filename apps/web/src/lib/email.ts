@@ -99,6 +99,7 @@ export function remindersDigestEmail(
     follow_up: '📅',
     deadline: '⏰',
     intro_request: '🔗',
+    nudge: '👋',
   }
 
   const remindersList = reminders.map(r => {
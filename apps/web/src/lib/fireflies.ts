@@ -0,0 +1,107 @@
+import { getSpeakers, utterancesToText, type Utterance } from '@/lib/transcripts'
+
+/**
+ * Fireflies API client
+ */
+
+export interface FirefliesTranscript {
+  title: string
+  date: string
+  transcript: string
+  participants: string[]
+  utterances: Utterance[]
+}
+
+interface FirefliesSentence {
+  text: string
+  speaker_name: string | null
+  start_time: number | null
+  end_time: number | null
+}
+
+/**
+ * Fetch transcript from Fireflies API
+ */
+export async function fetchFirefliesTranscript(
+  apiKey: string,
+  transcriptId: string
+): Promise<FirefliesTranscript> {
+  const cleanApiKey = apiKey.trim()
+
+  console.log('[Fireflies] Fetching transcript:', transcriptId)
+
+  const response = await fetch('https://api.fireflies.ai/graphql', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${cleanApiKey}`,
+    },
+    body: JSON.stringify({
+      query: `
+        query Transcript($id: String!) {
+          transcript(id: $id) {
+            title
+            date
+            sentences { text speaker_name start_time end_time }
+          }
+        }
+      `,
+      variables: { id: transcriptId },
+    }),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error('[Fireflies API Error]', response.status, errorText)
+    throw new Error(`Fireflies API error: ${response.status}`)
+  }
+
+  const data = await response.json()
+  if (data.errors) {
+    console.error('[Fireflies GraphQL Error]', data.errors)
+    throw new Error(data.errors[0]?.message || 'Fireflies API error')
+  }
+
+  if (!data?.data?.transcript) {
+    throw new Error('Fireflies transcript not found')
+  }
+
+  const ffTranscript = data.data.transcript
+  const utterances: Utterance[] = (ffTranscript.sentences || []).map((s: FirefliesSentence) => ({
+    speaker: s.speaker_name || 'Unknown',
+    text: s.text,
+    start: typeof s.start_time === 'number' ? s.start_time : null,
+    end: typeof s.end_time === 'number' ? s.end_time : null,
+  }))
+  const transcript = utterancesToText(utterances)
+  const speakers = getSpeakers(utterances)
+
+  console.log('[Fireflies] Transcript fetched, length:', transcript.length, 'speakers:', speakers.length)
+
+  return {
+    title: ffTranscript.title,
+    date: ffTranscript.date,
+    transcript,
+    participants: speakers,
+    utterances,
+  }
+}
+
+/**
+ * Convert a meeting date (Fireflies ms timestamp or ISO string) to YYYY-MM-DD
+ */
+export function toMeetingDate(value: string | number | null | undefined): string | null {
+  if (value === null || value === undefined || value === '') return null
+
+  try {
+    const dateNum = Number(value)
+    if (!isNaN(dateNum) && dateNum > 1000000000000) {
+      // Unix timestamp in ms
+      return new Date(dateNum).toISOString().split('T')[0]
+    }
+    return new Date(value).toISOString().split('T')[0]
+  } catch {
+    console.error('[Fireflies] Invalid meeting date:', value)
+    return null
+  }
+}
@@ -0,0 +1,117 @@
+import type { createAdminClient } from '@/lib/supabase/server'
+import { normalizeKey } from '@/lib/chunking'
+
+/**
+ * Reminder Fulfillment
+ *
+ * A later meeting often shows an open reminder was done ("thanks for sending
+ * the deck"). The pipeline asks the model which of the open reminders for
+ * the meeting's people and company were fulfilled: confident matches close
+ * the reminder with the meeting as evidence, borderline ones wait in
+ * reminder_fulfillments for the user to confirm.
+ */
+
+// At or above: closed automatically. Evidence the transcript doesn't
+// contain never gets this far.
+export const AUTO_CLOSE_CONFIDENCE = 0.85
+
+// At or above (and below auto-close): held for one-click confirmation
+export const SUGGEST_CONFIDENCE = 0.5
+
+// Open reminders shown to the model per meeting, soonest due first
+const MAX_OPEN_REMINDERS = 30
+
+export interface OpenReminder {
+  id: string
+  title: string
+  context: string | null
+  owner: 'me' | 'them' | null
+  contactName: string | null
+}
+
+/**
+ * An open reminder a meeting suggests is done
+ */
+export interface DetectedFulfillment {
+  reminderId: string
+  title: string
+  confidence: number
+  evidence: string
+}
+
+function isSamePerson(contactName: string, name: string): boolean {
+  const a = normalizeKey(contactName)
+  const b = normalizeKey(name)
+  if (!a || !b) return false
+  // "Sarah" in the transcript for the contact "Sarah Chen"
+  return a === b || a.startsWith(`${b} `) || b.startsWith(`${a} `)
+}
+
+/**
+ * Open reminders about the meeting's company or any of its people. Nudges
+ * and reconnect reminders aren't things a meeting fulfills.
+ */
+export async function loadOpenReminders(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  meeting: { companyId: string | null; names: string[]; excludeMemoId?: string }
+): Promise<OpenReminder[]> {
+  const { data: reminders } = await (adminClient
+    .from('reminders') as ReturnType<typeof adminClient.from>)
+    .select('id, title, context, owner, company_id, memo_id, contacts (name)')
+    .eq('user_id', userId)
+    .in('status', ['pending', 'snoozed'])
+    .not('type', 'in', '(stale_relationship,nudge)')
+    .order('due_date', { ascending: true, nullsFirst: false })
+    .limit(500) as {
+    data: Array<{
+      id: string
+      title: string
+      context: string | null
+      owner: 'me' | 'them' | null
+      company_id: string | null
+      memo_id: string | null
+      contacts: { name: string } | null
+    }> | null
+  }
+
+  return (reminders || [])
+    .filter(r => !meeting.excludeMemoId || r.memo_id !== meeting.excludeMemoId)
+    .filter(r =>
+      (meeting.companyId && r.company_id === meeting.companyId) ||
+      (r.contacts && meeting.names.some(name => isSamePerson(r.contacts!.name, name)))
+    )
+    .slice(0, MAX_OPEN_REMINDERS)
+    .map(r => ({
+      id: r.id,
+      title: r.title,
+      context: r.context,
+      owner: r.owner,
+      contactName: r.contacts?.name || null,
+    }))
+}
+
+/**
+ * Mark a reminder done, along with any nudge still chasing it
+ */
+export async function completeReminder(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  reminderId: string
+): Promise<void> {
+  const now = new Date().toISOString()
+
+  await (adminClient
+    .from('reminders') as ReturnType<typeof adminClient.from>)
+    .update({ status: 'completed', completed_at: now, updated_at: now } as never)
+    .eq('id', reminderId)
+    .eq('user_id', userId)
+    .in('status', ['pending', 'snoozed'])
+
+  await (adminClient
+    .from('reminders') as ReturnType<typeof adminClient.from>)
+    .update({ status: 'completed', completed_at: now, updated_at: now } as never)
+    .eq('nudge_for', reminderId)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+}
@@ -1,5 +1,7 @@
 import { google, drive_v3 } from 'googleapis'
 import { createAdminClient } from '@/lib/supabase/server'
+import { citationsByLine, type MemoCitation } from '@/lib/citations'
+import { formatTimestamp } from '@/lib/transcripts'
 
 const DEAL_FLOW_FOLDER_NAME = 'Deal Flow Memos'
 
@@ -125,17 +127,20 @@ export async function ensureDealFlowFolder(
   return createResponse.data.id!
 }
 
-/**
- * Convert memo content to HTML for Google Docs
- */
-function memoToHtml(memo: {
+export interface DriveMemo {
   title: string
   content: string
   summary: string | null
   meetingDate: string | null
   companyName?: string | null
   meetingType?: string | null
-}): string {
+  citations?: MemoCitation[]
+}
+
+/**
+ * Convert memo content to HTML for Google Docs
+ */
+function memoToHtml(memo: DriveMemo): string {
   const date = memo.meetingDate
     ? new Date(memo.meetingDate).toLocaleDateString('en-US', {
         weekday: 'long',
@@ -151,7 +156,8 @@ function memoToHtml(memo: {
     : null
 
   // Convert markdown to properly formatted HTML
-  const contentHtml = convertMarkdownToHtml(memo.content)
+  const citations = memo.citations || []
+  const contentHtml = convertMarkdownToHtml(memo.content, citations)
 
   return `<!DOCTYPE html>
 <html>
@@ -225,6 +231,11 @@ function memoToHtml(memo: {
     .section {
       margin-bottom: 20px;
     }
+    .sources p {
+      margin: 4px 0;
+      font-size: 9pt;
+      color: #5f6368;
+    }
     .footer {
       margin-top: 40px;
       padding-top: 16px;
@@ -254,6 +265,8 @@ function memoToHtml(memo: {
     ${contentHtml}
   </div>
 
+  ${citations.length > 0 ? citationsToHtml(citations) : ''}
+
   <div class="footer">
     Generated by VC Meeting OS • ai-vc-v2.vercel.app
   </div>
@@ -262,10 +275,30 @@ function memoToHtml(memo: {
 }
 
 /**
- * Convert markdown content to clean HTML
+ * Footnote markers and the "Sources" list for cited memo lines. Uses the
+ * markup Google Docs itself exports footnotes as; the doc has no hover, so
+ * the quotes are listed at the end with links back and forth.
  */
-function convertMarkdownToHtml(markdown: string): string {
+function footnoteMarkers(citations: MemoCitation[] | undefined): string {
+  return (citations || [])
+    .map(c => `<sup><a href="#ftnt${c.id}" id="ftnt_ref${c.id}">[${c.id}]</a></sup>`)
+    .join('')
+}
+
+function citationsToHtml(citations: MemoCitation[]): string {
+  const items = citations.map(c => {
+    const source = [c.speaker, c.start !== null ? formatTimestamp(c.start) : null].filter(Boolean).join(', ')
+    return `<p id="ftnt${c.id}"><a href="#ftnt_ref${c.id}">[${c.id}]</a> &ldquo;${escapeHtml(c.quote)}&rdquo; &mdash; ${escapeHtml(source)}</p>`
+  })
+  return `<div class="sources">\n  <h2>Sources</h2>\n  ${items.join('\n  ')}\n</div>`
+}
+
+/**
+ * Convert markdown content to clean HTML, with footnote markers on cited lines
+ */
+function convertMarkdownToHtml(markdown: string, citations: MemoCitation[] = []): string {
   const lines = markdown.split('\n')
+  const cited = citationsByLine(markdown, citations)
   let html = ''
   let inList = false
   let currentParagraph = ''
@@ -322,7 +355,7 @@ function convertMarkdownToHtml(markdown: string): string {
         html += '<ul>\n'
         inList = true
       }
-      html += `  <li>${formatInlineMarkdown(line.slice(2))}</li>\n`
+      html += `  <li>${formatInlineMarkdown(line.slice(2))}${footnoteMarkers(cited.get(i))}</li>\n`
       continue
     }
 
@@ -332,9 +365,9 @@ function convertMarkdownToHtml(markdown: string): string {
       inList = false
     }
     if (currentParagraph) {
-      currentParagraph += ' ' + formatInlineMarkdown(line)
+      currentParagraph += ' ' + formatInlineMarkdown(line) + footnoteMarkers(cited.get(i))
     } else {
-      currentParagraph = formatInlineMarkdown(line)
+      currentParagraph = formatInlineMarkdown(line) + footnoteMarkers(cited.get(i))
     }
   }
 
@@ -374,14 +407,7 @@ function escapeHtml(text: string): string {
 export async function createMemoDoc(
   drive: drive_v3.Drive,
   folderId: string,
-  memo: {
-    title: string
-    content: string
-    summary: string | null
-    meetingDate: string | null
-    companyName?: string | null
-    meetingType?: string | null
-  }
+  memo: DriveMemo
 ): Promise<{ fileId: string; webViewLink: string }> {
   const htmlContent = memoToHtml(memo)
 
@@ -411,14 +437,7 @@ export async function createMemoDoc(
 export async function updateMemoDoc(
   drive: drive_v3.Drive,
   fileId: string,
-  memo: {
-    title: string
-    content: string
-    summary: string | null
-    meetingDate: string | null
-    companyName?: string | null
-    meetingType?: string | null
-  }
+  memo: DriveMemo
 ): Promise<{ fileId: string; webViewLink: string }> {
   const htmlContent = memoToHtml(memo)
 
@@ -456,14 +475,7 @@ export async function createMemoInDrive(
   refreshToken: string | undefined,
   existingFolderId: string | undefined,
   userId: string,
-  memo: {
-    title: string
-    content: string
-    summary: string | null
-    meetingDate: string | null
-    companyName?: string | null
-    meetingType?: string | null
-  },
+  memo: DriveMemo,
   existingFileId?: string
 ): Promise<{
   fileId: string
@@ -0,0 +1,141 @@
+import type { createAdminClient } from '@/lib/supabase/server'
+
+/**
+ * Host Identity
+ *
+ * Who "me" is in a transcript: the names and email addresses the user
+ * registered on their profile, plus the colleagues who join their meetings.
+ * Extraction uses it to keep the user and their teammates out of the
+ * contacts CRM, and to tell what the user owes from what they're owed.
+ */
+
+export interface HostIdentity {
+  // The user's own names ("Alex Kim", "Alex")
+  names: string[]
+  // The user's own email addresses
+  emails: string[]
+  // Colleagues' names
+  colleagues: string[]
+  // Colleagues' email addresses
+  colleagueEmails: string[]
+  // Email domains of the user's firm; anyone on them is a colleague
+  domains: string[]
+}
+
+export type HostRole = 'me' | 'colleague'
+
+// Personal email providers say nothing about who someone works for
+const PERSONAL_EMAIL_DOMAINS = ['gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'icloud.com', 'me.com', 'proton.me', 'protonmail.com']
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.map(v => v.trim()).filter(Boolean)))
+}
+
+/**
+ * Split a free-text list ("Alex Kim, Alex" or one per line) into entries
+ */
+export function parseAliasList(value: string): string[] {
+  return unique(value.split(/[\n,;]/))
+}
+
+/**
+ * Build an identity from profile fields. Colleague aliases may mix names
+ * and email addresses.
+ */
+export function toHostIdentity(profile: {
+  display_name?: string | null
+  email?: string | null
+  host_names?: string[] | null
+  host_emails?: string[] | null
+  colleague_aliases?: string[] | null
+}): HostIdentity {
+  const names = unique([...(profile.host_names || []), profile.display_name || ''])
+  const emails = unique([...(profile.host_emails || []), profile.email || '']).map(e => e.toLowerCase())
+  const aliases = profile.colleague_aliases || []
+  const colleagueEmails = unique(aliases.filter(a => a.includes('@'))).map(e => e.toLowerCase())
+  const colleagues = unique(aliases.filter(a => !a.includes('@')))
+  const domains = unique(emails.map(e => e.split('@')[1] || ''))
+    .filter(domain => !PERSONAL_EMAIL_DOMAINS.includes(domain))
+
+  return { names, emails, colleagues, colleagueEmails, domains }
+}
+
+/**
+ * Load the user's identity from their profile
+ */
+export async function getHostIdentity(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string
+): Promise<HostIdentity> {
+  const { data: profile } = await (adminClient
+    .from('profiles') as ReturnType<typeof adminClient.from>)
+    .select('display_name, email, host_names, host_emails, colleague_aliases')
+    .eq('id', userId)
+    .maybeSingle() as {
+    data: {
+      display_name: string | null
+      email: string | null
+      host_names: string[] | null
+      host_emails: string[] | null
+      colleague_aliases: string[] | null
+    } | null
+  }
+
+  return toHostIdentity(profile || {})
+}
+
+/**
+ * Whether a person is the user or one of their colleagues. Names must match
+ * a registered name exactly (ignoring case and accents), so a founder who
+ * shares the user's first name isn't dropped unless the user registered the
+ * bare first name themselves.
+ */
+export function hostRole(identity: HostIdentity, person: { name?: string | null; email?: string | null }): HostRole | null {
+  const email = person.email?.trim().toLowerCase()
+  if (email) {
+    if (identity.emails.includes(email)) return 'me'
+    if (identity.colleagueEmails.includes(email)) return 'colleague'
+    if (identity.domains.includes(email.split('@')[1] || '')) return 'colleague'
+  }
+
+  const name = person.name ? normalizeName(person.name) : ''
+  if (name) {
+    if (identity.names.some(n => normalizeName(n) === name)) return 'me'
+    if (identity.colleagues.some(n => normalizeName(n) === name)) return 'colleague'
+  }
+
+  return null
+}
+
+/**
+ * Whether the user has told us anything about who they are
+ */
+function hasHostIdentity(identity: HostIdentity): boolean {
+  return identity.names.length > 0 || identity.emails.length > 0 || identity.colleagues.length > 0 || identity.colleagueEmails.length > 0
+}
+
+/**
+ * Prompt lines naming the host and their colleagues
+ */
+export function describeHost(identity: HostIdentity): string {
+  if (!hasHostIdentity(identity)) {
+    return 'THE HOST: The investor whose meeting this is (not named).'
+  }
+
+  const lines = [`THE HOST (the investor whose meeting this is): ${[...identity.names, ...identity.emails].join(', ') || 'not named'}`]
+  const colleagues = [...identity.colleagues, ...identity.colleagueEmails, ...identity.domains.map(d => `anyone @${d}`)]
+  if (colleagues.length > 0) {
+    lines.push(`THE HOST'S COLLEAGUES (same firm): ${colleagues.join(', ')}`)
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { anthropicProvider } from './anthropic'
+import { LLMError, type ResolvedLLMRequest } from './types'
+
+function request(timeoutMs: number): ResolvedLLMRequest {
+  return { task: 'memo', prompt: 'prompt', model: 'claude-3-haiku-20240307', maxTokens: 100, timeoutMs }
+}
+
+// A fetch that never answers, so every attempt runs into its timeout
+function hangingFetch() {
+  return vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+    init.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })))
+  }))
+}
+
+async function settle<T>(promise: Promise<T>): Promise<T | unknown> {
+  const outcome = promise.catch((error: unknown) => error)
+  await vi.runAllTimersAsync()
+  return outcome
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.stubEnv('ANTHROPIC_API_KEY', 'test-key')
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(Math, 'random').mockReturnValue(0)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('anthropicProvider retries', () => {
+  it('does not retry a long task that timed out', async () => {
+    const fetch = hangingFetch()
+    vi.stubGlobal('fetch', fetch)
+    const startedAt = Date.now()
+
+    const error = await settle(anthropicProvider.complete(request(90_000)))
+
+    expect(error).toBeInstanceOf(LLMError)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(Date.now() - startedAt).toBe(90_000)
+  })
+
+  it('retries short timeouts only while a full attempt fits in two minutes', async () => {
+    const fetch = hangingFetch()
+    vi.stubGlobal('fetch', fetch)
+    const startedAt = Date.now()
+
+    await settle(anthropicProvider.complete(request(45_000)))
+
+    // 45s, 1s backoff, 45s; a third attempt would end past 120s
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(Date.now() - startedAt).toBeLessThanOrEqual(120_000)
+  })
+
+  it('retries rate limits up to the attempt limit', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ error: { message: 'slow down' } }), { status: 429 }))
+    vi.stubGlobal('fetch', fetch)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const error = await settle(anthropicProvider.complete(request(30_000)))
+
+    expect((error as LLMError).status).toBe(429)
+    expect(fetch).toHaveBeenCalledTimes(4)
+  })
+})
@@ -0,0 +1,124 @@
+import { LLMError, type LLMProvider, type LLMResponse, type ResolvedLLMRequest } from './types'
+
+const API_URL = 'https://api.anthropic.com/v1/messages'
+
+// 429 = rate limited, 529 = overloaded; 5xx are usually transient too
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504, 529])
+const MAX_ATTEMPTS = 4
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 30_000
+
+// Longest one call may take across all its attempts. Routes that run the
+// pipeline get 300s (maxDuration), so a call that keeps failing has to give
+// up well before that for the stage to fail cleanly.
+const MAX_TOTAL_MS = 120_000
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Exponential backoff with jitter, honoring retry-after when the API sends it
+ */
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN
+  if (!isNaN(retryAfterSeconds) && retryAfterSeconds > 0) {
+    return Math.min(retryAfterSeconds * 1000, MAX_DELAY_MS)
+  }
+  const exponential = BASE_DELAY_MS * 2 ** (attempt - 1)
+  return Math.min(exponential + Math.random() * BASE_DELAY_MS, MAX_DELAY_MS)
+}
+
+/**
+ * One Messages API call with a timeout
+ */
+async function sendOnce(apiKey: string, request: ResolvedLLMRequest): Promise<LLMResponse> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), request.timeoutMs)
+  const startedAt = Date.now()
+
+  try {
+    const response = await fetch(API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        ...(request.system ? { system: request.system } : {}),
+        messages: [{ role: 'user', content: request.prompt }],
+      }),
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      console.error('[Claude API Error]', response.status, errorData)
+      throw new LLMError(
+        `Claude API error: ${response.status} - ${errorData.error?.message || 'Unknown'}`,
+        response.status,
+        RETRYABLE_STATUS.has(response.status),
+        response.headers.get('retry-after')
+      )
+    }
+
+    const data = await response.json()
+    return {
+      text: data.content?.[0]?.text || '',
+      model: data.model || request.model,
+      usage: {
+        inputTokens: data.usage?.input_tokens || 0,
+        outputTokens: data.usage?.output_tokens || 0,
+      },
+      latencyMs: Date.now() - startedAt,
+    }
+  } catch (error) {
+    if (error instanceof LLMError) throw error
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new LLMError(`Claude API timed out after ${request.timeoutMs}ms`, undefined, true)
+    }
+    throw new LLMError(`Claude API request failed: ${error instanceof Error ? error.message : 'Unknown'}`, undefined, true)
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Anthropic Messages API provider with retry on rate limits and overloads
+ */
+export const anthropicProvider: LLMProvider = {
+  name: 'anthropic',
+
+  async complete(request) {
+    const apiKey = (process.env.ANTHROPIC_API_KEY || '').trim()
+    if (!apiKey) {
+      throw new LLMError('ANTHROPIC_API_KEY not configured')
+    }
+
+    const deadline = Date.now() + Math.max(MAX_TOTAL_MS, request.timeoutMs)
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await sendOnce(apiKey, request)
+      } catch (error) {
+        const llmError = error as LLMError
+        if (!llmError.retryable || attempt >= MAX_ATTEMPTS) {
+          throw error
+        }
+
+        // Only retry when a full attempt still fits before the deadline; a
+        // long task that timed out once is not retried
+        const delay = backoffDelay(attempt, llmError.retryAfter)
+        if (Date.now() + delay + request.timeoutMs > deadline) {
+          throw error
+        }
+
+        console.warn(`[Claude] ${llmError.message} - retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_ATTEMPTS})`)
+        await sleep(delay)
+      }
+    }
+  },
+}
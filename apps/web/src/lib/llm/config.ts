@@ -0,0 +1,46 @@
+import type { LLMTask } from './types'
+
+// Fast, cheap default; set LLM_MODEL to move every task to another model
+const DEFAULT_MODEL = process.env.LLM_MODEL || 'claude-3-haiku-20240307'
+
+// Models a memo can be reprocessed with
+export const MODEL_CHOICES = [
+  { id: 'claude-3-haiku-20240307', label: 'Claude 3 Haiku (fast)' },
+  { id: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku' },
+  { id: 'claude-3-5-sonnet-latest', label: 'Claude 3.5 Sonnet (thorough)' },
+] as const
+
+interface TaskConfig {
+  model: string
+  maxTokens: number
+  timeoutMs: number
+}
+
+/**
+ * Per-task model settings.
+ * A single task can be pointed at another model with LLM_MODEL_<TASK>
+ * (e.g. LLM_MODEL_MEMO=claude-3-5-sonnet-latest).
+ */
+const TASK_CONFIG: Record<LLMTask, TaskConfig> = {
+  'classify': { model: DEFAULT_MODEL, maxTokens: 50, timeoutMs: 20_000 },
+  'company': { model: DEFAULT_MODEL, maxTokens: 1024, timeoutMs: 30_000 },
+  'memo': { model: DEFAULT_MODEL, maxTokens: 4096, timeoutMs: 90_000 },
+  'memo-notes': { model: DEFAULT_MODEL, maxTokens: 2048, timeoutMs: 60_000 },
+  'summary': { model: DEFAULT_MODEL, maxTokens: 512, timeoutMs: 30_000 },
+  'contacts': { model: DEFAULT_MODEL, maxTokens: 4096, timeoutMs: 60_000 },
+  'commitments': { model: DEFAULT_MODEL, maxTokens: 4096, timeoutMs: 60_000 },
+  'tasks': { model: DEFAULT_MODEL, maxTokens: 1024, timeoutMs: 30_000 },
+  'citations': { model: DEFAULT_MODEL, maxTokens: 2048, timeoutMs: 60_000 },
+  'metrics': { model: DEFAULT_MODEL, maxTokens: 2048, timeoutMs: 60_000 },
+  'fulfillment': { model: DEFAULT_MODEL, maxTokens: 1024, timeoutMs: 45_000 },
+  'repair': { model: DEFAULT_MODEL, maxTokens: 4096, timeoutMs: 60_000 },
+  'template-section': { model: DEFAULT_MODEL, maxTokens: 1024, timeoutMs: 45_000 },
+  'chat': { model: DEFAULT_MODEL, maxTokens: 4096, timeoutMs: 60_000 },
+  'diagnostics': { model: DEFAULT_MODEL, maxTokens: 4096, timeoutMs: 30_000 },
+}
+
+export function getTaskConfig(task: LLMTask): TaskConfig {
+  const config = TASK_CONFIG[task]
+  const envModel = process.env[`LLM_MODEL_${task.toUpperCase().replace(/-/g, '_')}`]
+  return envModel ? { ...config, model: envModel } : config
+}
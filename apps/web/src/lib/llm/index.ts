@@ -0,0 +1,92 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { anthropicProvider } from './anthropic'
+import { getTaskConfig } from './config'
+import { createRecordingProvider, replayProvider } from './replay'
+import { recordLLMUsage } from './usage'
+import type { LLMProvider, LLMRequest, LLMResponse, LLMTask } from './types'
+
+/**
+ * LLM Provider Layer
+ *
+ * Every model call in the app goes through `complete`. The provider is picked
+ * with LLM_PROVIDER:
+ * - anthropic (default): Anthropic Messages API
+ * - record: anthropic, saving each response under LLM_FIXTURES_DIR
+ * - replay: answers only from recorded fixtures (offline runs and tests)
+ *
+ * Successful calls are recorded in the usage ledger (see usage.ts), except
+ * when replaying.
+ */
+
+export { LLMError } from './types'
+export { MODEL_CHOICES } from './config'
+export { checkLLMBudget, getMonthlyLLMUsage, withLLMUsageContext } from './usage'
+export type { LLMBudgetStatus, LLMUsageContext, LLMUsageSummary } from './usage'
+export type { LLMProvider, LLMRequest, LLMResponse, LLMTask, LLMUsage } from './types'
+
+let provider: LLMProvider | null = null
+
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider
+
+  switch ((process.env.LLM_PROVIDER || 'anthropic').toLowerCase()) {
+    case 'replay':
+      provider = replayProvider
+      break
+    case 'record':
+      provider = createRecordingProvider(anthropicProvider)
+      break
+    default:
+      provider = anthropicProvider
+  }
+
+  console.log(`[LLM] Using provider: ${provider.name}`)
+  return provider
+}
+
+/**
+ * Swap the provider at runtime (e.g. a stub in a script); pass null to reset
+ */
+export function setLLMProvider(next: LLMProvider | null) {
+  provider = next
+}
+
+const modelOverride = new AsyncLocalStorage<string>()
+
+/**
+ * Run `fn` with every call made inside it going to `model` instead of the
+ * task's model (reprocessing a memo with another model). No model, no change.
+ */
+export function withLLMModel<T>(model: string | undefined, fn: () => Promise<T>): Promise<T> {
+  return model ? modelOverride.run(model, fn) : fn()
+}
+
+/**
+ * Run a completion with the task's model, token and timeout defaults
+ */
+export async function complete(request: LLMRequest): Promise<LLMResponse> {
+  const config = getTaskConfig(request.task)
+  const llm = getLLMProvider()
+
+  const response = await llm.complete({
+    ...request,
+    model: request.model || modelOverride.getStore() || config.model,
+    maxTokens: request.maxTokens || config.maxTokens,
+    timeoutMs: request.timeoutMs || config.timeoutMs,
+  })
+
+  console.log(`[LLM] ${request.task}: ${response.usage.inputTokens} in / ${response.usage.outputTokens} out, ${response.latencyMs}ms`)
+  // Replayed calls cost nothing, and an offline run has no database to write to
+  if (llm !== replayProvider) {
+    await recordLLMUsage(request, response)
+  }
+  return response
+}
+
+/**
+ * Shorthand for callers that only need the text
+ */
+export async function completeText(task: LLMTask, prompt: string, system?: string): Promise<string> {
+  const { text } = await complete({ task, prompt, system })
+  return text
+}
@@ -0,0 +1,21 @@
+import type { LLMUsage } from './types'
+
+// USD per million tokens, by model family (list prices)
+const MODEL_PRICES: Array<{ match: string; input: number; output: number }> = [
+  { match: 'claude-3-haiku', input: 0.25, output: 1.25 },
+  { match: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { match: 'claude-haiku-4', input: 1, output: 5 },
+  { match: 'sonnet', input: 3, output: 15 },
+  { match: 'opus', input: 15, output: 75 },
+]
+
+// Unknown models are priced like Sonnet so budgets err on the safe side
+const FALLBACK_PRICE = { input: 3, output: 15 }
+
+/**
+ * Estimated cost of one call in USD
+ */
+export function estimateCostUsd(model: string, usage: LLMUsage): number {
+  const price = MODEL_PRICES.find(p => model.includes(p.match)) || FALLBACK_PRICE
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+}
@@ -0,0 +1,107 @@
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { LLMError, type LLMProvider, type LLMRequest, type LLMResponse } from './types'
+
+/**
+ * Record/replay providers
+ *
+ * `record` passes every call through to a real provider and saves the
+ * response as a fixture file; `replay` answers from those files only, so the
+ * whole pipeline runs without network access or an API key.
+ *
+ * Fixtures are keyed by task + system prompt + prompt (not the model), so
+ * changing a task's model doesn't invalidate them.
+ */
+
+interface Fixture {
+  key: string
+  request: {
+    task: string
+    system?: string
+    prompt: string
+  }
+  response: {
+    text: string
+    model: string
+    usage: { inputTokens: number; outputTokens: number }
+  }
+  recorded_at: string
+}
+
+export function getFixturesDir(): string {
+  return process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'llm')
+}
+
+export function fixtureKey(request: Pick<LLMRequest, 'task' | 'system' | 'prompt'>): string {
+  return createHash('sha256')
+    .update(JSON.stringify([request.task, request.system || '', request.prompt]))
+    .digest('hex')
+    .slice(0, 24)
+}
+
+function fixturePath(request: Pick<LLMRequest, 'task' | 'system' | 'prompt'>): string {
+  return path.join(getFixturesDir(), `${request.task}-${fixtureKey(request)}.json`)
+}
+
+/**
+ * Serves recorded responses; a call without a fixture fails loudly
+ */
+export const replayProvider: LLMProvider = {
+  name: 'replay',
+
+  async complete(request) {
+    const file = fixturePath(request)
+
+    let fixture: Fixture
+    try {
+      fixture = JSON.parse(await readFile(file, 'utf8'))
+    } catch {
+      throw new LLMError(`No LLM fixture for ${request.task} call (expected ${path.basename(file)}). Record it with LLM_PROVIDER=record.`)
+    }
+
+    return {
+      text: fixture.response.text,
+      model: fixture.response.model,
+      usage: fixture.response.usage,
+      latencyMs: 0,
+    }
+  },
+}
+
+/**
+ * Wraps a real provider and writes each response to a fixture file
+ */
+export function createRecordingProvider(inner: LLMProvider): LLMProvider {
+  return {
+    name: `record(${inner.name})`,
+
+    async complete(request) {
+      const response: LLMResponse = await inner.complete(request)
+
+      const fixture: Fixture = {
+        key: fixtureKey(request),
+        request: {
+          task: request.task,
+          system: request.system,
+          prompt: request.prompt,
+        },
+        response: {
+          text: response.text,
+          model: response.model,
+          usage: response.usage,
+        },
+        recorded_at: new Date().toISOString(),
+      }
+
+      try {
+        await mkdir(getFixturesDir(), { recursive: true })
+        await writeFile(fixturePath(request), JSON.stringify(fixture, null, 2))
+      } catch (error) {
+        console.error('[LLM] Failed to record fixture:', error)
+      }
+
+      return response
+    },
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * What an LLM call is for. Each task gets its own model, token budget and
+ * timeout (see config.ts).
+ */
+export type LLMTask =
+  | 'classify'
+  | 'company'
+  | 'memo'
+  | 'memo-notes'
+  | 'summary'
+  | 'contacts'
+  | 'commitments'
+  | 'tasks'
+  | 'citations'
+  | 'metrics'
+  | 'fulfillment'
+  | 'repair'
+  | 'template-section'
+  | 'chat'
+  | 'diagnostics'
+
+export interface LLMRequest {
+  task: LLMTask
+  prompt: string
+  system?: string
+  // Overrides for the task defaults
+  model?: string
+  maxTokens?: number
+  timeoutMs?: number
+}
+
+/**
+ * A request with every task default filled in, as seen by providers
+ */
+export interface ResolvedLLMRequest extends LLMRequest {
+  model: string
+  maxTokens: number
+  timeoutMs: number
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface LLMResponse {
+  text: string
+  model: string
+  usage: LLMUsage
+  latencyMs: number
+}
+
+export interface LLMProvider {
+  name: string
+  complete(request: ResolvedLLMRequest): Promise<LLMResponse>
+}
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryable = false,
+    // retry-after header value, when the API sent one
+    public readonly retryAfter: string | null = null
+  ) {
+    super(message)
+    this.name = 'LLMError'
+  }
+}
@@ -0,0 +1,130 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { createAdminClient } from '@/lib/supabase/server'
+import { estimateCostUsd } from './pricing'
+import type { LLMRequest, LLMResponse } from './types'
+
+/**
+ * LLM Usage Ledger
+ *
+ * Every successful call is written to `llm_usage` with the user, job and
+ * pipeline stage it was made for. Callers don't pass these down through the
+ * extractors; they wrap their work in `withLLMUsageContext` and every call
+ * made inside picks the context up.
+ */
+
+export interface LLMUsageContext {
+  userId: string
+  jobId?: string
+  // Pipeline stage, or the feature making the call ('chat', 'contact-backfill')
+  stage?: string
+}
+
+export interface LLMUsageSummary {
+  stage: string
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+export interface LLMBudgetStatus {
+  budgetUsd: number | null
+  spentUsd: number
+  exceeded: boolean
+}
+
+const usageContext = new AsyncLocalStorage<LLMUsageContext>()
+
+export function withLLMUsageContext<T>(context: LLMUsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageContext.run(context, fn)
+}
+
+/**
+ * Record one call against the current context. Never throws: a ledger
+ * problem must not fail the work that made the call.
+ */
+export async function recordLLMUsage(request: LLMRequest, response: LLMResponse) {
+  const context = usageContext.getStore()
+  if (!context) {
+    console.warn(`[LLM] ${request.task} call made outside a usage context; not recorded`)
+    return
+  }
+
+  try {
+    const adminClient = createAdminClient()
+    await (adminClient.from('llm_usage') as ReturnType<typeof adminClient.from>)
+      .insert({
+        user_id: context.userId,
+        job_id: context.jobId || null,
+        stage: context.stage || null,
+        task: request.task,
+        model: response.model,
+        input_tokens: response.usage.inputTokens,
+        output_tokens: response.usage.outputTokens,
+        latency_ms: response.latencyMs,
+        cost_usd: estimateCostUsd(response.model, response.usage),
+      } as never)
+  } catch (error) {
+    console.error('[LLM] Failed to record usage:', error)
+  }
+}
+
+/**
+ * Start of the current calendar month (UTC), the budget period
+ */
+export function currentBudgetPeriodStart(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString()
+}
+
+/**
+ * A user's usage for the current month, grouped by stage
+ */
+export async function getMonthlyLLMUsage(
+  client: ReturnType<typeof createAdminClient>,
+  userId: string
+): Promise<LLMUsageSummary[]> {
+  // @ts-expect-error - Supabase RPC types
+  const { data, error } = await client.rpc('get_llm_usage_summary', {
+    p_user_id: userId,
+    p_since: currentBudgetPeriodStart(),
+  }) as {
+    data: Array<{ stage: string; calls: number; input_tokens: number; output_tokens: number; cost_usd: number | string }> | null
+    error: unknown
+  }
+
+  if (error) {
+    console.error('[LLM] Failed to load usage summary:', error)
+  }
+
+  return (data || []).map(row => ({
+    stage: row.stage,
+    calls: Number(row.calls),
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    costUsd: Number(row.cost_usd),
+  }))
+}
+
+/**
+ * Whether a user has used up their monthly budget (no budget = unlimited)
+ */
+export async function checkLLMBudget(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string
+): Promise<LLMBudgetStatus> {
+  const { data: profile } = await (adminClient
+    .from('profiles') as ReturnType<typeof adminClient.from>)
+    .select('llm_monthly_budget_usd')
+    .eq('id', userId)
+    .single() as { data: { llm_monthly_budget_usd: number | string | null } | null }
+
+  const budgetUsd = profile?.llm_monthly_budget_usd != null ? Number(profile.llm_monthly_budget_usd) : null
+  if (budgetUsd === null) {
+    return { budgetUsd: null, spentUsd: 0, exceeded: false }
+  }
+
+  const usage = await getMonthlyLLMUsage(adminClient, userId)
+  const spentUsd = usage.reduce((sum, row) => sum + row.costUsd, 0)
+
+  return { budgetUsd, spentUsd, exceeded: spentUsd >= budgetUsd }
+}
@@ -0,0 +1,78 @@
+import { completeStructured } from '@/lib/structured-output'
+import { CHUNK_SIZES, mapChunks, mergeStringLists } from '@/lib/chunking'
+import { ChunkNotesSchema } from '@/lib/pipeline/schemas'
+
+/**
+ * Meeting Notes
+ *
+ * Long meetings don't fit in a writing prompt. Notes are taken on every part
+ * of the transcript (map step) and merged (reduce step); memos, and sections
+ * written later, are written from the merged notes.
+ */
+
+export interface MeetingNotes {
+  parts: number  // Parts of the transcript notes were taken on
+  keyPoints: string[]
+  metrics: string[]
+  quotes: string[]
+}
+
+/**
+ * Take notes across a whole transcript. Parts that fail are reported through
+ * `warn` and left out.
+ */
+export async function takeMeetingNotes(transcript: string, warn?: (message: string) => void): Promise<MeetingNotes> {
+  const notes = await mapChunks(transcript, CHUNK_SIZES.memo, (chunk, total) =>
+    extractChunkNotes(chunk.text, chunk.index, total).catch(error => {
+      const message = `Memo notes (part ${chunk.index + 1}/${total}): ${error instanceof Error ? error.message : String(error)}`
+      console.error(`[Extraction] ${message}`)
+      warn?.(message)
+      return null
+    })
+  )
+  const taken = notes.filter(n => n !== null)
+
+  return {
+    parts: taken.length,
+    keyPoints: mergeStringLists(...taken.map(n => n.key_points)),
+    metrics: mergeStringLists(...taken.map(n => n.metrics)),
+    quotes: mergeStringLists(...taken.map(n => n.quotes)),
+  }
+}
+
+/**
+ * Notes as they are given to a writing prompt, in place of the transcript
+ */
+export function formatMeetingNotes(notes: MeetingNotes): string {
+  return `The meeting was too long to include verbatim. Below are notes taken across ALL ${notes.parts} parts of the transcript, in order.
+
+KEY POINTS:
+${notes.keyPoints.map(p => `- ${p}`).join('\n') || '- None recorded'}
+
+METRICS & NUMBERS:
+${notes.metrics.map(m => `- ${m}`).join('\n') || '- None recorded'}
+
+NOTABLE QUOTES:
+${notes.quotes.map(q => `- "${q}"`).join('\n') || '- None recorded'}`
+}
+
+/**
+ * Take structured notes on one part of a long transcript
+ */
+async function extractChunkNotes(
+  chunk: string,
+  index: number,
+  total: number
+): Promise<{ key_points: string[]; metrics: string[]; quotes: string[] }> {
+  return completeStructured('memo-notes', `You are taking notes on part ${index + 1} of ${total} of a meeting transcript for a VC investor.
+
+Return a JSON object with:
+- key_points: Array of the important facts, claims, decisions and next steps in this part (one sentence each, include who said it)
+- metrics: Array of every number mentioned with what it measures (e.g., "ARR: $2.4M", "Raising $5M seed")
+- quotes: Array of up to 3 notable verbatim quotes
+
+Return ONLY valid JSON, no other text.
+
+Transcript part ${index + 1}/${total}:
+${chunk}`, ChunkNotesSchema, { label: 'Memo notes', shape: 'object' })
+}
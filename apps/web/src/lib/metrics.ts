@@ -0,0 +1,83 @@
+import type { CompanyMetric } from '@/lib/supabase/types'
+
+/**
+ * Company Metrics
+ *
+ * Figures like ARR, burn and valuation are pulled out of each meeting as
+ * typed values (company_metrics), so a company's numbers can be followed
+ * across its update calls instead of re-read from memo text.
+ */
+
+export type MetricKind = CompanyMetric['metric']
+
+export const METRIC_KINDS: MetricKind[] = [
+  'arr', 'mrr', 'revenue_growth', 'burn', 'runway', 'headcount', 'raise_amount', 'valuation',
+]
+
+export const METRIC_LABELS: Record<MetricKind, string> = {
+  arr: 'ARR',
+  mrr: 'MRR',
+  revenue_growth: 'Revenue growth',
+  burn: 'Monthly burn',
+  runway: 'Runway',
+  headcount: 'Headcount',
+  raise_amount: 'Raise',
+  valuation: 'Valuation',
+}
+
+// Non-money metrics always use these; money metrics default to dollars
+const FIXED_UNITS: Partial<Record<MetricKind, string>> = {
+  revenue_growth: 'percent',
+  runway: 'months',
+  headcount: 'people',
+}
+
+/**
+ * A metric figure found in a transcript, with the words it came from
+ */
+export interface MetricFigure {
+  metric: MetricKind
+  value: number
+  unit: string
+  // 'mom', 'qoq' or 'yoy' for growth rates
+  period: string | null
+  // YYYY-MM-DD the figure describes; null for "as of the meeting"
+  asOf: string | null
+  // Company the figure is about; null for the meeting's company
+  company: string | null
+  quote: string
+  speaker: string
+  utteranceIndex: number
+}
+
+export function isMetricKind(value: string): value is MetricKind {
+  return (METRIC_KINDS as string[]).includes(value)
+}
+
+/**
+ * The unit a figure is stored in: a lowercase currency code for money,
+ * the metric's own unit otherwise
+ */
+export function metricUnit(metric: MetricKind, unit: string | undefined): string {
+  const fixed = FIXED_UNITS[metric]
+  if (fixed) return fixed
+  const currency = unit?.trim().toLowerCase()
+  return currency && /^[a-z]{3}$/.test(currency) ? currency : 'usd'
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { usd: '$', eur: '€', gbp: '£' }
+
+/**
+ * "$2.4M", "15% MoM", "18 months", "42 people"
+ */
+export function formatMetricValue(value: number, unit: string, period?: string | null): string {
+  if (unit === 'percent') return `${Number(value.toFixed(1))}%${period ? ` ${period.toUpperCase()}` : ''}`
+  if (unit === 'months') return `${Number(value.toFixed(1))} months`
+  if (unit === 'people') return `${Math.round(value)} people`
+
+  const abs = Math.abs(value)
+  const [scaled, suffix] = abs >= 1e9 ? [value / 1e9, 'B'] : abs >= 1e6 ? [value / 1e6, 'M'] : abs >= 1e3 ? [value / 1e3, 'K'] : [value, '']
+  const amount = `${Number(scaled.toFixed(Math.abs(scaled) >= 100 ? 0 : 1))}${suffix}`
+  const symbol = CURRENCY_SYMBOLS[unit]
+  return symbol ? `${symbol}${amount}` : `${amount} ${unit.toUpperCase()}`
+}
@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { generateSummary } from './extractors'
+
+const { completeText } = vi.hoisted(() => ({
+  completeText: vi.fn<(task: string, prompt: string, systemPrompt?: string) => Promise<string>>(),
+}))
+vi.mock('@/lib/llm', () => ({ completeText }))
+
+// Three parts at the summary chunk size
+const LONG_TRANSCRIPT = Array.from({ length: 600 }, (_, i) => `Priya: We talked through slide ${i} of the deck in some detail.`).join('\n')
+
+beforeEach(() => {
+  completeText.mockReset()
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('generateSummary', () => {
+  it('combines the parts that were summarized and reports the rest', async () => {
+    completeText.mockImplementation(async (_task, prompt) => {
+      if (prompt.startsWith('Summarize part 2 ')) throw new Error('overloaded')
+      return prompt.startsWith('Summarize part') ? `Part summary ${prompt.match(/part (\d+)/)![1]}` : 'Meeting summary'
+    })
+    const warn = vi.fn()
+
+    await expect(generateSummary(LONG_TRANSCRIPT, warn)).resolves.toBe('Meeting summary')
+
+    const combine = completeText.mock.calls.at(-1)![1]
+    expect(combine).toContain('Part 1: Part summary 1')
+    expect(combine).not.toContain('Part summary 2')
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^Summary \(part 2\/\d+\): overloaded$/))
+  })
+
+  it('is empty when no part could be summarized', async () => {
+    completeText.mockRejectedValue(new Error('overloaded'))
+    const warn = vi.fn()
+
+    await expect(generateSummary(LONG_TRANSCRIPT, warn)).resolves.toBe('')
+
+    expect(completeText.mock.calls.every(([, prompt]) => prompt.startsWith('Summarize part'))).toBe(true)
+    expect(warn).toHaveBeenCalledTimes(completeText.mock.calls.length)
+  })
+})
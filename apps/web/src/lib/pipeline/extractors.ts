@@ -0,0 +1,980 @@
+import { completeText } from '@/lib/llm'
+import { completeStructured } from '@/lib/structured-output'
+import {
+  DEFAULT_TEMPLATE,
+  MEMO_TEMPLATES,
+  buildMemoPrompt,
+  isMeetingType,
+  type MeetingType,
+  type MemoTemplate,
+} from '@/lib/templates'
+import { detectMeetingTypeByKeywords } from '@/lib/templates/detection'
+import { citableLines, findQuote, type MemoCitation } from '@/lib/citations'
+import type { Utterance } from '@/lib/transcripts'
+import { describeHost, hostRole, type HostIdentity } from '@/lib/host-identity'
+import { METRIC_KINDS, metricUnit, type MetricFigure, type MetricKind } from '@/lib/metrics'
+import { AUTO_CLOSE_CONFIDENCE, type DetectedFulfillment, type OpenReminder } from '@/lib/fulfillment'
+import { formatMeetingNotes, takeMeetingNotes } from '@/lib/meeting-notes'
+import {
+  CHUNK_SIZES,
+  chunkTranscript,
+  mapChunks,
+  mergeByKey,
+  mergeStringLists,
+  normalizeKey,
+  sampleTranscript,
+} from '@/lib/chunking'
+import {
+  CompanyDetectionSchema,
+  ExtractedCitationListSchema,
+  ExtractedCommitmentListSchema,
+  ExtractedContactListSchema,
+  ExtractedFulfillmentListSchema,
+  ExtractedMetricListSchema,
+  ExtractedTaskListSchema,
+} from './schemas'
+
+/**
+ * LLM extractors used by the processing pipeline stages.
+ * Every extractor works on the full transcript via the chunking helpers.
+ */
+
+export interface ExtractedContact {
+  name: string
+  email?: string
+  title?: string
+  company?: string
+  phone?: string
+  linkedin_url?: string
+  relationship_type?: 'founder' | 'investor' | 'advisor' | 'executive' | 'operator' | 'other'
+  notes?: string
+  // Per-meeting context (stored in contact_memos)
+  meeting_context?: {
+    their_interests?: string[]      // What they're interested in
+    their_concerns?: string[]       // Concerns or objections raised
+    their_asks?: string[]           // What they asked for
+    key_quotes?: string[]           // Notable things they said
+    follow_up_items?: string[]      // Suggested follow-ups
+    discussion_topics?: string[]    // Main topics discussed with them
+    sentiment?: 'very_positive' | 'positive' | 'neutral' | 'skeptical' | 'negative'
+    engagement_level?: 'high' | 'medium' | 'low'
+  }
+}
+
+export interface ExtractedCommitment {
+  type: 'commitment' | 'follow_up' | 'intro_request' | 'deadline'
+  title: string
+  context: string
+  source_text: string
+  related_person?: string
+  due_date?: string // ISO date if mentioned
+  due_phrase?: string // The timing as said: "next Friday", "after the board meeting"
+  priority: 'low' | 'medium' | 'high'
+  // 'me' when the host (or a colleague) owes it, 'them' when the other side does
+  owner?: 'me' | 'them'
+}
+
+export interface ExtractedTask {
+  title: string
+  priority: 'low' | 'medium' | 'high'
+}
+
+// A company that came up in a meeting without being its subject
+export interface ExtractedCompanyMention {
+  name: string
+  role: 'discussed' | 'competitor' | 'co_investor'
+  // What was said about it
+  snippet: string
+}
+
+export interface ExtractedCitation {
+  line: number       // Numbered memo line the quote backs
+  utterance: number  // Numbered transcript utterance the quote is from
+  quote: string
+  kind: 'fact' | 'metric'
+}
+
+/**
+ * Receives extraction failures that were survived (the stage carries on with
+ * partial results) so they can be recorded on the job as warnings
+ */
+export type WarnFn = (message: string) => void
+
+/**
+ * Resolve a failed extraction to a fallback value, reporting the failure
+ */
+function withFallback<T>(promise: Promise<T>, fallback: T, label: string, warn?: WarnFn): Promise<T> {
+  return promise.catch(error => {
+    const message = `${label}: ${error instanceof Error ? error.message : String(error)}`
+    console.error(`[Extraction] ${message}`)
+    warn?.(message)
+    return fallback
+  })
+}
+
+/**
+ * Detect meeting type from transcript.
+ * The categories and their signals come from the template registry (with the
+ * user's custom keywords, see getClassificationTemplates).
+ */
+export async function detectMeetingType(
+  transcript: string,
+  templates: readonly MemoTemplate[] = MEMO_TEMPLATES
+): Promise<MeetingType> {
+  const categories = templates.map(t => `- ${t.id}: ${t.description}`).join('\n')
+  const signals = templates
+    .filter(t => t.classificationHint)
+    .map(t => `- If ${t.classificationHint} → ${t.id}`)
+    .join('\n')
+
+  const prompt = `You are classifying a meeting transcript for a VC investor. Analyze the content and participants to determine the meeting type.
+
+Categories:
+${categories}
+
+Key signals:
+${signals}
+
+Return ONLY the category ID (e.g., "founder-pitch", "vc-catchup"). Be specific - don't default to "${DEFAULT_TEMPLATE.id}" unless it truly is an internal team meeting.
+
+Transcript excerpts (beginning, middle and end of the meeting):
+${sampleTranscript(transcript, CHUNK_SIZES.classify)}`
+
+  const fallback = () => detectMeetingTypeByKeywords(transcript, templates) || (DEFAULT_TEMPLATE.id as MeetingType)
+
+  try {
+    const result = await completeText('classify', prompt)
+    const category = result.trim().toLowerCase().replace(/['"]/g, '').replace(/\s+/g, '-')
+
+    if (isMeetingType(category)) {
+      return category
+    }
+
+    // Try to match partial
+    for (const template of templates) {
+      if (category.includes(template.id) || template.id.includes(category)) {
+        return template.id as MeetingType
+      }
+    }
+
+    // Default based on keywords in the response
+    if (category.includes('vc') || category.includes('investor') || category.includes('deal')) {
+      return 'vc-catchup'
+    }
+    if (category.includes('pitch') || category.includes('founder') || category.includes('startup')) {
+      return 'founder-pitch'
+    }
+
+    return fallback()
+  } catch (error) {
+    console.error('[Meeting Type Detection Error]', error)
+    return fallback()
+  }
+}
+
+interface CompanyCandidate {
+  name: string
+  confidence: number
+  mentions: number
+  website: string
+  industry: string
+  stage: string
+  snippet: string
+}
+
+export interface DetectedCompanies {
+  // The subject of the meeting, if there is one
+  primary: {
+    name: string
+    confidence: number
+    metadata: Record<string, string>
+    snippet: string
+  } | null
+  // Every other company that came up
+  mentioned: ExtractedCompanyMention[]
+}
+
+const MAX_SNIPPET_LENGTH = 500
+
+function joinSnippets(a: string, b: string): string {
+  if (!a || normalizeKey(a) === normalizeKey(b)) return b
+  if (!b) return a
+  return `${a} ${b}`.slice(0, MAX_SNIPPET_LENGTH)
+}
+
+/**
+ * Detect the companies discussed in one chunk of the transcript
+ */
+async function detectCompaniesInChunk(
+  chunk: string,
+  companyList: string
+): Promise<{ primary: CompanyCandidate | null; mentioned: ExtractedCompanyMention[] }> {
+  const prompt = `Extract company information from this meeting transcript.
+
+${companyList}
+
+Return a JSON object with:
+- name: Company name being discussed (or null if not identifiable), spelled as a known company above if it is one
+- confidence: 0-1 confidence score
+- website: Company website if mentioned
+- industry: Industry if identifiable
+- stage: Funding stage if mentioned (seed, series-a, etc.)
+- snippet: One or two sentences on what was said about it
+- mentioned: Every OTHER company that came up, as an array of objects with:
+  - name: Company name, spelled as a known company above if it is one
+  - role: "competitor" (competes with the company being discussed), "co_investor" (an investor in a deal), or "discussed" (anything else, e.g. a portfolio company or a startup being compared)
+  - snippet: One or two sentences on what was said about it
+
+Only include companies that were actually discussed, not tools used to run the meeting.
+Return ONLY valid JSON, no other text.
+
+Transcript:
+${chunk}`
+
+  const parsed = await completeStructured('company', prompt, CompanyDetectionSchema, {
+    label: 'Company detection',
+    shape: 'object',
+  })
+
+  return {
+    primary: parsed.name
+      ? {
+          name: parsed.name,
+          confidence: parsed.confidence || 0.5,
+          mentions: 1,
+          website: parsed.website || '',
+          industry: parsed.industry || '',
+          stage: parsed.stage || '',
+          snippet: parsed.snippet || '',
+        }
+      : null,
+    mentioned: parsed.mentioned,
+  }
+}
+
+/**
+ * Detect the companies in a transcript
+ * Each chunk nominates a company; the one nominated most often (weighted by
+ * confidence) across the whole meeting wins. Companies the other chunks
+ * nominated, and every company mentioned along the way, are returned as
+ * mentions - a portfolio catch-up covers several startups. Matching them to
+ * existing companies is left to resolveCompany.
+ */
+export async function detectCompany(
+  transcript: string,
+  existingCompanies: Array<{ id: string; name: string }>,
+  warn?: WarnFn
+): Promise<DetectedCompanies> {
+  const companyList = existingCompanies.length > 0
+    ? `Known companies in the system: ${existingCompanies.map(c => c.name).join(', ')}`
+    : ''
+
+  try {
+    const chunks = await mapChunks(transcript, CHUNK_SIZES.company, (chunk, total) =>
+      withFallback(
+        detectCompaniesInChunk(chunk.text, companyList),
+        { primary: null, mentioned: [] },
+        `Company detection (part ${chunk.index + 1}/${total})`,
+        warn
+      )
+    )
+
+    const merged = mergeByKey(
+      chunks.map(c => c.primary).filter((c): c is CompanyCandidate => c !== null),
+      c => normalizeKey(c.name),
+      (a, b) => ({
+        name: a.name,
+        confidence: Math.max(a.confidence, b.confidence),
+        mentions: a.mentions + b.mentions,
+        website: a.website || b.website,
+        industry: a.industry || b.industry,
+        stage: a.stage || b.stage,
+        snippet: joinSnippets(a.snippet, b.snippet),
+      })
+    )
+
+    const best = merged.length > 0
+      ? merged.reduce((top, c) => c.mentions * c.confidence > top.mentions * top.confidence ? c : top)
+      : null
+
+    // A specific role from any chunk beats "discussed"
+    const mentioned = mergeByKey(
+      [
+        ...merged
+          .filter(c => c !== best)
+          .map((c): ExtractedCompanyMention => ({ name: c.name, role: 'discussed', snippet: c.snippet })),
+        ...chunks.flatMap(c => c.mentioned),
+      ],
+      m => normalizeKey(m.name),
+      (a, b) => ({
+        name: a.name,
+        role: a.role === 'discussed' ? b.role : a.role,
+        snippet: joinSnippets(a.snippet, b.snippet),
+      })
+    ).filter(m => !best || normalizeKey(m.name) !== normalizeKey(best.name))
+
+    if (!best) return { primary: null, mentioned }
+
+    return {
+      primary: {
+        name: best.name,
+        confidence: best.confidence,
+        metadata: {
+          website: best.website,
+          industry: best.industry,
+          stage: best.stage,
+        },
+        snippet: best.snippet,
+      },
+      mentioned,
+    }
+  } catch (error) {
+    console.error('[Company Detection Error]', error)
+    warn?.(`Company detection: ${error instanceof Error ? error.message : String(error)}`)
+    return { primary: null, mentioned: [] }
+  }
+}
+
+/**
+ * Generate memo content from transcript, structured by the template
+ */
+export async function generateMemoContent(transcript: string, memoTemplate: MemoTemplate, warn?: WarnFn): Promise<string> {
+  const systemPrompt = `${memoTemplate.systemPrompt}
+You are writing for venture capital investors. Generate professional, structured meeting memos from transcripts. Be concise and focus on actionable insights.`
+  const template = buildMemoPrompt(memoTemplate)
+
+  // Short meetings fit in a single prompt
+  if (chunkTranscript(transcript, CHUNK_SIZES.memo).length === 1) {
+    const prompt = `${template}
+
+Be concise but thorough. Extract specific numbers, quotes, and facts when available.
+If information isn't available for a required section, write "Not discussed in meeting."
+
+Transcript:
+${transcript}`
+
+    return await completeText('memo', prompt, systemPrompt)
+  }
+
+  // Long meetings: take notes on each part, then write the memo from the merged notes
+  const notes = await takeMeetingNotes(transcript, warn)
+
+  const prompt = `${template}
+
+Be concise but thorough. Extract specific numbers, quotes, and facts when available.
+If information isn't available for a required section, write "Not discussed in meeting."
+
+${formatMeetingNotes(notes)}`
+
+  return await completeText('memo', prompt, systemPrompt)
+}
+
+/**
+ * Generate a brief summary
+ * Long meetings are summarized part by part, then the partial summaries are
+ * combined. Parts that fail are reported through `warn`; with none left the
+ * summary is empty.
+ */
+export async function generateSummary(transcript: string, warn?: WarnFn): Promise<string> {
+  const summaryPrompt = 'Summarize this meeting in 2-3 sentences. Be specific about what was discussed and any key outcomes:'
+
+  if (chunkTranscript(transcript, CHUNK_SIZES.summary).length === 1) {
+    return await completeText('summary', `${summaryPrompt}\n\n${transcript}`)
+  }
+
+  const partials = (await mapChunks(transcript, CHUNK_SIZES.summary, (chunk, total) =>
+    withFallback(
+      completeText('summary', `Summarize part ${chunk.index + 1} of ${total} of a meeting transcript in 2-3 sentences:\n\n${chunk.text}`),
+      '',
+      `Summary (part ${chunk.index + 1}/${total})`,
+      warn
+    )
+  )).filter(p => p.trim())
+  if (partials.length === 0) return ''
+
+  return await completeText('summary', `${summaryPrompt}\n\nThe meeting is given as summaries of its consecutive parts:\n\n${partials.map((p, i) => `Part ${i + 1}: ${p.trim()}`).join('\n\n')}`)
+}
+
+/**
+ * Extract participant/contact information from transcript
+ */
+export async function extractParticipants(
+  transcript: string,
+  speakerNames: string[],
+  host: HostIdentity,
+  warn?: WarnFn
+): Promise<ExtractedContact[]> {
+  try {
+    const perChunk = await mapChunks(transcript, CHUNK_SIZES.participants, (chunk, total) =>
+      withFallback(
+        extractParticipantsFromChunk(chunk.text, speakerNames, host),
+        [],
+        `Contact extraction (part ${chunk.index + 1}/${total})`,
+        warn
+      )
+    )
+    // The prompt names the host, but the model still lists them now and then
+    return mergeContacts(perChunk.flat()).filter(contact => !hostRole(host, contact))
+  } catch (error) {
+    console.error('[Contact Extraction Error]', error)
+    warn?.(`Contact extraction: ${error instanceof Error ? error.message : String(error)}`)
+    return []
+  }
+}
+
+/**
+ * Extract people from one chunk of the transcript (map step for contact extraction)
+ */
+async function extractParticipantsFromChunk(
+  chunk: string,
+  speakerNames: string[],
+  host: HostIdentity
+): Promise<ExtractedContact[]> {
+  const prompt = `You are analyzing a meeting transcript to build a CRM. Extract ONLY HUMAN PEOPLE mentioned.
+
+SPEAKER NAMES FROM MEETING: ${speakerNames.join(', ')}
+
+${describeHost(host)}
+
+CRITICAL RULES:
+1. Extract ONLY individual human beings with names
+2. DO NOT extract:
+   - Company names (e.g., "Sequoia", "Google", "TechStartup Inc")
+   - VC fund names (e.g., "a16z", "First Round")
+   - Product names or services
+   - Location names
+3. DO extract:
+   - All speakers/participants listed above
+   - People mentioned by first name only (e.g., "Shane", "Trent")
+   - Co-founders, team members, advisors mentioned BY NAME
+
+ONLY exclude the host and the host's colleagues named above - this is their CRM, so they are never contacts.
+
+For each person, extract what you can find:
+
+BASIC INFO:
+- name: Their name (first name only is OK if that's all mentioned)
+- email: Email if mentioned
+- title: Job title/role if mentioned
+- company: Their company if mentioned
+- phone: Phone number if mentioned
+- linkedin_url: LinkedIn URL if mentioned
+- relationship_type: One of: founder, investor, advisor, executive, operator, other
+- notes: Brief context about who they are
+
+MEETING CONTEXT (what happened in THIS meeting):
+- their_interests: Array of things they expressed interest in
+- their_concerns: Array of concerns, objections, or hesitations they raised
+- their_asks: Array of specific requests they made (intros, follow-ups, info needed)
+- key_quotes: Array of important/memorable things they said (direct quotes if possible)
+- follow_up_items: Array of suggested follow-ups based on the conversation
+- discussion_topics: Array of main topics discussed with them
+- sentiment: Their overall tone (very_positive, positive, neutral, skeptical, negative)
+- engagement_level: How engaged they were (high, medium, low)
+
+Return ONLY a valid JSON array. Include everyone, even with minimal info. Example:
+[{
+  "name": "Sarah Chen",
+  "title": "CEO & Co-founder",
+  "company": "TechStartup Inc",
+  "relationship_type": "founder",
+  "notes": "First meeting, pitching Series A",
+  "meeting_context": {
+    "their_interests": ["AI infrastructure", "enterprise sales motion"],
+    "their_concerns": ["runway concerns if deal takes too long"],
+    "their_asks": ["intro to portfolio company"],
+    "key_quotes": ["We're seeing 40% MoM growth"],
+    "follow_up_items": ["Send portfolio company intro"],
+    "discussion_topics": ["product roadmap", "go-to-market strategy"],
+    "sentiment": "positive",
+    "engagement_level": "high"
+  }
+},
+{
+  "name": "Trent",
+  "title": "CTO",
+  "company": "TechStartup Inc",
+  "relationship_type": "founder",
+  "notes": "Co-founder, technical lead"
+}]
+
+TRANSCRIPT:
+${chunk}`
+
+  return completeStructured('contacts', prompt, ExtractedContactListSchema, {
+    label: 'Contact extraction',
+    shape: 'array',
+  })
+}
+
+/**
+ * Merge contacts extracted from different chunks (same person appears in many chunks)
+ */
+function mergeContacts(contacts: ExtractedContact[]): ExtractedContact[] {
+  return mergeByKey(
+    contacts,
+    c => normalizeKey(c.name),
+    (a, b) => {
+      const ctxA = a.meeting_context || {}
+      const ctxB = b.meeting_context || {}
+      return {
+        name: a.name,
+        email: a.email || b.email,
+        title: a.title || b.title,
+        company: a.company || b.company,
+        phone: a.phone || b.phone,
+        linkedin_url: a.linkedin_url || b.linkedin_url,
+        relationship_type: a.relationship_type || b.relationship_type,
+        notes: mergeStringLists([a.notes || ''], [b.notes || '']).filter(Boolean).join(' ') || undefined,
+        meeting_context: {
+          their_interests: mergeStringLists(ctxA.their_interests, ctxB.their_interests),
+          their_concerns: mergeStringLists(ctxA.their_concerns, ctxB.their_concerns),
+          their_asks: mergeStringLists(ctxA.their_asks, ctxB.their_asks),
+          key_quotes: mergeStringLists(ctxA.key_quotes, ctxB.key_quotes),
+          follow_up_items: mergeStringLists(ctxA.follow_up_items, ctxB.follow_up_items),
+          discussion_topics: mergeStringLists(ctxA.discussion_topics, ctxB.discussion_topics),
+          sentiment: ctxA.sentiment || ctxB.sentiment,
+          engagement_level: ctxA.engagement_level || ctxB.engagement_level,
+        },
+      }
+    }
+  )
+}
+
+/**
+ * Extract commitments and follow-ups from transcript for smart reminders
+ */
+export async function extractCommitments(
+  transcript: string,
+  memoContent: string,
+  host: HostIdentity,
+  meetingDay: string | null,
+  warn?: WarnFn
+): Promise<ExtractedCommitment[]> {
+  try {
+    const perChunk = await mapChunks(transcript, CHUNK_SIZES.commitments, (chunk, total) =>
+      withFallback(
+        extractCommitmentsFromChunk(chunk.text, memoContent, host, meetingDay),
+        [],
+        `Commitment extraction (part ${chunk.index + 1}/${total})`,
+        warn
+      )
+    )
+
+    // Overlapping chunks (and repeated discussion) yield the same commitment more than once
+    const commitments: ExtractedCommitment[] = mergeByKey(
+      perChunk.flat(),
+      c => `${c.type}:${normalizeKey(c.title)}`,
+      (a, b) => ({
+        ...a,
+        related_person: a.related_person || b.related_person,
+        due_date: a.due_date || b.due_date,
+        due_phrase: a.due_phrase || b.due_phrase,
+        priority: a.priority === 'high' || b.priority === 'high' ? 'high' : a.priority,
+        owner: a.owner || b.owner,
+      })
+    )
+
+    // A related person who turns out to be the host means the model named
+    // the one who owes it rather than the other party
+    return commitments.map(c =>
+      c.related_person && hostRole(host, { name: c.related_person })
+        ? { ...c, related_person: undefined, owner: c.owner || 'me' }
+        : c
+    )
+  } catch (error) {
+    console.error('[Commitment Extraction Error]', error)
+    warn?.(`Commitment extraction: ${error instanceof Error ? error.message : String(error)}`)
+    return []
+  }
+}
+
+/**
+ * Extract commitments from one chunk of the transcript (map step for reminders)
+ */
+async function extractCommitmentsFromChunk(
+  chunk: string,
+  memoContent: string,
+  host: HostIdentity,
+  meetingDay: string | null
+): Promise<ExtractedCommitment[]> {
+  const prompt = `You are analyzing a meeting transcript to identify commitments, promises, and follow-up items that need to be tracked.
+
+${describeHost(host)}
+${meetingDay ? `\nThe meeting took place on ${meetingDay}. Dates said relative to "today" are relative to that day.\n` : ''}
+Extract ALL of the following:
+1. COMMITMENTS: Things someone promised to do (e.g., "I'll send you the deck", "We'll schedule a follow-up")
+2. FOLLOW-UPS: Action items that need follow-up (e.g., "Let's reconnect in two weeks", "Circle back after the board meeting")
+3. INTRO REQUESTS: Requests for introductions (e.g., "Can you introduce me to...", "I'd love to meet...")
+4. DEADLINES: Specific deadlines mentioned (e.g., "Need an answer by Friday", "Closing the round by end of month")
+
+For each item, extract:
+- type: "commitment", "follow_up", "intro_request", or "deadline"
+- title: Brief description (max 80 chars)
+- context: Why this matters or background context
+- source_text: The actual quote or paraphrase from the transcript
+- related_person: Name of the person on the OTHER side this item is with (never the host or a colleague)
+- due_date: ISO date (YYYY-MM-DD) if a specific date/time was mentioned, null otherwise
+- due_phrase: The timing exactly as said ("next Friday", "in two weeks", "after the board meeting"), null if none was given
+- priority: "high" if urgent/time-sensitive, "medium" for important follow-ups, "low" for nice-to-haves
+- owner: "me" if the host or a colleague has to do it, "them" if the other party does
+
+IMPORTANT:
+- Focus on actionable items, not general discussion points
+- Extract commitments from BOTH the host and the other party, and set owner accordingly
+- Be specific about who needs to do what
+
+Return ONLY a valid JSON array. If no commitments found, return [].
+
+Example:
+[{
+  "type": "commitment",
+  "title": "Send portfolio company intro",
+  "context": "Founder asked for intro to portfolio company working on similar space",
+  "source_text": "I'll connect you with Sarah from TechCo this week",
+  "related_person": "Sarah Chen",
+  "due_date": null,
+  "due_phrase": "this week",
+  "priority": "medium",
+  "owner": "me"
+},
+{
+  "type": "follow_up",
+  "title": "Schedule follow-up call in 2 weeks",
+  "context": "Waiting on product launch metrics before next discussion",
+  "source_text": "Let's reconnect after your product launch",
+  "related_person": "John Smith",
+  "due_date": null,
+  "due_phrase": "after your product launch",
+  "priority": "medium",
+  "owner": "them"
+}]
+
+TRANSCRIPT:
+${chunk}
+
+MEMO SUMMARY:
+${memoContent.slice(0, 2000)}`
+
+  return completeStructured('commitments', prompt, ExtractedCommitmentListSchema, {
+    label: 'Commitment extraction',
+    shape: 'array',
+  })
+}
+
+/**
+ * Extract action items as tasks
+ */
+export async function extractTasks(memoContent: string, warn?: WarnFn): Promise<ExtractedTask[]> {
+  const prompt = `Extract action items from this meeting memo. Return a JSON array with:
+- title: Brief task description (max 100 chars)
+- priority: "low", "medium", or "high"
+
+Return ONLY a valid JSON array. If no tasks, return [].
+
+Memo:
+${memoContent}`
+
+  return withFallback(
+    completeStructured('tasks', prompt, ExtractedTaskListSchema, { label: 'Task extraction', shape: 'array' }),
+    [],
+    'Task extraction',
+    warn
+  )
+}
+
+// Citations kept per memo line; more is noise in a footnote
+const MAX_CITATIONS_PER_LINE = 2
+
+/**
+ * Attach transcript quotes to the factual statements and metrics of a memo.
+ * Every quote the model returns is checked against the transcript; quotes
+ * that can't be found there are dropped rather than shown as evidence.
+ */
+export async function extractCitations(memoContent: string, utterances: Utterance[], warn?: WarnFn): Promise<MemoCitation[]> {
+  const lines = citableLines(memoContent)
+  if (lines.length === 0 || utterances.length === 0) return []
+
+  // Utterance numbers survive chunking because each one starts a speaker line
+  const numbered = utterances.map((u, i) => `[${i}] ${u.speaker}: ${u.text}`).join('\n')
+  const memoLines = lines.map((line, i) => `${i + 1}. ${line.text}`).join('\n')
+
+  try {
+    const perChunk = await mapChunks(numbered, CHUNK_SIZES.citations, (chunk, total) =>
+      withFallback(
+        extractCitationsFromChunk(chunk.text, memoLines),
+        [],
+        `Citation extraction (part ${chunk.index + 1}/${total})`,
+        warn
+      )
+    )
+
+    const byLine = new Map<number, MemoCitation[]>()
+    let unverified = 0
+
+    for (const found of perChunk.flat()) {
+      const line = lines[found.line - 1]
+      if (!line) continue
+
+      const utteranceIndex = findQuote(found.quote, utterances, found.utterance)
+      if (utteranceIndex === null) {
+        unverified++
+        continue
+      }
+
+      const existing = byLine.get(line.lineIndex) || []
+      if (existing.length >= MAX_CITATIONS_PER_LINE || existing.some(c => c.utteranceIndex === utteranceIndex)) continue
+
+      const utterance = utterances[utteranceIndex]
+      byLine.set(line.lineIndex, [...existing, {
+        id: 0,
+        claim: line.text,
+        quote: found.quote,
+        speaker: utterance.speaker,
+        start: utterance.start,
+        utteranceIndex,
+        kind: found.kind,
+      }])
+    }
+
+    if (unverified > 0) {
+      console.log(`[Extraction] Dropped ${unverified} citation(s) not found in the transcript`)
+    }
+
+    // Number footnotes in reading order
+    return Array.from(byLine.entries())
+      .sort(([a], [b]) => a - b)
+      .flatMap(([, citations]) => citations)
+      .map((citation, i) => ({ ...citation, id: i + 1 }))
+  } catch (error) {
+    console.error('[Citation Extraction Error]', error)
+    warn?.(`Citation extraction: ${error instanceof Error ? error.message : String(error)}`)
+    return []
+  }
+}
+
+/**
+ * Find quotes for memo lines in one chunk of the numbered transcript
+ */
+async function extractCitationsFromChunk(chunk: string, memoLines: string): Promise<ExtractedCitation[]> {
+  const prompt = `You are checking a meeting memo against part of its transcript. For each numbered memo line that states a fact, claim or number, find the words in this part of the transcript it is based on.
+
+Return a JSON array of citations with:
+- line: The memo line number
+- utterance: The number in square brackets of the transcript line the quote is from
+- quote: The supporting words copied EXACTLY from that transcript line (max 30 words, no paraphrasing)
+- kind: "metric" if the memo line states a number (revenue, growth, headcount, valuation, round size...), otherwise "fact"
+
+IMPORTANT:
+- Only cite memo lines that are actually supported by this part of the transcript
+- Skip opinions, recommendations and next steps that nobody said
+- Never invent or reword a quote
+
+Return ONLY a valid JSON array. If nothing in this part supports the memo, return [].
+
+MEMO LINES:
+${memoLines}
+
+TRANSCRIPT:
+${chunk}`
+
+  return completeStructured('citations', prompt, ExtractedCitationListSchema, {
+    label: 'Citation extraction',
+    shape: 'array',
+  })
+}
+
+// Raw figure as the model returns it, before its quote is checked
+export interface ExtractedMetric {
+  metric: MetricKind
+  value: number
+  unit?: string
+  period?: 'mom' | 'qoq' | 'yoy'
+  as_of?: string
+  company?: string
+  utterance: number
+  quote: string
+}
+
+/**
+ * Pull deal metrics (ARR, burn, runway, valuation...) out of the transcript
+ * as typed figures. Like citations, every figure must come with a quote
+ * that is found in the transcript; the rest are dropped.
+ */
+export async function extractMetrics(
+  utterances: Utterance[],
+  meetingDate: string | null,
+  warn?: WarnFn
+): Promise<MetricFigure[]> {
+  if (utterances.length === 0) return []
+
+  const numbered = utterances.map((u, i) => `[${i}] ${u.speaker}: ${u.text}`).join('\n')
+
+  try {
+    const perChunk = await mapChunks(numbered, CHUNK_SIZES.metrics, (chunk, total) =>
+      withFallback(
+        extractMetricsFromChunk(chunk.text, meetingDate),
+        [],
+        `Metric extraction (part ${chunk.index + 1}/${total})`,
+        warn
+      )
+    )
+
+    const figures: MetricFigure[] = []
+    for (const found of perChunk.flat()) {
+      const utteranceIndex = findQuote(found.quote, utterances, found.utterance)
+      if (utteranceIndex === null || !Number.isFinite(found.value)) continue
+
+      figures.push({
+        metric: found.metric,
+        value: found.value,
+        unit: metricUnit(found.metric, found.unit),
+        period: found.metric === 'revenue_growth' ? found.period || null : null,
+        asOf: found.as_of || null,
+        company: found.company || null,
+        quote: found.quote,
+        speaker: utterances[utteranceIndex].speaker,
+        utteranceIndex,
+      })
+    }
+
+    // One figure per metric, company and date; a later restatement wins
+    return mergeByKey(
+      figures,
+      f => [f.metric, normalizeKey(f.company || ''), f.asOf || ''].join('|'),
+      (a, b) => (b.utteranceIndex >= a.utteranceIndex ? b : a)
+    )
+  } catch (error) {
+    console.error('[Metric Extraction Error]', error)
+    warn?.(`Metric extraction: ${error instanceof Error ? error.message : String(error)}`)
+    return []
+  }
+}
+
+/**
+ * Find metric figures in one chunk of the numbered transcript
+ */
+async function extractMetricsFromChunk(chunk: string, meetingDate: string | null): Promise<ExtractedMetric[]> {
+  const prompt = `Extract the company metrics stated in this part of a meeting transcript${meetingDate ? ` (the meeting was on ${meetingDate})` : ''}.
+
+Return a JSON array of figures with:
+- metric: One of ${METRIC_KINDS.map(kind => `"${kind}"`).join(', ')}
+  (burn is monthly net burn; raise_amount is the size of a funding round; valuation is pre- or post-money)
+- value: The number in base units - dollars not millions ("$2.4M" is 2400000), 15 for 15%, months for runway, people for headcount
+- unit: Currency code for money ("usd", "eur", ...), omit otherwise
+- period: For revenue_growth only - "mom", "qoq" or "yoy"
+- as_of: YYYY-MM-DD the figure describes, only if it is for a different time than the meeting ("we ended last year at $1M ARR"); omit for current figures
+- company: Name of the company the figure is about, only if it is not the main company of the meeting
+- utterance: The number in square brackets of the transcript line the figure is from
+- quote: The words stating the figure, copied EXACTLY from that line (max 30 words)
+
+IMPORTANT:
+- Only include figures someone actually stated; never compute or estimate one
+- Skip targets and projections ("we want to hit $5M next year")
+- Never invent or reword a quote
+
+Return ONLY a valid JSON array. If no metrics are stated, return [].
+
+TRANSCRIPT:
+${chunk}`
+
+  return completeStructured('metrics', prompt, ExtractedMetricListSchema, {
+    label: 'Metric extraction',
+    shape: 'array',
+  })
+}
+
+export interface ExtractedFulfillment {
+  // 1-based number of the open item in the prompt
+  item: number
+  confidence: number
+  utterance: number
+  quote: string
+}
+
+/**
+ * Work out which of the user's open reminders this meeting shows were done
+ */
+export async function detectFulfillments(
+  utterances: Utterance[],
+  reminders: OpenReminder[],
+  host: HostIdentity,
+  warn?: WarnFn
+): Promise<DetectedFulfillment[]> {
+  if (utterances.length === 0 || reminders.length === 0) return []
+
+  const numbered = utterances.map((u, i) => `[${i}] ${u.speaker}: ${u.text}`).join('\n')
+  const items = reminders
+    .map((r, i) => {
+      const who = r.owner === 'them' ? `owed by ${r.contactName || 'the other side'}` : 'owed by the host'
+      return `${i + 1}. ${r.title} (${who})${r.context ? ` - ${r.context}` : ''}`
+    })
+    .join('\n')
+
+  try {
+    const perChunk = await mapChunks(numbered, CHUNK_SIZES.fulfillment, (chunk, total) =>
+      withFallback(
+        detectFulfillmentsInChunk(chunk.text, items, host),
+        [],
+        `Fulfillment detection (part ${chunk.index + 1}/${total})`,
+        warn
+      )
+    )
+
+    const found: DetectedFulfillment[] = []
+    for (const match of perChunk.flat()) {
+      const reminder = reminders[match.item - 1]
+      if (!reminder) continue
+
+      // Evidence that isn't in the transcript can't close anything on its own
+      const verified = findQuote(match.quote, utterances, match.utterance) !== null
+      found.push({
+        reminderId: reminder.id,
+        title: reminder.title,
+        confidence: verified ? match.confidence : Math.min(match.confidence, AUTO_CLOSE_CONFIDENCE - 0.05),
+        evidence: match.quote,
+      })
+    }
+
+    // The same item confirmed in more than one chunk keeps its strongest evidence
+    return mergeByKey(found, f => f.reminderId, (a, b) => (b.confidence > a.confidence ? b : a))
+  } catch (error) {
+    console.error('[Fulfillment Detection Error]', error)
+    warn?.(`Fulfillment detection: ${error instanceof Error ? error.message : String(error)}`)
+    return []
+  }
+}
+
+async function detectFulfillmentsInChunk(
+  chunk: string,
+  items: string,
+  host: HostIdentity
+): Promise<ExtractedFulfillment[]> {
+  const prompt = `These items were still open before this meeting. Find the ones this part of the meeting transcript shows were DONE.
+
+${describeHost(host)}
+
+OPEN ITEMS:
+${items}
+
+Return a JSON array with one entry per item that was done:
+- item: The item's number from the list above
+- confidence: 0 to 1 - 0.9+ when someone says outright it happened ("thanks for sending the deck", "I got the intro to Sarah"), 0.5-0.8 when it probably happened but nobody says so plainly
+- utterance: The number in square brackets of the transcript line that shows it
+- quote: The words showing it, copied EXACTLY from that line (max 30 words)
+
+IMPORTANT:
+- Promising again, or saying it will happen soon, is NOT done
+- Only include items the transcript gives evidence for
+- Never invent or reword a quote
+
+Return ONLY a valid JSON array. If none of the items were done, return [].
+
+TRANSCRIPT:
+${chunk}`
+
+  return completeStructured('fulfillment', prompt, ExtractedFulfillmentListSchema, {
+    label: 'Fulfillment detection',
+    shape: 'array',
+  })
+}
@@ -0,0 +1,192 @@
+import { checkLLMBudget, withLLMModel, withLLMUsageContext } from '@/lib/llm'
+import { createAdminClient } from '@/lib/supabase/server'
+import { enqueuePausedJob, loadJobState, recordFailedStage, saveCheckpoints, updateJobProgress } from './persistence'
+import { checkpointTranscript, PIPELINE_STAGES, restoreTranscript } from './stages'
+import type { JobCheckpoints, PipelineInput, PipelineResult, PipelineState, PipelineWarning, StepRunner } from './types'
+
+/**
+ * Processing Pipeline
+ *
+ * One engine for every way a transcript becomes a memo: the Inngest function,
+ * the cron queue worker and the synchronous API routes all run the same
+ * stages in the same order. Callers only differ in how a stage is executed
+ * (see StepRunner).
+ */
+
+export { PIPELINE_STAGES } from './stages'
+export { updateJobProgress } from './persistence'
+export { STAGE_LABELS } from './types'
+export type {
+  JobCheckpoints,
+  PipelineInput,
+  PipelineResult,
+  PipelineStage,
+  PipelineState,
+  PipelineWarning,
+  StageName,
+  StepRunner,
+  TranscriptSource,
+} from './types'
+
+/**
+ * Run each stage inline (no memoization)
+ */
+export const runStepDirectly: StepRunner = (_name, fn) => fn()
+
+/**
+ * Run the full pipeline. Throws on the first failing stage; callers decide
+ * how failures are recorded (direct callers mark the job failed right away,
+ * Inngest retries first).
+ */
+export async function runPipeline(
+  input: PipelineInput,
+  runStep: StepRunner = runStepDirectly
+): Promise<PipelineResult> {
+  const adminClient = createAdminClient()
+  const { jobId } = input
+  let state: PipelineState = {}
+
+  // Stages a previous attempt of this job already completed
+  const { checkpoints, warnings } = jobId
+    ? await loadJobState(adminClient, jobId)
+    : { checkpoints: {} as JobCheckpoints, warnings: [] as PipelineWarning[] }
+
+  console.log(`[Pipeline] Starting for user ${input.userId}, source: ${input.source}, transcriptId: ${input.transcriptId}, jobId: ${jobId}${input.reprocess ? `, reprocessing memo ${input.reprocess.memoId}` : ''}`)
+
+  // Users over their monthly LLM budget wait instead of failing. Only jobs
+  // that haven't started are held back, so a resumed job finishes.
+  if (Object.keys(checkpoints).length === 0) {
+    const budget = await checkLLMBudget(adminClient, input.userId)
+    if (budget.exceeded) {
+      const message = `Monthly LLM budget reached ($${budget.spentUsd.toFixed(2)} of $${budget.budgetUsd!.toFixed(2)})`
+      console.log(`[Pipeline] ${message}, pausing`)
+      // Reprocessing is on request; there is nothing to queue
+      if (input.reprocess) {
+        return { success: false, error: message }
+      }
+      if (jobId) {
+        await updateJobProgress(adminClient, jobId, 'paused', 0, 'paused', undefined, message)
+        return { success: false, paused: true, jobId, error: message }
+      }
+      const pausedJobId = await enqueuePausedJob(adminClient, input, message)
+      return { success: false, paused: true, jobId: pausedJobId || undefined, error: message }
+    }
+  }
+
+  for (let index = 0; index < PIPELINE_STAGES.length; index++) {
+    const stage = PIPELINE_STAGES[index]
+    const checkpoint = checkpoints[stage.name]
+    if (checkpoint) {
+      // Resuming is a step too: under Inngest, re-entries get the memoized
+      // output instead of reading the transcript back every time. It is
+      // only read back when a stage still to run will need it.
+      const resumed = await runStep(stage.name, async () => {
+        console.log(`[Pipeline] Resuming past "${stage.name}" (completed ${checkpoint.completed_at})`)
+        const output = { ...checkpoint.output }
+        const stillToRun = PIPELINE_STAGES.slice(index + 1).some(s => !checkpoints[s.name])
+        if (output.transcript && stillToRun) {
+          output.transcript = await restoreTranscript(adminClient, input, output.transcript)
+        }
+        return { output, warnings: [] as PipelineWarning[] }
+      })
+      // Its warnings came with the job state
+      state = { ...state, ...resumed.output }
+      continue
+    }
+
+    // Warnings travel with the stage output so memoized Inngest steps keep them
+    let result: { output: Partial<PipelineState>; warnings: PipelineWarning[] }
+    try {
+      result = await runStep(stage.name, async () => {
+        if (jobId) await updateJobProgress(adminClient, jobId, stage.step, stage.progress)
+
+        const collected: PipelineWarning[] = []
+        const warn = (message: string) => {
+          collected.push({ stage: stage.name, message, at: new Date().toISOString() })
+        }
+
+        try {
+          const output = await withLLMUsageContext(
+            { userId: input.userId, jobId, stage: stage.name },
+            () => withLLMModel(input.reprocess?.model, () => stage.run({ adminClient, input, state, warn }))
+          )
+          return { output, warnings: collected }
+        } catch (error) {
+          warnings.push(...collected)
+          throw error
+        }
+      })
+    } catch (error) {
+      if (jobId) await recordFailedStage(adminClient, jobId, stage.name, warnings)
+      throw error
+    }
+    state = { ...state, ...result.output }
+    warnings.push(...result.warnings)
+
+    if (state.skippedMemoId) {
+      if (jobId) {
+        await updateJobProgress(adminClient, jobId, 'completed', 100, 'completed', {
+          memo_id: state.skippedMemoId,
+          skipped: true,
+          reason: 'Already processed',
+        })
+      }
+      return { success: true, skipped: true, memoId: state.skippedMemoId }
+    }
+
+    if (jobId) {
+      // The transcript is checkpointed by reference, not copied into the job
+      checkpoints[stage.name] = { completed_at: new Date().toISOString(), output: checkpointTranscript(result.output) }
+      await saveCheckpoints(adminClient, jobId, checkpoints, warnings)
+    }
+  }
+
+  const saved = state.saved!
+  const company = state.company
+
+  if (jobId) {
+    await updateJobProgress(adminClient, jobId, 'completed', 100, 'completed', {
+      memo_id: saved.memoId,
+      company_id: company?.id || null,
+      company_name: company?.name || null,
+      is_new_company: company?.isNew || false,
+      meeting_type: state.meetingType,
+      drive_filed: state.drive?.filed || false,
+      drive_url: state.drive?.url || null,
+      warnings: warnings.length,
+    })
+  }
+
+  console.log(`[Pipeline] Complete! Memo ID: ${saved.memoId}, Contacts: ${saved.contactsCreated}, Reminders: ${saved.remindersCreated}, Warnings: ${warnings.length}`)
+
+  return {
+    success: true,
+    memoId: saved.memoId,
+    memoTitle: state.transcript?.title,
+    memoContent: state.memo?.content,
+    memoSummary: state.memo?.summary,
+    companyId: company?.id || null,
+    companyName: company?.name || undefined,
+    meetingType: state.meetingType,
+    contactsCreated: saved.contactsCreated,
+    remindersCreated: saved.remindersCreated,
+    driveWebViewLink: state.drive?.url || null,
+    warnings,
+  }
+}
+
+/**
+ * Mark a job as failed with the error that stopped the pipeline
+ */
+export async function failJob(jobId: string, error: unknown) {
+  const adminClient = createAdminClient()
+  await updateJobProgress(
+    adminClient,
+    jobId,
+    'failed',
+    0,
+    'failed',
+    undefined,
+    error instanceof Error ? error.message : 'Processing failed'
+  )
+}
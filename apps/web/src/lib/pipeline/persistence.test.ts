@@ -0,0 +1,231 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakeSupabase, type FakeSupabase } from '@/test/supabase'
+import { actionItemFingerprint } from '@/lib/action-items'
+import { createReminders, saveCompanyMetrics, saveHeldMetrics, saveTasks } from './persistence'
+import type { ExtractedCommitment } from './extractors'
+import type { MetricFigure } from '@/lib/metrics'
+
+vi.mock('@/lib/supabase/server', () => ({ createAdminClient: vi.fn(), createClient: vi.fn() }))
+
+const USER_ID = 'user-1'
+const MEMO_ID = 'memo-1'
+
+function commitment(title: string, context: string): ExtractedCommitment {
+  return { type: 'follow_up', title, context, source_text: context, priority: 'medium' }
+}
+
+function reminder(title: string, context: string) {
+  return {
+    id: `reminder-${title}`,
+    user_id: USER_ID,
+    memo_id: MEMO_ID,
+    type: 'follow_up',
+    title,
+    context,
+    due_date: '2025-03-20',
+    status: 'pending',
+    fingerprint: actionItemFingerprint(title),
+  }
+}
+
+let db: FakeSupabase
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+// Saves `row` the way a concurrent run of the same memo would: after this run
+// has looked up what was already saved, before it saves its own
+function savedConcurrently(table: string, row: Record<string, unknown>) {
+  const from = db.client.from.bind(db.client)
+  let calls = 0
+  vi.spyOn(db.client, 'from').mockImplementation(((name: string) => {
+    if (name === table && ++calls === 2) db.tables[table].push(row)
+    return from(name)
+  }) as typeof db.client.from)
+}
+
+describe('reprocessing a memo', () => {
+  it('keeps a new commitment that only differs by name from a saved reminder', async () => {
+    db = createFakeSupabase({ reminders: [reminder('Schedule follow-up call with John', 'first run')] })
+
+    const created = await createReminders(
+      db.client,
+      USER_ID,
+      [
+        commitment('Schedule a follow-up call with John', 'second run'),
+        commitment('Schedule follow-up call with Jane', 'Jane asked for a call'),
+      ],
+      MEMO_ID,
+      null,
+      new Map(),
+      '2025-03-12',
+      'UTC'
+    )
+
+    expect(created).toBe(1)
+    const byTitle = Object.fromEntries(db.tables.reminders.map(r => [r.title, r]))
+    expect(Object.keys(byTitle).sort()).toEqual(['Schedule follow-up call with Jane', 'Schedule follow-up call with John'])
+    // The same reminder is refreshed, keeping what the user may have changed
+    expect(byTitle['Schedule follow-up call with John']).toMatchObject({ context: 'second run', due_date: '2025-03-20' })
+    expect(byTitle['Schedule follow-up call with Jane'].context).toBe('Jane asked for a call')
+  })
+
+  it('keeps distinct commitments from the same run', async () => {
+    db = createFakeSupabase()
+
+    const created = await createReminders(
+      db.client,
+      USER_ID,
+      [
+        commitment('Send intro to Sarah Chen', 'intro one'),
+        commitment('Send intro to Sarah Miller', 'intro two'),
+      ],
+      MEMO_ID,
+      null,
+      new Map(),
+      '2025-03-12',
+      'UTC'
+    )
+
+    expect(created).toBe(2)
+    expect(db.tables.reminders.map(r => r.context)).toEqual(['intro one', 'intro two'])
+  })
+
+  it('saves a task that only differs by a number from a saved task or reminder', async () => {
+    db = createFakeSupabase({
+      tasks: [{ id: 'task-1', user_id: USER_ID, memo_id: MEMO_ID, title: 'Send Q3 financials to Mark', fingerprint: null }],
+      reminders: [reminder('Send Q1 board deck to Mark', 'first run')],
+    })
+
+    const created = await saveTasks(
+      db.client,
+      USER_ID,
+      [
+        { title: 'Send Q3 financials to Mark', priority: 'medium' },
+        { title: 'Send Q4 financials to Mark', priority: 'medium' },
+        { title: 'Send Q1 board deck to Mark', priority: 'medium' },
+        { title: 'Send Q2 board deck to Mark', priority: 'medium' },
+      ],
+      [],
+      MEMO_ID,
+      null
+    )
+
+    expect(created).toBe(2)
+    expect(db.tables.tasks.map(t => t.title)).toEqual([
+      'Send Q3 financials to Mark',
+      'Send Q4 financials to Mark',
+      'Send Q2 board deck to Mark',
+    ])
+    // The task saved before fingerprints gets one on the rerun
+    expect(db.tables.tasks[0].fingerprint).toBe(actionItemFingerprint('Send Q3 financials to Mark'))
+  })
+
+  it('does not count a reminder a concurrent run saved first', async () => {
+    db = createFakeSupabase({ reminders: [] })
+    savedConcurrently('reminders', reminder('Schedule follow-up call with Jane', 'other run'))
+
+    const created = await createReminders(
+      db.client,
+      USER_ID,
+      [commitment('Schedule follow-up call with Jane', 'this run')],
+      MEMO_ID,
+      null,
+      new Map(),
+      '2025-03-12',
+      'UTC'
+    )
+
+    expect(created).toBe(0)
+    expect(db.tables.reminders.map(r => r.context)).toEqual(['other run'])
+  })
+
+  it('does not count a task a concurrent run saved first', async () => {
+    db = createFakeSupabase({ tasks: [] })
+    const title = 'Check references with Lumen Labs customers'
+    savedConcurrently('tasks', { id: 'task-1', user_id: USER_ID, memo_id: MEMO_ID, title, fingerprint: actionItemFingerprint(title) })
+
+    const created = await saveTasks(
+      db.client,
+      USER_ID,
+      [{ title, priority: 'medium' }, { title: 'Book a follow-up with Priya', priority: 'medium' }],
+      [],
+      MEMO_ID,
+      null
+    )
+
+    expect(created).toBe(1)
+    expect(db.tables.tasks).toHaveLength(2)
+  })
+})
+
+describe('saveCompanyMetrics', () => {
+  function figure(metric: MetricFigure['metric'], value: number, company: string | null): MetricFigure {
+    return { metric, value, unit: 'usd', period: null, asOf: null, company, quote: `${metric} quote`, speaker: 'Priya', utteranceIndex: 1 }
+  }
+
+  function confirmation(id: string, detected_name: string, role: string) {
+    return { id, memo_id: MEMO_ID, user_id: USER_ID, detected_name, role, status: 'pending', metrics: [] }
+  }
+
+  it('holds figures for companies waiting on a confirmation', async () => {
+    db = createFakeSupabase({
+      company_confirmations: [confirmation('primary', 'Lumen Labs', 'primary'), confirmation('mentioned', 'Northwind', 'mentioned')],
+    })
+
+    const saved = await saveCompanyMetrics(
+      db.client,
+      USER_ID,
+      MEMO_ID,
+      '2025-03-12',
+      [figure('arr', 1_200_000, null), figure('raise_amount', 20_000_000, 'Northwind'), figure('arr', 5, 'Globex')],
+      () => null
+    )
+
+    expect(saved).toBe(0)
+    expect(db.tables.company_metrics).toEqual([])
+    const [primary, mentioned] = db.tables.company_confirmations
+    expect(primary.metrics).toEqual([expect.objectContaining({ metric: 'arr', value: 1_200_000, as_of: '2025-03-12' })])
+    expect(mentioned.metrics).toEqual([expect.objectContaining({ metric: 'raise_amount' })])
+    expect((primary.metrics as object[])[0]).not.toHaveProperty('company_id')
+  })
+
+  it('saves figures for known companies', async () => {
+    db = createFakeSupabase()
+
+    const saved = await saveCompanyMetrics(db.client, USER_ID, MEMO_ID, '2025-03-12', [figure('arr', 1_200_000, null)], () => 'company-1')
+
+    expect(saved).toBe(1)
+    expect(db.tables.company_metrics[0]).toMatchObject({ company_id: 'company-1', metric: 'arr' })
+  })
+
+  it('keeps growth figures for different periods of the same date', async () => {
+    db = createFakeSupabase()
+    const growth = (value: number, period: string) => ({ ...figure('revenue_growth', value, null), unit: 'percent', period })
+
+    const saved = await saveCompanyMetrics(
+      db.client,
+      USER_ID,
+      MEMO_ID,
+      '2025-03-12',
+      [growth(40, 'mom'), growth(300, 'yoy'), { ...growth(45, 'mom'), utteranceIndex: 2 }],
+      () => 'company-1'
+    )
+
+    expect(saved).toBe(2)
+    expect(db.tables.company_metrics.map(m => [m.period, m.value])).toEqual([['mom', 45], ['yoy', 300]])
+  })
+
+  it('saves held figures for different periods as separate rows', async () => {
+    db = createFakeSupabase()
+    const held = (value: number, period: string) => ({
+      user_id: USER_ID, memo_id: MEMO_ID, metric: 'revenue_growth', value, unit: 'percent', period, as_of: '2025-03-12', utterance_index: 1,
+    })
+
+    await saveHeldMetrics(db.client, [held(40, 'mom'), held(300, 'yoy')], 'company-1')
+    await saveHeldMetrics(db.client, [held(45, 'mom')], 'company-1')
+
+    expect(db.tables.company_metrics.map(m => [m.period, m.value])).toEqual([['mom', 45], ['yoy', 300]])
+  })
+})
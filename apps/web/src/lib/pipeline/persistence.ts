@@ -0,0 +1,1062 @@
+import { createAdminClient } from '@/lib/supabase/server'
+import { sendEmail, memoProcessedEmail } from '@/lib/email'
+import { mergeByKey, normalizeKey } from '@/lib/chunking'
+import type { Utterance } from '@/lib/transcripts'
+import { resolveCompany, type ExistingCompany } from '@/lib/company-detection'
+import type { MetricFigure } from '@/lib/metrics'
+import { hostRole, type HostIdentity } from '@/lib/host-identity'
+import { meetingDay, resolveDueDate } from '@/lib/due-dates'
+import { actionItemFingerprint, findSameActionItem } from '@/lib/action-items'
+import {
+  addToIndex,
+  foldFirstNameMentions,
+  loadContactIndex,
+  recordAliases,
+  resolveContact,
+  type ContactCandidate,
+} from '@/lib/contact-identity'
+import {
+  AUTO_CLOSE_CONFIDENCE,
+  SUGGEST_CONFIDENCE,
+  completeReminder,
+  type DetectedFulfillment,
+} from '@/lib/fulfillment'
+import type { ExtractedCommitment, ExtractedCompanyMention, ExtractedContact, ExtractedTask } from './extractors'
+import type { JobCheckpoints, PendingCompanyConfirmation, PipelineInput, PipelineWarning, StageName } from './types'
+
+/**
+ * Create or update contacts in the database with rich meeting context.
+ * Each person is resolved against the user's contacts and their aliases;
+ * people who could be more than one contact are queued for the user to
+ * place instead of being guessed at.
+ */
+export async function createOrUpdateContacts(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  contacts: ExtractedContact[],
+  memoId: string,
+  companyId: string | null,
+  meetingDate: string | null,
+  host: HostIdentity
+): Promise<{ createdCount: number; queuedCount: number; contactIds: Map<string, string> }> {
+  let createdCount = 0
+  let queuedCount = 0
+  const contactIds = new Map<string, string>() // name -> contact_id
+
+  // The user and their colleagues are never contacts in their own CRM
+  const others = contacts.filter(contact => {
+    if (!hostRole(host, contact)) return true
+    console.log(`[Contacts] Skipping host or colleague: ${contact.name}`)
+    return false
+  })
+
+  // "Shane" and "Shane Miller" in the same meeting are one person
+  const { people, shortNames } = foldFirstNameMentions(others, mergeExtractedContacts)
+
+  const index = await loadContactIndex(adminClient, userId)
+  const meeting = { memoId, companyId, attendeeNames: people.map(p => p.name) }
+
+  for (const contact of people) {
+    try {
+      const resolution = await resolveContact(adminClient, index, contact, meeting)
+
+      if (resolution.kind === 'ambiguous') {
+        await queueContactConfirmation(adminClient, userId, memoId, contact, resolution.candidates)
+        queuedCount++
+        console.log(`[Contacts] Could be ${resolution.candidates.map(c => c.name).join(' or ')}, asking: ${contact.name}`)
+        continue
+      }
+
+      const contactId = await saveContact(
+        adminClient,
+        userId,
+        resolution.kind === 'match' ? resolution.contactId : null,
+        contact,
+        memoId,
+        companyId,
+        meetingDate
+      )
+      if (!contactId) continue
+      if (resolution.kind === 'new') createdCount++
+
+      addToIndex(index, { id: contactId, name: contact.name, email: contact.email, title: contact.title, linkedin_url: contact.linkedin_url, companyId })
+      const folded = Array.from(shortNames).filter(([, full]) => full === contact.name).map(([short]) => short)
+      await recordAliases(
+        adminClient,
+        userId,
+        contactId,
+        { names: [contact.name, ...folded], email: contact.email, linkedin_url: contact.linkedin_url },
+        'pipeline',
+        index
+      )
+
+      contactIds.set(contact.name, contactId)
+    } catch (err) {
+      console.error(`[Contacts] Error processing contact ${contact.name}:`, err)
+    }
+  }
+
+  // Commitments may name someone by the first name alone
+  shortNames.forEach((full, short) => {
+    const contactId = contactIds.get(full)
+    if (contactId) contactIds.set(short, contactId)
+  })
+
+  return { createdCount, queuedCount, contactIds }
+}
+
+// The same person mentioned twice in a meeting, once by first name
+function mergeExtractedContacts(full: ExtractedContact, short: ExtractedContact): ExtractedContact {
+  const a = full.meeting_context || {}
+  const b = short.meeting_context || {}
+  const list = (x?: string[], y?: string[]) => Array.from(new Set([...(x || []), ...(y || [])]))
+
+  return {
+    ...short,
+    ...Object.fromEntries(Object.entries(full).filter(([, value]) => value !== undefined && value !== null && value !== '')),
+    name: full.name,
+    notes: [full.notes, short.notes].filter(Boolean).join(' ') || undefined,
+    meeting_context: {
+      their_interests: list(a.their_interests, b.their_interests),
+      their_concerns: list(a.their_concerns, b.their_concerns),
+      their_asks: list(a.their_asks, b.their_asks),
+      key_quotes: list(a.key_quotes, b.key_quotes),
+      follow_up_items: list(a.follow_up_items, b.follow_up_items),
+      discussion_topics: list(a.discussion_topics, b.discussion_topics),
+      sentiment: a.sentiment || b.sentiment,
+      engagement_level: a.engagement_level || b.engagement_level,
+    },
+  }
+}
+
+/**
+ * Hold a person who could be one of several contacts until the user says
+ * who. A rerun leaves an existing question (and its answer) alone.
+ */
+async function queueContactConfirmation(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  memoId: string,
+  contact: ExtractedContact,
+  candidates: ContactCandidate[]
+): Promise<void> {
+  const { error } = await (adminClient
+    .from('contact_confirmations') as ReturnType<typeof adminClient.from>)
+    .upsert({
+      user_id: userId,
+      memo_id: memoId,
+      detected_name: contact.name,
+      extracted: contact,
+      candidates: candidates.map(c => ({ ...c, score: Math.round(c.score * 100) / 100 })),
+    } as never, { onConflict: 'memo_id,detected_name', ignoreDuplicates: true }) as { error: { message?: string } | null }
+
+  if (error) {
+    throw new Error(error.message || 'Failed to queue contact confirmation')
+  }
+}
+
+/**
+ * Apply what a meeting says about a person to their contact (creating it
+ * when contactId is null) and link it to the memo. Returns the contact id,
+ * or null when the contact couldn't be created.
+ */
+export async function saveContact(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  contactId: string | null,
+  contact: ExtractedContact,
+  memoId: string,
+  companyId: string | null,
+  meetingDate: string | null
+): Promise<string | null> {
+  const { data: existingContact } = contactId
+    ? await (adminClient
+      .from('contacts') as ReturnType<typeof adminClient.from>)
+      .select('id, notes, relationship_type')
+      .eq('id', contactId)
+      .eq('user_id', userId)
+      .maybeSingle() as { data: { id: string; notes: string | null; relationship_type: string | null } | null }
+    : { data: null }
+
+  if (existingContact) {
+    // Update existing contact with new info
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    }
+
+    // Already linked to this memo: a rerun, whose notes are already there
+    const { data: existingLink } = await (adminClient
+      .from('contact_memos') as ReturnType<typeof adminClient.from>)
+      .select('contact_id')
+      .eq('contact_id', existingContact.id)
+      .eq('memo_id', memoId)
+      .maybeSingle() as { data: { contact_id: string } | null }
+
+    // Append new notes with date context
+    if (contact.notes && !existingLink) {
+      const existingNotes = existingContact.notes || ''
+      const datestamp = meetingDate ? new Date(meetingDate).toLocaleDateString() : new Date().toLocaleDateString()
+      updateData.notes = existingNotes
+        ? `${existingNotes}\n\n[${datestamp}] ${contact.notes}`
+        : `[${datestamp}] ${contact.notes}`
+    }
+
+    // Update fields if we have new info and they're not already set
+    if (contact.email) updateData.email = contact.email
+    if (contact.title) updateData.title = contact.title
+    if (contact.phone) updateData.phone = contact.phone
+    if (contact.linkedin_url) updateData.linkedin_url = contact.linkedin_url
+    if (contact.relationship_type && !existingContact.relationship_type) {
+      updateData.relationship_type = contact.relationship_type
+    }
+    if (companyId) updateData.company_id = companyId
+
+    await (adminClient.from('contacts') as ReturnType<typeof adminClient.from>)
+      .update(updateData as never)
+      .eq('id', existingContact.id)
+
+    contactId = existingContact.id
+    console.log(`[Contacts] Updated existing contact: ${contact.name}`)
+  } else {
+    // Create new contact
+    const insertData: Record<string, unknown> = {
+      user_id: userId,
+      name: contact.name,
+    }
+
+    if (contact.email) insertData.email = contact.email
+    if (contact.title) insertData.title = contact.title
+    if (contact.phone) insertData.phone = contact.phone
+    if (contact.linkedin_url) insertData.linkedin_url = contact.linkedin_url
+    if (contact.relationship_type) insertData.relationship_type = contact.relationship_type
+    if (companyId) insertData.company_id = companyId
+    if (contact.notes) {
+      const datestamp = meetingDate ? new Date(meetingDate).toLocaleDateString() : new Date().toLocaleDateString()
+      insertData.notes = `[${datestamp}] ${contact.notes}`
+    }
+
+    const { data: newContact, error } = await (adminClient
+      .from('contacts') as ReturnType<typeof adminClient.from>)
+      .insert(insertData as never)
+      .select('id')
+      .single() as { data: { id: string } | null; error: unknown }
+
+    if (error || !newContact) {
+      console.error(`[Contacts] Failed to create contact ${contact.name}:`, error)
+      return null
+    }
+
+    contactId = newContact.id
+    console.log(`[Contacts] Created new contact: ${contact.name}`)
+  }
+
+  // Link contact to memo WITH rich meeting context
+  const meetingContext = contact.meeting_context || {}
+  await (adminClient.from('contact_memos') as ReturnType<typeof adminClient.from>)
+    .upsert({
+      contact_id: contactId,
+      memo_id: memoId,
+      context: {
+        their_interests: meetingContext.their_interests || [],
+        their_concerns: meetingContext.their_concerns || [],
+        their_asks: meetingContext.their_asks || [],
+        key_quotes: meetingContext.key_quotes || [],
+        follow_up_items: meetingContext.follow_up_items || [],
+        discussion_topics: meetingContext.discussion_topics || [],
+        sentiment: meetingContext.sentiment || null,
+        engagement_level: meetingContext.engagement_level || null,
+        meeting_date: meetingDate,
+      },
+      created_at: new Date().toISOString(),
+    } as never, { onConflict: 'contact_id,memo_id' })
+
+  console.log(`[Contacts] Linked ${contact.name} to memo with ${Object.keys(meetingContext).length} context fields`)
+  return contactId
+}
+
+/**
+ * Save a memo's tasks, leaving out the ones its commitments already cover
+ * (the reminder keeps the person, due date and quote) and the ones an
+ * earlier run saved. Returns the number of tasks created.
+ */
+export async function saveTasks(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  tasks: ExtractedTask[],
+  commitments: ExtractedCommitment[],
+  memoId: string,
+  companyId: string | null
+): Promise<number> {
+  const { data: existingTasks } = await (adminClient
+    .from('tasks') as ReturnType<typeof adminClient.from>)
+    .select('id, title, fingerprint')
+    .eq('user_id', userId)
+    .eq('memo_id', memoId) as { data: Array<{ id: string | null; title: string; fingerprint: string | null }> | null }
+
+  const { data: existingReminders } = await (adminClient
+    .from('reminders') as ReturnType<typeof adminClient.from>)
+    .select('title, fingerprint')
+    .eq('user_id', userId)
+    .eq('memo_id', memoId) as { data: Array<{ title: string; fingerprint: string | null }> | null }
+
+  const covered = [...(existingReminders || []), ...commitments]
+  const seen = [...(existingTasks || [])]
+  const rows: Array<Record<string, unknown>> = []
+
+  for (const task of tasks) {
+    if (findSameActionItem(covered, task.title)) {
+      console.log(`[Tasks] Covered by a reminder, skipping: ${task.title}`)
+      continue
+    }
+
+    const fingerprint = actionItemFingerprint(task.title)
+    const match = findSameActionItem(seen, task.title)
+    if (match) {
+      // Fingerprint tasks saved before fingerprints existed so the unique
+      // index covers them from now on
+      if (match.id && !match.fingerprint) {
+        await (adminClient.from('tasks') as ReturnType<typeof adminClient.from>)
+          .update({ fingerprint } as never)
+          .eq('id', match.id)
+      }
+      continue
+    }
+    seen.push({ id: null, title: task.title, fingerprint })
+
+    rows.push({
+      user_id: userId,
+      memo_id: memoId,
+      company_id: companyId,
+      title: task.title.slice(0, 255),
+      priority: task.priority || 'medium',
+      status: 'pending',
+      fingerprint,
+    })
+  }
+
+  if (rows.length === 0) return 0
+
+  // Rows a concurrent run saved first are skipped and not returned
+  const { data: created, error } = await (adminClient.from('tasks') as ReturnType<typeof adminClient.from>)
+    .upsert(rows as never, { onConflict: 'memo_id,fingerprint', ignoreDuplicates: true })
+    .select('id') as { data: Array<{ id: string }> | null; error: unknown }
+
+  if (error) {
+    console.error('[Pipeline] Tasks creation error:', error)
+    return 0
+  }
+  return created?.length || 0
+}
+
+/**
+ * Create reminders from extracted commitments
+ */
+export async function createReminders(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  commitments: ExtractedCommitment[],
+  memoId: string,
+  companyId: string | null,
+  contactMap: Map<string, string>, // name -> contact_id
+  meetingDate: string | null,
+  timeZone: string
+): Promise<number> {
+  let createdCount = 0
+  const anchorDay = meetingDay(meetingDate, timeZone)
+
+  // Reminders already saved for this memo (a resumed job re-running the save
+  // stage, or the memo being reprocessed)
+  const { data: existingReminders } = await (adminClient
+    .from('reminders') as ReturnType<typeof adminClient.from>)
+    .select('id, title, fingerprint')
+    .eq('user_id', userId)
+    .eq('memo_id', memoId) as { data: Array<{ id: string | null; title: string; fingerprint: string | null }> | null }
+
+  const existing = [...(existingReminders || [])]
+
+  for (const commitment of commitments) {
+    try {
+      const fingerprint = actionItemFingerprint(commitment.title)
+      const match = findSameActionItem(existing, commitment.title)
+      if (match) {
+        // Refresh what the rerun read off the transcript; the title, due date
+        // and status are the user's to change
+        if (match.id) {
+          await (adminClient.from('reminders') as ReturnType<typeof adminClient.from>)
+            .update({
+              context: commitment.context || null,
+              source_text: commitment.source_text || null,
+              due_phrase: commitment.due_phrase || null,
+              fingerprint: match.fingerprint || fingerprint,
+            } as never)
+            .eq('id', match.id)
+        }
+        console.log(`[Reminders] Already exists, updated: ${commitment.title}`)
+        continue
+      }
+      existing.push({ id: null, title: commitment.title, fingerprint })
+
+      // Try to find associated contact
+      let contactId: string | null = null
+      if (commitment.related_person) {
+        // Check exact match first
+        contactId = contactMap.get(commitment.related_person) || null
+
+        // Try fuzzy match if no exact match
+        if (!contactId) {
+          const lowerName = commitment.related_person.toLowerCase()
+          const mapEntries = Array.from(contactMap.entries())
+          for (let i = 0; i < mapEntries.length; i++) {
+            const [name, id] = mapEntries[i]
+            if (name.toLowerCase().includes(lowerName) || lowerName.includes(name.toLowerCase())) {
+              contactId = id
+              break
+            }
+          }
+        }
+      }
+
+      // Due dates count from the day of the meeting, not the day it's processed
+      const { dueDate, basis } = resolveDueDate(commitment, anchorDay)
+
+      // A concurrent run of the same memo may have saved it in the meantime;
+      // then nothing is returned
+      const { data: created, error } = await (adminClient.from('reminders') as ReturnType<typeof adminClient.from>)
+        .upsert({
+          user_id: userId,
+          contact_id: contactId,
+          company_id: companyId,
+          memo_id: memoId,
+          type: commitment.type,
+          title: commitment.title.slice(0, 255),
+          context: commitment.context || null,
+          source_text: commitment.source_text || null,
+          due_date: dueDate,
+          due_phrase: commitment.due_phrase || null,
+          due_basis: basis,
+          priority: commitment.priority || 'medium',
+          owner: commitment.owner || null,
+          status: 'pending',
+          fingerprint,
+        } as never, { onConflict: 'memo_id,fingerprint', ignoreDuplicates: true })
+        .select('id') as { data: Array<{ id: string }> | null; error: unknown }
+
+      if (error) {
+        console.error(`[Reminders] Failed to create reminder:`, error)
+      } else if (created?.length) {
+        createdCount++
+        console.log(`[Reminders] Created: ${commitment.title}`)
+      }
+    } catch (err) {
+      console.error(`[Reminders] Error creating reminder:`, err)
+    }
+  }
+
+  return createdCount
+}
+
+/**
+ * Close the reminders a meeting shows were done, with the memo as evidence,
+ * and hold borderline ones for the user to confirm. Saving again replaces
+ * the memo's unanswered suggestions; answered ones are left as they are.
+ */
+export async function saveReminderFulfillments(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  memoId: string,
+  fulfillments: DetectedFulfillment[]
+): Promise<{ closed: number; queued: number }> {
+  const { data: existing } = await (adminClient
+    .from('reminder_fulfillments') as ReturnType<typeof adminClient.from>)
+    .select('reminder_id, status')
+    .eq('memo_id', memoId) as { data: Array<{ reminder_id: string; status: string }> | null }
+
+  const answered = new Set((existing || []).filter(f => f.status !== 'pending').map(f => f.reminder_id))
+
+  await (adminClient
+    .from('reminder_fulfillments') as ReturnType<typeof adminClient.from>)
+    .delete()
+    .eq('memo_id', memoId)
+    .eq('status', 'pending')
+
+  let closed = 0
+  let queued = 0
+  for (const fulfillment of fulfillments) {
+    if (answered.has(fulfillment.reminderId) || fulfillment.confidence < SUGGEST_CONFIDENCE) continue
+
+    const auto = fulfillment.confidence >= AUTO_CLOSE_CONFIDENCE
+    const { error } = await (adminClient
+      .from('reminder_fulfillments') as ReturnType<typeof adminClient.from>)
+      .insert({
+        user_id: userId,
+        reminder_id: fulfillment.reminderId,
+        memo_id: memoId,
+        evidence: fulfillment.evidence,
+        confidence: fulfillment.confidence,
+        status: auto ? 'auto' : 'pending',
+        resolved_at: auto ? new Date().toISOString() : null,
+      } as never) as { error: unknown }
+
+    if (error) {
+      console.error(`[Fulfillment] Failed to record ${fulfillment.title}:`, error)
+      continue
+    }
+
+    if (auto) {
+      await completeReminder(adminClient, userId, fulfillment.reminderId)
+      closed++
+      console.log(`[Fulfillment] Closed: ${fulfillment.title}`)
+    } else {
+      queued++
+    }
+  }
+
+  return { closed, queued }
+}
+
+/**
+ * Store the transcript a memo was generated from (one per memo; saving again
+ * replaces it)
+ */
+export async function saveTranscript(
+  adminClient: ReturnType<typeof createAdminClient>,
+  transcript: {
+    userId: string
+    memoId: string
+    source: string
+    sourceId: string | null
+    title: string
+    meetingDate: string | null
+    participants: string[]
+    utterances: Utterance[]
+    text: string
+  }
+) {
+  const { error } = await (adminClient
+    .from('transcripts') as ReturnType<typeof adminClient.from>)
+    .upsert({
+      user_id: transcript.userId,
+      memo_id: transcript.memoId,
+      source: transcript.source,
+      source_id: transcript.sourceId,
+      title: transcript.title,
+      meeting_date: transcript.meetingDate,
+      participants: transcript.participants,
+      utterances: transcript.utterances,
+      text: transcript.text,
+      updated_at: new Date().toISOString(),
+    } as never, { onConflict: 'memo_id' }) as { error: { message?: string } | null }
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save transcript')
+  }
+}
+
+/**
+ * Link every company that came up in a meeting to its memo, replacing the
+ * memo's earlier links. Mentions are resolved against existing companies;
+ * only a company "discussed" is created when it is new, since competitors
+ * and co-investors are rarely companies the user tracks. Companies that
+ * could be one of several existing ones are queued for the user to confirm,
+ * and what the user already confirmed for this memo is reused.
+ */
+export async function linkMemoCompanies(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  memoId: string,
+  primary: { id: string | null; snippet: string | null },
+  mentioned: ExtractedCompanyMention[],
+  confirmations: PendingCompanyConfirmation[] = []
+): Promise<{ linked: number; queued: number; companyIds: Map<string, string> }> {
+  const { data: existingCompanies } = await (adminClient
+    .from('companies') as ReturnType<typeof adminClient.from>)
+    .select('id, name, domain, normalized_domain')
+    .eq('user_id', userId) as { data: ExistingCompany[] | null }
+
+  const { data: answered } = await (adminClient
+    .from('company_confirmations') as ReturnType<typeof adminClient.from>)
+    .select('detected_name, status, company_id')
+    .eq('memo_id', memoId)
+    .neq('status', 'pending') as {
+    data: Array<{ detected_name: string; status: string; company_id: string | null }> | null
+  }
+
+  const companies = existingCompanies || []
+  const answers = new Map((answered || []).map(a => [normalizeKey(a.detected_name), a]))
+  const links = new Map<string, { role: string; snippet: string | null }>()
+  // Mentioned company names (by normalizeKey) → the company they resolved to
+  const companyIds = new Map<string, string>()
+  const pending = confirmations.filter(c => !answers.has(normalizeKey(c.name)))
+  if (primary.id) links.set(primary.id, { role: 'primary', snippet: primary.snippet })
+
+  for (const mention of mentioned) {
+    if (!normalizeKey(mention.name)) continue
+
+    const answer = answers.get(normalizeKey(mention.name))
+    let companyId = answer ? answer.company_id : undefined
+
+    if (answer === undefined) {
+      const resolution = resolveCompany({ name: mention.name }, companies)
+      companyId = resolution.company?.id
+
+      if (resolution.status === 'ambiguous') {
+        pending.push({
+          name: mention.name,
+          role: mention.role,
+          snippet: mention.snippet,
+          website: null,
+          candidates: resolution.candidates,
+        })
+      } else if (resolution.status === 'new' && mention.role === 'discussed') {
+        const { data: created, error } = await (adminClient
+          .from('companies') as ReturnType<typeof adminClient.from>)
+          .insert({ user_id: userId, name: mention.name } as never)
+          .select('id')
+          .single() as { data: { id: string } | null; error: unknown }
+
+        if (error || !created) {
+          console.error(`[Pipeline] Could not create mentioned company ${mention.name}:`, error)
+          continue
+        }
+        companyId = created.id
+        companies.push({ id: created.id, name: mention.name, domain: null, normalized_domain: null })
+      }
+    }
+
+    if (companyId) companyIds.set(normalizeKey(mention.name), companyId)
+    if (companyId && !links.has(companyId)) {
+      links.set(companyId, { role: mention.role, snippet: mention.snippet || null })
+    }
+  }
+
+  await (adminClient
+    .from('memo_companies') as ReturnType<typeof adminClient.from>)
+    .delete()
+    .eq('memo_id', memoId)
+
+  if (links.size > 0) {
+    const { error } = await (adminClient
+      .from('memo_companies') as ReturnType<typeof adminClient.from>)
+      .insert(Array.from(links, ([companyId, link]) => ({
+        user_id: userId,
+        memo_id: memoId,
+        company_id: companyId,
+        role: link.role,
+        snippet: link.snippet,
+      })) as never) as { error: { message?: string } | null }
+
+    if (error) {
+      throw new Error(error.message || 'Failed to link companies')
+    }
+  }
+
+  await (adminClient
+    .from('company_confirmations') as ReturnType<typeof adminClient.from>)
+    .delete()
+    .eq('memo_id', memoId)
+    .eq('status', 'pending')
+
+  if (pending.length > 0) {
+    const { error } = await (adminClient
+      .from('company_confirmations') as ReturnType<typeof adminClient.from>)
+      .insert(pending.map(c => ({
+        user_id: userId,
+        memo_id: memoId,
+        detected_name: c.name,
+        role: c.role,
+        snippet: c.snippet || null,
+        website: c.website,
+        candidates: c.candidates,
+      })) as never) as { error: { message?: string } | null }
+
+    if (error) {
+      throw new Error(error.message || 'Failed to queue company confirmations')
+    }
+  }
+
+  return { linked: links.size, queued: pending.length, companyIds }
+}
+
+/**
+ * Store the metric figures of a meeting, replacing the memo's earlier ones.
+ * `companyFor` resolves a figure's company name (null for the meeting's
+ * company). Figures for a company waiting on a confirmation are held on the
+ * confirmation until the user picks the company (see saveHeldMetrics); the
+ * rest, for no known company, are dropped.
+ */
+export async function saveCompanyMetrics(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  memoId: string,
+  meetingDate: string | null,
+  figures: MetricFigure[],
+  companyFor: (name: string | null) => string | null
+): Promise<number> {
+  const asOfMeeting = (meetingDate || new Date().toISOString()).slice(0, 10)
+  const held = new Map<string, MetricRow[]>()
+  const rows: MetricRow[] = []
+
+  for (const figure of figures) {
+    const row: MetricRow = {
+      user_id: userId,
+      memo_id: memoId,
+      metric: figure.metric,
+      value: figure.value,
+      unit: figure.unit,
+      period: figure.period,
+      as_of: figure.asOf || asOfMeeting,
+      quote: figure.quote,
+      speaker: figure.speaker,
+      utterance_index: figure.utteranceIndex,
+    }
+    const companyId = companyFor(figure.company)
+    if (companyId) {
+      rows.push({ ...row, company_id: companyId })
+    } else {
+      // Unnamed figures are about the meeting's company
+      const key = figure.company ? normalizeKey(figure.company) : ''
+      held.set(key, [...(held.get(key) || []), row])
+    }
+  }
+
+  await holdConfirmationMetrics(adminClient, memoId, held)
+
+  await (adminClient
+    .from('company_metrics') as ReturnType<typeof adminClient.from>)
+    .delete()
+    .eq('memo_id', memoId)
+
+  const unique = uniqueMetricRows(rows)
+  if (unique.length === 0) return 0
+
+  const { error } = await (adminClient
+    .from('company_metrics') as ReturnType<typeof adminClient.from>)
+    .insert(unique as never) as { error: { message?: string } | null }
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save metrics')
+  }
+  return unique.length
+}
+
+/**
+ * A company_metrics row; company_id is absent while the figure is held
+ */
+interface MetricRow {
+  user_id: string
+  company_id?: string
+  memo_id: string
+  metric: string
+  value: number
+  unit: string
+  period: string | null | undefined
+  as_of: string
+  quote: string
+  speaker: string | null | undefined
+  utterance_index: number
+}
+
+// One figure per UNIQUE(memo_id, company_id, metric, period, as_of), the
+// latest said. Growth for different periods is different figures.
+function uniqueMetricRows(rows: MetricRow[]): MetricRow[] {
+  return mergeByKey(
+    rows,
+    row => [row.company_id, row.metric, row.period || '', row.as_of].join('|'),
+    (a, b) => (b.utterance_index >= a.utterance_index ? b : a)
+  )
+}
+
+/**
+ * Keep figures for companies waiting on a confirmation with the memo's
+ * pending confirmations: the primary company's takes the unnamed figures,
+ * the others the figures naming them. `held` is keyed by normalized company
+ * name, '' for unnamed figures.
+ */
+async function holdConfirmationMetrics(
+  adminClient: ReturnType<typeof createAdminClient>,
+  memoId: string,
+  held: Map<string, MetricRow[]>
+) {
+  const { data: pending } = await (adminClient
+    .from('company_confirmations') as ReturnType<typeof adminClient.from>)
+    .select('id, detected_name, role')
+    .eq('memo_id', memoId)
+    .eq('status', 'pending') as { data: Array<{ id: string; detected_name: string; role: string }> | null }
+
+  for (const confirmation of pending || []) {
+    const name = normalizeKey(confirmation.detected_name)
+    const metrics = [
+      ...(held.get(name) || []),
+      ...(confirmation.role === 'primary' ? held.get('') || [] : []),
+    ]
+    if (metrics.length === 0) continue
+
+    await (adminClient
+      .from('company_confirmations') as ReturnType<typeof adminClient.from>)
+      .update({ metrics } as never)
+      .eq('id', confirmation.id)
+  }
+}
+
+/**
+ * Save the figures a confirmation held once its company is known
+ */
+export async function saveHeldMetrics(
+  adminClient: ReturnType<typeof createAdminClient>,
+  metrics: unknown,
+  companyId: string
+): Promise<number> {
+  const rows = uniqueMetricRows(
+    (Array.isArray(metrics) ? metrics as MetricRow[] : []).map(row => ({ ...row, company_id: companyId }))
+  )
+  if (rows.length === 0) return 0
+
+  const { error } = await (adminClient
+    .from('company_metrics') as ReturnType<typeof adminClient.from>)
+    .upsert(rows as never, { onConflict: 'memo_id,company_id,metric,period,as_of' }) as { error: { message?: string } | null }
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save metrics')
+  }
+  return rows.length
+}
+
+/**
+ * Update job progress in the database
+ */
+export async function updateJobProgress(
+  adminClient: ReturnType<typeof createAdminClient>,
+  jobId: string,
+  step: string,
+  progress: number,
+  status: 'processing' | 'completed' | 'failed' | 'paused' = 'processing',
+  result?: object,
+  error?: string
+) {
+  try {
+    await (adminClient.from('processing_jobs') as ReturnType<typeof adminClient.from>)
+      .update({
+        status,
+        current_step: step,
+        progress,
+        result: result || null,
+        error: error || null,
+        updated_at: new Date().toISOString(),
+      } as never)
+      .eq('id', jobId)
+  } catch (err) {
+    console.error('[Job Update Error]', err)
+  }
+}
+
+/**
+ * Queue a run that was started without a job (webhook, sync, backfill) as a
+ * paused job, so it is processed once the user's budget allows. Reuses a
+ * job already waiting for the same transcript.
+ */
+export async function enqueuePausedJob(
+  adminClient: ReturnType<typeof createAdminClient>,
+  input: PipelineInput,
+  reason: string
+): Promise<string | null> {
+  if (input.transcriptId) {
+    const { data: existing } = await (adminClient
+      .from('processing_jobs') as ReturnType<typeof adminClient.from>)
+      .select('id')
+      .eq('user_id', input.userId)
+      .eq('source', input.source)
+      .eq('source_id', input.transcriptId)
+      .in('status', ['pending', 'paused'])
+      .limit(1) as { data: Array<{ id: string }> | null }
+
+    if (existing && existing.length > 0) {
+      return existing[0].id
+    }
+  }
+
+  const { data: job, error } = await (adminClient
+    .from('processing_jobs') as ReturnType<typeof adminClient.from>)
+    .insert({
+      user_id: input.userId,
+      source: input.source,
+      source_id: input.transcriptId || null,
+      status: 'paused',
+      current_step: 'paused',
+      progress: 0,
+      error: reason,
+      metadata: {
+        title: input.metadata?.title || null,
+        transcript_content: input.transcriptContent || null,
+        meeting_date: input.metadata?.date || null,
+        participants: input.metadata?.participants || [],
+      },
+    } as never)
+    .select('id')
+    .single() as { data: { id: string } | null; error: unknown }
+
+  if (error || !job) {
+    console.error('[Pipeline] Failed to queue paused job:', error)
+    return null
+  }
+
+  return job.id
+}
+
+/**
+ * Load the checkpoints and warnings of stages a job already completed
+ */
+export async function loadJobState(
+  adminClient: ReturnType<typeof createAdminClient>,
+  jobId: string
+): Promise<{ checkpoints: JobCheckpoints; warnings: PipelineWarning[] }> {
+  const { data } = await (adminClient
+    .from('processing_jobs') as ReturnType<typeof adminClient.from>)
+    .select('checkpoints, warnings')
+    .eq('id', jobId)
+    .single() as { data: { checkpoints: JobCheckpoints | null; warnings: PipelineWarning[] | null } | null }
+
+  const checkpoints = data?.checkpoints || {}
+
+  // Warnings from stages that will run again are replaced by that run's warnings
+  const warnings = (data?.warnings || []).filter(w => checkpoints[w.stage])
+
+  return { checkpoints, warnings }
+}
+
+/**
+ * Persist checkpoints after a stage completes (a successful stage clears the failed stage)
+ */
+export async function saveCheckpoints(
+  adminClient: ReturnType<typeof createAdminClient>,
+  jobId: string,
+  checkpoints: JobCheckpoints,
+  warnings: PipelineWarning[]
+) {
+  const { error } = await (adminClient.from('processing_jobs') as ReturnType<typeof adminClient.from>)
+    .update({
+      checkpoints,
+      warnings,
+      failed_stage: null,
+      updated_at: new Date().toISOString(),
+    } as never)
+    .eq('id', jobId) as { error: unknown }
+
+  if (error) {
+    console.error('[Checkpoint] Save error:', error)
+  }
+}
+
+/**
+ * Remember which stage a job failed in, for the dashboard retry button
+ */
+export async function recordFailedStage(
+  adminClient: ReturnType<typeof createAdminClient>,
+  jobId: string,
+  stage: StageName,
+  warnings: PipelineWarning[]
+) {
+  try {
+    await (adminClient.from('processing_jobs') as ReturnType<typeof adminClient.from>)
+      .update({ failed_stage: stage, warnings } as never)
+      .eq('id', jobId)
+  } catch (err) {
+    console.error('[Checkpoint] Failed stage update error:', err)
+  }
+}
+
+/**
+ * Record integration health after talking to a provider
+ */
+export async function updateIntegrationStatus(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  provider: string,
+  status: 'active' | 'inactive' | 'error',
+  errorMessage?: string | null
+) {
+  await (adminClient.from('integrations') as ReturnType<typeof adminClient.from>)
+    .update({
+      status,
+      error_message: errorMessage || null,
+      last_sync_at: status === 'active' ? new Date().toISOString() : null,
+    } as never)
+    .eq('user_id', userId)
+    .eq('provider', provider)
+}
+
+/**
+ * Check if a memo already exists for this source
+ */
+export async function checkExistingMemo(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  source: string,
+  sourceId: string
+): Promise<string | null> {
+  try {
+    // Check imported_transcripts table first
+    const { data: imported } = await (adminClient
+      .from('imported_transcripts') as ReturnType<typeof adminClient.from>)
+      .select('memo_id')
+      .eq('user_id', userId)
+      .eq('source', source)
+      .eq('source_id', sourceId)
+      .single() as { data: { memo_id: string } | null }
+
+    if (imported?.memo_id) {
+      return imported.memo_id
+    }
+
+    return null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Send email notification for processed memo
+ */
+export async function sendEmailNotification(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId: string,
+  memoTitle: string,
+  companyName: string | null,
+  memoId: string
+) {
+  try {
+    // Get user's profile to check notification preferences
+    const { data: profile } = await adminClient
+      .from('profiles')
+      .select('notification_email, email_digest_frequency')
+      .eq('id', userId)
+      .single() as { data: { notification_email: string | null; email_digest_frequency: string | null } | null }
+
+    if (!profile?.notification_email) {
+      console.log('[Processing] No notification email for user')
+      return
+    }
+
+    // Only send if user has enabled instant notifications (not never or digest)
+    // For now, we'll send for any frequency except 'never'
+    if (profile.email_digest_frequency === 'never') {
+      console.log('[Processing] User has email notifications disabled')
+      return
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://ai-vc-v2.vercel.app'
+    const memoUrl = `${appUrl}/memos/${memoId}`
+
+    const { subject, html, text } = memoProcessedEmail(memoTitle, companyName, memoUrl)
+
+    await sendEmail({
+      to: profile.notification_email,
+      subject,
+      html,
+      text,
+    })
+
+    console.log('[Processing] Email notification sent to:', profile.notification_email)
+  } catch (error) {
+    console.error('[Processing] Email notification error:', error)
+  }
+}
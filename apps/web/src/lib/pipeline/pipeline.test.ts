@@ -0,0 +1,123 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakeSupabase, type FakeSupabase } from '@/test/supabase'
+import { setLLMProvider } from '@/lib/llm'
+import { runPipeline, type StepRunner } from '.'
+
+/**
+ * Runs the whole pipeline offline: every model call is answered from the
+ * recorded fixtures in fixtures/llm/founder-pitch and the database is the
+ * in-memory fake. Re-record the fixtures (LLM_PROVIDER=record) after
+ * changing a prompt.
+ */
+
+const FIXTURES_DIR = path.join(__dirname, '../../../fixtures/llm/founder-pitch')
+
+const server = vi.hoisted(() => ({ client: null as unknown }))
+vi.mock('@/lib/supabase/server', () => ({
+  createAdminClient: () => server.client,
+  createClient: async () => server.client,
+}))
+
+const USER_ID = '00000000-0000-0000-0000-000000000001'
+const JOB_ID = '00000000-0000-0000-0000-0000000000a1'
+
+let db: FakeSupabase
+
+beforeEach(() => {
+  vi.stubEnv('LLM_PROVIDER', 'replay')
+  vi.stubEnv('LLM_FIXTURES_DIR', FIXTURES_DIR)
+  setLLMProvider(null)
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+
+  db = createFakeSupabase({
+    profiles: [{ id: USER_ID, full_name: 'Alex Rivera', timezone: 'America/New_York' }],
+  })
+  server.client = db.client
+})
+
+function founderPitchInput() {
+  return {
+    source: 'manual' as const,
+    userId: USER_ID,
+    transcriptContent: readFileSync(path.join(FIXTURES_DIR, 'transcript.txt'), 'utf8'),
+    metadata: {
+      title: 'Lumen Labs pitch',
+      date: '2025-03-12',
+      participants: ['Alex Rivera', 'Priya Shah'],
+    },
+  }
+}
+
+function runFounderPitch() {
+  return runPipeline(founderPitchInput())
+}
+
+describe('runPipeline (replayed)', () => {
+  it('turns the transcript into a saved memo', async () => {
+    const result = await runFounderPitch()
+
+    expect(result.success).toBe(true)
+    expect(result.meetingType).toBe('founder-pitch')
+    expect(result.companyName).toBe('Lumen Labs')
+
+    const [memo] = db.tables.memos
+    expect(memo.id).toBe(result.memoId)
+    expect(memo.content).toContain('## Executive Summary')
+    expect(memo.meeting_date).toBe('2025-03-12')
+    expect((memo.citations as unknown[]).length).toBeGreaterThan(0)
+    expect(db.tables.transcripts).toHaveLength(1)
+  })
+
+  it('saves the people, commitments, tasks and metrics it extracted', async () => {
+    await runFounderPitch()
+
+    expect(db.tables.contacts.map(c => c.name)).toEqual(['Priya Shah'])
+    expect(db.tables.reminders.map(r => r.title).sort()).toEqual([
+      'Intro Priya to Dana at Northwind Capital',
+      'Send deck and customer list',
+    ])
+    // "by Friday" from a Wednesday meeting
+    expect(db.tables.reminders.find(r => r.title === 'Send deck and customer list')?.due_date).toBe('2025-03-14')
+    // The task for the deck is left to the reminder that covers it
+    expect(db.tables.tasks.map(t => t.title)).toEqual(['Check references with Lumen Labs customers'])
+    expect(db.tables.company_metrics.map(m => m.metric).sort()).toEqual(['arr', 'raise_amount', 'runway'])
+  })
+
+  it('makes no usage ledger writes', async () => {
+    await runFounderPitch()
+    expect(db.tables.llm_usage).toBeUndefined()
+  })
+
+  it('replays memoized steps on re-entry without reading the transcript back', async () => {
+    db.tables.processing_jobs = [{ id: JOB_ID, user_id: USER_ID, status: 'processing', checkpoints: {}, warnings: [] }]
+
+    // Like Inngest: memoized steps return their result, the first new step
+    // runs and the function is entered again
+    const memoized = new Map<string, unknown>()
+    const ranStep = new Error('step ran')
+    const runStep: StepRunner = async (name, fn) => {
+      if (memoized.has(name)) return memoized.get(name) as never
+      memoized.set(name, await fn())
+      throw ranStep
+    }
+
+    let entries = 0
+    let result
+    while (!result) {
+      // Only the first entry can read the transcript
+      const input = { ...founderPitchInput(), jobId: JOB_ID }
+      if (entries++ > 0) input.transcriptContent = ''
+      try {
+        result = await runPipeline(input, runStep)
+      } catch (error) {
+        if (error !== ranStep) throw error
+      }
+    }
+
+    expect(result.success).toBe(true)
+    expect(entries).toBe(memoized.size + 1)
+    expect(db.tables.memos).toHaveLength(1)
+  })
+})
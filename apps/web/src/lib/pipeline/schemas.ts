@@ -0,0 +1,149 @@
+import { z } from 'zod'
+import type {
+  ExtractedCitation,
+  ExtractedCommitment,
+  ExtractedCompanyMention,
+  ExtractedContact,
+  ExtractedFulfillment,
+  ExtractedMetric,
+  ExtractedTask,
+} from './extractors'
+import { METRIC_KINDS, type MetricKind } from '@/lib/metrics'
+
+/**
+ * Schemas for every structured extractor response.
+ * Required fields are strict (a miss triggers the repair round-trip); optional
+ * enum fields fall back to undefined/defaults instead of failing the response.
+ */
+
+// Models often send null (or "") for "not mentioned"
+const optionalString = z
+  .string()
+  .nullish()
+  .transform(value => value?.trim() || undefined)
+
+const stringList = z
+  .array(z.string())
+  .nullish()
+  .transform(value => value?.filter(item => item.trim().length > 0) ?? undefined)
+
+function optionalEnum<const T extends readonly [string, ...string[]]>(values: T) {
+  return z
+    .enum(values)
+    .nullish()
+    .catch(undefined)
+    .transform(value => value ?? undefined)
+}
+
+export const ExtractedContactSchema: z.ZodType<ExtractedContact> = z.object({
+  name: z.string().trim().min(1),
+  email: optionalString,
+  title: optionalString,
+  company: optionalString,
+  phone: optionalString,
+  linkedin_url: optionalString,
+  relationship_type: optionalEnum(['founder', 'investor', 'advisor', 'executive', 'operator', 'other']),
+  notes: optionalString,
+  meeting_context: z
+    .object({
+      their_interests: stringList,
+      their_concerns: stringList,
+      their_asks: stringList,
+      key_quotes: stringList,
+      follow_up_items: stringList,
+      discussion_topics: stringList,
+      sentiment: optionalEnum(['very_positive', 'positive', 'neutral', 'skeptical', 'negative']),
+      engagement_level: optionalEnum(['high', 'medium', 'low']),
+    })
+    .nullish()
+    .transform(value => value ?? undefined),
+})
+
+export const ExtractedContactListSchema = z.array(ExtractedContactSchema)
+
+export const ExtractedCommitmentSchema: z.ZodType<ExtractedCommitment> = z.object({
+  type: z.enum(['commitment', 'follow_up', 'intro_request', 'deadline']),
+  title: z.string().trim().min(1),
+  context: z.string().nullish().transform(value => value || ''),
+  source_text: z.string().nullish().transform(value => value || ''),
+  related_person: optionalString,
+  due_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}/, 'must be an ISO date (YYYY-MM-DD) or null')
+    .nullish()
+    .transform(value => value?.slice(0, 10) || undefined),
+  due_phrase: optionalString,
+  priority: z.enum(['low', 'medium', 'high']).catch('medium'),
+  owner: z.enum(['me', 'them']).optional().catch(undefined),
+})
+
+export const ExtractedCommitmentListSchema = z.array(ExtractedCommitmentSchema)
+
+export const ExtractedTaskSchema: z.ZodType<ExtractedTask> = z.object({
+  title: z.string().trim().min(1),
+  priority: z.enum(['low', 'medium', 'high']).catch('medium'),
+})
+
+export const ExtractedTaskListSchema = z.array(ExtractedTaskSchema)
+
+export const ExtractedCitationSchema: z.ZodType<ExtractedCitation> = z.object({
+  line: z.coerce.number().int().min(1),
+  utterance: z.coerce.number().int().min(0),
+  quote: z.string().trim().min(1),
+  kind: z.enum(['fact', 'metric']).catch('fact'),
+})
+
+export const ExtractedCitationListSchema = z.array(ExtractedCitationSchema)
+
+export const ExtractedCompanyMentionSchema: z.ZodType<ExtractedCompanyMention> = z.object({
+  name: z.string().trim().min(1),
+  role: z.enum(['discussed', 'competitor', 'co_investor']).catch('discussed'),
+  snippet: z.string().nullish().transform(value => value?.trim() || ''),
+})
+
+export const CompanyDetectionSchema = z.object({
+  name: z.string().nullish().transform(value => {
+    const name = value?.trim()
+    return name && name.toLowerCase() !== 'null' ? name : null
+  }),
+  confidence: z.coerce.number().min(0).max(1).catch(0.5),
+  website: optionalString,
+  industry: optionalString,
+  stage: optionalString,
+  snippet: optionalString,
+  // One malformed entry shouldn't cost the primary company
+  mentioned: z.array(ExtractedCompanyMentionSchema).nullish().catch(undefined).transform(value => value ?? []),
+})
+
+export const ExtractedMetricSchema: z.ZodType<ExtractedMetric> = z.object({
+  metric: z.enum(METRIC_KINDS as [MetricKind, ...MetricKind[]]),
+  value: z.coerce.number(),
+  unit: optionalString,
+  period: optionalEnum(['mom', 'qoq', 'yoy']),
+  as_of: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}/, 'must be an ISO date (YYYY-MM-DD) or null')
+    .nullish()
+    .catch(undefined)
+    .transform(value => value?.slice(0, 10) || undefined),
+  company: optionalString,
+  utterance: z.coerce.number().int().min(0),
+  quote: z.string().trim().min(1),
+})
+
+export const ExtractedMetricListSchema = z.array(ExtractedMetricSchema)
+
+export const ExtractedFulfillmentSchema: z.ZodType<ExtractedFulfillment> = z.object({
+  item: z.coerce.number().int().min(1),
+  confidence: z.coerce.number().min(0).max(1).catch(0.5),
+  utterance: z.coerce.number().int().min(0),
+  quote: z.string().trim().min(1),
+})
+
+export const ExtractedFulfillmentListSchema = z.array(ExtractedFulfillmentSchema)
+
+export const ChunkNotesSchema = z.object({
+  key_points: z.array(z.string()).default([]),
+  metrics: z.array(z.string()).default([]),
+  quotes: z.array(z.string()).default([]),
+})
@@ -0,0 +1,938 @@
+import { createMemoInDrive } from '@/lib/google/drive'
+import { trackServerEvent } from '@/lib/analytics-server'
+import { fetchFirefliesTranscript, toMeetingDate } from '@/lib/fireflies'
+import { getTranscriptForMemo, parseTranscriptText, utterancesToText, type Utterance } from '@/lib/transcripts'
+import { verifyMemoContent } from '@/lib/verification'
+import { findTemplate, folderTemplateId, getClassificationTemplates, resolveMemoTemplate } from '@/lib/templates/custom'
+import { templateMeetingType } from '@/lib/templates'
+import { fillMissingSections } from '@/lib/templates/detection'
+import { normalizeKey } from '@/lib/chunking'
+import {
+  domainForCompany,
+  extractDomain,
+  extractParticipantInfo,
+  resolveCompany,
+  type ExistingCompany,
+} from '@/lib/company-detection'
+import { getHostIdentity } from '@/lib/host-identity'
+import { getUserTimeZone, meetingDay } from '@/lib/due-dates'
+import { loadOpenReminders } from '@/lib/fulfillment'
+import type { Json } from '@/lib/supabase/types'
+import {
+  detectCompany,
+  detectFulfillments,
+  detectMeetingType,
+  extractCitations,
+  extractCommitments,
+  extractMetrics,
+  extractParticipants,
+  extractTasks,
+  generateMemoContent,
+  generateSummary,
+} from './extractors'
+import {
+  checkExistingMemo,
+  createOrUpdateContacts,
+  createReminders,
+  saveTasks,
+  linkMemoCompanies,
+  saveCompanyMetrics,
+  saveReminderFulfillments,
+  saveTranscript,
+  sendEmailNotification,
+  updateIntegrationStatus,
+} from './persistence'
+import type { PipelineInput, PipelineStage, PipelineState, StageContext } from './types'
+
+/**
+ * Read a value produced by an earlier stage, failing loudly if it is missing
+ */
+function need<K extends keyof PipelineState>(state: PipelineState, key: K): NonNullable<PipelineState[K]> {
+  const value = state[key]
+  if (value === undefined || value === null) {
+    throw new Error(`Pipeline state is missing "${key}" - an earlier stage did not run`)
+  }
+  return value as NonNullable<PipelineState[K]>
+}
+
+interface ReprocessedMemo {
+  id: string
+  title: string
+  content: string
+  summary: string | null
+  meeting_date: string | null
+  metadata: Record<string, unknown> | null
+  company_id: string | null
+  folder_id: string | null
+  companies: { name: string } | null
+}
+
+/**
+ * The memo being reprocessed, as it is now (with the user's edits)
+ */
+async function loadReprocessedMemo({ adminClient, input }: StageContext): Promise<ReprocessedMemo> {
+  const { data: memo } = await (adminClient
+    .from('memos') as ReturnType<typeof adminClient.from>)
+    .select('id, title, content, summary, meeting_date, metadata, company_id, folder_id, companies(name)')
+    .eq('id', input.reprocess!.memoId)
+    .eq('user_id', input.userId)
+    .maybeSingle() as { data: ReprocessedMemo | null }
+
+  if (!memo) {
+    throw new Error('The memo being reprocessed no longer exists')
+  }
+  return memo
+}
+
+/**
+ * Stage 1: Fetch transcript (from Fireflies if needed, or the one stored
+ * with a memo being reprocessed)
+ */
+async function fetchStage(ctx: StageContext): Promise<Partial<PipelineState>> {
+  const { adminClient, input } = ctx
+  const { source, transcriptId, transcriptContent, userId, metadata } = input
+
+  if (input.reprocess) {
+    const memo = await loadReprocessedMemo(ctx)
+    const stored = await getTranscriptForMemo(adminClient, memo.id)
+    if (!stored) {
+      throw new Error('No transcript is stored for this memo')
+    }
+
+    return {
+      transcript: {
+        text: stored.text || utterancesToText(stored.utterances),
+        // The memo's title, which the user may have edited
+        title: memo.title,
+        meetingDate: memo.meeting_date || stored.meeting_date,
+        participants: stored.participants,
+        utterances: stored.utterances,
+        ref: { kind: 'memo', memoId: memo.id },
+      },
+    }
+  }
+
+  // IDEMPOTENCY CHECK: Check if we already processed this transcript
+  if (source === 'fireflies' && transcriptId) {
+    const existingMemoId = await checkExistingMemo(adminClient, userId, source, transcriptId)
+    if (existingMemoId) {
+      console.log(`[Pipeline] Already processed - memo exists: ${existingMemoId}`)
+      return { skippedMemoId: existingMemoId }
+    }
+  }
+
+  let text = transcriptContent || ''
+  let title = metadata?.title || 'Meeting Memo'
+  let meetingDate = toMeetingDate(metadata?.date)
+  let participants = metadata?.participants || []
+  let utterances: Utterance[] | null = null
+
+  if (source === 'fireflies' && transcriptId && !text) {
+    const ffData = await fetchUserFirefliesTranscript(adminClient, userId, transcriptId)
+    text = ffData.transcript
+    utterances = ffData.utterances
+    title = ffData.title || title
+    participants = ffData.participants
+    meetingDate = toMeetingDate(ffData.date) || meetingDate
+  }
+
+  if (!text) {
+    throw new Error('No transcript content available')
+  }
+
+  console.log(`[Pipeline] Transcript length: ${text.length} chars`)
+
+  return {
+    transcript: {
+      text,
+      title,
+      meetingDate,
+      participants,
+      utterances: utterances || parseTranscriptText(text),
+      ref: transcriptContent ? { kind: 'input' } : { kind: 'fireflies', transcriptId: transcriptId! },
+    },
+  }
+}
+
+/**
+ * Fetch a Fireflies transcript with the user's API key, keeping the
+ * integration's status current
+ */
+async function fetchUserFirefliesTranscript(
+  adminClient: StageContext['adminClient'],
+  userId: string,
+  transcriptId: string
+) {
+  const { data: integration, error: integrationError } = await (adminClient
+    .from('integrations') as ReturnType<typeof adminClient.from>)
+    .select('credentials')
+    .eq('user_id', userId)
+    .eq('provider', 'fireflies')
+    .single() as { data: { credentials: { api_key?: string } | null } | null; error: unknown }
+
+  if (integrationError) {
+    console.error('[Pipeline] Integration lookup error:', integrationError)
+  }
+
+  if (!integration?.credentials?.api_key) {
+    await updateIntegrationStatus(adminClient, userId, 'fireflies', 'error', 'Missing Fireflies API key')
+    throw new Error('Fireflies API key not configured. Please add your API key in Settings.')
+  }
+
+  try {
+    const ffData = await fetchFirefliesTranscript(integration.credentials.api_key, transcriptId)
+    await updateIntegrationStatus(adminClient, userId, 'fireflies', 'active', null)
+    return ffData
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Fireflies fetch failed'
+    await updateIntegrationStatus(adminClient, userId, 'fireflies', 'error', message)
+    throw new Error(`Fireflies fetch failed: ${message}`)
+  }
+}
+
+/**
+ * The fetch stage's output as checkpointed: the transcript's text and
+ * utterances are left out when they can be read again from `ref`
+ */
+export function checkpointTranscript(output: Partial<PipelineState>): Partial<PipelineState> {
+  if (!output.transcript?.ref) return output
+  return { ...output, transcript: { ...output.transcript, text: '', utterances: [] } }
+}
+
+/**
+ * Read back the text and utterances of a checkpointed transcript
+ */
+export async function restoreTranscript(
+  adminClient: StageContext['adminClient'],
+  input: PipelineInput,
+  transcript: NonNullable<PipelineState['transcript']>
+): Promise<NonNullable<PipelineState['transcript']>> {
+  const { ref } = transcript
+  // Older checkpoints carry the whole transcript
+  if (!ref || transcript.text) return transcript
+
+  if (ref.kind === 'input') {
+    const text = input.transcriptContent || ''
+    if (!text) throw new Error('The job no longer has its transcript content')
+    return { ...transcript, text, utterances: parseTranscriptText(text) }
+  }
+
+  if (ref.kind === 'memo') {
+    const stored = await getTranscriptForMemo(adminClient, ref.memoId)
+    if (!stored) throw new Error('No transcript is stored for this memo')
+    return { ...transcript, text: stored.text || utterancesToText(stored.utterances), utterances: stored.utterances }
+  }
+
+  const ffData = await fetchUserFirefliesTranscript(adminClient, input.userId, ref.transcriptId)
+  return { ...transcript, text: ffData.transcript, utterances: ffData.utterances }
+}
+
+/**
+ * Stage 2: Classify meeting type
+ */
+async function classifyStage({ adminClient, input, state }: StageContext): Promise<Partial<PipelineState>> {
+  // Reprocessing with a chosen template or meeting type skips classification
+  if (input.reprocess?.templateId) {
+    const template = await findTemplate(adminClient, input.userId, input.reprocess.templateId)
+    if (!template) throw new Error('The chosen template no longer exists')
+    return { meetingType: templateMeetingType(template) }
+  }
+  if (input.reprocess?.meetingType) {
+    return { meetingType: input.reprocess.meetingType }
+  }
+
+  const templates = await getClassificationTemplates(adminClient, input.userId)
+  const meetingType = await detectMeetingType(need(state, 'transcript').text, templates)
+  console.log(`[Pipeline] Meeting type: ${meetingType}`)
+  return { meetingType }
+}
+
+/**
+ * Stage 3: Detect the meeting's company and match or create it, along with
+ * the other companies discussed
+ */
+async function detectCompanyStage(ctx: StageContext): Promise<Partial<PipelineState>> {
+  const { adminClient, input, state, warn } = ctx
+  const transcript = need(state, 'transcript')
+
+  const { data: existingCompanies } = await (adminClient
+    .from('companies') as ReturnType<typeof adminClient.from>)
+    .select('id, name, domain, normalized_domain')
+    .eq('user_id', input.userId) as { data: ExistingCompany[] | null }
+
+  const { primary, mentioned } = await detectCompany(transcript.text, existingCompanies || [], warn)
+
+  // A reprocessed memo keeps its company, which the user may have corrected;
+  // a different detected subject becomes one of the companies discussed
+  if (input.reprocess) {
+    const memo = await loadReprocessedMemo(ctx)
+    const name = memo.companies?.name || null
+    const mentionedCompanies = [
+      ...(primary ? [{ name: primary.name, role: 'discussed' as const, snippet: primary.snippet }] : []),
+      ...mentioned,
+    ].filter(m => !name || normalizeKey(m.name) !== normalizeKey(name))
+    return { company: { id: memo.company_id, name, isNew: false }, mentionedCompanies }
+  }
+
+  const noCompany = { company: { id: null, name: null, isNew: false }, mentionedCompanies: mentioned }
+  if (!primary || primary.confidence <= 0.6) {
+    return noCompany
+  }
+
+  // Email domains of the people in the meeting back up a name match, and
+  // give a new company a domain to be matched on next time
+  const participantDomains = extractParticipantInfo([transcript.text, ...transcript.participants].join('\n')).domains
+  const domain = (primary.metadata.website && extractDomain(primary.metadata.website)) ||
+    domainForCompany(primary.name, participantDomains)
+  const website = primary.metadata.website || (domain ? `https://${domain}` : null)
+
+  const resolution = resolveCompany({ name: primary.name, domain: domain || undefined }, existingCompanies || [], participantDomains)
+
+  if (resolution.status === 'matched' && resolution.company) {
+    console.log(`[Pipeline] Matched existing company: ${resolution.company.name} (${resolution.confidence})`)
+    return { ...noCompany, company: { id: resolution.company.id, name: resolution.company.name, isNew: false } }
+  }
+
+  if (resolution.status === 'ambiguous') {
+    console.log(`[Pipeline] Company ${primary.name} needs confirming: ${resolution.candidates.map(c => c.name).join(', ')}`)
+    return {
+      ...noCompany,
+      companyConfirmations: [{
+        name: primary.name,
+        role: 'primary',
+        snippet: primary.snippet,
+        website,
+        candidates: resolution.candidates,
+      }],
+    }
+  }
+
+  const { data: newCompany, error: companyError } = await (adminClient
+    .from('companies') as ReturnType<typeof adminClient.from>)
+    .insert({
+      user_id: input.userId,
+      name: primary.name,
+      website,
+      industry: primary.metadata.industry || null,
+      stage: primary.metadata.stage || null,
+    } as never)
+    .select('id')
+    .single() as { data: { id: string } | null; error: unknown }
+
+  if (companyError || !newCompany) {
+    console.error('[Pipeline] Company creation error:', companyError)
+    return noCompany
+  }
+
+  console.log(`[Pipeline] Created new company: ${primary.name}`)
+  return { ...noCompany, company: { id: newCompany.id, name: primary.name, isNew: true } }
+}
+
+/**
+ * The template ID set on the folder the memo is saved in: the default folder
+ * for new memos, the memo's own folder when reprocessing. A meeting type
+ * picked for reprocessing overrides it.
+ */
+async function folderTemplate(ctx: StageContext): Promise<string | null> {
+  const { adminClient, input } = ctx
+  if (input.reprocess?.meetingType) return null
+
+  let query = (adminClient
+    .from('folders') as ReturnType<typeof adminClient.from>)
+    .select('template')
+    .eq('user_id', input.userId)
+
+  if (input.reprocess) {
+    const { folder_id } = await loadReprocessedMemo(ctx)
+    if (!folder_id) return null
+    query = query.eq('id', folder_id)
+  } else {
+    query = query.eq('is_default', true)
+  }
+
+  const { data: folder } = await query.maybeSingle() as { data: { template: Json | null } | null }
+  return folderTemplateId(folder?.template)
+}
+
+/**
+ * Stage 4: Generate memo content and summary, flag claims the transcript
+ * doesn't support, and attach source citations. The template is the one the
+ * default folder (where the memo is saved) points at, else the user's
+ * template for the meeting type.
+ */
+async function generateStage(ctx: StageContext): Promise<Partial<PipelineState>> {
+  const { adminClient, input, state, warn } = ctx
+  const transcript = need(state, 'transcript')
+
+  const chosen = input.reprocess?.templateId
+    ? await findTemplate(adminClient, input.userId, input.reprocess.templateId)
+    : null
+  const template = chosen || await resolveMemoTemplate(
+    adminClient,
+    input.userId,
+    need(state, 'meetingType'),
+    await folderTemplate(ctx)
+  )
+  console.log(`[Pipeline] Memo template: ${template.name} (${template.id})`)
+
+  const generated = await generateMemoContent(transcript.text, template, warn)
+
+  // The model sometimes drops a required section; write those separately
+  const filled = await fillMissingSections(transcript.text, template, generated, { warn })
+  if (filled.filled.length > 0) {
+    console.log(`[Pipeline] Filled missing sections: ${filled.filled.join(', ')}`)
+  }
+
+  const summary = await generateSummary(transcript.text, warn)
+
+  const verification = verifyMemoContent(filled.content, transcript.text, [transcript.title, ...transcript.participants])
+  const content = verification.content
+  if (verification.unverified.length > 0) {
+    console.log(`[Pipeline] ${verification.unverified.length}/${verification.checked} claims not found in the transcript:`, verification.unverified.map(c => c.text))
+  }
+
+  const citations = await extractCitations(
+    content,
+    transcript.utterances || parseTranscriptText(transcript.text),
+    warn
+  )
+  console.log(`[Pipeline] Attached ${citations.length} citations`)
+  return {
+    memo: {
+      content,
+      summary,
+      citations,
+      unverifiedClaims: verification.unverified.length,
+      templateId: template.id,
+      filledSections: filled.filled,
+    },
+  }
+}
+
+/**
+ * Stage 5a: Extract contacts from the transcript
+ */
+async function extractContactsStage({ adminClient, input, state, warn }: StageContext): Promise<Partial<PipelineState>> {
+  const transcript = need(state, 'transcript')
+  const host = await getHostIdentity(adminClient, input.userId)
+  const contacts = await extractParticipants(transcript.text, transcript.participants, host, warn)
+  console.log(`[Pipeline] Found ${contacts.length} contacts`)
+  return { contacts }
+}
+
+/**
+ * Stage 5b: Extract commitments for reminders
+ */
+async function extractCommitmentsStage({ adminClient, input, state, warn }: StageContext): Promise<Partial<PipelineState>> {
+  const host = await getHostIdentity(adminClient, input.userId)
+  const transcript = need(state, 'transcript')
+  const day = meetingDay(transcript.meetingDate, await getUserTimeZone(adminClient, input.userId))
+  const commitments = await extractCommitments(transcript.text, need(state, 'memo').content, host, day, warn)
+  console.log(`[Pipeline] Found ${commitments.length} commitments`)
+  return { commitments }
+}
+
+/**
+ * Stage 5c: Extract action items from the memo
+ */
+async function extractTasksStage({ state, warn }: StageContext): Promise<Partial<PipelineState>> {
+  const tasks = await extractTasks(need(state, 'memo').content, warn)
+  return { tasks }
+}
+
+/**
+ * Stage 5d: Extract deal metrics, for the companies the meeting was about
+ */
+async function extractMetricsStage({ state, warn }: StageContext): Promise<Partial<PipelineState>> {
+  if (!need(state, 'company').id && !state.mentionedCompanies?.length) {
+    return { metrics: [] }
+  }
+
+  const transcript = need(state, 'transcript')
+  const metrics = await extractMetrics(
+    transcript.utterances || parseTranscriptText(transcript.text),
+    transcript.meetingDate,
+    warn
+  )
+  console.log(`[Pipeline] Found ${metrics.length} metrics`)
+  return { metrics }
+}
+
+/**
+ * Stage 5e: Find open reminders, for the meeting's people and company, that
+ * the meeting shows were done
+ */
+async function detectFulfillmentStage({ adminClient, input, state, warn }: StageContext): Promise<Partial<PipelineState>> {
+  const transcript = need(state, 'transcript')
+  const reminders = await loadOpenReminders(adminClient, input.userId, {
+    companyId: need(state, 'company').id,
+    names: [...(state.contacts || []).map(c => c.name), ...transcript.participants],
+    // A reprocessed memo's own reminders aren't "later"
+    excludeMemoId: input.reprocess?.memoId,
+  })
+  if (reminders.length === 0) {
+    return { fulfillments: [] }
+  }
+
+  const fulfillments = await detectFulfillments(
+    transcript.utterances || parseTranscriptText(transcript.text),
+    reminders,
+    await getHostIdentity(adminClient, input.userId),
+    warn
+  )
+  console.log(`[Pipeline] ${fulfillments.length} of ${reminders.length} open reminders look fulfilled`)
+  return { fulfillments }
+}
+
+/**
+ * Find a memo an earlier attempt of this job (or an earlier import of the
+ * same transcript) already saved
+ */
+async function findSavedMemo({ adminClient, input }: StageContext): Promise<string | null> {
+  const { userId, jobId, source, transcriptId } = input
+
+  if (jobId) {
+    const { data } = await (adminClient
+      .from('memos') as ReturnType<typeof adminClient.from>)
+      .select('id')
+      .eq('user_id', userId)
+      .eq('metadata->>job_id', jobId)
+      .maybeSingle() as { data: { id: string } | null }
+    if (data?.id) return data.id
+  }
+
+  if (transcriptId) {
+    const { data } = await (adminClient
+      .from('memos') as ReturnType<typeof adminClient.from>)
+      .select('id')
+      .eq('user_id', userId)
+      .eq('source', source)
+      .eq('source_id', transcriptId)
+      .maybeSingle() as { data: { id: string } | null }
+    if (data?.id) return data.id
+  }
+
+  return null
+}
+
+/**
+ * Replace the generated parts of a reprocessed memo. Title, company and
+ * folder stay as the user left them. The version being replaced is kept as a
+ * revision first unless the latest revision already has it (manual edits
+ * don't create revisions).
+ */
+async function saveReprocessedMemo(ctx: StageContext, metadata: Record<string, unknown>) {
+  const { adminClient, input, state } = ctx
+  const { memoId, model } = input.reprocess!
+  const memo = need(state, 'memo')
+  const previous = await loadReprocessedMemo(ctx)
+
+  const { data: latest } = await (adminClient
+    .from('memo_revisions') as ReturnType<typeof adminClient.from>)
+    .select('content')
+    .eq('memo_id', memoId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle() as { data: { content: string } | null }
+
+  if (latest?.content !== previous.content) {
+    await (adminClient.from('memo_revisions') as ReturnType<typeof adminClient.from>).insert({
+      memo_id: memoId,
+      user_id: input.userId,
+      title: previous.title,
+      content: previous.content,
+      summary: previous.summary,
+      meeting_date: previous.meeting_date,
+      metadata: { action: 'before-reprocess' },
+    } as never)
+  }
+
+  const { error } = await (adminClient
+    .from('memos') as ReturnType<typeof adminClient.from>)
+    .update({
+      content: memo.content,
+      summary: memo.summary || null,
+      citations: memo.citations || [],
+      metadata: {
+        ...previous.metadata,
+        ...metadata,
+        reprocessed_at: new Date().toISOString(),
+        ...(model ? { model } : {}),
+      },
+      updated_at: new Date().toISOString(),
+    } as never)
+    .eq('id', memoId) as { error: { message?: string } | null }
+
+  if (error) {
+    throw new Error(`Failed to save reprocessed memo: ${error.message || 'Unknown database error'}`)
+  }
+
+  await (adminClient.from('memo_revisions') as ReturnType<typeof adminClient.from>).insert({
+    memo_id: memoId,
+    user_id: input.userId,
+    title: previous.title,
+    content: memo.content,
+    summary: memo.summary || null,
+    meeting_date: previous.meeting_date,
+    metadata: {
+      action: 'reprocess',
+      meeting_type: need(state, 'meetingType'),
+      template_id: memo.templateId || null,
+      ...(model ? { model } : {}),
+    },
+  } as never)
+}
+
+/**
+ * Stage 6: Save memo, revision, tasks, contacts and reminders
+ */
+async function saveStage(ctx: StageContext): Promise<Partial<PipelineState>> {
+  const { adminClient, input, state } = ctx
+  const { userId, source, transcriptId } = input
+  const transcript = need(state, 'transcript')
+  const memo = need(state, 'memo')
+  const company = need(state, 'company')
+  const meetingType = need(state, 'meetingType')
+
+  // Get default folder (optional)
+  const { data: defaultFolder } = await (adminClient
+    .from('folders') as ReturnType<typeof adminClient.from>)
+    .select('id')
+    .eq('user_id', userId)
+    .eq('is_default', true)
+    .single() as { data: { id: string } | null }
+
+  const memoInsertData: Record<string, unknown> = {
+    user_id: userId,
+    title: transcript.title,
+    content: memo.content,
+    summary: memo.summary || null,
+    citations: memo.citations || [],
+    source: source || 'manual',
+    source_id: transcriptId || null,
+    participants: transcript.participants,
+    metadata: {
+      meeting_type: meetingType,
+      ...(memo.templateId ? { template_id: memo.templateId } : {}),
+      ...(memo.filledSections?.length ? { filled_sections: memo.filledSections } : {}),
+      company_detection_confidence: company.id ? 'high' : 'none',
+      ...(memo.unverifiedClaims !== undefined ? { unverified_claims: memo.unverifiedClaims } : {}),
+      ...(input.jobId ? { job_id: input.jobId } : {}),
+    },
+  }
+
+  // Add optional fields only if they have values
+  if (defaultFolder?.id) memoInsertData.folder_id = defaultFolder.id
+  if (company.id) memoInsertData.company_id = company.id
+  if (transcript.meetingDate) memoInsertData.meeting_date = transcript.meetingDate
+
+  // A resumed job may have saved the memo before failing later in this stage
+  const existingMemoId = input.reprocess ? null : await findSavedMemo(ctx)
+  let memoId: string
+
+  if (input.reprocess) {
+    memoId = input.reprocess.memoId
+    await saveReprocessedMemo(ctx, memoInsertData.metadata as Record<string, unknown>)
+    console.log(`[Pipeline] Memo reprocessed: ${memoId}`)
+  } else if (existingMemoId) {
+    memoId = existingMemoId
+    console.log(`[Pipeline] Reusing memo saved by an earlier attempt: ${memoId}`)
+  } else {
+    const { data: savedMemo, error: memoError } = await (adminClient
+      .from('memos') as ReturnType<typeof adminClient.from>)
+      .insert(memoInsertData as never)
+      .select('id')
+      .single() as { data: { id: string } | null; error: { message?: string; details?: string } | null }
+
+    if (memoError) {
+      console.error('[Pipeline] Memo insert error:', JSON.stringify(memoError, null, 2))
+      throw new Error(`Failed to save memo: ${memoError.message || memoError.details || 'Unknown database error'}`)
+    }
+
+    if (!savedMemo) {
+      throw new Error('Memo was not created - no data returned')
+    }
+
+    memoId = savedMemo.id
+    console.log(`[Pipeline] Memo saved: ${memoId}`)
+
+    // Create revision
+    await (adminClient.from('memo_revisions') as ReturnType<typeof adminClient.from>).insert({
+      memo_id: memoId,
+      user_id: userId,
+      title: transcript.title,
+      content: memo.content,
+      summary: memo.summary || null,
+      meeting_date: transcript.meetingDate,
+      metadata: {
+        source,
+        source_id: transcriptId || null,
+        meeting_type: meetingType,
+      },
+    } as never)
+  }
+
+  // Keep the source transcript with the memo (non-fatal). A reprocessed
+  // memo was generated from the one already stored.
+  if (!input.reprocess) {
+    try {
+      await saveTranscript(adminClient, {
+        userId,
+        memoId,
+        source: source || 'manual',
+        sourceId: transcriptId || null,
+        title: transcript.title,
+        meetingDate: transcript.meetingDate,
+        participants: transcript.participants,
+        // Checkpoints written before transcripts were stored have no utterances
+        utterances: transcript.utterances || parseTranscriptText(transcript.text),
+        text: transcript.text,
+      })
+    } catch (transcriptError) {
+      console.error('[Pipeline] Transcript save error (non-fatal):', transcriptError)
+      ctx.warn(`Transcript could not be stored: ${transcriptError instanceof Error ? transcriptError.message : 'unknown error'}`)
+    }
+  }
+
+  // Save tasks, minus the ones the commitments cover or an earlier run saved
+  const tasksCreated = await saveTasks(
+    adminClient,
+    userId,
+    state.tasks || [],
+    state.commitments || [],
+    memoId,
+    company.id
+  )
+
+  // Save contacts (non-fatal)
+  let contactsCreated = 0
+  let contactIds = new Map<string, string>()
+  try {
+    const contacts = state.contacts || []
+    if (contacts.length > 0) {
+      const result = await createOrUpdateContacts(
+        adminClient,
+        userId,
+        contacts,
+        memoId,
+        company.id,
+        transcript.meetingDate,
+        await getHostIdentity(adminClient, userId)
+      )
+      contactsCreated = result.createdCount
+      contactIds = result.contactIds
+      if (result.queuedCount > 0) {
+        console.log(`[Pipeline] ${result.queuedCount} people could be more than one contact, awaiting confirmation`)
+      }
+    }
+  } catch (contactError) {
+    console.error('[Pipeline] Contact save error (non-fatal):', contactError)
+  }
+
+  // Link the memo to every company discussed (non-fatal)
+  let mentionedCompanyIds = new Map<string, string>()
+  try {
+    const result = await linkMemoCompanies(
+      adminClient,
+      userId,
+      memoId,
+      { id: company.id, snippet: memo.summary || null },
+      state.mentionedCompanies || [],
+      state.companyConfirmations || []
+    )
+    mentionedCompanyIds = result.companyIds
+  } catch (linkError) {
+    console.error('[Pipeline] Company link error (non-fatal):', linkError)
+    ctx.warn(`Companies discussed could not be linked: ${linkError instanceof Error ? linkError.message : 'unknown error'}`)
+  }
+
+  // Save metric figures against the companies they're about (non-fatal)
+  try {
+    await saveCompanyMetrics(
+      adminClient,
+      userId,
+      memoId,
+      transcript.meetingDate,
+      state.metrics || [],
+      name => {
+        if (!name || (company.name && normalizeKey(name) === normalizeKey(company.name))) return company.id
+        return mentionedCompanyIds.get(normalizeKey(name)) || null
+      }
+    )
+  } catch (metricsError) {
+    console.error('[Pipeline] Metrics save error (non-fatal):', metricsError)
+    ctx.warn(`Metrics could not be saved: ${metricsError instanceof Error ? metricsError.message : 'unknown error'}`)
+  }
+
+  // Close reminders this meeting shows were done (non-fatal)
+  try {
+    const { closed, queued } = await saveReminderFulfillments(adminClient, userId, memoId, state.fulfillments || [])
+    if (closed > 0 || queued > 0) {
+      console.log(`[Pipeline] Closed ${closed} fulfilled reminders, ${queued} awaiting confirmation`)
+    }
+  } catch (fulfillmentError) {
+    console.error('[Pipeline] Fulfillment save error (non-fatal):', fulfillmentError)
+    ctx.warn(`Fulfilled reminders could not be closed: ${fulfillmentError instanceof Error ? fulfillmentError.message : 'unknown error'}`)
+  }
+
+  // Save reminders (non-fatal)
+  let remindersCreated = 0
+  try {
+    const commitments = state.commitments || []
+    if (commitments.length > 0) {
+      remindersCreated = await createReminders(
+        adminClient,
+        userId,
+        commitments,
+        memoId,
+        company.id,
+        contactIds,
+        transcript.meetingDate,
+        await getUserTimeZone(adminClient, userId)
+      )
+    }
+  } catch (reminderError) {
+    console.error('[Pipeline] Reminder save error (non-fatal):', reminderError)
+  }
+
+  // Mark transcript as imported (for idempotency)
+  if (source === 'fireflies' && transcriptId) {
+    const { error: importError } = await (adminClient
+      .from('imported_transcripts') as ReturnType<typeof adminClient.from>)
+      .upsert({
+        user_id: userId,
+        source: 'fireflies',
+        source_id: transcriptId,
+        memo_id: memoId,
+      } as never, { onConflict: 'user_id,source,source_id' }) as { error: unknown }
+
+    if (importError) {
+      console.error('[Pipeline] Import tracking error:', importError)
+    }
+  }
+
+  return { saved: { memoId, contactsCreated, remindersCreated, tasksCreated } }
+}
+
+/**
+ * Stage 7: File to Google Drive (optional, never fails the run)
+ */
+async function fileToDriveStage({ adminClient, input, state }: StageContext): Promise<Partial<PipelineState>> {
+  const { userId } = input
+  const transcript = need(state, 'transcript')
+  const memo = need(state, 'memo')
+  const { memoId } = need(state, 'saved')
+
+  try {
+    const { data: googleIntegration } = await (adminClient
+      .from('integrations') as ReturnType<typeof adminClient.from>)
+      .select('credentials')
+      .eq('user_id', userId)
+      .eq('provider', 'google')
+      .eq('status', 'active')
+      .single() as { data: { credentials: { access_token?: string; refresh_token?: string; drive_folder_id?: string } | null } | null }
+
+    const credentials = googleIntegration?.credentials
+    if (!credentials?.access_token) {
+      return { drive: { filed: false, url: null } }
+    }
+
+    // Update the memo's existing doc (reprocessing, or a resumed job) instead of adding another
+    const { data: filed } = await (adminClient
+      .from('memos') as ReturnType<typeof adminClient.from>)
+      .select('drive_file_id')
+      .eq('id', memoId)
+      .maybeSingle() as { data: { drive_file_id: string | null } | null }
+
+    console.log(`[Pipeline] Filing to Google Drive... (type: ${state.meetingType})`)
+    const driveResult = await createMemoInDrive(
+      credentials.access_token,
+      credentials.refresh_token,
+      credentials.drive_folder_id,
+      userId,
+      {
+        title: transcript.title,
+        content: memo.content,
+        summary: memo.summary,
+        meetingDate: transcript.meetingDate,
+        companyName: state.company?.name || null,
+        meetingType: state.meetingType,
+        citations: memo.citations,
+      },
+      filed?.drive_file_id || undefined
+    )
+
+    if (!driveResult) {
+      return { drive: { filed: false, url: null } }
+    }
+
+    await (adminClient.from('memos') as ReturnType<typeof adminClient.from>)
+      .update({
+        drive_file_id: driveResult.fileId,
+        drive_web_view_link: driveResult.webViewLink,
+      } as never)
+      .eq('id', memoId)
+
+    // Remember the folder if it was newly created
+    if (driveResult.folderId && driveResult.folderId !== credentials.drive_folder_id) {
+      await (adminClient.from('integrations') as ReturnType<typeof adminClient.from>)
+        .update({
+          credentials: { ...credentials, drive_folder_id: driveResult.folderId },
+        } as never)
+        .eq('user_id', userId)
+        .eq('provider', 'google')
+    }
+
+    console.log(`[Pipeline] Filed to Google Drive: ${driveResult.webViewLink}`)
+    return { drive: { filed: true, url: driveResult.webViewLink } }
+  } catch (driveError) {
+    console.error('[Pipeline] Drive filing error (non-fatal):', driveError)
+    return { drive: { filed: false, url: null } }
+  }
+}
+
+/**
+ * Stage 8: Email notification and analytics (never fails the run)
+ */
+async function notifyStage({ adminClient, input, state }: StageContext): Promise<Partial<PipelineState>> {
+  const saved = need(state, 'saved')
+  const companyName = state.company?.name || null
+
+  // The user asked for a reprocess and is looking at the memo; no email
+  if (input.reprocess) {
+    await trackServerEvent(input.userId, 'memo_reprocessed', {
+      meeting_type: state.meetingType || null,
+      model: input.reprocess.model || null,
+    })
+    return {}
+  }
+
+  await sendEmailNotification(adminClient, input.userId, need(state, 'transcript').title, companyName, saved.memoId)
+
+  await trackServerEvent(input.userId, 'memo_synced', {
+    source: input.source,
+    company_name: companyName,
+    contacts_created: saved.contactsCreated,
+    reminders_created: saved.remindersCreated,
+  })
+
+  return {}
+}
+
+/**
+ * The processing pipeline, in execution order
+ */
+export const PIPELINE_STAGES: PipelineStage[] = [
+  { name: 'fetch', step: 'fetching', progress: 10, run: fetchStage },
+  { name: 'classify', step: 'analyzing', progress: 20, run: classifyStage },
+  { name: 'detect-company', step: 'extracting', progress: 30, run: detectCompanyStage },
+  { name: 'generate', step: 'generating', progress: 45, run: generateStage },
+  { name: 'extract-contacts', step: 'extracting', progress: 60, run: extractContactsStage },
+  { name: 'extract-commitments', step: 'extracting', progress: 70, run: extractCommitmentsStage },
+  { name: 'extract-tasks', step: 'extracting', progress: 75, run: extractTasksStage },
+  { name: 'extract-metrics', step: 'extracting', progress: 80, run: extractMetricsStage },
+  { name: 'detect-fulfillment', step: 'extracting', progress: 82, run: detectFulfillmentStage },
+  { name: 'save', step: 'saving', progress: 85, run: saveStage },
+  { name: 'file-to-drive', step: 'filing', progress: 95, run: fileToDriveStage },
+  { name: 'notify', step: 'notifying', progress: 98, run: notifyStage },
+]
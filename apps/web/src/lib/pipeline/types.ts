@@ -0,0 +1,205 @@
+import type { createAdminClient } from '@/lib/supabase/server'
+import type { MemoCitation } from '@/lib/citations'
+import type { Utterance } from '@/lib/transcripts'
+import type { CompanyResolution } from '@/lib/company-detection'
+import type { MetricFigure } from '@/lib/metrics'
+import type { DetectedFulfillment } from '@/lib/fulfillment'
+import type { ExtractedCommitment, ExtractedCompanyMention, ExtractedContact, ExtractedTask } from './extractors'
+
+export type TranscriptSource = 'fireflies' | 'granola' | 'google_meet' | 'manual' | 'file'
+
+export interface PipelineInput {
+  source: TranscriptSource
+  transcriptId?: string
+  transcriptContent?: string
+  userId: string
+  jobId?: string
+  metadata?: {
+    title?: string
+    date?: string
+    participants?: string[]
+  }
+  // Regenerate an existing memo from its stored transcript instead of
+  // creating a new one. Title and company edits on the memo are kept.
+  reprocess?: {
+    memoId: string
+    // Use this meeting type instead of classifying again
+    meetingType?: string
+    // Built-in meeting type or memo_templates ID to write the memo with
+    templateId?: string
+    // Model for every call instead of the task defaults
+    model?: string
+  }
+}
+
+export type StageName =
+  | 'fetch'
+  | 'classify'
+  | 'detect-company'
+  | 'generate'
+  | 'extract-contacts'
+  | 'extract-commitments'
+  | 'extract-tasks'
+  | 'extract-metrics'
+  | 'detect-fulfillment'
+  | 'save'
+  | 'file-to-drive'
+  | 'notify'
+
+// Human-readable stage names for the dashboard
+export const STAGE_LABELS: Record<StageName, string> = {
+  'fetch': 'Fetch transcript',
+  'classify': 'Classify meeting',
+  'detect-company': 'Detect company',
+  'generate': 'Generate memo',
+  'extract-contacts': 'Extract contacts',
+  'extract-commitments': 'Extract commitments',
+  'extract-tasks': 'Extract tasks',
+  'extract-metrics': 'Extract metrics',
+  'detect-fulfillment': 'Detect fulfilled reminders',
+  'save': 'Save memo',
+  'file-to-drive': 'File to Google Drive',
+  'notify': 'Send notifications',
+}
+
+/**
+ * Everything the stages produce. Each stage returns a slice of this object,
+ * which is merged into the running state. Values must stay JSON-serializable
+ * so they survive Inngest step memoization.
+ */
+export interface PipelineState {
+  // Set by fetch when the transcript was already imported; the run stops early
+  skippedMemoId?: string
+  transcript?: {
+    text: string
+    title: string
+    meetingDate: string | null
+    participants: string[]
+    utterances: Utterance[]
+    // Where the text can be read again; the fetch checkpoint keeps this
+    // instead of the text and utterances. Absent in older checkpoints,
+    // which hold the full transcript.
+    ref?: TranscriptRef
+  }
+  meetingType?: string
+  company?: {
+    id: string | null
+    name: string | null
+    isNew: boolean
+  }
+  // Other companies that came up; absent in checkpoints written before
+  // mentions were detected
+  mentionedCompanies?: ExtractedCompanyMention[]
+  // Detected companies the user has to pick an existing company for
+  companyConfirmations?: PendingCompanyConfirmation[]
+  memo?: {
+    content: string
+    summary: string
+    // Absent in checkpoints written before citations were generated
+    citations?: MemoCitation[]
+    // Numbers and names in the memo that the transcript doesn't support
+    unverifiedClaims?: number
+    // Built-in meeting type or memo_templates ID the memo was written with
+    templateId?: string
+    // Required sections the memo left out, generated separately
+    filledSections?: string[]
+  }
+  contacts?: ExtractedContact[]
+  commitments?: ExtractedCommitment[]
+  tasks?: ExtractedTask[]
+  // Absent in checkpoints written before metrics were extracted
+  metrics?: MetricFigure[]
+  // Open reminders this meeting shows were done; absent in checkpoints
+  // written before fulfillment was detected
+  fulfillments?: DetectedFulfillment[]
+  saved?: {
+    memoId: string
+    contactsCreated: number
+    remindersCreated: number
+    tasksCreated: number
+  }
+  drive?: {
+    filed: boolean
+    url: string | null
+  }
+}
+
+/**
+ * A transcript stored outside the job: the pasted text in the job's input,
+ * the transcripts row of a reprocessed memo, or the Fireflies meeting
+ */
+export type TranscriptRef =
+  | { kind: 'input' }
+  | { kind: 'memo'; memoId: string }
+  | { kind: 'fireflies'; transcriptId: string }
+
+/**
+ * A detected company that could be one of several existing companies, held
+ * for the user to confirm instead of guessing
+ */
+export interface PendingCompanyConfirmation {
+  name: string
+  role: 'primary' | ExtractedCompanyMention['role']
+  snippet: string
+  website: string | null
+  candidates: CompanyResolution['candidates']
+}
+
+export interface StageContext {
+  adminClient: ReturnType<typeof createAdminClient>
+  input: PipelineInput
+  state: PipelineState
+  // Record a problem the stage recovered from (stored on the job)
+  warn: (message: string) => void
+}
+
+export interface PipelineWarning {
+  stage: StageName
+  message: string
+  at: string
+}
+
+export interface PipelineStage {
+  name: StageName
+  step: string      // processing_jobs.current_step shown in the UI
+  progress: number  // processing_jobs.progress when the stage starts
+  run: (ctx: StageContext) => Promise<Partial<PipelineState>>
+}
+
+/**
+ * Stored in processing_jobs.checkpoints once a stage completes, so a retry
+ * can pick up the stage's output instead of running it again
+ */
+export interface StageCheckpoint {
+  completed_at: string
+  output: Partial<PipelineState>
+}
+
+export type JobCheckpoints = Partial<Record<StageName, StageCheckpoint>>
+
+/**
+ * Executes one named stage. Direct callers just invoke `fn`; the Inngest
+ * function passes `step.run` so each stage is retried and memoized on its own.
+ */
+export type StepRunner = <T>(name: StageName, fn: () => Promise<T>) => Promise<T>
+
+export interface PipelineResult {
+  success: boolean
+  skipped?: boolean
+  // Held back because the user is over their monthly LLM budget; the work
+  // waits in the paused job `jobId`
+  paused?: boolean
+  jobId?: string
+  memoId?: string
+  memoTitle?: string
+  memoContent?: string
+  memoSummary?: string
+  companyId?: string | null
+  companyName?: string
+  meetingType?: string
+  contactsCreated?: number
+  remindersCreated?: number
+  driveWebViewLink?: string | null
+  warnings?: PipelineWarning[]
+  error?: string
+}
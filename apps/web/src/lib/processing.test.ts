@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakeSupabase, type FakeSupabase } from '@/test/supabase'
+import { runPipeline } from '@/lib/pipeline'
+import { processPendingJobs, retryJob, STALE_JOB_MS } from './processing'
+
+const server = vi.hoisted(() => ({ client: null as unknown }))
+vi.mock('@/lib/supabase/server', () => ({
+  createAdminClient: () => server.client,
+  createClient: async () => server.client,
+}))
+vi.mock('@/lib/pipeline', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/pipeline')>(),
+  runPipeline: vi.fn(),
+}))
+
+const USER_ID = 'user-1'
+
+function job(id: string, status: string, minutesAgo: number, checkpoints = {}) {
+  const at = new Date(Date.now() - minutesAgo * 60 * 1000).toISOString()
+  return { id, user_id: USER_ID, source: 'manual', source_id: null, status, metadata: {}, checkpoints, created_at: at, updated_at: at }
+}
+
+let db: FakeSupabase
+
+beforeEach(() => {
+  vi.mocked(runPipeline).mockReset().mockResolvedValue({ success: true, memoId: 'memo-1' })
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+function seed(...jobs: Array<ReturnType<typeof job>>) {
+  db = createFakeSupabase({ processing_jobs: jobs })
+  server.client = db.client
+}
+
+describe('retryJob', () => {
+  it('resumes a job that stopped part way through a stage', async () => {
+    seed(job('job-1', 'processing', STALE_JOB_MS / 60_000 + 1, { fetch: { completed_at: 'x', output: {} } }))
+
+    const result = await retryJob('job-1', USER_ID)
+
+    expect(result).toMatchObject({ success: true, memoId: 'memo-1' })
+    expect(runPipeline).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job-1' }))
+  })
+
+  it('leaves a job that is still running alone', async () => {
+    seed(job('job-1', 'processing', 1))
+
+    expect(await retryJob('job-1', USER_ID)).toEqual({ success: true, alreadyProcessed: true })
+    expect(runPipeline).not.toHaveBeenCalled()
+  })
+})
+
+describe('processPendingJobs', () => {
+  it('picks up stalled jobs along with pending ones', async () => {
+    seed(
+      job('stalled', 'processing', 30),
+      job('running', 'processing', 1),
+      job('pending', 'pending', 2)
+    )
+
+    expect(await processPendingJobs()).toBe(2)
+    expect(vi.mocked(runPipeline).mock.calls.map(([input]) => input.jobId).sort()).toEqual(['pending', 'stalled'])
+  })
+})
+
+describe('claiming jobs', () => {
+  it('runs a job once when a retry and the cron reach it together', async () => {
+    seed(job('job-1', 'failed', 5))
+
+    const [retried, processed] = await Promise.all([retryJob('job-1', USER_ID), processPendingJobs()])
+
+    expect(runPipeline).toHaveBeenCalledTimes(1)
+    expect([retried.alreadyProcessed, processed === 0]).toContain(true)
+  })
+
+  it('runs a job once when the cron runs twice', async () => {
+    seed(job('job-1', 'pending', 1))
+
+    const counts = await Promise.all([processPendingJobs(), processPendingJobs()])
+
+    expect(counts.sort()).toEqual([0, 1])
+    expect(runPipeline).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import { completeStructured, parseStructured, StructuredOutputError } from './structured-output'
+
+const { completeText } = vi.hoisted(() => ({
+  completeText: vi.fn<(task: string, prompt: string, systemPrompt?: string) => Promise<string>>(),
+}))
+vi.mock('@/lib/llm', () => ({ completeText }))
+
+const schema = z.object({ name: z.string(), count: z.number() })
+
+describe('parseStructured', () => {
+  it('reads JSON wrapped in code fences and prose', () => {
+    const raw = 'Here you go:\n```json\n{"name": "Acme", "count": 2}\n```\nAnything else?'
+    expect(parseStructured(raw, schema, 'object')).toEqual({ success: true, data: { name: 'Acme', count: 2 } })
+  })
+
+  it('reads an array when asked for one', () => {
+    expect(parseStructured('[1, 2]', z.array(z.number()), 'array')).toEqual({ success: true, data: [1, 2] })
+  })
+
+  it('reports a response with no JSON', () => {
+    expect(parseStructured('I could not find anything.', schema, 'object')).toEqual({
+      success: false,
+      issues: ['No JSON object found in response'],
+    })
+  })
+
+  it('reports malformed JSON', () => {
+    const result = parseStructured('{"name": "Acme",}', schema, 'object')
+    expect(result.success).toBe(false)
+  })
+
+  it('reports schema issues with their path', () => {
+    const result = parseStructured('{"name": "Acme", "count": "two"}', schema, 'object')
+    expect(result.success).toBe(false)
+    if (!result.success) expect(result.issues[0]).toMatch(/^count: /)
+  })
+})
+
+describe('completeStructured', () => {
+  beforeEach(() => {
+    completeText.mockReset()
+  })
+
+  it('returns valid output without a repair call', async () => {
+    completeText.mockResolvedValueOnce('{"name": "Acme", "count": 2}')
+
+    await expect(completeStructured('memo', 'prompt', schema, { label: 'test', shape: 'object' }))
+      .resolves.toEqual({ name: 'Acme', count: 2 })
+    expect(completeText).toHaveBeenCalledTimes(1)
+  })
+
+  it('asks the model to repair invalid output once, listing the problems', async () => {
+    completeText
+      .mockResolvedValueOnce('{"name": "Acme"}')
+      .mockResolvedValueOnce('{"name": "Acme", "count": 3}')
+
+    await expect(completeStructured('memo', 'prompt', schema, { label: 'test', shape: 'object' }))
+      .resolves.toEqual({ name: 'Acme', count: 3 })
+
+    const [task, repairPrompt] = completeText.mock.calls[1]
+    expect(task).toBe('repair')
+    expect(repairPrompt).toContain('- count: ')
+    expect(repairPrompt).toContain('{"name": "Acme"}')
+    expect(repairPrompt).toContain('Original instructions:\nprompt')
+  })
+
+  it('fails with the repaired output when the repair is still invalid', async () => {
+    completeText.mockResolvedValueOnce('nope').mockResolvedValueOnce('still nope')
+
+    const error = await completeStructured('memo', 'prompt', schema, { label: 'test', shape: 'object' })
+      .catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(StructuredOutputError)
+    expect((error as InstanceType<typeof StructuredOutputError>).raw).toBe('still nope')
+    expect(completeText).toHaveBeenCalledTimes(2)
+  })
+})
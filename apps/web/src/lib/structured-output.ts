@@ -0,0 +1,99 @@
+import { z } from 'zod'
+import { completeText, type LLMTask } from '@/lib/llm'
+
+/**
+ * Structured LLM Output
+ *
+ * Extractors ask the model for JSON. Responses are validated against a zod
+ * schema; when validation fails the model gets one chance to repair its own
+ * output before the call fails with a StructuredOutputError.
+ */
+
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly label: string,
+    public readonly issues: string[],
+    public readonly raw: string
+  ) {
+    super(`invalid model output after repair (${issues.slice(0, 3).join('; ')})`)
+    this.name = 'StructuredOutputError'
+  }
+}
+
+type ParseResult<T> = { success: true; data: T } | { success: false; issues: string[] }
+
+/**
+ * Pull the JSON value out of a model response (tolerates code fences and prose around it)
+ */
+function extractJson(raw: string, shape: 'object' | 'array'): unknown {
+  const pattern = shape === 'array' ? /\[[\s\S]*\]/ : /\{[\s\S]*\}/
+  const match = raw.match(pattern)
+  if (!match) {
+    throw new Error(`No JSON ${shape} found in response`)
+  }
+  return JSON.parse(match[0])
+}
+
+/**
+ * Parse and validate a model response
+ */
+export function parseStructured<T>(raw: string, schema: z.ZodType<T>, shape: 'object' | 'array'): ParseResult<T> {
+  let json: unknown
+  try {
+    json = extractJson(raw, shape)
+  } catch (error) {
+    return { success: false, issues: [error instanceof Error ? error.message : 'Invalid JSON'] }
+  }
+
+  const result = schema.safeParse(json)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    ),
+  }
+}
+
+/**
+ * Run an LLM task and validate the JSON it returns, with one repair round-trip
+ */
+export async function completeStructured<T>(
+  task: LLMTask,
+  prompt: string,
+  schema: z.ZodType<T>,
+  options: { label: string; shape: 'object' | 'array'; systemPrompt?: string }
+): Promise<T> {
+  const { label, shape, systemPrompt } = options
+
+  const raw = await completeText(task, prompt, systemPrompt)
+  const first = parseStructured(raw, schema, shape)
+  if (first.success) return first.data
+
+  console.warn(`[Structured] ${label} failed validation, requesting repair:`, first.issues)
+
+  const repairPrompt = `Your previous response could not be used because it did not match the required format.
+
+Problems found:
+${first.issues.map(issue => `- ${issue}`).join('\n')}
+
+Your previous response:
+${raw.slice(0, 8000)}
+
+Return ONLY the corrected JSON ${shape}, following the original instructions below. No other text.
+
+Original instructions:
+${prompt}`
+
+  const repaired = await completeText('repair', repairPrompt, systemPrompt)
+  const second = parseStructured(repaired, schema, shape)
+  if (second.success) {
+    console.log(`[Structured] ${label} repaired successfully`)
+    return second.data
+  }
+
+  throw new StructuredOutputError(label, second.issues, repaired)
+}
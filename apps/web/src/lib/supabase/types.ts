@@ -18,6 +18,11 @@ export interface Database {
           settings: Json
           notification_email: string | null
           digest_frequency: 'never' | 'daily' | 'weekly' | 'monthly'
+          llm_monthly_budget_usd: number | null
+          host_names: string[]
+          host_emails: string[]
+          colleague_aliases: string[]
+          timezone: string | null
           created_at: string
           updated_at: string
         }
@@ -29,6 +34,11 @@ export interface Database {
           settings?: Json
           notification_email?: string | null
           digest_frequency?: 'never' | 'daily' | 'weekly' | 'monthly'
+          llm_monthly_budget_usd?: number | null
+          host_names?: string[]
+          host_emails?: string[]
+          colleague_aliases?: string[]
+          timezone?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -40,6 +50,11 @@ export interface Database {
           settings?: Json
           notification_email?: string | null
           digest_frequency?: 'never' | 'daily' | 'weekly' | 'monthly'
+          llm_monthly_budget_usd?: number | null
+          host_names?: string[]
+          host_emails?: string[]
+          colleague_aliases?: string[]
+          timezone?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -181,6 +196,7 @@ export interface Database {
           title: string
           content: string
           summary: string | null
+          citations: Json
           meeting_date: string | null
           duration_minutes: number | null
           participants: string[] | null
@@ -201,6 +217,7 @@ export interface Database {
           title: string
           content: string
           summary?: string | null
+          citations?: Json
           meeting_date?: string | null
           duration_minutes?: number | null
           participants?: string[] | null
@@ -221,6 +238,7 @@ export interface Database {
           title?: string
           content?: string
           summary?: string | null
+          citations?: Json
           meeting_date?: string | null
           duration_minutes?: number | null
           participants?: string[] | null
@@ -246,6 +264,7 @@ export interface Database {
           created_at: string
           updated_at: string
           completed_at: string | null
+          fingerprint: string | null
         }
         Insert: {
           id?: string
@@ -260,6 +279,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
           completed_at?: string | null
+          fingerprint?: string | null
         }
         Update: {
           id?: string
@@ -274,6 +294,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
           completed_at?: string | null
+          fingerprint?: string | null
         }
       }
       conversations: {
@@ -334,11 +355,14 @@ export interface Database {
           user_id: string
           source: string
           source_id: string | null
-          status: 'pending' | 'processing' | 'completed' | 'failed'
+          status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused'
           current_step: string | null
           progress: number
           result: Json
           error: string | null
+          failed_stage: string | null
+          checkpoints: Json
+          warnings: Json
           metadata: Json
           created_at: string
           updated_at: string
@@ -348,11 +372,14 @@ export interface Database {
           user_id: string
           source: string
           source_id?: string | null
-          status?: 'pending' | 'processing' | 'completed' | 'failed'
+          status?: 'pending' | 'processing' | 'completed' | 'failed' | 'paused'
           current_step?: string | null
           progress?: number
           result?: Json
           error?: string | null
+          failed_stage?: string | null
+          checkpoints?: Json
+          warnings?: Json
           metadata?: Json
           created_at?: string
           updated_at?: string
@@ -362,11 +389,14 @@ export interface Database {
           user_id?: string
           source?: string
           source_id?: string | null
-          status?: 'pending' | 'processing' | 'completed' | 'failed'
+          status?: 'pending' | 'processing' | 'completed' | 'failed' | 'paused'
           current_step?: string | null
           progress?: number
           result?: Json
           error?: string | null
+          failed_stage?: string | null
+          checkpoints?: Json
+          warnings?: Json
           metadata?: Json
           created_at?: string
           updated_at?: string
@@ -407,6 +437,439 @@ export interface Database {
           created_at?: string
         }
       }
+      llm_usage: {
+        Row: {
+          id: string
+          user_id: string
+          job_id: string | null
+          stage: string | null
+          task: string
+          model: string
+          input_tokens: number
+          output_tokens: number
+          latency_ms: number
+          cost_usd: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          job_id?: string | null
+          stage?: string | null
+          task: string
+          model: string
+          input_tokens?: number
+          output_tokens?: number
+          latency_ms?: number
+          cost_usd?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          job_id?: string | null
+          stage?: string | null
+          task?: string
+          model?: string
+          input_tokens?: number
+          output_tokens?: number
+          latency_ms?: number
+          cost_usd?: number
+          created_at?: string
+        }
+      }
+      memo_templates: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string
+          meeting_type: string
+          is_active: boolean
+          system_prompt: string
+          memo_prompt: string
+          sections: Json
+          detection_keywords: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string
+          meeting_type: string
+          is_active?: boolean
+          system_prompt?: string
+          memo_prompt?: string
+          sections?: Json
+          detection_keywords?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string
+          meeting_type?: string
+          is_active?: boolean
+          system_prompt?: string
+          memo_prompt?: string
+          sections?: Json
+          detection_keywords?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      transcripts: {
+        Row: {
+          id: string
+          user_id: string
+          memo_id: string
+          source: string
+          source_id: string | null
+          title: string | null
+          meeting_date: string | null
+          participants: string[]
+          utterances: Json
+          text: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          memo_id: string
+          source: string
+          source_id?: string | null
+          title?: string | null
+          meeting_date?: string | null
+          participants?: string[]
+          utterances?: Json
+          text?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          memo_id?: string
+          source?: string
+          source_id?: string | null
+          title?: string | null
+          meeting_date?: string | null
+          participants?: string[]
+          utterances?: Json
+          text?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      memo_companies: {
+        Row: {
+          id: string
+          user_id: string
+          memo_id: string
+          company_id: string
+          role: 'primary' | 'discussed' | 'competitor' | 'co_investor'
+          snippet: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          memo_id: string
+          company_id: string
+          role?: 'primary' | 'discussed' | 'competitor' | 'co_investor'
+          snippet?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          memo_id?: string
+          company_id?: string
+          role?: 'primary' | 'discussed' | 'competitor' | 'co_investor'
+          snippet?: string | null
+          created_at?: string
+        }
+      }
+      company_confirmations: {
+        Row: {
+          id: string
+          user_id: string
+          memo_id: string
+          detected_name: string
+          role: 'primary' | 'discussed' | 'competitor' | 'co_investor'
+          snippet: string | null
+          website: string | null
+          candidates: Json
+          metrics: Json
+          status: 'pending' | 'confirmed' | 'dismissed'
+          company_id: string | null
+          created_at: string
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          memo_id: string
+          detected_name: string
+          role?: 'primary' | 'discussed' | 'competitor' | 'co_investor'
+          snippet?: string | null
+          website?: string | null
+          candidates?: Json
+          metrics?: Json
+          status?: 'pending' | 'confirmed' | 'dismissed'
+          company_id?: string | null
+          created_at?: string
+          resolved_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          memo_id?: string
+          detected_name?: string
+          role?: 'primary' | 'discussed' | 'competitor' | 'co_investor'
+          snippet?: string | null
+          website?: string | null
+          candidates?: Json
+          metrics?: Json
+          status?: 'pending' | 'confirmed' | 'dismissed'
+          company_id?: string | null
+          created_at?: string
+          resolved_at?: string | null
+        }
+      }
+      company_merges: {
+        Row: {
+          id: string
+          user_id: string
+          company_id: string | null
+          company_before: Json
+          merged_companies: Json
+          moved_rows: Json
+          memo_companies_before: Json
+          created_at: string
+          undone_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          company_id?: string | null
+          company_before?: Json
+          merged_companies?: Json
+          moved_rows?: Json
+          memo_companies_before?: Json
+          created_at?: string
+          undone_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          company_id?: string | null
+          company_before?: Json
+          merged_companies?: Json
+          moved_rows?: Json
+          memo_companies_before?: Json
+          created_at?: string
+          undone_at?: string | null
+        }
+      }
+      company_metrics: {
+        Row: {
+          id: string
+          user_id: string
+          company_id: string
+          memo_id: string
+          metric: 'arr' | 'mrr' | 'revenue_growth' | 'burn' | 'runway' | 'headcount' | 'raise_amount' | 'valuation'
+          value: number
+          unit: string
+          period: string | null
+          as_of: string
+          quote: string | null
+          speaker: string | null
+          utterance_index: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          company_id: string
+          memo_id: string
+          metric: 'arr' | 'mrr' | 'revenue_growth' | 'burn' | 'runway' | 'headcount' | 'raise_amount' | 'valuation'
+          value: number
+          unit: string
+          period?: string | null
+          as_of: string
+          quote?: string | null
+          speaker?: string | null
+          utterance_index?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          company_id?: string
+          memo_id?: string
+          metric?: 'arr' | 'mrr' | 'revenue_growth' | 'burn' | 'runway' | 'headcount' | 'raise_amount' | 'valuation'
+          value?: number
+          unit?: string
+          period?: string | null
+          as_of?: string
+          quote?: string | null
+          speaker?: string | null
+          utterance_index?: number | null
+          created_at?: string
+        }
+      }
+      reminder_fulfillments: {
+        Row: {
+          id: string
+          user_id: string
+          reminder_id: string
+          memo_id: string
+          evidence: string | null
+          confidence: number
+          status: 'pending' | 'auto' | 'confirmed' | 'dismissed'
+          created_at: string
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          reminder_id: string
+          memo_id: string
+          evidence?: string | null
+          confidence?: number
+          status?: 'pending' | 'auto' | 'confirmed' | 'dismissed'
+          created_at?: string
+          resolved_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          reminder_id?: string
+          memo_id?: string
+          evidence?: string | null
+          confidence?: number
+          status?: 'pending' | 'auto' | 'confirmed' | 'dismissed'
+          created_at?: string
+          resolved_at?: string | null
+        }
+      }
+      contact_aliases: {
+        Row: {
+          id: string
+          user_id: string
+          contact_id: string
+          kind: 'name' | 'email' | 'handle'
+          value: string
+          normalized: string
+          source: 'pipeline' | 'manual' | 'review' | 'merge'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          contact_id: string
+          kind: 'name' | 'email' | 'handle'
+          value: string
+          normalized: string
+          source?: 'pipeline' | 'manual' | 'review' | 'merge'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          contact_id?: string
+          kind?: 'name' | 'email' | 'handle'
+          value?: string
+          normalized?: string
+          source?: 'pipeline' | 'manual' | 'review' | 'merge'
+          created_at?: string
+        }
+      }
+      contact_confirmations: {
+        Row: {
+          id: string
+          user_id: string
+          memo_id: string
+          detected_name: string
+          extracted: Json
+          candidates: Json
+          status: 'pending' | 'confirmed' | 'dismissed'
+          contact_id: string | null
+          created_at: string
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          memo_id: string
+          detected_name: string
+          extracted?: Json
+          candidates?: Json
+          status?: 'pending' | 'confirmed' | 'dismissed'
+          contact_id?: string | null
+          created_at?: string
+          resolved_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          memo_id?: string
+          detected_name?: string
+          extracted?: Json
+          candidates?: Json
+          status?: 'pending' | 'confirmed' | 'dismissed'
+          contact_id?: string | null
+          created_at?: string
+          resolved_at?: string | null
+        }
+      }
+      contact_merges: {
+        Row: {
+          id: string
+          user_id: string
+          contact_id: string | null
+          contact_before: Json
+          merged_contacts: Json
+          moved_rows: Json
+          contact_memos_before: Json
+          aliases_before: Json
+          added_alias_ids: string[]
+          created_at: string
+          undone_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          contact_id?: string | null
+          contact_before?: Json
+          merged_contacts?: Json
+          moved_rows?: Json
+          contact_memos_before?: Json
+          aliases_before?: Json
+          added_alias_ids?: string[]
+          created_at?: string
+          undone_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          contact_id?: string | null
+          contact_before?: Json
+          merged_contacts?: Json
+          moved_rows?: Json
+          contact_memos_before?: Json
+          aliases_before?: Json
+          added_alias_ids?: string[]
+          created_at?: string
+          undone_at?: string | null
+        }
+      }
     }
     Functions: {
       search_memos: {
@@ -449,6 +912,67 @@ export interface Database {
         }
         Returns: Json
       }
+      search_transcripts: {
+        Args: {
+          search_query: string
+          p_user_id: string
+          result_limit?: number
+        }
+        Returns: {
+          memo_id: string
+          title: string | null
+          meeting_date: string | null
+          snippet: string
+          rank: number
+        }[]
+      }
+      get_llm_usage_summary: {
+        Args: {
+          p_user_id: string
+          p_since: string
+        }
+        Returns: {
+          stage: string
+          calls: number
+          input_tokens: number
+          output_tokens: number
+          cost_usd: number
+        }[]
+      }
+      merge_companies: {
+        Args: {
+          p_user_id: string
+          p_company_id: string
+          p_duplicate_ids: string[]
+          p_updates: Json
+          p_company_before: Json
+        }
+        Returns: string
+      }
+      undo_company_merge: {
+        Args: {
+          p_user_id: string
+          p_merge_id: string
+        }
+        Returns: undefined
+      }
+      merge_contacts: {
+        Args: {
+          p_user_id: string
+          p_contact_id: string
+          p_duplicate_ids: string[]
+          p_updates: Json
+          p_contact_before: Json
+        }
+        Returns: string
+      }
+      undo_contact_merge: {
+        Args: {
+          p_user_id: string
+          p_merge_id: string
+        }
+        Returns: undefined
+      }
     }
   }
 }
@@ -464,6 +988,17 @@ export type Conversation = Database['public']['Tables']['conversations']['Row']
 export type Message = Database['public']['Tables']['messages']['Row']
 export type ProcessingJob = Database['public']['Tables']['processing_jobs']['Row']
 export type MemoRevision = Database['public']['Tables']['memo_revisions']['Row']
+export type LLMUsageRow = Database['public']['Tables']['llm_usage']['Row']
+export type Transcript = Database['public']['Tables']['transcripts']['Row']
+export type MemoTemplateRow = Database['public']['Tables']['memo_templates']['Row']
+export type MemoCompany = Database['public']['Tables']['memo_companies']['Row']
+export type CompanyConfirmation = Database['public']['Tables']['company_confirmations']['Row']
+export type CompanyMerge = Database['public']['Tables']['company_merges']['Row']
+export type CompanyMetric = Database['public']['Tables']['company_metrics']['Row']
+export type ReminderFulfillment = Database['public']['Tables']['reminder_fulfillments']['Row']
+export type ContactAlias = Database['public']['Tables']['contact_aliases']['Row']
+export type ContactConfirmation = Database['public']['Tables']['contact_confirmations']['Row']
+export type ContactMerge = Database['public']['Tables']['contact_merges']['Row']
 
 // Insert types
 export type NewCompany = Database['public']['Tables']['companies']['Insert']
@@ -0,0 +1,221 @@
+import { z } from 'zod'
+import type { createAdminClient } from '@/lib/supabase/server'
+import type { Json, MemoTemplateRow } from '@/lib/supabase/types'
+import {
+  DEFAULT_TEMPLATE,
+  MEMO_TEMPLATES,
+  getTemplateById,
+  isMeetingType,
+  templateMeetingType,
+  type MemoTemplate,
+  type TemplateSection,
+} from './index'
+
+/**
+ * Custom Templates
+ *
+ * Users keep their own edited copies of the built-in templates in
+ * memo_templates. An active custom template replaces the built-in for its
+ * meeting type, and a folder can point at any template (built-in or custom)
+ * through folders.template = { "template_id": "..." }.
+ */
+
+type Client = ReturnType<typeof createAdminClient>
+
+export const TemplateSectionInputSchema = z.object({
+  id: z.string().trim().min(1).max(60).regex(/^[a-z0-9-]+$/, 'Section IDs use lowercase letters, numbers and dashes'),
+  title: z.string().trim().min(1, 'Every section needs a title').max(80),
+  prompt: z.string().trim().min(1, 'Every section needs a prompt').max(2000),
+  required: z.boolean(),
+})
+
+export const MemoTemplateInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).default(''),
+  meeting_type: z.string().refine((value): boolean => isMeetingType(value), 'Unknown meeting type'),
+  is_active: z.boolean().default(false),
+  system_prompt: z.string().trim().max(4000).default(''),
+  memo_prompt: z.string().trim().max(2000).default(''),
+  sections: z
+    .array(TemplateSectionInputSchema)
+    .min(1, 'Add at least one section')
+    .max(20)
+    .refine(
+      sections => new Set(sections.map(s => s.title.toLowerCase())).size === sections.length,
+      'Section titles must be unique'
+    ),
+  detection_keywords: z.array(z.string().trim().min(1).max(60)).max(50).default([]),
+})
+
+export type MemoTemplateInput = z.infer<typeof MemoTemplateInputSchema>
+
+/**
+ * A stored template as a MemoTemplate. Empty prompt fields fall back to the
+ * built-in template of the same meeting type.
+ */
+export function rowToTemplate(row: MemoTemplateRow): MemoTemplate {
+  const base = getTemplateById(row.meeting_type)
+  const sections = Array.isArray(row.sections) ? (row.sections as unknown as TemplateSection[]) : []
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || base.description,
+    meetingType: row.meeting_type,
+    classificationHint: base.classificationHint,
+    detectionKeywords: row.detection_keywords?.length ? row.detection_keywords : base.detectionKeywords,
+    systemPrompt: row.system_prompt || base.systemPrompt,
+    memoPrompt: row.memo_prompt || base.memoPrompt,
+    sections: sections.length > 0 ? sections : base.sections,
+  }
+}
+
+/**
+ * Editor input for a copy of a template
+ */
+export function templateToInput(template: MemoTemplate, name: string): MemoTemplateInput {
+  return {
+    name,
+    description: template.description,
+    meeting_type: templateMeetingType(template),
+    is_active: false,
+    system_prompt: template.systemPrompt,
+    memo_prompt: template.memoPrompt,
+    sections: template.sections.map(section => ({ ...section })),
+    detection_keywords: [...template.detectionKeywords],
+  }
+}
+
+/**
+ * The template ID a folder points at, if any
+ */
+export function folderTemplateId(template: Json | null | undefined): string | null {
+  if (!template || typeof template !== 'object' || Array.isArray(template)) return null
+  const id = template.template_id
+  return typeof id === 'string' && id ? id : null
+}
+
+export async function getCustomTemplates(client: Client, userId: string): Promise<MemoTemplateRow[]> {
+  const { data, error } = await (client
+    .from('memo_templates') as ReturnType<typeof client.from>)
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at') as { data: MemoTemplateRow[] | null; error: Error | null }
+
+  if (error) {
+    console.error('[Templates] Failed to load custom templates:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Only one custom template per meeting type is active at a time: deactivate
+ * the others before activating one
+ */
+export async function deactivateOtherTemplates(client: Client, userId: string, meetingType: string, keepId?: string) {
+  let query = (client
+    .from('memo_templates') as ReturnType<typeof client.from>)
+    .update({ is_active: false } as never)
+    .eq('user_id', userId)
+    .eq('meeting_type', meetingType)
+    .eq('is_active', true)
+
+  if (keepId) query = query.neq('id', keepId)
+  await query
+}
+
+/**
+ * Look up any template by ID: a built-in meeting type or one of the user's
+ * custom templates. Null when the custom template no longer exists.
+ */
+export async function findTemplate(client: Client, userId: string, templateId: string): Promise<MemoTemplate | null> {
+  if (isMeetingType(templateId)) return getTemplateById(templateId)
+
+  const { data } = await (client
+    .from('memo_templates') as ReturnType<typeof client.from>)
+    .select('*')
+    .eq('id', templateId)
+    .eq('user_id', userId)
+    .maybeSingle() as { data: MemoTemplateRow | null }
+
+  return data ? rowToTemplate(data) : null
+}
+
+/**
+ * The template a memo is generated with: the folder's template, else the
+ * user's active template for the meeting type, else the built-in one
+ */
+export async function resolveMemoTemplate(
+  client: Client,
+  userId: string,
+  meetingType: string,
+  folderTemplate?: string | null
+): Promise<MemoTemplate> {
+  if (folderTemplate) {
+    const template = await findTemplate(client, userId, folderTemplate)
+    if (template) return template
+    console.warn(`[Templates] Folder template ${folderTemplate} not found, falling back`)
+  }
+
+  const { data: active } = await (client
+    .from('memo_templates') as ReturnType<typeof client.from>)
+    .select('*')
+    .eq('user_id', userId)
+    .eq('meeting_type', meetingType)
+    .eq('is_active', true)
+    .maybeSingle() as { data: MemoTemplateRow | null }
+
+  return active ? rowToTemplate(active) : getTemplateById(meetingType)
+}
+
+/**
+ * The template an existing memo was written with: the one recorded in its
+ * metadata, else whatever its folder and meeting type resolve to now
+ */
+export async function templateForMemo(
+  client: Client,
+  userId: string,
+  memo: { metadata: Json | null; folder_id: string | null }
+): Promise<MemoTemplate> {
+  const metadata = memo.metadata && typeof memo.metadata === 'object' && !Array.isArray(memo.metadata)
+    ? memo.metadata
+    : {}
+
+  if (typeof metadata.template_id === 'string') {
+    const recorded = await findTemplate(client, userId, metadata.template_id)
+    if (recorded) return recorded
+  }
+
+  let folderTemplate: string | null = null
+  if (memo.folder_id) {
+    const { data: folder } = await (client
+      .from('folders') as ReturnType<typeof client.from>)
+      .select('template')
+      .eq('id', memo.folder_id)
+      .maybeSingle() as { data: { template: Json | null } | null }
+    folderTemplate = folderTemplateId(folder?.template)
+  }
+
+  const meetingType = typeof metadata.meeting_type === 'string' ? metadata.meeting_type : DEFAULT_TEMPLATE.id
+  return resolveMemoTemplate(client, userId, meetingType, folderTemplate)
+}
+
+/**
+ * The meeting types to classify into, with the detection keywords of the
+ * user's active custom templates added to their meeting type
+ */
+export async function getClassificationTemplates(client: Client, userId: string): Promise<readonly MemoTemplate[]> {
+  const active = (await getCustomTemplates(client, userId)).filter(row => row.is_active)
+  if (active.length === 0) return MEMO_TEMPLATES
+
+  return MEMO_TEMPLATES.map(template => {
+    const custom = active.find(row => row.meeting_type === template.id)
+    if (!custom?.detection_keywords?.length) return template
+    return {
+      ...template,
+      detectionKeywords: Array.from(new Set([...template.detectionKeywords, ...custom.detection_keywords])),
+    }
+  })
+}
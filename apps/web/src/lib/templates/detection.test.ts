@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getTemplateById } from '.'
+import { fillMissingSections, regenerateSection } from './detection'
+
+const { completeText } = vi.hoisted(() => ({
+  completeText: vi.fn<(task: string, prompt: string, systemPrompt?: string) => Promise<string>>(),
+}))
+vi.mock('@/lib/llm', () => ({ completeText }))
+
+const template = getTemplateById('founder-pitch')!
+
+// About 40k chars; the churn figure only comes up at the very end
+const LONG_TRANSCRIPT = [
+  ...Array.from({ length: 400 }, (_, i) => `Priya: We talked through slide ${i} of the deck in some detail.`),
+  'Alex: What does churn look like?',
+  'Priya: Monthly churn is 4% across the base.',
+].join('\n')
+
+function sectionPrompts() {
+  return completeText.mock.calls.filter(([task]) => task === 'template-section').map(([, prompt]) => prompt)
+}
+
+beforeEach(() => {
+  completeText.mockReset()
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  completeText.mockImplementation(async (task, prompt) => {
+    if (task !== 'memo-notes') return '- Section body'
+    const point = prompt.includes('churn is 4%') ? 'Monthly churn is 4%' : `Covered ${prompt.match(/part \d+ of \d+/)![0]}`
+    return JSON.stringify({ key_points: [point], metrics: [], quotes: [] })
+  })
+})
+
+describe('regenerateSection', () => {
+  it('writes a short meeting from the transcript', async () => {
+    await regenerateSection('Priya: Monthly churn is 4%.', template, 'executive-summary')
+
+    expect(completeText).toHaveBeenCalledTimes(1)
+    expect(sectionPrompts()[0]).toContain('Transcript:\nPriya: Monthly churn is 4%.')
+  })
+
+  it('writes a long meeting from notes taken across all of it', async () => {
+    await regenerateSection(LONG_TRANSCRIPT, template, 'executive-summary')
+
+    const [prompt] = sectionPrompts()
+    expect(prompt).toContain('- Monthly churn is 4%')
+    expect(prompt).not.toContain('slide 0 of the deck')
+  })
+
+  it('fails when no notes could be taken', async () => {
+    completeText.mockRejectedValue(new Error('overloaded'))
+    const warn = vi.fn()
+
+    await expect(regenerateSection(LONG_TRANSCRIPT, template, 'executive-summary', { warn }))
+      .rejects.toThrow('No notes could be taken on the transcript')
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^Memo notes \(part 1\/\d+\): overloaded$/))
+  })
+})
+
+describe('fillMissingSections', () => {
+  it('takes notes on a long meeting once for every missing section', async () => {
+    const { filled } = await fillMissingSections(LONG_TRANSCRIPT, template, '## Company Overview\n\nLumen Labs')
+
+    const noteCalls = completeText.mock.calls.filter(([task]) => task === 'memo-notes')
+    const parts = Number(noteCalls[0][1].match(/part 1 of (\d+)/)![1])
+    expect(noteCalls).toHaveLength(parts)
+    expect(filled.length).toBeGreaterThan(1)
+    expect(sectionPrompts()).toHaveLength(filled.length)
+    expect(sectionPrompts().every(p => p.includes('- Monthly churn is 4%'))).toBe(true)
+  })
+
+  it('leaves the memo as it is when no notes could be taken', async () => {
+    completeText.mockRejectedValue(new Error('overloaded'))
+    const warn = vi.fn()
+
+    const result = await fillMissingSections(LONG_TRANSCRIPT, template, 'Lumen Labs', { warn })
+
+    expect(result).toEqual({ content: 'Lumen Labs', filled: [] })
+    expect(warn).toHaveBeenLastCalledWith('Fill sections: No notes could be taken on the transcript')
+  })
+})
@@ -1,30 +1,36 @@
-import { generateText } from 'ai'
-import { createAnthropic } from '@ai-sdk/anthropic'
+import { completeText } from '@/lib/llm'
+import { CHUNK_SIZES, chunkTranscript, normalizeKey } from '@/lib/chunking'
+import { formatMeetingNotes, takeMeetingNotes } from '@/lib/meeting-notes'
 import {
   MEMO_TEMPLATES,
   getTemplateById,
+  isMeetingType,
   type MemoTemplate,
   type MeetingType,
+  type TemplateSection,
 } from './index'
 
-const anthropic = createAnthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-})
+const SECTION_HEADER = /^##\s+(.+?)\s*$/
+const SECTION_BOUNDARY = /^#{1,2}\s/
 
 /**
- * Detect the meeting type from transcript content
- * Uses keyword matching first, then AI classification for ambiguous cases
+ * Score every template by how often its detection keywords occur in the
+ * transcript. Returns the clear winner, or null when no template stands out.
+ * The pipeline falls back to this when AI classification fails.
  */
-export async function detectMeetingType(transcript: string): Promise<MeetingType> {
-  // First pass: keyword matching
+export function detectMeetingTypeByKeywords(
+  transcript: string,
+  templates: readonly MemoTemplate[] = MEMO_TEMPLATES
+): MeetingType | null {
   const normalizedTranscript = transcript.toLowerCase()
   const scores: Record<string, number> = {}
 
-  for (const template of MEMO_TEMPLATES) {
+  for (const template of templates) {
     let score = 0
     for (const keyword of template.detectionKeywords) {
-      // Count occurrences of each keyword
-      const regex = new RegExp(`\\b${keyword}\\b`, 'gi')
+      // Count occurrences of each keyword (user-written ones may contain regex characters)
+      const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      const regex = new RegExp(`\\b${escaped}\\b`, 'g')
       const matches = normalizedTranscript.match(regex)
       if (matches) {
         score += matches.length
@@ -39,56 +45,12 @@ export async function detectMeetingType(transcript: string): Promise<MeetingType
     .filter(([, score]) => score === maxScore && score > 0)
     .map(([id]) => id)
 
-  // If there's a clear winner with significant matches, use it
-  if (topTemplates.length === 1 && maxScore >= 5) {
-    return topTemplates[0] as MeetingType
+  // Only a clear winner with significant matches counts
+  if (topTemplates.length === 1 && maxScore >= 5 && isMeetingType(topTemplates[0])) {
+    return topTemplates[0]
   }
 
-  // If unclear, use AI classification
-  return await classifyWithAI(transcript)
-}
-
-/**
- * Use AI to classify the meeting type
- */
-async function classifyWithAI(transcript: string): Promise<MeetingType> {
-  const templateDescriptions = MEMO_TEMPLATES.map(
-    t => `- ${t.id}: ${t.description}`
-  ).join('\n')
-
-  try {
-    const response = await generateText({
-      model: anthropic('claude-3-haiku-20240307'),
-      prompt: `Classify this meeting transcript into one of the following categories:
-
-${templateDescriptions}
-
-Return ONLY the category ID (e.g., "founder-pitch", "customer-call", etc.).
-If unsure, return "internal".
-
-Transcript excerpt:
-${transcript.slice(0, 2000)}`,
-    })
-
-    const classification = response.text.trim().toLowerCase()
-
-    // Validate the classification
-    if (MEMO_TEMPLATES.find(t => t.id === classification)) {
-      return classification as MeetingType
-    }
-
-    // Check for partial matches
-    for (const template of MEMO_TEMPLATES) {
-      if (classification.includes(template.id)) {
-        return template.id as MeetingType
-      }
-    }
-
-    return 'internal'
-  } catch (error) {
-    console.error('AI classification failed:', error)
-    return 'internal'
-  }
+  return null
 }
 
 /**
@@ -110,18 +72,14 @@ export async function generateMemoFromTemplate(
   // Generate content for each section
   for (const section of template.sections) {
     try {
-      const response = await generateText({
-        model: anthropic('claude-3-haiku-20240307'),
-        system: template.systemPrompt,
-        prompt: `From the following meeting transcript, ${section.prompt}
+      const text = await completeText('template-section', `From the following meeting transcript, ${section.prompt}
 
 If the information is not available or not discussed, indicate "Not discussed in meeting."
 
 Transcript:
-${transcript.slice(0, 5000)}`,
-      })
+${transcript.slice(0, 5000)}`, template.systemPrompt)
 
-      const content = response.text.trim()
+      const content = text.trim()
 
       // Only include sections that have meaningful content
       if (content && !content.toLowerCase().includes('not discussed in meeting') || section.required) {
@@ -143,24 +101,24 @@ ${transcript.slice(0, 5000)}`,
  * Useful for preview or when speed is more important than detail
  */
 export async function generateQuickSummary(transcript: string): Promise<string> {
-  const response = await generateText({
-    model: anthropic('claude-3-haiku-20240307'),
-    prompt: `Provide a brief 2-3 sentence summary of this meeting:
+  const text = await completeText('summary', `Provide a brief 2-3 sentence summary of this meeting:
 
-${transcript.slice(0, 3000)}`,
-  })
+${transcript.slice(0, 3000)}`)
 
-  return response.text.trim()
+  return text.trim()
 }
 
 /**
  * Re-generate a specific section of a memo
- * Useful for user-requested regeneration of individual sections
+ * Useful for user-requested regeneration of individual sections. With the
+ * section's current text and an instruction ("focus on unit economics") the
+ * model refines the section instead of starting over.
  */
 export async function regenerateSection(
   transcript: string,
   template: MemoTemplate,
-  sectionId: string
+  sectionId: string,
+  options: { instruction?: string; currentContent?: string; warn?: (message: string) => void } = {}
 ): Promise<string> {
   const section = template.sections.find(s => s.id === sectionId)
 
@@ -168,18 +126,141 @@ export async function regenerateSection(
     throw new Error(`Section ${sectionId} not found in template ${template.id}`)
   }
 
-  const response = await generateText({
-    model: anthropic('claude-3-haiku-20240307'),
-    system: template.systemPrompt,
-    prompt: `From the following meeting transcript, ${section.prompt}
+  const material = await sectionMaterial(transcript, options.warn)
+  return writeSection(material, template, section, options)
+}
 
-Be thorough and extract all relevant details.
+/**
+ * What sections are written from: the transcript when it fits in one prompt,
+ * else notes taken across all of it (as the memo itself is written)
+ */
+async function sectionMaterial(transcript: string, warn?: (message: string) => void): Promise<string> {
+  if (chunkTranscript(transcript, CHUNK_SIZES.memo).length === 1) {
+    return `Transcript:\n${transcript}`
+  }
 
-Transcript:
-${transcript.slice(0, 5000)}`,
+  const notes = await takeMeetingNotes(transcript, warn)
+  if (notes.parts === 0) {
+    throw new Error('No notes could be taken on the transcript')
+  }
+  return formatMeetingNotes(notes)
+}
+
+async function writeSection(
+  material: string,
+  template: MemoTemplate,
+  section: TemplateSection,
+  options: { instruction?: string; currentContent?: string }
+): Promise<string> {
+  const current = options.currentContent?.trim()
+  const instruction = options.instruction?.trim()
+
+  const text = await completeText('template-section', `You are rewriting the "${section.title}" section of a meeting memo.
+
+From the following meeting transcript, ${section.prompt}
+${current ? `\nCurrent version of the section:\n${current}\n` : ''}${instruction ? `\nReviewer's instruction: ${instruction}\n` : ''}
+Be thorough and extract all relevant details. Use bullet points. Write only the section body - no "## ${section.title}" header.
+If the information is not available, write "Not discussed in meeting."
+
+${material}`, template.systemPrompt)
+
+  // Drop a header the model added anyway
+  return text.trim().replace(/^#{1,6}\s.*\n+/, '').trim()
+}
+
+/**
+ * Line range of a "## Title" section in memo content: the header line and
+ * the end (exclusive) before the next section. Null when the memo has none.
+ */
+export function findMemoSection(content: string, title: string): { start: number; end: number } | null {
+  const lines = content.split('\n')
+  const wanted = normalizeKey(title)
+
+  const start = lines.findIndex(line => {
+    const header = line.match(SECTION_HEADER)
+    return !!header && normalizeKey(header[1]) === wanted
   })
+  if (start === -1) return null
+
+  let end = start + 1
+  while (end < lines.length && !SECTION_BOUNDARY.test(lines[end])) end++
+  return { start, end }
+}
+
+/**
+ * Replace a section's body, or add the section when the memo lacks it: before
+ * the next template section the memo has, else at the end
+ */
+export function setMemoSection(content: string, template: MemoTemplate, title: string, body: string): string {
+  const lines = content.split('\n')
+  const existing = findMemoSection(content, title)
+
+  if (existing) {
+    // Keep the blank lines and "---" separators that close the section
+    let end = existing.end
+    while (end > existing.start + 1 && /^\s*(-{3,})?\s*$/.test(lines[end - 1])) end--
+    const spacing = end === existing.end && end < lines.length ? [''] : []
+    lines.splice(existing.start + 1, end - existing.start - 1, '', body.trim(), ...spacing)
+    return lines.join('\n')
+  }
+
+  const block = [`## ${title}`, '', body.trim(), '']
+  const position = template.sections.findIndex(s => normalizeKey(s.title) === normalizeKey(title))
+
+  if (position !== -1) {
+    for (const next of template.sections.slice(position + 1)) {
+      const found = findMemoSection(content, next.title)
+      if (found) {
+        lines.splice(found.start, 0, ...block)
+        return lines.join('\n')
+      }
+    }
+  }
+
+  return `${content.trimEnd()}\n\n${block.join('\n')}`
+}
+
+/**
+ * Generate the required sections validateMemoContent reports missing and add
+ * them to the memo. `prepareBody` runs on each new section before it is
+ * added. Sections that fail to generate are reported through `warn` and
+ * left out.
+ */
+export async function fillMissingSections(
+  transcript: string,
+  template: MemoTemplate,
+  content: string,
+  options: { warn?: (message: string) => void; prepareBody?: (body: string) => string } = {}
+): Promise<{ content: string; filled: string[] }> {
+  const { warn, prepareBody = (body: string) => body } = options
+  const { missingSections } = validateMemoContent(content, template)
+  const filled: string[] = []
+  let result = content
+  if (missingSections.length === 0) return { content, filled }
+
+  // One set of notes serves every missing section
+  let material: string
+  try {
+    material = await sectionMaterial(transcript, warn)
+  } catch (error) {
+    warn?.(`Fill sections: ${error instanceof Error ? error.message : String(error)}`)
+    return { content, filled }
+  }
+
+  for (const title of missingSections) {
+    const section = template.sections.find(s => s.title === title)
+    if (!section) continue
+
+    try {
+      const body = await writeSection(material, template, section, {})
+      result = setMemoSection(result, template, section.title, prepareBody(body))
+      filled.push(title)
+    } catch (error) {
+      warn?.(`Fill section "${title}": ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
 
-  return response.text.trim()
+  return { content: result, filled }
 }
 
 /**
@@ -194,7 +275,7 @@ export function validateMemoContent(
   for (const section of template.sections) {
     if (section.required) {
       // Check if the section header exists in the content
-      if (!content.includes(`## ${section.title}`)) {
+      if (!findMemoSection(content, section.title)) {
         missingSections.push(section.title)
       }
     }
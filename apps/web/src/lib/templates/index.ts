@@ -1,257 +1,511 @@
 /**
  * Memo Templates
  *
- * Templates define the structure and AI prompts for different meeting types.
- * Each template has sections with specific extraction prompts to generate
- * relevant content for that meeting type.
+ * The single registry of meeting types. Each template defines how a meeting
+ * of that type is recognised (description, classification hint, keywords)
+ * and how its memo is written (system prompt, sections). Classification and
+ * memo generation both read from here, so adding a meeting type means adding
+ * one template object.
  */
 
 export interface TemplateSection {
-  id: string
-  title: string
-  prompt: string  // AI extraction prompt for this section
-  required: boolean
+  readonly id: string
+  readonly title: string
+  readonly prompt: string  // AI extraction prompt for this section
+  readonly required: boolean
 }
 
 export interface MemoTemplate {
-  id: string
-  name: string
-  description: string
-  sections: TemplateSection[]
-  detectionKeywords: string[]
-  systemPrompt: string
+  readonly id: string
+  readonly name: string
+  readonly description: string
+  // User templates (see ./custom): the meeting type they are written for.
+  // Built-in templates are their own meeting type.
+  readonly meetingType?: string
+  // Extra signal for the classifier when the description alone is ambiguous
+  readonly classificationHint?: string
+  readonly detectionKeywords: readonly string[]
+  readonly systemPrompt: string
+  // Opening instruction of the memo generation prompt
+  readonly memoPrompt: string
+  readonly sections: readonly TemplateSection[]
 }
 
-export const MEMO_TEMPLATES: MemoTemplate[] = [
+const TEMPLATES = [
   {
     id: 'founder-pitch',
     name: 'Founder Pitch',
-    description: 'For startup pitch meetings and fundraising conversations',
+    description: 'A startup founder pitching their company to a VC for investment',
+    classificationHint: 'a founder is presenting metrics, product, or asking for money',
     detectionKeywords: [
       'pitch', 'fundraising', 'seed', 'series', 'deck', 'invest', 'raise',
       'valuation', 'cap table', 'runway', 'traction', 'MRR', 'ARR', 'growth',
-      'founder', 'co-founder', 'startup', 'venture'
+      'founder', 'co-founder', 'startup', 'venture',
     ],
     systemPrompt: `You are an expert VC analyst generating an investment memo from a founder pitch meeting.
 Focus on extractable investment-relevant information. Be analytical and objective.
 Highlight both opportunities and risks. Use bullet points for clarity.`,
+    memoPrompt: 'Generate a VC investment memo from this founder pitch meeting.',
     sections: [
+      {
+        id: 'executive-summary',
+        title: 'Executive Summary',
+        prompt: `Write a 2-3 sentence overview of the company and the meeting.`,
+        required: true,
+      },
       {
         id: 'company',
         title: 'Company Overview',
-        prompt: `Extract and summarize:
+        prompt: `Summarize the company:
 - Company name and what they do (one sentence)
-- Problem they're solving and why now
+- Current stage (pre-seed, seed, Series A, etc.) and funding history`,
+        required: true,
+      },
+      {
+        id: 'problem-solution',
+        title: 'Problem & Solution',
+        prompt: `Summarize the problem and their answer to it:
+- Problem being solved and why now
+- Their solution/product and key differentiators
+- Competition mentioned and how they compare`,
+        required: true,
+      },
+      {
+        id: 'market',
+        title: 'Market Opportunity',
+        prompt: `Summarize the market:
 - Target market and TAM/SAM/SOM if mentioned
-- Business model (how they make money)
-- Current stage (pre-seed, seed, Series A, etc.)`,
+- Go-to-market strategy`,
+        required: true,
+      },
+      {
+        id: 'business-model',
+        title: 'Business Model',
+        prompt: `Summarize how the business works:
+- How they make money
+- Pricing and unit economics (CAC, LTV, margins) if mentioned`,
         required: true,
       },
       {
         id: 'team',
         title: 'Team',
-        prompt: `Extract information about the founding team:
+        prompt: `Summarize the founding team:
 - Founder names and backgrounds
-- Relevant experience and expertise
-- Team size and key hires
-- Notable advisors or board members
-- Any concerns about team gaps`,
+- Team size and key hires needed
+- Notable advisors or board members`,
         required: true,
       },
       {
         id: 'traction',
-        title: 'Traction & Metrics',
-        prompt: `Extract all quantitative metrics mentioned:
-- Revenue (MRR, ARR, GMV)
-- Growth rates (MoM, YoY)
+        title: 'Traction',
+        prompt: `List all quantitative metrics mentioned:
+- Revenue (MRR, ARR, GMV) and growth rates (MoM, YoY)
 - Users/customers (total, active, paying)
-- Unit economics (CAC, LTV, margins)
 - Key milestones achieved
 Format as bullet points with specific numbers where available.`,
         required: true,
       },
-      {
-        id: 'product',
-        title: 'Product & Differentiation',
-        prompt: `Summarize the product and competitive positioning:
-- Core product/service description
-- Key differentiators and moat
-- Technology advantages if any
-- Competition mentioned and how they compare
-- Product roadmap highlights`,
-        required: true,
-      },
       {
         id: 'ask',
-        title: 'The Ask',
-        prompt: `Extract fundraising details:
-- Amount being raised
-- Valuation or terms
+        title: 'Investment Ask',
+        prompt: `Summarize the fundraise:
+- Amount being raised, valuation or terms
 - Use of funds
-- Timeline and urgency
-- Current investors or commitments`,
+- Timeline, current investors or commitments`,
         required: true,
       },
       {
         id: 'concerns',
-        title: 'Concerns & Risks',
-        prompt: `Identify potential concerns and risks:
-- Market risks
-- Execution risks
+        title: 'Key Concerns',
+        prompt: `Identify risks and red flags:
+- Market, execution and competitive risks
 - Team gaps
-- Competitive threats
-- Any red flags mentioned or implied`,
+- Anything that needs diligence`,
         required: true,
       },
       {
         id: 'next-steps',
         title: 'Next Steps',
-        prompt: `Extract any discussed next steps:
-- Follow-up meetings or calls
-- Due diligence items
-- Introductions to make
-- Materials to review (deck, data room, etc.)
-- Timeline for decision`,
+        prompt: `List the follow-up actions needed:
+- Follow-up meetings, diligence items, materials to review
+- Timeline for a decision`,
         required: true,
       },
     ],
   },
   {
-    id: 'customer-call',
-    name: 'Customer Call',
-    description: 'For customer feedback, product demos, and support calls',
+    id: 'portfolio-update',
+    name: 'Portfolio Update',
+    description: 'Check-in with a portfolio company the VC has already invested in',
+    classificationHint: 'discussing a company the VC already invested in',
     detectionKeywords: [
-      'customer', 'client', 'user', 'feedback', 'feature request', 'bug',
-      'support', 'demo', 'onboarding', 'churn', 'renewal', 'upsell',
-      'product feedback', 'pain point', 'workflow'
+      'portfolio', 'update', 'quarterly', 'monthly', 'progress',
+      'KPIs', 'metrics review', 'runway', 'hiring', 'burn',
     ],
-    systemPrompt: `You are a product manager documenting a customer call.
-Focus on actionable feedback, feature requests, and customer sentiment.
-Identify patterns that could inform product decisions.`,
+    systemPrompt: `You are a VC tracking portfolio company progress.
+Focus on key metrics, challenges, and where support is needed.
+Be objective about progress against goals.`,
+    memoPrompt: 'Generate a portfolio company update memo.',
     sections: [
       {
-        id: 'customer-context',
-        title: 'Customer Context',
-        prompt: `Extract customer information:
-- Company name and size
-- Role of the person(s) on the call
-- How long they've been a customer
-- Their use case and goals
-- Current plan/tier if mentioned`,
+        id: 'status',
+        title: 'Company Status',
+        prompt: `Summarize where the company stands:
+- Company name and current stage`,
         required: true,
       },
       {
-        id: 'feedback',
-        title: 'Product Feedback',
-        prompt: `Summarize all product feedback:
-- What's working well for them
-- Pain points and frustrations
-- Specific features mentioned (positive or negative)
-- Comparison to competitors
-- Workflow or usability issues`,
+        id: 'metrics',
+        title: 'Key Metrics',
+        prompt: `List the key metrics discussed:
+- Revenue, growth, burn rate
+- User/customer metrics
+Compare to previous period or targets if mentioned.`,
         required: true,
       },
       {
-        id: 'feature-requests',
-        title: 'Feature Requests',
-        prompt: `List all feature requests or enhancement suggestions:
-- Specific features requested
-- Why they need each feature
-- Priority/urgency indicated
-- Workarounds they're using currently
-Format as a numbered list with context.`,
+        id: 'progress',
+        title: 'Progress Since Last Check-in',
+        prompt: `Summarize positive developments:
+- Milestones achieved
+- Product updates, customer wins, key hires`,
+        required: true,
+      },
+      {
+        id: 'challenges',
+        title: 'Challenges',
+        prompt: `Identify current challenges:
+- Current obstacles
+- Where they need help`,
         required: true,
       },
       {
-        id: 'sentiment',
-        title: 'Customer Sentiment',
-        prompt: `Assess overall customer sentiment:
-- Satisfaction level (happy, neutral, frustrated)
-- NPS likelihood if discussed
-- Churn risk indicators
-- Expansion/upsell opportunities
-- Relationship health`,
+        id: 'runway',
+        title: 'Runway & Fundraising',
+        prompt: `Summarize the financing picture:
+- Current runway
+- Fundraising plans and timeline`,
         required: true,
       },
       {
         id: 'action-items',
         title: 'Action Items',
-        prompt: `Extract all action items and commitments:
-- Items we committed to
-- Items they committed to
-- Follow-up needed
-- Escalations required
-Include owners and timelines if mentioned.`,
+        prompt: `List how we can help and what follows:
+- Introductions or support requested
+- Follow-ups needed`,
         required: true,
       },
     ],
   },
   {
-    id: 'portfolio-update',
-    name: 'Portfolio Update',
-    description: 'For check-ins with portfolio companies',
+    id: 'due-diligence',
+    name: 'Due Diligence',
+    description: 'Reference calls, background checks, or deep-dive research on a company',
+    classificationHint: 'making reference calls about a founder or company',
     detectionKeywords: [
-      'portfolio', 'update', 'board', 'quarterly', 'monthly', 'progress',
-      'KPIs', 'metrics review', 'runway', 'hiring', 'fundraise', 'exit'
+      'reference', 'diligence', 'background', 'worked with', 'would you back',
+      'red flags', 'deep dive', 'data room', 'customer reference',
     ],
-    systemPrompt: `You are a VC tracking portfolio company progress.
-Focus on key metrics, challenges, and where support is needed.
-Be objective about progress against goals.`,
+    systemPrompt: `You are a VC analyst documenting due diligence on a potential investment.
+Separate what was said from your assessment. Be precise about who said what.`,
+    memoPrompt: 'Generate a due diligence memo.',
     sections: [
       {
-        id: 'metrics-update',
-        title: 'Metrics Update',
-        prompt: `Extract all key metrics discussed:
-- Revenue/ARR and growth
-- User metrics and engagement
-- Burn rate and runway
-- Team size changes
-- Key milestones hit or missed
-Compare to previous period or targets if mentioned.`,
+        id: 'reference',
+        title: 'Reference Overview',
+        prompt: `Summarize the source:
+- Who provided the reference
+- Their relationship to the company or founder`,
         required: true,
       },
       {
-        id: 'progress',
-        title: 'Progress & Wins',
-        prompt: `Summarize positive developments:
-- Major wins and achievements
-- Product launches or updates
-- Customer wins
-- Partnerships announced
-- Team additions`,
+        id: 'findings',
+        title: 'Key Findings',
+        prompt: `Summarize what they said about the company and team.`,
         required: true,
       },
       {
-        id: 'challenges',
-        title: 'Challenges',
-        prompt: `Identify current challenges:
-- Operational issues
-- Market headwinds
-- Team challenges
-- Product setbacks
-- Competitive pressure`,
+        id: 'strengths',
+        title: 'Strengths',
+        prompt: `List the positive aspects mentioned.`,
+        required: true,
+      },
+      {
+        id: 'concerns',
+        title: 'Concerns',
+        prompt: `List any red flags or worries raised.`,
+        required: true,
+      },
+      {
+        id: 'recommendation',
+        title: 'Recommendation',
+        prompt: `Give the overall assessment based on this reference.`,
+        required: true,
+      },
+    ],
+  },
+  {
+    id: 'vc-catchup',
+    name: 'VC Catch-up',
+    description: 'Two or more VCs catching up, sharing deal flow, discussing market trends',
+    classificationHint: 'two VCs are discussing deals, startups, or market trends',
+    detectionKeywords: [
+      'deal flow', 'co-invest', 'syndicate', 'your fund', 'our fund', 'thesis',
+      'portfolio', 'market', 'founders you', 'intro',
+    ],
+    systemPrompt: `You are a VC documenting a catch-up with another investor.
+Capture every company and opportunity mentioned so nothing shared is lost.`,
+    memoPrompt: 'Generate a VC catch-up memo. This is a meeting between investors discussing deals, market trends, and sharing deal flow.',
+    sections: [
+      {
+        id: 'overview',
+        title: 'Meeting Overview',
+        prompt: `Summarize who met and the context.`,
+        required: true,
+      },
+      {
+        id: 'deal-flow',
+        title: 'Deal Flow Shared',
+        prompt: `List the companies discussed or referred:
+- Stage, sector, and any key details for each`,
+        required: true,
+      },
+      {
+        id: 'market-insights',
+        title: 'Market Insights',
+        prompt: `Summarize the market discussion:
+- Trends or themes discussed
+- Sectors getting hot or cooling`,
+        required: true,
+      },
+      {
+        id: 'portfolio-updates',
+        title: 'Portfolio Updates',
+        prompt: `Summarize any updates on shared portfolio companies.`,
+        required: false,
+      },
+      {
+        id: 'collaboration',
+        title: 'Collaboration Opportunities',
+        prompt: `List ways to work together:
+- Co-investment opportunities
+- Intros to make`,
+        required: true,
+      },
+      {
+        id: 'takeaways',
+        title: 'Key Takeaways',
+        prompt: `Summarize the main insights from the conversation.`,
+        required: true,
+      },
+      {
+        id: 'follow-ups',
+        title: 'Follow-ups',
+        prompt: `List action items and next steps.`,
+        required: true,
+      },
+    ],
+  },
+  {
+    id: 'lp-meeting',
+    name: 'LP Meeting',
+    description: 'Meeting with limited partners (LPs) or fund investors',
+    detectionKeywords: [
+      'LP', 'limited partner', 'fund', 'commitment', 'allocation', 'DPI', 'TVPI',
+      'IRR', 'capital call', 'next fund', 'fund II', 'fund III',
+    ],
+    systemPrompt: `You are a VC fund manager documenting a meeting with a limited partner.
+Focus on the relationship, questions raised and what was promised.`,
+    memoPrompt: 'Generate an LP meeting memo.',
+    sections: [
+      {
+        id: 'overview',
+        title: 'Meeting Overview',
+        prompt: `Summarize the LP and the context of the meeting.`,
+        required: true,
+      },
+      {
+        id: 'fund-performance',
+        title: 'Fund Performance Discussion',
+        prompt: `Summarize the performance discussion:
+- Performance updates shared
+- Portfolio highlights`,
+        required: true,
+      },
+      {
+        id: 'lp-questions',
+        title: 'LP Questions/Concerns',
+        prompt: `List the questions raised and how concerns were addressed.`,
+        required: true,
+      },
+      {
+        id: 'relationship',
+        title: 'Relationship Status',
+        prompt: `Summarize the relationship:
+- Current investment level
+- Interest in future funds`,
+        required: true,
+      },
+      {
+        id: 'follow-ups',
+        title: 'Follow-ups',
+        prompt: `List information to send and next meeting plans.`,
+        required: true,
+      },
+    ],
+  },
+  {
+    id: 'board-meeting',
+    name: 'Board Meeting',
+    description: 'Board meeting or formal investor update',
+    detectionKeywords: [
+      'board', 'board meeting', 'resolution', 'approve', 'motion', 'quorum',
+      'minutes', 'budget', 'option pool', 'audit',
+    ],
+    systemPrompt: `You are a board member documenting a board meeting.
+Record decisions and resolutions precisely, and keep financials exact.`,
+    memoPrompt: 'Generate a board meeting memo.',
+    sections: [
+      {
+        id: 'overview',
+        title: 'Meeting Overview',
+        prompt: `Summarize the company and attendees.`,
+        required: true,
+      },
+      {
+        id: 'financials',
+        title: 'Financial Review',
+        prompt: `Summarize the financials:
+- Key financial metrics
+- Runway and burn`,
+        required: true,
+      },
+      {
+        id: 'business-update',
+        title: 'Business Update',
+        prompt: `Summarize the business update:
+- Progress on goals
+- Key wins and challenges`,
+        required: true,
+      },
+      {
+        id: 'strategy',
+        title: 'Strategic Discussions',
+        prompt: `Summarize strategic discussion:
+- Major decisions made
+- Strategic pivots or plans`,
+        required: true,
+      },
+      {
+        id: 'governance',
+        title: 'Governance Items',
+        prompt: `List formal resolutions and compliance matters.`,
+        required: false,
+      },
+      {
+        id: 'action-items',
+        title: 'Action Items',
+        prompt: `List board member follow-ups and management commitments.`,
+        required: true,
+      },
+    ],
+  },
+  {
+    id: 'partner-meeting',
+    name: 'Partner Meeting',
+    description: 'Partnership, BD, or collaboration discussions',
+    detectionKeywords: [
+      'partnership', 'partner', 'collaboration', 'integration', 'co-marketing',
+      'distribution', 'revenue share', 'channel', 'agreement', 'pilot',
+    ],
+    systemPrompt: `You are documenting a partnership or business development discussion.
+Focus on the proposal, its value, the terms and what blocks it.`,
+    memoPrompt: 'Generate a partnership discussion memo.',
+    sections: [
+      {
+        id: 'partner',
+        title: 'Partner Overview',
+        prompt: `Summarize the company/person and their focus.`,
+        required: true,
+      },
+      {
+        id: 'opportunity',
+        title: 'Partnership Opportunity',
+        prompt: `Summarize the proposal:
+- What was proposed
+- Potential value`,
         required: true,
       },
       {
-        id: 'support-needed',
-        title: 'Support Needed',
-        prompt: `Extract where they need investor support:
-- Introductions requested (customers, hires, investors)
-- Strategic advice needed
-- Operational help
-- Fundraising support
-- Other resources`,
+        id: 'terms',
+        title: 'Terms Discussed',
+        prompt: `Summarize key deal points and structure considerations.`,
+        required: false,
+      },
+      {
+        id: 'concerns',
+        title: 'Concerns',
+        prompt: `List risks or blockers.`,
         required: true,
       },
       {
-        id: 'outlook',
-        title: 'Outlook & Next Period',
-        prompt: `Summarize forward-looking items:
-- Goals for next quarter/month
-- Upcoming milestones
-- Fundraising timeline
-- Potential risks ahead
-- Key decisions pending`,
+        id: 'next-steps',
+        title: 'Next Steps',
+        prompt: `List follow-up actions and the decision timeline.`,
+        required: true,
+      },
+    ],
+  },
+  {
+    id: 'customer-call',
+    name: 'Customer Call',
+    description: 'Customer discovery, sales, or product feedback call',
+    detectionKeywords: [
+      'customer', 'client', 'user', 'feedback', 'feature request', 'bug',
+      'support', 'demo', 'onboarding', 'churn', 'renewal', 'upsell',
+      'product feedback', 'pain point', 'workflow',
+    ],
+    systemPrompt: `You are documenting a customer discovery call.
+Focus on actionable feedback, pain points, and willingness to pay.
+Identify patterns that could inform product or investment decisions.`,
+    memoPrompt: 'Generate a customer discovery memo.',
+    sections: [
+      {
+        id: 'customer',
+        title: 'Customer Overview',
+        prompt: `Summarize who they are:
+- Company, size and role of the person(s) on the call
+- Their use case and goals`,
+        required: true,
+      },
+      {
+        id: 'pain-points',
+        title: 'Key Pain Points',
+        prompt: `List the problems they're experiencing.`,
+        required: true,
+      },
+      {
+        id: 'current-solutions',
+        title: 'Current Solutions',
+        prompt: `Summarize what they use today and its limitations.`,
+        required: true,
+      },
+      {
+        id: 'feature-requests',
+        title: 'Feature Requests',
+        prompt: `List what they want, why they need it, and any workarounds they use today.`,
+        required: true,
+      },
+      {
+        id: 'willingness-to-pay',
+        title: 'Willingness to Pay',
+        prompt: `Summarize budget and urgency.`,
+        required: false,
+      },
+      {
+        id: 'next-steps',
+        title: 'Next Steps',
+        prompt: `List follow-ups and commitments from either side.`,
         required: true,
       },
     ],
@@ -259,69 +513,52 @@ Compare to previous period or targets if mentioned.`,
   {
     id: 'recruiting',
     name: 'Recruiting',
-    description: 'For candidate interviews and recruiting calls',
+    description: 'Interview or recruiting conversation',
     detectionKeywords: [
       'candidate', 'interview', 'hire', 'recruiting', 'resume', 'experience',
-      'role', 'position', 'offer', 'compensation', 'background check'
+      'role', 'position', 'offer', 'compensation', 'background check',
     ],
     systemPrompt: `You are a hiring manager documenting a candidate interview.
 Focus on qualifications, cultural fit, and hiring decision factors.
 Be objective and note both strengths and concerns.`,
+    memoPrompt: 'Generate a recruiting/interview memo.',
     sections: [
       {
-        id: 'candidate-profile',
-        title: 'Candidate Profile',
-        prompt: `Extract candidate information:
-- Name and current role/company
-- Years of experience
-- Educational background
-- Key skills and expertise
-- Why they're looking/interested`,
+        id: 'candidate',
+        title: 'Candidate Overview',
+        prompt: `Summarize the candidate:
+- Name, current role and background
+- Why they're looking`,
         required: true,
       },
       {
-        id: 'experience',
-        title: 'Relevant Experience',
-        prompt: `Summarize relevant experience:
-- Previous roles and responsibilities
-- Key achievements and impact
-- Skills demonstrated
-- Projects discussed
-- Domain expertise`,
+        id: 'strengths',
+        title: 'Strengths',
+        prompt: `List key qualifications and impressive experiences.`,
         required: true,
       },
       {
-        id: 'assessment',
-        title: 'Assessment',
-        prompt: `Evaluate the candidate:
-- Technical/skill fit (1-5 with notes)
-- Cultural fit observations
-- Communication and presence
-- Strengths highlighted
-- Concerns or gaps
-- Comparison to other candidates`,
+        id: 'concerns',
+        title: 'Concerns',
+        prompt: `List gaps, red flags and areas to probe further.`,
         required: true,
       },
       {
-        id: 'logistics',
-        title: 'Logistics & Expectations',
-        prompt: `Extract practical details:
-- Compensation expectations
-- Start date availability
-- Location/remote preferences
-- Other processes they're in
-- Timeline expectations`,
+        id: 'culture-fit',
+        title: 'Culture Fit',
+        prompt: `Assess fit with the team and how they communicate.`,
         required: true,
       },
       {
         id: 'recommendation',
         title: 'Recommendation',
-        prompt: `Provide hiring recommendation:
-- Overall recommendation (strong yes, yes, maybe, no)
-- Key reasons for recommendation
-- Next steps in process
-- Additional evaluations needed
-- Final decision factors`,
+        prompt: `Give the hiring recommendation (hire / no hire / next steps) and the reasons for it.`,
+        required: true,
+      },
+      {
+        id: 'follow-ups',
+        title: 'Follow-ups',
+        prompt: `List reference checks needed and next interview stages.`,
         required: true,
       },
     ],
@@ -329,77 +566,119 @@ Be objective and note both strengths and concerns.`,
   {
     id: 'internal',
     name: 'Internal Meeting',
-    description: 'For internal team meetings and planning sessions',
+    description: 'Internal team meeting, planning, or operations',
     detectionKeywords: [
       'team meeting', 'planning', 'strategy', 'internal', 'standup',
-      'retrospective', 'all-hands', 'offsite', 'roadmap', 'OKRs'
+      'retrospective', 'all-hands', 'offsite', 'roadmap', 'OKRs',
     ],
     systemPrompt: `You are documenting an internal team meeting.
 Focus on decisions made, action items, and key discussion points.
 Ensure clarity on ownership and timelines.`,
+    memoPrompt: 'Generate a meeting summary.',
     sections: [
       {
-        id: 'attendees',
-        title: 'Attendees',
-        prompt: `List meeting participants:
-- Names and roles of attendees
-- Who led/facilitated
-- Notable absences if mentioned`,
-        required: false,
+        id: 'purpose',
+        title: 'Meeting Purpose',
+        prompt: `Summarize why we met.`,
+        required: true,
       },
       {
-        id: 'agenda',
-        title: 'Topics Discussed',
-        prompt: `Summarize main discussion topics:
-- Agenda items covered
-- Key points for each topic
-- Time spent on major items
-- Items tabled or deferred`,
+        id: 'discussion',
+        title: 'Key Discussion Points',
+        prompt: `Summarize the main topics covered.`,
         required: true,
       },
       {
         id: 'decisions',
         title: 'Decisions Made',
-        prompt: `Document all decisions:
-- Specific decisions reached
-- Rationale for each decision
-- Stakeholders affected
-- Any dissenting opinions noted`,
+        prompt: `List what was decided, with the rationale when given.`,
         required: true,
       },
       {
         id: 'action-items',
         title: 'Action Items',
-        prompt: `Extract all action items:
-- Task description
-- Owner assigned
-- Due date if set
-- Priority level
-- Dependencies
-Format as a clear list with owners.`,
+        prompt: `List who does what by when.`,
         required: true,
       },
       {
-        id: 'follow-up',
-        title: 'Follow-Up',
-        prompt: `Note follow-up items:
-- Next meeting scheduled
-- Items to revisit
-- Information to gather
-- Stakeholders to inform`,
+        id: 'next-steps',
+        title: 'Next Steps',
+        prompt: `List the next meeting and items to revisit.`,
         required: true,
       },
     ],
   },
-]
+  {
+    id: 'networking',
+    name: 'Networking',
+    description: 'General networking, relationship building, or informal catch-up',
+    detectionKeywords: [
+      'catch up', 'coffee', 'introduce', 'connect', 'network', 'how have you been',
+      'keep in touch', 'mutual', 'intro',
+    ],
+    systemPrompt: `You are a VC documenting a networking conversation.
+Capture who the person is, what they shared, and how you could help each other.`,
+    memoPrompt: 'Generate a networking meeting memo.',
+    sections: [
+      {
+        id: 'overview',
+        title: 'Meeting Overview',
+        prompt: `Summarize who met and the context.`,
+        required: true,
+      },
+      {
+        id: 'topics',
+        title: 'Key Topics Discussed',
+        prompt: `Summarize the main conversation themes.`,
+        required: true,
+      },
+      {
+        id: 'insights',
+        title: 'Interesting Insights',
+        prompt: `List valuable information shared.`,
+        required: true,
+      },
+      {
+        id: 'opportunities',
+        title: 'Potential Opportunities',
+        prompt: `List ways to collaborate or help each other.`,
+        required: true,
+      },
+      {
+        id: 'follow-ups',
+        title: 'Follow-ups',
+        prompt: `List intros to make, information to share and next steps.`,
+        required: true,
+      },
+    ],
+  },
+] as const satisfies readonly MemoTemplate[]
+
+export type MeetingType = (typeof TEMPLATES)[number]['id']
+
+export const MEMO_TEMPLATES: readonly MemoTemplate[] = TEMPLATES
 
 // Create a lookup map for quick access
-export const TEMPLATE_MAP = new Map(
+export const TEMPLATE_MAP = new Map<string, MemoTemplate>(
   MEMO_TEMPLATES.map(template => [template.id, template])
 )
 
 // Default template for unclassified meetings
-export const DEFAULT_TEMPLATE = MEMO_TEMPLATES.find(t => t.id === 'internal')!
+export const DEFAULT_TEMPLATE = TEMPLATE_MAP.get('internal')!
+
+/**
+ * Whether a string is one of the registered meeting types
+ */
+export function isMeetingType(value: string): value is MeetingType {
+  return TEMPLATE_MAP.has(value)
+}
+
+/**
+ * The meeting type a template is written for
+ */
+export function templateMeetingType(template: MemoTemplate): string {
+  return template.meetingType || template.id
+}
 
 /**
  * Get a template by ID
@@ -411,8 +690,18 @@ export function getTemplateById(id: string): MemoTemplate {
 /**
  * Get all available templates
  */
-export function getAllTemplates(): MemoTemplate[] {
+export function getAllTemplates(): readonly MemoTemplate[] {
   return MEMO_TEMPLATES
 }
 
-export type MeetingType = 'founder-pitch' | 'customer-call' | 'portfolio-update' | 'recruiting' | 'internal'
+/**
+ * The memo generation prompt for a template: its opening instruction and
+ * every section as a heading with what belongs under it
+ */
+export function buildMemoPrompt(template: MemoTemplate): string {
+  const sections = template.sections.map(section =>
+    `## ${section.title}\n${section.required ? '' : '(Optional: leave this section out if it was not discussed)\n'}${section.prompt}`
+  )
+
+  return `${template.memoPrompt} Include these sections:\n\n${sections.join('\n\n')}`
+}
@@ -0,0 +1,180 @@
+import type { createAdminClient } from '@/lib/supabase/server'
+
+/**
+ * Stored Transcripts
+ *
+ * Every memo keeps the transcript it was generated from as a list of
+ * utterances. Fireflies gives us speakers and timings directly; pasted or
+ * uploaded text is parsed from "Speaker: text" lines, with timings when the
+ * line carries a timestamp.
+ */
+
+export interface Utterance {
+  speaker: string
+  text: string
+  // Seconds from the start of the meeting, when known
+  start: number | null
+  end: number | null
+}
+
+export interface StoredTranscript {
+  id: string
+  memo_id: string
+  source: string
+  source_id: string | null
+  title: string | null
+  meeting_date: string | null
+  participants: string[]
+  utterances: Utterance[]
+  text: string
+  created_at: string
+}
+
+const UNKNOWN_SPEAKER = 'Unknown'
+
+// "[00:12:34]", "00:12:34", "(12:34)" at the start of a line
+const LEADING_TIMESTAMP = /^[[(]?((?:\d{1,2}:)?\d{1,2}:\d{2})[\])]?\s*[-–]?\s*/
+// "Speaker Name:" or "Speaker Name (12:34):" - short, no sentence punctuation
+const SPEAKER_PREFIX = /^([^:.!?\n]{1,60}?)(?:\s*[[(]((?:\d{1,2}:)?\d{1,2}:\d{2})[\])])?:\s+(.*)$/
+
+/**
+ * "1:02:03" / "02:03" → seconds
+ */
+export function parseTimestamp(value: string): number {
+  return value.split(':').reduce((total, part) => total * 60 + Number(part), 0)
+}
+
+/**
+ * Seconds → "1:02:03" / "2:03"
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = total % 60
+  const mm = h > 0 ? String(m).padStart(2, '0') : String(m)
+  return `${h > 0 ? `${h}:` : ''}${mm}:${String(s).padStart(2, '0')}`
+}
+
+/**
+ * Parse plain transcript text into utterances. Lines without a speaker
+ * continue the previous utterance.
+ */
+export function parseTranscriptText(text: string): Utterance[] {
+  const utterances: Utterance[] = []
+
+  for (const rawLine of text.split('\n')) {
+    let line = rawLine.trim()
+    if (!line) continue
+
+    let start: number | null = null
+    const timestamp = line.match(LEADING_TIMESTAMP)
+    if (timestamp) {
+      start = parseTimestamp(timestamp[1])
+      line = line.slice(timestamp[0].length)
+    }
+
+    const speakerMatch = line.match(SPEAKER_PREFIX)
+    if (speakerMatch) {
+      if (speakerMatch[2]) start = parseTimestamp(speakerMatch[2])
+      utterances.push({ speaker: speakerMatch[1].trim(), text: speakerMatch[3].trim(), start, end: null })
+    } else if (utterances.length > 0 && start === null) {
+      utterances[utterances.length - 1].text += ` ${line}`
+    } else {
+      utterances.push({ speaker: UNKNOWN_SPEAKER, text: line, start, end: null })
+    }
+  }
+
+  // Without explicit end times, an utterance ends where the next one starts
+  for (let i = 0; i < utterances.length - 1; i++) {
+    if (utterances[i].start !== null && utterances[i].end === null && utterances[i + 1].start !== null) {
+      utterances[i].end = utterances[i + 1].start
+    }
+  }
+
+  return utterances
+}
+
+/**
+ * Utterances → the "Speaker: text" form the extractors work on
+ */
+export function utterancesToText(utterances: Utterance[]): string {
+  return utterances.map(u => `${u.speaker}: ${u.text}`).join('\n')
+}
+
+/**
+ * Distinct speakers in order of first appearance
+ */
+export function getSpeakers(utterances: Utterance[]): string[] {
+  return Array.from(new Set(utterances.map(u => u.speaker)))
+}
+
+/**
+ * Load the transcript stored for a memo. Older rows saved without
+ * utterances are parsed from their text.
+ */
+export async function getTranscriptForMemo(
+  client: ReturnType<typeof createAdminClient>,
+  memoId: string
+): Promise<StoredTranscript | null> {
+  const { data } = await (client
+    .from('transcripts') as ReturnType<typeof client.from>)
+    .select('id, memo_id, source, source_id, title, meeting_date, participants, utterances, text, created_at')
+    .eq('memo_id', memoId)
+    .maybeSingle() as { data: StoredTranscript | null }
+
+  if (!data) return null
+
+  const utterances = Array.isArray(data.utterances) && data.utterances.length > 0
+    ? data.utterances
+    : parseTranscriptText(data.text || '')
+
+  return { ...data, participants: data.participants || [], utterances }
+}
+
+const STOPWORDS = new Set([
+  'that', 'this', 'with', 'from', 'have', 'they', 'their', 'there', 'were', 'will', 'would', 'about',
+  'been', 'what', 'when', 'which', 'into', 'also', 'more', 'than', 'them', 'then', 'some', 'just',
+  'like', 'your', 'said', 'says', 'very', 'really', 'going', 'think', 'know', 'yeah', 'okay',
+  'meeting', 'discussed', 'mentioned', 'noted',
+])
+
+function keywords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9$%.']+/g) || [])
+    .map(word => word.replace(/^[.']+|[.']+$/g, ''))
+    .filter(word => (word.length >= 4 || /\d/.test(word)) && !STOPWORDS.has(word))
+}
+
+/**
+ * Best guess at where in the transcript a memo line came from: the utterance
+ * sharing the most keywords with the line, numbers counting double. Words
+ * found only in the following utterance count half, for points made across
+ * two sentences. Null when nothing is a convincing match.
+ */
+export function findSourceUtterance(line: string, utterances: Utterance[]): number | null {
+  const lineWords = Array.from(new Set(keywords(line)))
+  if (lineWords.length === 0) return null
+
+  const weight = (word: string) => (/\d/.test(word) ? 2 : 1)
+  const maxScore = lineWords.reduce((sum, word) => sum + weight(word), 0)
+  const utteranceWords = utterances.map(u => new Set(keywords(u.text)))
+  let best: number | null = null
+  let bestScore = 0
+
+  for (let i = 0; i < utterances.length; i++) {
+    let score = 0
+    for (const word of lineWords) {
+      if (utteranceWords[i].has(word)) {
+        score += weight(word)
+      } else if (utteranceWords[i + 1]?.has(word)) {
+        score += weight(word) / 2
+      }
+    }
+    if (score > bestScore) {
+      best = i
+      bestScore = score
+    }
+  }
+
+  return bestScore / maxScore >= 0.3 ? best : null
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { countUnverifiedClaims, verifyMemoContent } from './verification'
+
+const TRANSCRIPT = `Priya Shah: We closed last year at two point four million in ARR.
+Alex Rivera: And the raise?
+Priya Shah: We're raising 5 million, and burn is around 180k a month.
+Priya Shah: Gross margin is 71.2% and we grew 3.37x since the seed.`
+
+function verify(content: string) {
+  return verifyMemoContent(content, TRANSCRIPT, ['Lumen Labs pitch', 'Priya Shah', 'Alex Rivera'])
+}
+
+describe('verifyMemoContent', () => {
+  it('matches figures to numbers spoken as words', () => {
+    const result = verify('- ARR of $2.4M at the end of last year')
+
+    expect(result.unverified).toEqual([])
+    expect(result.content).toBe('- ARR of $2.4M at the end of last year')
+  })
+
+  it('allows rounding within 2.5% of what was said', () => {
+    expect(verify('- Gross margin of 71%').unverified).toEqual([])
+    expect(verify('- Grew 3.4x since the seed').unverified).toEqual([])
+    expect(verify('- Burn of $184K per month').unverified).toEqual([])
+
+    expect(verify('- Burn of $190K per month').unverified).toEqual([{ lineIndex: 0, text: '$190K', kind: 'number' }])
+  })
+
+  it('flags a figure nobody said', () => {
+    const result = verify('- Raising $5M at a $40M valuation')
+
+    expect(result.unverified.map(c => c.text)).toEqual(['$40M'])
+    expect(result.content).toBe('- Raising $5M at a $40M valuation [unverified: $40M]')
+  })
+
+  it('leaves list counts, small numbers and years alone', () => {
+    const result = verify('1. The top 3 risks for 2025 are below')
+
+    expect(result.unverified).toEqual([])
+    expect(result.checked).toBe(0)
+  })
+
+  it('does not treat capitalized vocabulary as names', () => {
+    const result = verify('- Strong ARR growth ahead of the Series A; Next Steps: CEO intro in March')
+
+    expect(result.unverified).toEqual([])
+  })
+
+  it('flags names that are not in the transcript', () => {
+    const result = verify('- Priya Shah previously worked at Stripe')
+
+    expect(result.unverified).toEqual([{ lineIndex: 0, text: 'Stripe', kind: 'entity' }])
+  })
+
+  it('gives the same result when verifying flagged content again', () => {
+    const first = verify('## Financials\n- Raising $5M at a $40M valuation\n- Intro to Sequoia next week')
+    const second = verify(first.content)
+
+    expect(second.content).toBe(first.content)
+    expect(second.unverified).toEqual(first.unverified)
+    expect(countUnverifiedClaims(second.content)).toBe(2)
+  })
+})
@@ -0,0 +1,253 @@
+/**
+ * Memo Verification
+ *
+ * The memo model sometimes invents numbers (ARR, growth rates, raise sizes,
+ * valuations) or names nobody said. After generation every numeric claim and
+ * named entity in the memo is looked up in the transcript. Lines with
+ * something that can't be found get an inline "[unverified: ...]" flag, and
+ * the count goes into memo metadata so those memos get a human read.
+ */
+
+export interface UnverifiedClaim {
+  lineIndex: number
+  text: string
+  kind: 'number' | 'entity'
+}
+
+export interface VerificationResult {
+  // Memo content with unverified lines flagged
+  content: string
+  unverified: UnverifiedClaim[]
+  // Numbers and entities looked up
+  checked: number
+}
+
+interface NumberMention {
+  raw: string
+  // Full value, scale applied ("$2.4M" → 2400000)
+  value: number
+  // Value as written, without the scale word ("$2.4M" → 2.4)
+  base: number
+  scaled: boolean
+  // 'bare' for a plain number with no currency, scale or unit
+  unit: 'percent' | 'multiple' | 'amount' | 'bare'
+}
+
+const FLAG = /\s*\[unverified: ([^\]]*)\]/
+const HEADER = /^\s*#{1,6}\s/
+const BULLET = /^\s*([-*•]|\d+[.)])\s+/
+
+const SCALES: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mm: 1e6, mn: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+}
+
+const NUMBER_PATTERN = /(?<![\w.])([$€£])?\s?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s?(k|mm|mn|m|bn|b|thousand|million|billion|%|percent|x|times)?(?!\w)/gi
+const DATE_PATTERN = /\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/g
+
+// Rounding slack between what was said and what the memo wrote ("2.37M" → "$2.4M")
+const TOLERANCE = 0.025
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+}
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+}
+const NUMBER_WORD = `(?:${[...Object.keys(SMALL_NUMBERS), ...Object.keys(TENS), 'hundred'].join('|')})`
+const SPOKEN_NUMBER = new RegExp(`\\b${NUMBER_WORD}(?:[\\s-]+(?:${NUMBER_WORD}|point(?=[\\s-]+${NUMBER_WORD})))*\\b`, 'gi')
+
+// Capitalized words that are vocabulary, not names
+const COMMON_CAPITALIZED = new Set([
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october',
+  'november', 'december', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'arr', 'mrr', 'gmv', 'cac', 'ltv', 'nps', 'tam', 'sam', 'som', 'kpi', 'kpis', 'okr', 'okrs', 'roi', 'ebitda',
+  'ceo', 'cto', 'cfo', 'coo', 'cpo', 'cro', 'vp', 'svp', 'evp', 'vc', 'vcs', 'pe', 'lp', 'lps', 'gp', 'gps',
+  'ai', 'ml', 'llm', 'llms', 'api', 'apis', 'saas', 'b2b', 'b2c', 'gtm', 'mvp', 'pmf', 'ipo', 'hr', 'it',
+  'yoy', 'mom', 'qoq', 'q1', 'q2', 'q3', 'q4', 'h1', 'h2', 'fy', 'us', 'usa', 'uk', 'eu',
+  'series', 'seed', 'pre', 'post', 'round', 'safe', 'tbd', 'none', 'n/a', 'yes', 'no', 'pass', 'invest',
+  'next', 'steps', 'key', 'strong', 'weak', 'high', 'medium', 'low', 'positive', 'negative', 'neutral',
+])
+
+/**
+ * Memo text without verification flags (what citations and edits key on)
+ */
+export function stripVerificationFlags(text: string): string {
+  return text.replace(new RegExp(FLAG.source, 'g'), '')
+}
+
+/**
+ * Split a memo line into its text and the claims its flag lists (null when unflagged)
+ */
+export function splitVerificationFlag(line: string): { text: string; unverified: string[] | null } {
+  const match = line.match(FLAG)
+  if (!match) return { text: line, unverified: null }
+  return {
+    text: stripVerificationFlags(line),
+    unverified: match[1].split(',').map(item => item.trim()).filter(Boolean),
+  }
+}
+
+/**
+ * Claims still flagged in memo content; drops as a reviewer removes flags
+ */
+export function countUnverifiedClaims(content: string): number {
+  return content
+    .split('\n')
+    .reduce((count, line) => count + (splitVerificationFlag(line).unverified?.length || 0), 0)
+}
+
+/**
+ * "two point four million", "a million", "doubled" → "2.4 million", "1 million", "2x"
+ */
+function spokenNumbersToDigits(text: string): string {
+  return text
+    .replace(/\bhalf an? (thousand|million|billion)\b/gi, '0.5 $1')
+    .replace(/\ba hundred\b/gi, 'one hundred')
+    .replace(/\ba (thousand|million|billion)\b/gi, '1 $1')
+    .replace(/\b(doubl|tripl|quadrupl)\w*/gi, (word) => {
+      const stem = word.toLowerCase().slice(0, 5)
+      return stem === 'doubl' ? '2x' : stem === 'tripl' ? '3x' : '4x'
+    })
+    .replace(SPOKEN_NUMBER, (run) => {
+      const words = run.toLowerCase().split(/[\s-]+/)
+      const pointAt = words.indexOf('point')
+      const whole = pointAt === -1 ? words : words.slice(0, pointAt)
+      const decimals = pointAt === -1 ? [] : words.slice(pointAt + 1)
+
+      let total = 0
+      for (const word of whole) {
+        if (word === 'hundred') total = (total || 1) * 100
+        else total += SMALL_NUMBERS[word] ?? TENS[word] ?? 0
+      }
+
+      const fraction = decimals.map(word => String(SMALL_NUMBERS[word] ?? '')).join('')
+      return fraction ? `${total}.${fraction}` : String(total)
+    })
+}
+
+function parseNumbers(text: string): NumberMention[] {
+  const mentions: NumberMention[] = []
+
+  for (const match of Array.from(text.replace(DATE_PATTERN, ' ').matchAll(NUMBER_PATTERN))) {
+    const [raw, currency, digits, rawUnit] = match
+    const base = Number(digits.replace(/,/g, ''))
+    if (isNaN(base)) continue
+
+    const unit = rawUnit?.toLowerCase()
+    const scale = unit ? SCALES[unit] : undefined
+    mentions.push({
+      raw: raw.trim(),
+      value: base * (scale || 1),
+      base,
+      scaled: !!scale,
+      unit: unit === '%' || unit === 'percent'
+        ? 'percent'
+        : unit === 'x' || unit === 'times'
+          ? 'multiple'
+          : currency || scale ? 'amount' : 'bare',
+    })
+  }
+
+  return mentions
+}
+
+/**
+ * Numbers worth checking: skips years and bare single digits ("top 3 risks"),
+ * which are memo phrasing more often than claims
+ */
+function isCheckableNumber(mention: NumberMention): boolean {
+  if (mention.unit !== 'bare' || !Number.isInteger(mention.base)) return true
+  return mention.base >= 10 && (mention.base < 1900 || mention.base > 2100)
+}
+
+function isClose(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * TOLERANCE
+}
+
+function numberIsSupported(claim: NumberMention, spoken: NumberMention[]): boolean {
+  return spoken.some(said =>
+    (said.unit === claim.unit || said.unit === 'bare' || claim.unit === 'bare') && (
+      isClose(claim.value, said.value) ||
+      // "we're at 2.4 in ARR" with the scale implied
+      (!said.scaled && isClose(claim.base, said.base))
+    )
+  )
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(token => token.length > 1)
+}
+
+/**
+ * Capitalized phrases that look like names. A phrase starting a sentence
+ * loses its first word, which is capitalized anyway.
+ */
+function extractEntities(line: string): Array<{ phrase: string; words: string[] }> {
+  const text = line.replace(/[*_`]/g, '')
+  const entities: Array<{ phrase: string; words: string[] }> = []
+
+  for (const match of Array.from(text.matchAll(/\b[A-Z][A-Za-z0-9&'’-]*(?:\s+[A-Z][A-Za-z0-9&'’-]*)*/g))) {
+    const before = text.slice(0, match.index)
+    const words = match[0].split(/\s+/)
+    if (!before.trim() || /[.!?;(\-–—]\s*$/.test(before)) words.shift()
+
+    const checked = words.filter(word => !COMMON_CAPITALIZED.has(word.toLowerCase()) && tokenize(word).length > 0)
+    if (checked.length > 0) entities.push({ phrase: match[0], words: checked })
+  }
+
+  return entities
+}
+
+function entityIsSupported(words: string[], vocabulary: Set<string>): boolean {
+  return words.every(word =>
+    tokenize(word).every(token => vocabulary.has(token) || (token.endsWith('s') && vocabulary.has(token.slice(0, -1))))
+  )
+}
+
+/**
+ * Check every number and named entity in the memo against the transcript.
+ * `knownNames` (meeting title, participant names) also count as support.
+ */
+export function verifyMemoContent(content: string, transcript: string, knownNames: string[] = []): VerificationResult {
+  const source = spokenNumbersToDigits(`${transcript}\n${knownNames.join('\n')}`)
+  const spoken = parseNumbers(source)
+  const vocabulary = new Set(tokenize(source))
+
+  const unverified: UnverifiedClaim[] = []
+  let checked = 0
+
+  const lines = content.split('\n').map((rawLine, lineIndex) => {
+    const line = stripVerificationFlags(rawLine)
+    if (!line.trim() || HEADER.test(line)) return line
+
+    const text = line.replace(BULLET, '')
+    const missing: UnverifiedClaim[] = []
+
+    for (const mention of parseNumbers(text)) {
+      if (!isCheckableNumber(mention)) continue
+      checked++
+      if (!numberIsSupported(mention, spoken)) {
+        missing.push({ lineIndex, text: mention.raw, kind: 'number' })
+      }
+    }
+
+    for (const entity of extractEntities(text)) {
+      checked++
+      if (!entityIsSupported(entity.words, vocabulary)) {
+        missing.push({ lineIndex, text: entity.phrase, kind: 'entity' })
+      }
+    }
+
+    const distinct = missing.filter((claim, i) => missing.findIndex(c => c.text === claim.text) === i)
+    if (distinct.length === 0) return line
+
+    unverified.push(...distinct)
+    return `${line} [unverified: ${distinct.map(c => c.text.replace(/[\],]/g, '')).join(', ')}]`
+  })
+
+  return { content: lines.join('\n'), unverified, checked }
+}
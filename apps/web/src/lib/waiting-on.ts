@@ -0,0 +1,94 @@
+import type { createAdminClient } from '@/lib/supabase/server'
+
+/**
+ * Waiting On
+ *
+ * Reminders with owner 'them' are promises the other side made ("founder
+ * will send the data room"): they're tracked, not worked on. Once one goes
+ * overdue it gets a nudge, a reminder owned by the user to chase it.
+ * Reminders without an owner predate owner attribution and count as the
+ * user's own.
+ */
+
+export type ReminderOwner = 'me' | 'them'
+
+// PostgREST filter for the user's own reminders
+export const OWNED_BY_ME_FILTER = 'owner.is.null,owner.eq.me'
+
+interface OverdueItem {
+  id: string
+  user_id: string
+  title: string
+  priority: string
+  contact_id: string | null
+  company_id: string | null
+  memo_id: string | null
+  contacts: { name: string } | null
+  companies: { name: string } | null
+}
+
+/**
+ * Create a nudge for every owed-to-me reminder that is past due and hasn't
+ * been nudged yet. Without a userId, runs for every user (the daily cron).
+ * Returns the number of nudges created.
+ */
+export async function createOverdueNudges(
+  adminClient: ReturnType<typeof createAdminClient>,
+  userId?: string
+): Promise<number> {
+  let query = (adminClient
+    .from('reminders') as ReturnType<typeof adminClient.from>)
+    .select('id, user_id, title, priority, contact_id, company_id, memo_id, contacts (name), companies (name)')
+    .eq('owner', 'them')
+    .eq('status', 'pending')
+    .lt('due_date', new Date().toISOString())
+    .or('snoozed_until.is.null,snoozed_until.lte.now()')
+
+  if (userId) {
+    query = query.eq('user_id', userId)
+  }
+
+  const { data: overdue, error } = await query as { data: OverdueItem[] | null; error: { message?: string } | null }
+  if (error) {
+    throw new Error(error.message || 'Failed to load overdue items')
+  }
+  if (!overdue || overdue.length === 0) return 0
+
+  // A dismissed nudge stays dismissed: any existing nudge counts
+  const { data: existing } = await (adminClient
+    .from('reminders') as ReturnType<typeof adminClient.from>)
+    .select('nudge_for')
+    .in('nudge_for', overdue.map(r => r.id)) as { data: Array<{ nudge_for: string }> | null }
+
+  const nudged = new Set((existing || []).map(r => r.nudge_for))
+  const today = new Date().toISOString().split('T')[0]
+  let created = 0
+
+  for (const item of overdue.filter(r => !nudged.has(r.id))) {
+    const who = item.contacts?.name || item.companies?.name || 'them'
+    const { error: insertError } = await (adminClient
+      .from('reminders') as ReturnType<typeof adminClient.from>)
+      .insert({
+        user_id: item.user_id,
+        contact_id: item.contact_id,
+        company_id: item.company_id,
+        memo_id: item.memo_id,
+        type: 'nudge',
+        owner: 'me',
+        nudge_for: item.id,
+        title: `Nudge ${who}: ${item.title}`.slice(0, 255),
+        context: `${who} hasn't delivered this yet and it's past due.`,
+        due_date: today,
+        priority: item.priority,
+        status: 'pending',
+      } as never) as { error: unknown }
+
+    if (insertError) {
+      console.error(`[Waiting On] Failed to create nudge for ${item.id}:`, insertError)
+    } else {
+      created++
+    }
+  }
+
+  return created
+}
@@ -0,0 +1,248 @@
+import { randomUUID } from 'crypto'
+import type { createAdminClient } from '@/lib/supabase/server'
+
+/**
+ * In-memory Supabase client for tests
+ *
+ * Covers the query builder calls the app makes: select/insert/update/upsert/
+ * delete with eq, neq, in, is, gt/gte/lt/lte, order, limit, single and
+ * maybeSingle. Selected columns and embedded relations are ignored (whole
+ * rows come back); `or` and `not` filters are not applied. RPCs resolve to
+ * `rpcResults[name]`, or null.
+ */
+
+type Row = Record<string, unknown>
+type Filter = (row: Row) => boolean
+
+export interface FakeSupabase {
+  tables: Record<string, Row[]>
+  rpcCalls: Array<{ name: string; args: unknown }>
+  rpcResults: Record<string, unknown>
+  client: ReturnType<typeof createAdminClient>
+}
+
+function readColumn(row: Row, column: string): unknown {
+  // "metadata->>job_id"
+  const [base, ...path] = column.split(/->>?/)
+  return path.reduce<unknown>((value, key) => (value as Row | null)?.[key], row[base])
+}
+
+function compare(a: unknown, b: unknown): number {
+  return String(a ?? '').localeCompare(String(b ?? ''))
+}
+
+class Query implements PromiseLike<{ data: unknown; error: unknown; count?: number }> {
+  private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select'
+  private values: Row[] = []
+  private patch: Row = {}
+  private upsertOptions: { onConflict?: string; ignoreDuplicates?: boolean } = {}
+  private filters: Filter[] = []
+  private ordering: Array<{ column: string; ascending: boolean }> = []
+  private maxRows: number | null = null
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many'
+  private returning = false
+
+  constructor(private readonly db: FakeSupabase, private readonly table: string) {}
+
+  private get rows(): Row[] {
+    return (this.db.tables[this.table] ||= [])
+  }
+
+  select() {
+    this.returning = true
+    return this
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert'
+    this.values = Array.isArray(values) ? values : [values]
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.action = 'upsert'
+    this.values = Array.isArray(values) ? values : [values]
+    this.upsertOptions = options
+    return this
+  }
+
+  update(patch: Row) {
+    this.action = 'update'
+    this.patch = patch
+    return this
+  }
+
+  delete() {
+    this.action = 'delete'
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => readColumn(row, column) === value)
+    return this
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push(row => readColumn(row, column) !== value)
+    return this
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(readColumn(row, column)))
+    return this
+  }
+
+  is(column: string, value: unknown) {
+    this.filters.push(row => (readColumn(row, column) ?? null) === value)
+    return this
+  }
+
+  gt(column: string, value: unknown) {
+    this.filters.push(row => compare(readColumn(row, column), value) > 0)
+    return this
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push(row => compare(readColumn(row, column), value) >= 0)
+    return this
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push(row => compare(readColumn(row, column), value) < 0)
+    return this
+  }
+
+  lte(column: string, value: unknown) {
+    this.filters.push(row => compare(readColumn(row, column), value) <= 0)
+    return this
+  }
+
+  filter(column: string, operator: string, value: unknown) {
+    if (operator === 'eq') return this.eq(column, value)
+    if (operator === 'neq') return this.neq(column, value)
+    if (operator === 'is') return this.is(column, value)
+    return this
+  }
+
+  or() {
+    return this
+  }
+
+  not() {
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.ordering.push({ column, ascending: options.ascending !== false })
+    return this
+  }
+
+  limit(count: number) {
+    this.maxRows = count
+    return this
+  }
+
+  single() {
+    this.mode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle'
+    return this
+  }
+
+  private matching(): Row[] {
+    return this.rows.filter(row => this.filters.every(filter => filter(row)))
+  }
+
+  private newRow(values: Row): Row {
+    return { id: randomUUID(), created_at: new Date().toISOString(), ...values }
+  }
+
+  private run(): Row[] {
+    switch (this.action) {
+      case 'insert': {
+        const inserted = this.values.map(values => this.newRow(values))
+        this.rows.push(...inserted)
+        return inserted
+      }
+      case 'upsert': {
+        const keys = (this.upsertOptions.onConflict || 'id').split(',').map(key => key.trim())
+        return this.values.flatMap(values => {
+          const existing = this.rows.find(row => keys.every(key => values[key] !== undefined && row[key] === values[key]))
+          if (existing) {
+            if (this.upsertOptions.ignoreDuplicates) return []
+            Object.assign(existing, values)
+            return [existing]
+          }
+          const row = this.newRow(values)
+          this.rows.push(row)
+          return [row]
+        })
+      }
+      case 'update': {
+        const updated = this.matching()
+        updated.forEach(row => Object.assign(row, this.patch))
+        return updated
+      }
+      case 'delete': {
+        const deleted = this.matching()
+        this.db.tables[this.table] = this.rows.filter(row => !deleted.includes(row))
+        return deleted
+      }
+      default: {
+        let rows = this.matching()
+        for (const { column, ascending } of [...this.ordering].reverse()) {
+          rows = [...rows].sort((a, b) => compare(readColumn(a, column), readColumn(b, column)) * (ascending ? 1 : -1))
+        }
+        return this.maxRows === null ? rows : rows.slice(0, this.maxRows)
+      }
+    }
+  }
+
+  private result(): { data: unknown; error: unknown; count?: number } {
+    const rows = this.run().map(row => ({ ...row }))
+    if (this.mode === 'single') {
+      return rows.length === 1
+        ? { data: rows[0], error: null }
+        : { data: null, error: { message: `Expected one row, found ${rows.length}` } }
+    }
+    if (this.mode === 'maybeSingle') {
+      return { data: rows[0] || null, error: null }
+    }
+    if (this.action !== 'select' && !this.returning) {
+      return { data: null, error: null }
+    }
+    return { data: rows, error: null, count: rows.length }
+  }
+
+  then<TResult1 = { data: unknown; error: unknown; count?: number }, TResult2 = never>(
+    onfulfilled?: ((value: { data: unknown; error: unknown; count?: number }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.result()).then(onfulfilled, onrejected)
+  }
+}
+
+/**
+ * A fresh fake database, optionally seeded with rows per table
+ */
+export function createFakeSupabase(seed: Record<string, Row[]> = {}): FakeSupabase {
+  const db: FakeSupabase = {
+    tables: Object.fromEntries(Object.entries(seed).map(([table, rows]) => [table, rows.map(row => ({ ...row }))])),
+    rpcCalls: [],
+    rpcResults: {},
+    client: null as unknown as ReturnType<typeof createAdminClient>,
+  }
+
+  db.client = {
+    from: (table: string) => new Query(db, table),
+    rpc: async (name: string, args: unknown) => {
+      db.rpcCalls.push({ name, args })
+      return { data: db.rpcResults[name] ?? null, error: null }
+    },
+  } as unknown as ReturnType<typeof createAdminClient>
+
+  return db
+}